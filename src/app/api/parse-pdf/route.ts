@@ -38,6 +38,11 @@ function buildSystemPrompt(variableCostItems: string[]): string {
 - 労務費の区分: 製造労務費、直接労務費、間接労務費、賞与 など
 - 経費の区分: 外注費、減価償却費、水道光熱費、修繕費、保険料、賃借料、租税公課、消耗品費 など
   → ★製造原価報告書の「経費」区分の科目を1つも漏らさないこと
+- 棚卸高: 期首材料棚卸高、期末材料棚卸高、期首仕掛品棚卸高、期末仕掛品棚卸高
+
+**B-2. 売上原価の区分:**
+- 期首製品棚卸高、当期製品製造原価、期末製品棚卸高
+- 期首商品棚卸高、当期商品仕入高、期末商品棚卸高
 
 **C. 販売費及び一般管理費:**
 - 人件費関連: 役員報酬、給与（給料手当）、雑給、法定福利費、福利厚生費、賞与、賞与引当金繰入額 など
@@ -51,6 +56,11 @@ function buildSystemPrompt(variableCostItems: string[]): string {
 
 **E. 経常利益**（決算書に記載されている数値）
 
+**F. 特別損益・税金:**
+- 特別利益: 固定資産売却益、投資有価証券売却益、補助金収入 など
+- 特別損失: 固定資産売却損・除却損、減損損失 など
+- 法人税、住民税及び事業税、法人税等調整額
+
 ### 【STEP 3】各科目を分類する
 STEP 2でリストアップした各科目を、以下のルールに従って分類してください：
 
@@ -58,9 +68,20 @@ STEP 2でリストアップした各科目を、以下のルールに従って
   → 上記に該当する科目は、製造原価報告書・販管費のどちらに記載されていても、必ず**otherVariableCost**に分類する
   → otherExpenses（その他経費）に入れてはならない
 
-● **materialCost（材料費）:** 原材料費、材料仕入高、原材料仕入高
+● **materialCost（材料費）:** 当期材料仕入高、原材料仕入高
+  → 期首・期末の材料棚卸高が記載されている場合は、棚卸高を差し引く前の「当期仕入高」を使う
+  → 仕入高の記載がなく材料費（消費高）のみの場合はその金額を使い、材料の棚卸高はnullにする
 ● **outsourcingCost（外注費）:** 外注費、外注加工費、外注工賃
-● **merchandisePurchase（商品仕入）:** 商品仕入高
+● **merchandisePurchase（商品仕入）:** 当期商品仕入高
+● **extraordinaryIncome（特別利益）:** 特別利益の合計
+● **extraordinaryLoss（特別損失）:** 特別損失の合計
+● **corporateTax（法人税等）:** 法人税、住民税及び事業税 ＋ 法人税等調整額（調整額がマイナスなら減算）
+  → 特別損益・法人税等は経常利益の検算（STEP 4）には含めない
+● **棚卸高（期首・期末）:** 記載されている金額をそのまま抽出する（記載がない項目はnull）
+  - beginningMaterials / endingMaterials: 期首 / 期末 材料（原材料）棚卸高
+  - beginningWorkInProgress / endingWorkInProgress: 期首 / 期末 仕掛品棚卸高
+  - beginningFinishedGoods / endingFinishedGoods: 期首 / 期末 製品棚卸高
+  - beginningMerchandise / endingMerchandise: 期首 / 期末 商品棚卸高
 ● **laborCost（人件費）:** 以下のみを合算
   - 製造原価報告書の「労務費」区分の全科目
   - 販管費の「役員報酬」「給与（給料手当）」「雑給」「法定福利費」「福利厚生費」
@@ -76,7 +97,9 @@ STEP 2でリストアップした各科目を、以下のルールに従って
 ### 【STEP 4】検算する
 以下の計算式が成立するか確認してください：
 
-計算した経常利益 = sales − (materialCost + outsourcingCost + merchandisePurchase + otherVariableCost) − (laborCost + depreciation + otherExpenses) + nonOperatingIncome
+計算した経常利益 = sales − (materialCost + outsourcingCost + merchandisePurchase + otherVariableCost + 棚卸増減調整) − (laborCost + depreciation + otherExpenses) + nonOperatingIncome
+
+棚卸増減調整 = (beginningMaterials + beginningWorkInProgress + beginningFinishedGoods + beginningMerchandise) − (endingMaterials + endingWorkInProgress + endingFinishedGoods + endingMerchandise)（nullは0として計算）
 
 この計算結果が、決算書記載の経常利益（ordinaryProfitFromPdf）と一致するか確認してください。
 一致しない場合はotherExpensesを調整して整合を取り、notesに記載してください。
@@ -89,6 +112,8 @@ STEP 2でリストアップした各科目を、以下のルールに従って
 □ 人件費: 製造労務費 + 販管費の人件費関連科目のみを含めているか？それ以外の科目が混入していないか？
 □ 減価償却費: 製造原価報告書の減価償却費と販管費の減価償却費の両方を確認し合算したか？
 □ その他経費: 製造原価報告書の経費（水道光熱費・修繕費等）を漏れなく含めたか？
+□ 特別損益・法人税等: 経常利益より下の区分の科目をotherExpenses等に混入させていないか？
+□ 棚卸高: 期首・期末の材料・仕掛品・製品・商品の棚卸高を抽出したか？材料費・商品仕入に棚卸高を二重に反映していないか？
 □ 経常利益: 計算結果と決算書記載の経常利益が一致したか？
 □ 単位: 千円単位に正しく変換したか？
 
@@ -135,6 +160,17 @@ STEP 1〜5の各ステップの作業内容を簡潔に記述してください
       "otherExpenses": 数値またはnull,
       "nonOperatingIncome": 数値またはnull,
       "employeeCount": 数値またはnull,
+      "extraordinaryIncome": 数値またはnull,
+      "extraordinaryLoss": 数値またはnull,
+      "corporateTax": 数値またはnull,
+      "beginningMaterials": 数値またはnull,
+      "endingMaterials": 数値またはnull,
+      "beginningWorkInProgress": 数値またはnull,
+      "endingWorkInProgress": 数値またはnull,
+      "beginningFinishedGoods": 数値またはnull,
+      "endingFinishedGoods": 数値またはnull,
+      "beginningMerchandise": 数値またはnull,
+      "endingMerchandise": 数値またはnull,
       "ordinaryProfitFromPdf": 数値またはnull,
       "confidence": {
         "sales": "high/medium/low",
@@ -146,7 +182,11 @@ STEP 1〜5の各ステップの作業内容を簡潔に記述してください
         "depreciation": "high/medium/low",
         "otherExpenses": "high/medium/low",
         "nonOperatingIncome": "high/medium/low",
-        "employeeCount": "high/medium/low"
+        "employeeCount": "high/medium/low",
+        "extraordinaryIncome": "high/medium/low",
+        "extraordinaryLoss": "high/medium/low",
+        "corporateTax": "high/medium/low",
+        "endingMaterials": "high/medium/low（棚卸高の各項目も同様）"
       },
       "breakdown": {
         "sales": "どの勘定科目をいくら合算したかの説明（例: 製品売上高 120,000 + 商品売上高 30,000 = 150,000）",
@@ -158,7 +198,126 @@ STEP 1〜5の各ステップの作業内容を簡潔に記述してください
         "depreciation": "同上（例: 製造原価・減価償却費 8,000 + 販管費・減価償却費 3,000 = 11,000）",
         "otherExpenses": "同上（例: 【製造経費】水道光熱費 3,000 + 修繕費 1,500 + 保険料 800 + 【販管費】地代家賃 2,000 + 通信費 500 + 旅費交通費 1,200 = 9,000）",
         "nonOperatingIncome": "同上",
-        "employeeCount": "同上"
+        "employeeCount": "同上",
+        "extraordinaryIncome": "同上（例: 固定資産売却益 1,200 + 補助金収入 3,000 = 4,200）",
+        "extraordinaryLoss": "同上",
+        "corporateTax": "同上（例: 法人税、住民税及び事業税 6,500 + 法人税等調整額 −300 = 6,200）",
+        "endingMaterials": "同上（棚卸高の各項目も同様、例: 期末材料棚卸高 4,000）"
+      },
+      "notes": ["注意事項1", "注意事項2"]
+    }
+  ]
+}
+\`\`\``;
+}
+
+function buildBalanceSheetPrompt(): string {
+  return `あなたは日本の中小企業の決算書（貸借対照表）を分析する専門家です。
+ユーザーから提供される決算書の内容を、以下の手順に従って段階的に分析し、貸借対照表の期末残高を正確に抽出してください。
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+## ★★★ 作業手順（この順番に必ず従ってください）★★★
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+### 【STEP 1】決算書の構造を把握する
+- 貸借対照表（B/S）がどのページにあるか
+- 何期分のデータがあるか（当期・前期など）
+- 金額の単位は何か（円・千円・百万円）
+
+### 【STEP 2】全勘定科目の一覧を作成する
+貸借対照表に記載されている**すべての勘定科目と金額**を、以下の区分ごとにリストアップしてください：
+- 流動資産 / 固定資産（有形固定資産・無形固定資産・投資その他の資産）/ 繰延資産
+- 流動負債 / 固定負債
+- 純資産（資本金、資本剰余金、利益剰余金、評価・換算差額等 など）
+
+### 【STEP 3】各科目を分類する
+● **cashAndDeposits（現金預金）:** 現金及び預金、現金、預金
+● **receivables（売上債権）:** 受取手形、売掛金、電子記録債権、完成工事未収入金（貸倒引当金は控除後）
+● **inventories（棚卸資産）:** 商品、製品、半製品、仕掛品、原材料、貯蔵品、未成工事支出金
+● **otherCurrentAssets（その他流動資産）:** 上記以外の流動資産（前払費用、未収入金、短期貸付金 など）
+● **tangibleFixedAssets（有形固定資産）:** 建物、機械装置、車両運搬具、工具器具備品、土地、建設仮勘定 など（減価償却累計額は控除後）
+● **intangibleFixedAssets（無形固定資産）:** ソフトウェア、のれん、電話加入権 など
+● **investmentsAndOtherAssets（投資その他の資産）:** 投資有価証券、出資金、保険積立金、長期前払費用、差入保証金 など。**繰延資産もここに含める**
+● **payables（仕入債務）:** 支払手形、買掛金、電子記録債務、工事未払金
+● **shortTermBorrowings（短期借入金）:** 短期借入金、**1年内返済予定の長期借入金**、1年内償還予定の社債
+● **otherCurrentLiabilities（その他流動負債）:** 上記以外の流動負債（未払金、未払費用、未払法人税等、預り金、賞与引当金 など）
+● **longTermBorrowings（長期借入金）:** 長期借入金、社債、役員借入金
+● **otherFixedLiabilities（その他固定負債）:** 上記以外の固定負債（退職給付引当金、長期未払金、リース債務 など）
+● **netAssets（純資産）:** 純資産合計（債務超過の場合はマイナス）
+
+### 【STEP 4】検算する
+以下の2つが成立するか確認してください：
+- 資産合計 = cashAndDeposits + receivables + inventories + otherCurrentAssets + tangibleFixedAssets + intangibleFixedAssets + investmentsAndOtherAssets
+- 資産合計 = payables + shortTermBorrowings + otherCurrentLiabilities + longTermBorrowings + otherFixedLiabilities + netAssets
+
+決算書記載の資産合計を totalAssetsFromPdf に記載してください。
+一致しない場合は「その他」の区分で調整して整合を取り、notesに記載してください。
+
+### 【STEP 5】セルフチェック（出力前に必ず確認）
+□ 1年内返済予定の長期借入金を shortTermBorrowings に含めたか？
+□ 役員借入金を longTermBorrowings に含めたか？
+□ 貸倒引当金・減価償却累計額を控除後の金額にしたか？
+□ 資産合計と負債・純資産合計が一致したか？
+□ 単位: 千円単位に正しく変換したか？
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+## 複数期の抽出
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+- 決算書に複数の会計期間（当期・前期など）の貸借対照表が含まれている場合、すべての期間を抽出してください
+- 各期をperiodsの配列に古い期から新しい期の順で格納してください
+
+## 金額の単位について:
+- 決算書の金額が円単位の場合は千円に変換してください（÷1,000）
+- 決算書が千円単位の場合はそのまま使用
+- 決算書が百万円単位の場合は千円に変換してください（×1,000）
+- 判断できない場合はnotesに記載してください
+
+## 計算根拠(breakdown):
+- 各項目について、どの勘定科目をいくらずつ合算したかをbreakdownに記載してください
+- 形式: 「勘定科目名 金額 + 勘定科目名 金額 = 合計」（千円単位）
+- 該当する勘定科目が見つからない場合は「該当なし」と記載
+
+## 応答フォーマット:
+分析の思考過程をまず記述してから、最後にJSON結果を \`\`\`json ... \`\`\` のコードブロックで出力してください。
+
+\`\`\`json
+{
+  "periods": [
+    {
+      "label": "決算期ラベル",
+      "cashAndDeposits": 数値またはnull,
+      "receivables": 数値またはnull,
+      "inventories": 数値またはnull,
+      "otherCurrentAssets": 数値またはnull,
+      "tangibleFixedAssets": 数値またはnull,
+      "intangibleFixedAssets": 数値またはnull,
+      "investmentsAndOtherAssets": 数値またはnull,
+      "payables": 数値またはnull,
+      "shortTermBorrowings": 数値またはnull,
+      "otherCurrentLiabilities": 数値またはnull,
+      "longTermBorrowings": 数値またはnull,
+      "otherFixedLiabilities": 数値またはnull,
+      "netAssets": 数値またはnull,
+      "totalAssetsFromPdf": 数値またはnull,
+      "confidence": {
+        "cashAndDeposits": "high/medium/low",
+        "receivables": "high/medium/low",
+        "inventories": "high/medium/low",
+        "otherCurrentAssets": "high/medium/low",
+        "tangibleFixedAssets": "high/medium/low",
+        "intangibleFixedAssets": "high/medium/low",
+        "investmentsAndOtherAssets": "high/medium/low",
+        "payables": "high/medium/low",
+        "shortTermBorrowings": "high/medium/low",
+        "otherCurrentLiabilities": "high/medium/low",
+        "longTermBorrowings": "high/medium/low",
+        "otherFixedLiabilities": "high/medium/low",
+        "netAssets": "high/medium/low"
+      },
+      "breakdown": {
+        "cashAndDeposits": "どの勘定科目をいくら合算したかの説明（例: 現金 500 + 普通預金 42,000 + 定期預金 10,000 = 52,500）",
+        "shortTermBorrowings": "同上（例: 短期借入金 20,000 + 1年内返済予定の長期借入金 18,000 = 38,000）",
+        "（他の項目も同様）": "同上"
       },
       "notes": ["注意事項1", "注意事項2"]
     }
@@ -167,12 +326,22 @@ STEP 1〜5の各ステップの作業内容を簡潔に記述してください
 \`\`\``;
 }
 
-const USER_MESSAGE_TEXT = (text: string) =>
-  `以下の決算書PDFから抽出したテキストを分析し、損益計算書の数値を抽出してください。\n\n${text}`;
+// 抽出対象の書類（pl: 損益計算書、bs: 貸借対照表）
+type DocumentKind = "pl" | "bs";
 
-const USER_MESSAGE_IMAGE = "添付の決算書PDF画像を分析し、損益計算書の数値を抽出してください。画像内の数値を正確に読み取ってください。";
+const DOCUMENT_NAMES: Record<DocumentKind, string> = {
+  pl: "損益計算書",
+  bs: "貸借対照表",
+};
 
-const USER_MESSAGE_PDF = "添付の決算書PDFを分析し、損益計算書の数値を抽出してください。すべてのページを確認し、数値を正確に読み取ってください。";
+const USER_MESSAGE_TEXT = (text: string, kind: DocumentKind = "pl") =>
+  `以下の決算書PDFから抽出したテキストを分析し、${DOCUMENT_NAMES[kind]}の数値を抽出してください。\n\n${text}`;
+
+const USER_MESSAGE_IMAGE = (kind: DocumentKind = "pl") =>
+  `添付の決算書PDF画像を分析し、${DOCUMENT_NAMES[kind]}の数値を抽出してください。画像内の数値を正確に読み取ってください。`;
+
+const USER_MESSAGE_PDF = (kind: DocumentKind = "pl") =>
+  `添付の決算書PDFを分析し、${DOCUMENT_NAMES[kind]}の数値を抽出してください。すべてのページを確認し、数値を正確に読み取ってください。`;
 
 function extractJSON(responseText: string): unknown {
   let jsonStr = responseText;
@@ -185,43 +354,43 @@ function extractJSON(responseText: string): unknown {
 
 // ── テキストモード ──
 
-async function callClaudeText(apiKey: string, text: string, systemPrompt: string): Promise<string> {
+async function callClaudeText(apiKey: string, text: string, systemPrompt: string, kind: DocumentKind = "pl"): Promise<string> {
   const client = new Anthropic({ apiKey });
   const message = await client.messages.create({
     model: "claude-sonnet-4-20250514",
     max_tokens: 8192,
     system: systemPrompt,
-    messages: [{ role: "user", content: USER_MESSAGE_TEXT(text) }],
+    messages: [{ role: "user", content: USER_MESSAGE_TEXT(text, kind) }],
   });
   return message.content[0].type === "text" ? message.content[0].text : "";
 }
 
-async function callOpenAIText(apiKey: string, text: string, systemPrompt: string): Promise<string> {
+async function callOpenAIText(apiKey: string, text: string, systemPrompt: string, kind: DocumentKind = "pl"): Promise<string> {
   const client = new OpenAI({ apiKey });
   const completion = await client.chat.completions.create({
     model: "gpt-4o",
     max_tokens: 8192,
     messages: [
       { role: "system", content: systemPrompt },
-      { role: "user", content: USER_MESSAGE_TEXT(text) },
+      { role: "user", content: USER_MESSAGE_TEXT(text, kind) },
     ],
   });
   return completion.choices[0]?.message?.content || "";
 }
 
-async function callGeminiText(apiKey: string, text: string, systemPrompt: string): Promise<string> {
+async function callGeminiText(apiKey: string, text: string, systemPrompt: string, kind: DocumentKind = "pl"): Promise<string> {
   const genAI = new GoogleGenerativeAI(apiKey);
   const model = genAI.getGenerativeModel({
     model: "gemini-2.0-flash",
     systemInstruction: systemPrompt,
   });
-  const result = await model.generateContent(USER_MESSAGE_TEXT(text));
+  const result = await model.generateContent(USER_MESSAGE_TEXT(text, kind));
   return result.response.text();
 }
 
 // ── 画像モード（Vision API）──
 
-async function callClaudeVision(apiKey: string, images: string[], systemPrompt: string): Promise<string> {
+async function callClaudeVision(apiKey: string, images: string[], systemPrompt: string, kind: DocumentKind = "pl"): Promise<string> {
   const client = new Anthropic({ apiKey });
 
   const imageBlocks: Anthropic.ImageBlockParam[] = images.map((base64) => ({
@@ -242,7 +411,7 @@ async function callClaudeVision(apiKey: string, images: string[], systemPrompt:
         role: "user",
         content: [
           ...imageBlocks,
-          { type: "text", text: USER_MESSAGE_IMAGE },
+          { type: "text", text: USER_MESSAGE_IMAGE(kind) },
         ],
       },
     ],
@@ -250,7 +419,7 @@ async function callClaudeVision(apiKey: string, images: string[], systemPrompt:
   return message.content[0].type === "text" ? message.content[0].text : "";
 }
 
-async function callOpenAIVision(apiKey: string, images: string[], systemPrompt: string): Promise<string> {
+async function callOpenAIVision(apiKey: string, images: string[], systemPrompt: string, kind: DocumentKind = "pl"): Promise<string> {
   const client = new OpenAI({ apiKey });
 
   const imageContent: OpenAI.ChatCompletionContentPart[] = images.map((base64) => ({
@@ -270,7 +439,7 @@ async function callOpenAIVision(apiKey: string, images: string[], systemPrompt:
         role: "user",
         content: [
           ...imageContent,
-          { type: "text", text: USER_MESSAGE_IMAGE },
+          { type: "text", text: USER_MESSAGE_IMAGE(kind) },
         ],
       },
     ],
@@ -278,7 +447,7 @@ async function callOpenAIVision(apiKey: string, images: string[], systemPrompt:
   return completion.choices[0]?.message?.content || "";
 }
 
-async function callGeminiVision(apiKey: string, images: string[], systemPrompt: string): Promise<string> {
+async function callGeminiVision(apiKey: string, images: string[], systemPrompt: string, kind: DocumentKind = "pl"): Promise<string> {
   const genAI = new GoogleGenerativeAI(apiKey);
   const model = genAI.getGenerativeModel({
     model: "gemini-2.0-flash",
@@ -294,14 +463,14 @@ async function callGeminiVision(apiKey: string, images: string[], systemPrompt:
 
   const result = await model.generateContent([
     ...imageParts,
-    { text: USER_MESSAGE_IMAGE },
+    { text: USER_MESSAGE_IMAGE(kind) },
   ]);
   return result.response.text();
 }
 
 // ── PDF直接送信モード（高精度）──
 
-async function callClaudePdf(apiKey: string, pdfBase64: string, systemPrompt: string): Promise<string> {
+async function callClaudePdf(apiKey: string, pdfBase64: string, systemPrompt: string, kind: DocumentKind = "pl"): Promise<string> {
   const client = new Anthropic({ apiKey });
 
   const message = await client.messages.create({
@@ -320,7 +489,7 @@ async function callClaudePdf(apiKey: string, pdfBase64: string, systemPrompt: st
               data: pdfBase64,
             },
           },
-          { type: "text", text: USER_MESSAGE_PDF },
+          { type: "text", text: USER_MESSAGE_PDF(kind) },
         ],
       },
     ],
@@ -328,7 +497,7 @@ async function callClaudePdf(apiKey: string, pdfBase64: string, systemPrompt: st
   return message.content[0].type === "text" ? message.content[0].text : "";
 }
 
-async function callGeminiPdf(apiKey: string, pdfBase64: string, systemPrompt: string): Promise<string> {
+async function callGeminiPdf(apiKey: string, pdfBase64: string, systemPrompt: string, kind: DocumentKind = "pl"): Promise<string> {
   const genAI = new GoogleGenerativeAI(apiKey);
   const model = genAI.getGenerativeModel({
     model: "gemini-2.0-flash",
@@ -342,7 +511,7 @@ async function callGeminiPdf(apiKey: string, pdfBase64: string, systemPrompt: st
         data: pdfBase64,
       },
     },
-    { text: USER_MESSAGE_PDF },
+    { text: USER_MESSAGE_PDF(kind) },
   ]);
   return result.response.text();
 }
@@ -352,13 +521,14 @@ async function callGeminiPdf(apiKey: string, pdfBase64: string, systemPrompt: st
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { apiKey, provider = "claude", text, images, pdfBase64, mode, variableCostItems = [], correctionInstruction, currentData } = body as {
+    const { apiKey, provider = "claude", text, images, pdfBase64, mode, document = "pl", variableCostItems = [], correctionInstruction, currentData } = body as {
       apiKey: string;
       provider: string;
       text?: string;
       images?: string[];
       pdfBase64?: string;
       mode?: "text" | "image" | "pdf" | "correction";
+      document?: DocumentKind;
       variableCostItems?: string[];
       correctionInstruction?: string;
       currentData?: unknown;
@@ -393,9 +563,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (document !== "pl" && document !== "bs") {
+      return NextResponse.json(
+        { error: "無効な書類の種類です" },
+        { status: 400 }
+      );
+    }
+
+    const systemPrompt =
+      document === "bs" ? buildBalanceSheetPrompt() : buildSystemPrompt(variableCostItems);
+
     // ── 修正モード ──
     if (mode === "correction" && correctionInstruction && currentData) {
-      const correctionSystemPrompt = buildSystemPrompt(variableCostItems);
       const correctionUserMessage = `あなたは以前この決算書から以下のデータを抽出しました。ユーザーから修正指示が出ています。
 
 ## 現在の抽出結果:
@@ -407,7 +586,7 @@ ${correctionInstruction}
 上記の修正指示に従ってデータを修正してください。
 修正した項目のbreakdownも更新してください。
 修正した箇所をnotesに記載してください（例: 「修正: 減価償却費に製造原価報告書分を追加」）。
-整合性チェック（経常利益の計算一致）も行ってください。
+整合性チェック（${document === "bs" ? "資産合計と負債・純資産合計の一致" : "経常利益の計算一致"}）も行ってください。
 
 応答は同じJSON形式（periodsの配列）で返してください。`;
 
@@ -419,7 +598,7 @@ ${correctionInstruction}
           const genAI = new GoogleGenerativeAI(apiKey);
           const model = genAI.getGenerativeModel({
             model: "gemini-2.0-flash",
-            systemInstruction: correctionSystemPrompt,
+            systemInstruction: systemPrompt,
           });
           const result = await model.generateContent([
             { inlineData: { mimeType: "application/pdf", data: pdfBase64 } },
@@ -431,7 +610,7 @@ ${correctionInstruction}
           const message = await client.messages.create({
             model: "claude-sonnet-4-20250514",
             max_tokens: 8192,
-            system: correctionSystemPrompt,
+            system: systemPrompt,
             messages: [{
               role: "user",
               content: [
@@ -446,13 +625,13 @@ ${correctionInstruction}
         // テキストのみで修正
         switch (provider) {
           case "openai":
-            correctionResponse = await callOpenAIText(apiKey, correctionUserMessage, correctionSystemPrompt);
+            correctionResponse = await callOpenAIText(apiKey, correctionUserMessage, systemPrompt, document);
             break;
           case "gemini":
-            correctionResponse = await callGeminiText(apiKey, correctionUserMessage, correctionSystemPrompt);
+            correctionResponse = await callGeminiText(apiKey, correctionUserMessage, systemPrompt, document);
             break;
           default:
-            correctionResponse = await callClaudeText(apiKey, correctionUserMessage, correctionSystemPrompt);
+            correctionResponse = await callClaudeText(apiKey, correctionUserMessage, systemPrompt, document);
             break;
         }
       }
@@ -471,7 +650,6 @@ ${correctionInstruction}
       );
     }
 
-    const systemPrompt = buildSystemPrompt(variableCostItems);
     let responseText: string;
 
     if (usePdfMode) {
@@ -480,42 +658,42 @@ ${correctionInstruction}
         case "openai":
           // OpenAIはPDF直接送信非対応 → 画像モードにフォールバック
           if (images && images.length > 0) {
-            responseText = await callOpenAIVision(apiKey, images, systemPrompt);
+            responseText = await callOpenAIVision(apiKey, images, systemPrompt, document);
           } else {
-            responseText = await callOpenAIText(apiKey, text || "", systemPrompt);
+            responseText = await callOpenAIText(apiKey, text || "", systemPrompt, document);
           }
           break;
         case "gemini":
-          responseText = await callGeminiPdf(apiKey, pdfBase64, systemPrompt);
+          responseText = await callGeminiPdf(apiKey, pdfBase64, systemPrompt, document);
           break;
         default:
-          responseText = await callClaudePdf(apiKey, pdfBase64, systemPrompt);
+          responseText = await callClaudePdf(apiKey, pdfBase64, systemPrompt, document);
           break;
       }
     } else if (useImageMode) {
       // 画像モード（スキャンPDF対応）
       switch (provider) {
         case "openai":
-          responseText = await callOpenAIVision(apiKey, images, systemPrompt);
+          responseText = await callOpenAIVision(apiKey, images, systemPrompt, document);
           break;
         case "gemini":
-          responseText = await callGeminiVision(apiKey, images, systemPrompt);
+          responseText = await callGeminiVision(apiKey, images, systemPrompt, document);
           break;
         default:
-          responseText = await callClaudeVision(apiKey, images, systemPrompt);
+          responseText = await callClaudeVision(apiKey, images, systemPrompt, document);
           break;
       }
     } else {
       // テキストモード
       switch (provider) {
         case "openai":
-          responseText = await callOpenAIText(apiKey, text!, systemPrompt);
+          responseText = await callOpenAIText(apiKey, text!, systemPrompt, document);
           break;
         case "gemini":
-          responseText = await callGeminiText(apiKey, text!, systemPrompt);
+          responseText = await callGeminiText(apiKey, text!, systemPrompt, document);
           break;
         default:
-          responseText = await callClaudeText(apiKey, text!, systemPrompt);
+          responseText = await callClaudeText(apiKey, text!, systemPrompt, document);
           break;
       }
     }
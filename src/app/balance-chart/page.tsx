@@ -8,10 +8,14 @@ import {
   calculateCompositionRatios,
   calculateYoYChange,
   calculateWaterfallFactors,
+  calculateProductivityBridge,
+  getLatestTtmPeriod,
   formatNumber,
 } from "@/lib/calculations";
 import WaterfallChart, { calcWaterfallYRange } from "@/components/charts/WaterfallChart";
+import ProductivityBridgeChart from "@/components/charts/ProductivityBridgeChart";
 import { exportBalanceChartExcel } from "@/lib/excel-export";
+import { PeriodData, WaterfallMethod } from "@/lib/types";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Download } from "lucide-react";
@@ -22,12 +26,22 @@ interface ComparisonPair {
 }
 
 interface ComparisonTableProps extends ComparisonPair {
+  periods: PeriodData[];
   waterfallYDomain?: [number, number];
   companyName: string;
+  detailed: boolean;
+  method: WaterfallMethod;
 }
 
-function ComparisonTable({ prevIndex, currIndex, waterfallYDomain, companyName }: ComparisonTableProps) {
-  const periods = useAppStore((s) => s.periods);
+function ComparisonTable({
+  prevIndex,
+  currIndex,
+  periods,
+  waterfallYDomain,
+  companyName,
+  detailed,
+  method,
+}: ComparisonTableProps) {
   const prev = periods[prevIndex];
   const curr = periods[currIndex];
   const cardRef = useRef<HTMLDivElement>(null);
@@ -44,7 +58,11 @@ function ComparisonTable({ prevIndex, currIndex, waterfallYDomain, companyName }
     [curr, currMetrics]
   );
   const factors = useMemo(
-    () => calculateWaterfallFactors(curr, prev),
+    () => calculateWaterfallFactors(curr, prev, method),
+    [curr, prev, method]
+  );
+  const bridges = useMemo(
+    () => calculateProductivityBridge(curr, prev),
     [curr, prev]
   );
 
@@ -108,6 +126,19 @@ function ComparisonTable({ prevIndex, currIndex, waterfallYDomain, companyName }
       currRate: currRatios.otherVariableCostRate,
       indent: true,
     },
+    ...(prevMetrics.inventoryAdjustment !== 0 || currMetrics.inventoryAdjustment !== 0
+      ? [
+          {
+            label: "棚卸増減調整",
+            bgClass: "bg-variable",
+            prevVal: prevMetrics.inventoryAdjustment,
+            currVal: currMetrics.inventoryAdjustment,
+            prevRate: prevRatios.inventoryAdjustmentRate,
+            currRate: currRatios.inventoryAdjustmentRate,
+            indent: true,
+          },
+        ]
+      : []),
     {
       label: "変動費合計",
       bgClass: "bg-variable",
@@ -303,7 +334,22 @@ function ComparisonTable({ prevIndex, currIndex, waterfallYDomain, companyName }
               <div className="text-xs text-muted-foreground mb-2 space-y-0.5">
                 <p>① 売上高貢献: {fmt(factors.salesContribution)} 千円</p>
                 <p>② 加工高比率貢献: {fmt(factors.marginalRateContribution)} 千円</p>
+                {detailed && (
+                  <p className="pl-4">
+                    材料費率 {fmt(factors.detail.materialCostRateContribution)}／外注費率{" "}
+                    {fmt(factors.detail.outsourcingCostRateContribution)}／商品仕入率{" "}
+                    {fmt(factors.detail.merchandisePurchaseRateContribution)}／その他変動費率{" "}
+                    {fmt(factors.detail.otherVariableCostRateContribution)}
+                  </p>
+                )}
                 <p>③ 固定費貢献: {fmt(factors.fixedCostContribution)} 千円</p>
+                {detailed && (
+                  <p className="pl-4">
+                    人件費 {fmt(factors.detail.laborCostContribution)}／減価償却費{" "}
+                    {fmt(factors.detail.depreciationContribution)}／その他経費{" "}
+                    {fmt(factors.detail.otherExpensesContribution)}
+                  </p>
+                )}
                 <p>④ 営業外損益貢献: {fmt(factors.nonOperatingContribution)} 千円</p>
               </div>
               <WaterfallChart
@@ -313,8 +359,44 @@ function ComparisonTable({ prevIndex, currIndex, waterfallYDomain, companyName }
                 currentOrdinaryProfit={currMetrics.ordinaryProfit}
                 factors={factors}
                 yDomain={waterfallYDomain}
+                detailed={detailed}
+                method={method}
               />
             </div>
+
+            <div>
+              <h4 className="text-sm font-semibold mb-2">
+                1人当たり生産性ブリッジ（人員効果・生産性効果）
+              </h4>
+              <div className="text-xs text-muted-foreground mb-2 space-y-0.5">
+                <p>
+                  従業員数 {fmt(prev.employeeCount)} 人 → {fmt(curr.employeeCount)} 人
+                  ／ 人員効果 = 従業員数の増減 × 前期1人当たり額、生産性効果 = 当期従業員数 × 1人当たり額の増減
+                </p>
+                <p>
+                  限界利益: 人員効果 {fmt(bridges.marginalProfit.headcountEffect)} 千円・生産性効果{" "}
+                  {fmt(bridges.marginalProfit.productivityEffect)} 千円
+                </p>
+                <p>
+                  経常利益: 人員効果 {fmt(bridges.ordinaryProfit.headcountEffect)} 千円・生産性効果{" "}
+                  {fmt(bridges.ordinaryProfit.productivityEffect)} 千円
+                </p>
+              </div>
+              <div className="grid gap-4 md:grid-cols-2">
+                <ProductivityBridgeChart
+                  title="限界利益（1人当たり加工高）"
+                  previousPeriodLabel={prev.label}
+                  currentPeriodLabel={curr.label}
+                  bridge={bridges.marginalProfit}
+                />
+                <ProductivityBridgeChart
+                  title="経常利益（1人当たり経常利益）"
+                  previousPeriodLabel={prev.label}
+                  currentPeriodLabel={curr.label}
+                  bridge={bridges.ordinaryProfit}
+                />
+              </div>
+            </div>
           </CardContent>
         </Card>
       </div>
@@ -338,6 +420,9 @@ export default function BalanceChartPage() {
   const periods = useAppStore((s) => s.periods);
   const company = useAppStore((s) => s.company);
   const [isExcelExporting, setIsExcelExporting] = useState(false);
+  const [isDetailed, setIsDetailed] = useState(false);
+  const [method, setMethod] = useState<WaterfallMethod>("sequential");
+  const [showTtm, setShowTtm] = useState(false);
 
   const validPeriods = useMemo(
     () => periods.filter((p) => p.sales > 0),
@@ -345,15 +430,26 @@ export default function BalanceChartPage() {
   );
   const hasEnoughData = validPeriods.length >= 2;
 
+  // 直近12ヶ月（TTM）を最新の実績期の次に並べて比較する
+  // 途中の売上0の期は残し、TTM をオンにしても比較ペアは TTM の1組だけ増える
+  const latestTtm = useMemo(() => getLatestTtmPeriod(periods), [periods]);
+  const chartPeriods = useMemo(() => {
+    if (!showTtm || !latestTtm) return periods;
+    // 末尾の未入力期（月次を入力中で年次が未集計の期など）は TTM に置き換える
+    let end = periods.length;
+    while (end > 0 && periods[end - 1].sales <= 0) end--;
+    return [...periods.slice(0, end), latestTtm];
+  }, [showTtm, latestTtm, periods]);
+
   const pairs: ComparisonPair[] = useMemo(() => {
     const result: ComparisonPair[] = [];
-    for (let i = 0; i < periods.length - 1; i++) {
-      if (periods[i].sales > 0 && periods[i + 1].sales > 0) {
+    for (let i = 0; i < chartPeriods.length - 1; i++) {
+      if (chartPeriods[i].sales > 0 && chartPeriods[i + 1].sales > 0) {
         result.push({ prevIndex: i, currIndex: i + 1 });
       }
     }
     return result;
-  }, [periods]);
+  }, [chartPeriods]);
 
   // 全ウォーターフォールチャートで共通のY軸ドメインを計算
   const globalYDomain = useMemo((): [number, number] | undefined => {
@@ -361,11 +457,11 @@ export default function BalanceChartPage() {
     let globalMin = Infinity;
     let globalMax = -Infinity;
     for (const pair of pairs) {
-      const prev = periods[pair.prevIndex];
-      const curr = periods[pair.currIndex];
+      const prev = chartPeriods[pair.prevIndex];
+      const curr = chartPeriods[pair.currIndex];
       const prevM = calculateMetrics(prev);
-      const factors = calculateWaterfallFactors(curr, prev);
-      const [min, max] = calcWaterfallYRange(prevM.ordinaryProfit, factors);
+      const factors = calculateWaterfallFactors(curr, prev, method);
+      const [min, max] = calcWaterfallYRange(prevM.ordinaryProfit, factors, isDetailed);
       if (min < globalMin) globalMin = min;
       if (max > globalMax) globalMax = max;
     }
@@ -373,7 +469,7 @@ export default function BalanceChartPage() {
     const range = globalMax - globalMin;
     const margin = range * 0.1;
     return [globalMin - margin, globalMax + margin];
-  }, [pairs, periods]);
+  }, [pairs, chartPeriods, isDetailed, method]);
 
   // Excelエクスポート: ウォーターフォールチャート画像をキャプチャしてExcelに埋め込む
   const handleExcelExport = useCallback(async () => {
@@ -394,14 +490,14 @@ export default function BalanceChartPage() {
           waterfallImages.push(""); // キャプチャ失敗時は空文字
         }
       }
-      await exportBalanceChartExcel(periods, company.name, waterfallImages);
+      await exportBalanceChartExcel(chartPeriods, company.name, waterfallImages, method);
     } catch (err) {
       console.error("Excel export failed:", err);
       alert("Excelエクスポートに失敗しました。");
     } finally {
       setIsExcelExporting(false);
     }
-  }, [periods, company.name]);
+  }, [chartPeriods, company.name, method]);
 
   return (
     <div className="p-6 max-w-6xl mx-auto">
@@ -419,13 +515,60 @@ export default function BalanceChartPage() {
         </Card>
       ) : (
         <>
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            <span className="text-sm text-muted-foreground">要因分解の表示:</span>
+            <Button
+              variant={!isDetailed ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setIsDetailed(false)}
+            >
+              4要因
+            </Button>
+            <Button
+              variant={isDetailed ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setIsDetailed(true)}
+            >
+              詳細（費目別）
+            </Button>
+            <span className="text-sm text-muted-foreground ml-4">算定方法:</span>
+            <Button
+              variant={method === "sequential" ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setMethod("sequential")}
+            >
+              順次法
+            </Button>
+            <Button
+              variant={method === "shapley" ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setMethod("shapley")}
+            >
+              対称分解（シャープレイ値）
+            </Button>
+            {latestTtm && (
+              <Button
+                variant={showTtm ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setShowTtm((v) => !v)}
+                className="ml-4"
+                title="月次試算表の直近12ヶ月を最新の実績期と比較"
+              >
+                直近12ヶ月（TTM）を追加
+              </Button>
+            )}
+          </div>
+
           {pairs.map((pair) => (
             <ComparisonTable
               key={`${pair.prevIndex}-${pair.currIndex}`}
               prevIndex={pair.prevIndex}
               currIndex={pair.currIndex}
+              periods={chartPeriods}
               waterfallYDomain={globalYDomain}
               companyName={company.name}
+              detailed={isDetailed}
+              method={method}
             />
           ))}
 
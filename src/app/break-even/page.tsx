@@ -0,0 +1,255 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { useAppStore } from "@/lib/store";
+import {
+  calculateMetrics,
+  calculateBreakEven,
+  calculateScenario,
+  resolveScenarioBasePeriod,
+  calculateScenarioBreakEven,
+  formatNumber,
+} from "@/lib/calculations";
+import { exportBreakEvenExcel } from "@/lib/excel-export";
+import { BreakEvenAnalysis } from "@/lib/types";
+import BreakEvenChart, {
+  BreakEvenChartDataPoint,
+} from "@/components/charts/BreakEvenChart";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+interface BreakEvenColumn {
+  key: string;
+  label: string;
+  sales: number;
+  marginalProfitRate: number;
+  ordinaryProfit: number;
+  breakEven: BreakEvenAnalysis;
+}
+
+function BreakEvenTable({ columns }: { columns: BreakEvenColumn[] }) {
+  const fmt = (v: number) => formatNumber(v, 0);
+  const fmtR = (v: number) => formatNumber(v, 1);
+
+  const rows: {
+    label: string;
+    bgClass: string;
+    render: (c: BreakEvenColumn) => string;
+    bold?: boolean;
+    highlight?: (c: BreakEvenColumn) => string;
+  }[] = [
+    {
+      label: "売上高",
+      bgClass: "bg-sales",
+      render: (c) => fmt(c.sales),
+      bold: true,
+    },
+    {
+      label: "限界利益率",
+      bgClass: "bg-sales",
+      render: (c) => `${fmtR(c.marginalProfitRate)}%`,
+    },
+    {
+      label: "経常利益",
+      bgClass: "bg-profit",
+      render: (c) => fmt(c.ordinaryProfit),
+    },
+    {
+      label: "損益分岐点売上高",
+      bgClass: "bg-profit",
+      render: (c) =>
+        c.breakEven.isAttainable ? fmt(c.breakEven.breakEvenSales) : "-",
+      bold: true,
+    },
+    {
+      label: "損益分岐点比率",
+      bgClass: "",
+      render: (c) =>
+        c.breakEven.isAttainable ? `${fmtR(c.breakEven.breakEvenPointRate)}%` : "-",
+    },
+    {
+      label: "安全余裕率",
+      bgClass: "",
+      render: (c) =>
+        c.breakEven.isAttainable ? `${fmtR(c.breakEven.marginOfSafetyRate)}%` : "-",
+      highlight: (c) =>
+        !c.breakEven.isAttainable
+          ? ""
+          : c.breakEven.marginOfSafetyRate >= 0
+            ? "text-blue-600"
+            : "text-red-600",
+    },
+    {
+      label: "経営レバレッジ係数",
+      bgClass: "",
+      render: (c) =>
+        c.breakEven.isAttainable ? formatNumber(c.breakEven.operatingLeverage, 2) : "-",
+    },
+  ];
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm border-collapse min-w-[600px]">
+        <thead>
+          <tr className="border-b-2 border-gray-300">
+            <th className="text-left py-2 px-3 w-44">項目</th>
+            {columns.map((c) => (
+              <th key={c.key} className="text-right py-2 px-2 min-w-[110px]">
+                {c.label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.label} className={`border-b ${row.bgClass}`}>
+              <td className={`py-1.5 px-3 ${row.bold ? "font-bold" : ""}`}>
+                {row.label}
+              </td>
+              {columns.map((c) => (
+                <td
+                  key={c.key}
+                  className={`text-right py-1.5 px-2 tabular-nums ${row.highlight?.(c) ?? ""}`}
+                >
+                  {row.render(c)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function BreakEvenPage() {
+  const periods = useAppStore((s) => s.periods);
+  const scenarios = useAppStore((s) => s.scenarios);
+  const company = useAppStore((s) => s.company);
+
+  const validPeriods = useMemo(
+    () => periods.filter((p) => p.sales > 0),
+    [periods]
+  );
+  const basePeriod = validPeriods[validPeriods.length - 1];
+
+  const periodColumns: BreakEvenColumn[] = useMemo(
+    () =>
+      validPeriods.map((p) => {
+        const m = calculateMetrics(p);
+        return {
+          key: p.id,
+          label: p.label,
+          sales: p.sales,
+          marginalProfitRate: m.marginalProfitRate,
+          ordinaryProfit: m.ordinaryProfit,
+          breakEven: calculateBreakEven(p),
+        };
+      }),
+    [validPeriods]
+  );
+
+  const scenarioColumns: BreakEvenColumn[] = useMemo(() => {
+    if (!basePeriod) return [];
+    return scenarios.map((s) => {
+      const r = calculateScenario(
+        resolveScenarioBasePeriod(periods, s, basePeriod),
+        s
+      );
+      return {
+        key: s.id,
+        label: `${s.label}（${r.basePeriodLabel} ベース）`,
+        sales: r.sales,
+        marginalProfitRate: r.marginalProfitRate,
+        ordinaryProfit: r.ordinaryProfit,
+        breakEven: calculateScenarioBreakEven(r),
+      };
+    });
+  }, [periods, basePeriod, scenarios]);
+
+  const chartData: BreakEvenChartDataPoint[] = useMemo(
+    () =>
+      [...periodColumns, ...scenarioColumns]
+        .filter((c) => c.breakEven.isAttainable)
+        .map((c) => ({
+          label: c.label,
+          sales: c.sales,
+          breakEvenSales: c.breakEven.breakEvenSales,
+          marginOfSafetyRate: c.breakEven.marginOfSafetyRate,
+        })),
+    [periodColumns, scenarioColumns]
+  );
+
+  const hasData = validPeriods.length > 0;
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto space-y-6">
+      <h1 className="text-2xl font-bold">損益分岐点分析</h1>
+
+      {!hasData ? (
+        <Card>
+          <CardContent className="py-12">
+            <p className="text-center text-muted-foreground">
+              損益分岐点分析を行うには、売上高が入力された期が1期以上必要です。
+              <br />
+              Step 2（データ入力）でデータを入力してください。
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">実績の損益分岐点</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <BreakEvenTable columns={periodColumns} />
+            </CardContent>
+          </Card>
+
+          {basePeriod && scenarioColumns.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">
+                  シナリオの損益分岐点
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <BreakEvenTable columns={scenarioColumns} />
+              </CardContent>
+            </Card>
+          )}
+
+          {chartData.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">
+                  売上高と損益分岐点売上高の比較
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <BreakEvenChart data={chartData} />
+              </CardContent>
+            </Card>
+          )}
+
+          <p className="text-xs text-muted-foreground">
+            ※ 経常利益ベースで算出しています（損益分岐点売上高 =（固定費合計 − 営業外損益）÷ 限界利益率）。
+            限界利益率が0以下の場合、損益分岐点は存在しないため「-」と表示します。
+          </p>
+
+          <div className="flex gap-3">
+            <Button
+              variant="outline"
+              onClick={() =>
+                exportBreakEvenExcel(periods, basePeriod, scenarios, company.name)
+              }
+            >
+              Excelダウンロード
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,382 @@
+"use client";
+
+import { useMemo, useCallback, useState } from "react";
+import { useAppStore } from "@/lib/store";
+import {
+  calculateBudgetVariance,
+  calculateMetrics,
+  calculateScenario,
+  calculateWaterfallFactors,
+  resolveScenarioBasePeriod,
+  formatNumber,
+} from "@/lib/calculations";
+import { exportActualDataExcel } from "@/lib/excel-export";
+import { Budget } from "@/lib/types";
+import WaterfallChart from "@/components/charts/WaterfallChart";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Trash2 } from "lucide-react";
+
+type BudgetField = keyof Pick<
+  Budget,
+  | "sales"
+  | "materialCost"
+  | "outsourcingCost"
+  | "merchandisePurchase"
+  | "otherVariableCost"
+  | "laborCost"
+  | "depreciation"
+  | "otherExpenses"
+  | "nonOperatingIncome"
+  | "extraordinaryIncome"
+  | "extraordinaryLoss"
+  | "corporateTax"
+  | "employeeCount"
+>;
+
+const budgetRows: { key: BudgetField; label: string; bgClass: string; allowNegative?: boolean }[] = [
+  { key: "sales", label: "売上高", bgClass: "bg-sales" },
+  { key: "materialCost", label: "材料費", bgClass: "bg-variable" },
+  { key: "outsourcingCost", label: "外注費", bgClass: "bg-variable" },
+  { key: "merchandisePurchase", label: "商品仕入", bgClass: "bg-variable" },
+  { key: "otherVariableCost", label: "その他変動費", bgClass: "bg-variable" },
+  { key: "laborCost", label: "人件費", bgClass: "bg-fixed" },
+  { key: "depreciation", label: "減価償却費", bgClass: "bg-fixed" },
+  { key: "otherExpenses", label: "その他経費", bgClass: "bg-fixed" },
+  { key: "nonOperatingIncome", label: "営業外損益", bgClass: "", allowNegative: true },
+  { key: "extraordinaryIncome", label: "特別利益", bgClass: "" },
+  { key: "extraordinaryLoss", label: "特別損失", bgClass: "" },
+  { key: "corporateTax", label: "法人税等", bgClass: "" },
+  { key: "employeeCount", label: "従業員数（人）", bgClass: "" },
+];
+
+export default function BudgetPage() {
+  const periods = useAppStore((s) => s.periods);
+  const company = useAppStore((s) => s.company);
+  const scenarios = useAppStore((s) => s.scenarios);
+  const budgets = useAppStore((s) => s.budgets);
+  const createBudget = useAppStore((s) => s.createBudget);
+  const updateBudget = useAppStore((s) => s.updateBudget);
+  const removeBudget = useAppStore((s) => s.removeBudget);
+  const [selectedIndex, setSelectedIndex] = useState(() => Math.max(0, periods.length - 1));
+  const [scenarioId, setScenarioId] = useState<string>("");
+  const [isDetailed, setIsDetailed] = useState(false);
+  const [isExcelExporting, setIsExcelExporting] = useState(false);
+
+  // 期の削除で範囲外になった場合は最新期を表示する
+  const periodIndex = Math.min(selectedIndex, periods.length - 1);
+  const period = periods[periodIndex];
+  const budget = budgets.find((b) => b.periodId === period?.id);
+
+  const validPeriods = useMemo(() => periods.filter((p) => p.sales > 0), [periods]);
+
+  // シナリオ結果（基準期は各シナリオの periodId、なければ最新期）
+  const scenarioResults = useMemo(() => {
+    if (validPeriods.length === 0) return [];
+    const latest = validPeriods[validPeriods.length - 1];
+    return scenarios.map((s) =>
+      calculateScenario(resolveScenarioBasePeriod(validPeriods, s, latest), s)
+    );
+  }, [scenarios, validPeriods]);
+  const selectedResult =
+    scenarioResults.find((r) => r.scenario.id === scenarioId) ?? scenarioResults[0];
+
+  const variance = useMemo(
+    () => (budget && period ? calculateBudgetVariance(budget, period) : []),
+    [budget, period]
+  );
+  const waterfall = useMemo(() => {
+    if (!budget || !period) return null;
+    return {
+      budgetOrdinaryProfit: calculateMetrics(budget).ordinaryProfit,
+      actualOrdinaryProfit: calculateMetrics(period).ordinaryProfit,
+      factors: calculateWaterfallFactors(period, budget, "sequential"),
+    };
+  }, [budget, period]);
+
+  const handleCreate = useCallback(
+    (fromScenario: boolean) => {
+      if (!period) return;
+      if (budget && !confirm(`${period.label}の予算を置き換えますか？`)) return;
+      createBudget(period.id, fromScenario ? selectedResult : undefined);
+    },
+    [period, budget, createBudget, selectedResult]
+  );
+
+  const handleExcelExport = useCallback(async () => {
+    setIsExcelExporting(true);
+    try {
+      await exportActualDataExcel(periods, company.name, budgets);
+    } catch (err) {
+      console.error("Excel export failed:", err);
+      alert("Excelエクスポートに失敗しました。");
+    } finally {
+      setIsExcelExporting(false);
+    }
+  }, [periods, company.name, budgets]);
+
+  const fmt = (v: number) => formatNumber(v, 0);
+
+  if (!period) {
+    return (
+      <div className="p-6 max-w-7xl mx-auto space-y-6">
+        <h1 className="text-2xl font-bold">予実管理</h1>
+        <Card>
+          <CardContent className="py-12">
+            <p className="text-center text-muted-foreground">
+              予算を設定するには、決算期を1期以上追加してください。
+              <br />
+              Step 2（データ入力）で決算期を追加できます。
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      <h1 className="text-2xl font-bold">予実管理</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">予算の設定（千円）</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            決算期ごとに予算を1件設定します。シナリオの試算結果から作成するか、0から直接入力してください。
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <Label className="text-sm">決算期</Label>
+            <Select
+              value={String(periodIndex)}
+              onValueChange={(v) => setSelectedIndex(Number(v))}
+            >
+              <SelectTrigger className="w-48 h-8 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {periods.map((p, i) => (
+                  <SelectItem key={p.id} value={String(i)}>
+                    {p.label}
+                    {budgets.some((b) => b.periodId === p.id) && "（予算あり）"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex flex-wrap items-center gap-2 ml-auto">
+              {scenarioResults.length > 0 && selectedResult && (
+                <>
+                  <Select value={selectedResult.scenario.id} onValueChange={setScenarioId}>
+                    <SelectTrigger className="w-40 h-8 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {scenarioResults.map((r) => (
+                        <SelectItem key={r.scenario.id} value={r.scenario.id}>
+                          {r.scenario.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" size="sm" onClick={() => handleCreate(true)}>
+                    シナリオから作成
+                  </Button>
+                </>
+              )}
+              <Button variant="outline" size="sm" onClick={() => handleCreate(false)}>
+                直接入力で作成
+              </Button>
+              {budget && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeBudget(period.id)}
+                  className="text-muted-foreground"
+                >
+                  <Trash2 className="w-3.5 h-3.5 mr-1" />
+                  予算を削除
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {!budget ? (
+            <p className="text-sm text-muted-foreground py-6 text-center">
+              {period.label}の予算はまだありません。
+            </p>
+          ) : (
+            <>
+              {budget.sourceScenarioLabel && (
+                <p className="text-xs text-muted-foreground">
+                  シナリオ「{budget.sourceScenarioLabel}」の試算結果から作成（作成後の編集は自由）
+                </p>
+              )}
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm border-collapse max-w-2xl">
+                  <thead>
+                    <tr className="border-b-2 border-gray-300">
+                      <th className="text-left py-2 px-3">項目</th>
+                      <th className="text-right py-2 px-2 w-40">予算</th>
+                      <th className="text-right py-2 px-2 w-32">実績</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {budgetRows.map((row) => (
+                      <tr key={row.key} className={`border-b ${row.bgClass}`}>
+                        <td className="py-1 px-3">{row.label}</td>
+                        <td className="py-1 px-2">
+                          <Input
+                            type="number"
+                            value={budget[row.key] ?? 0}
+                            min={row.allowNegative ? undefined : 0}
+                            onChange={(e) => {
+                              const v = parseFloat(e.target.value) || 0;
+                              updateBudget(period.id, {
+                                [row.key]: row.allowNegative ? v : Math.max(0, v),
+                              });
+                            }}
+                            className="h-7 text-right text-xs tabular-nums"
+                          />
+                        </td>
+                        <td className="text-right py-1 px-2 tabular-nums text-muted-foreground">
+                          {fmt(period[row.key] ?? 0)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {budget && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">予実差異（{period.label}）</CardTitle>
+              {period.sales === 0 && (
+                <p className="text-sm text-amber-600">
+                  実績が未入力です。Step 2（データ入力）または月次推移の集計で実績を入力してください。
+                </p>
+              )}
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm border-collapse min-w-[600px]">
+                  <thead>
+                    <tr className="border-b-2 border-gray-300">
+                      <th className="text-left py-2 px-3">項目</th>
+                      <th className="text-right py-2 px-2">予算</th>
+                      <th className="text-right py-2 px-2">実績</th>
+                      <th className="text-right py-2 px-2">差異</th>
+                      <th className="text-right py-2 px-2">差異率</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {variance.map((r) => {
+                      const decimals = r.unit === "%" ? 1 : 0;
+                      const unit = r.unit === "千円" ? "" : r.unit === "%" ? "%" : "人";
+                      const favorable = r.isCost ? r.variance < 0 : r.variance > 0;
+                      const color =
+                        r.unit !== "千円" || r.variance === 0
+                          ? ""
+                          : favorable
+                            ? "text-blue-600"
+                            : "text-red-600";
+                      return (
+                        <tr
+                          key={r.label}
+                          className={`border-b ${r.isTotal ? "bg-profit font-bold" : ""}`}
+                        >
+                          <td className="py-1.5 px-3">{r.label}</td>
+                          <td className="text-right py-1.5 px-2 tabular-nums">
+                            {formatNumber(r.budget, decimals)}
+                            {unit}
+                          </td>
+                          <td className="text-right py-1.5 px-2 tabular-nums">
+                            {formatNumber(r.actual, decimals)}
+                            {unit}
+                          </td>
+                          <td className={`text-right py-1.5 px-2 tabular-nums ${color}`}>
+                            {r.variance > 0 ? "+" : ""}
+                            {formatNumber(r.variance, decimals)}
+                            {r.unit === "%" ? "pt" : unit}
+                          </td>
+                          <td className={`text-right py-1.5 px-2 tabular-nums ${color}`}>
+                            {r.varianceRate === null
+                              ? "-"
+                              : `${r.varianceRate > 0 ? "+" : ""}${formatNumber(r.varianceRate, 1)}%`}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-muted-foreground mt-3">
+                差異 = 実績 − 予算。青は有利差異（収益・利益の超過、費用の節減）、赤は不利差異を示します。
+              </p>
+            </CardContent>
+          </Card>
+
+          {waterfall && (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-base">予算→実績 経常利益の増減要因</CardTitle>
+                  <div className="flex gap-1">
+                    <Button
+                      variant={!isDetailed ? "secondary" : "ghost"}
+                      size="sm"
+                      onClick={() => setIsDetailed(false)}
+                    >
+                      4要因
+                    </Button>
+                    <Button
+                      variant={isDetailed ? "secondary" : "ghost"}
+                      size="sm"
+                      onClick={() => setIsDetailed(true)}
+                    >
+                      詳細（費目別）
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <WaterfallChart
+                  previousPeriodLabel={budget.label}
+                  currentPeriodLabel={`${period.label} 実績`}
+                  previousOrdinaryProfit={waterfall.budgetOrdinaryProfit}
+                  currentOrdinaryProfit={waterfall.actualOrdinaryProfit}
+                  factors={waterfall.factors}
+                  detailed={isDetailed}
+                />
+                <p className="text-xs text-muted-foreground mt-2">
+                  予算を前期、実績を当期とみなして利益バランス図表と同じ順次法で要因分解しています。
+                </p>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+
+      <div className="flex gap-3">
+        <Button variant="outline" onClick={handleExcelExport} disabled={isExcelExporting}>
+          {isExcelExporting ? "Excel生成中..." : "Excelダウンロード"}
+        </Button>
+      </div>
+    </div>
+  );
+}
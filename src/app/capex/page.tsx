@@ -0,0 +1,331 @@
+"use client";
+
+import React, { useMemo, useCallback, useState } from "react";
+import { useAppStore } from "@/lib/store";
+import {
+  calculateDepreciationSchedule,
+  calculateCapexSchedule,
+  formatNumber,
+} from "@/lib/calculations";
+import { exportCapexExcel } from "@/lib/excel-export";
+import { DepreciationMethod } from "@/lib/types";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+
+const SCHEDULE_YEARS = 5;
+
+const methodLabels: Record<DepreciationMethod, string> = {
+  straightLine: "定額法",
+  decliningBalance: "定率法（200%）",
+};
+
+export default function CapexPage() {
+  const periods = useAppStore((s) => s.periods);
+  const company = useAppStore((s) => s.company);
+  const planYears = useAppStore((s) => s.planYears);
+  const capexAssets = useAppStore((s) => s.capexAssets);
+  const addCapexAsset = useAppStore((s) => s.addCapexAsset);
+  const removeCapexAsset = useAppStore((s) => s.removeCapexAsset);
+  const updateCapexAsset = useAppStore((s) => s.updateCapexAsset);
+  const [isExcelExporting, setIsExcelExporting] = useState(false);
+
+  const validPeriods = useMemo(
+    () => periods.filter((p) => p.sales > 0),
+    [periods]
+  );
+  const basePeriod = validPeriods[validPeriods.length - 1];
+  const years = Math.max(SCHEDULE_YEARS, planYears.length);
+
+  // 0 = 実績期、1〜years = 計画年度
+  const schedule = useMemo(
+    () => calculateCapexSchedule(capexAssets, 0, years),
+    [capexAssets, years]
+  );
+  const assetSchedules = useMemo(
+    () =>
+      capexAssets.map((asset) => {
+        const rows = calculateDepreciationSchedule(asset);
+        return schedule.map(
+          (y) => rows.find((r) => r.year === y.year)?.depreciation ?? 0
+        );
+      }),
+    [capexAssets, schedule]
+  );
+  const projectedDepreciation = useMemo(() => {
+    let value = basePeriod?.depreciation ?? 0;
+    return schedule.map((y) => {
+      if (y.year > 0) value += y.depreciationChange;
+      return value;
+    });
+  }, [schedule, basePeriod]);
+
+  const handleExcelExport = useCallback(async () => {
+    if (!basePeriod) return;
+    setIsExcelExporting(true);
+    try {
+      await exportCapexExcel(capexAssets, basePeriod, company.name, years);
+    } catch (err) {
+      console.error("Excel export failed:", err);
+      alert("Excelエクスポートに失敗しました。");
+    } finally {
+      setIsExcelExporting(false);
+    }
+  }, [capexAssets, basePeriod, company.name, years]);
+
+  const fmt = (v: number) => formatNumber(v, 0);
+  const yearLabel = (year: number) =>
+    year === 0 ? `実績（${basePeriod?.label}）` : `${year}年目`;
+
+  if (!basePeriod) {
+    return (
+      <div className="p-6 max-w-7xl mx-auto space-y-6">
+        <h1 className="text-2xl font-bold">設備投資計画</h1>
+        <Card>
+          <CardContent className="py-12">
+            <p className="text-center text-muted-foreground">
+              設備投資計画を作成するには、売上高が入力された期が1期以上必要です。
+              <br />
+              Step 2（データ入力）でデータを入力してください。
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      <h1 className="text-2xl font-bold">設備投資計画</h1>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">
+              投資資産（1年目 = {basePeriod.label} の翌期）
+            </CardTitle>
+            <Button variant="outline" size="sm" onClick={addCapexAsset}>
+              <Plus className="w-4 h-4 mr-1" />
+              資産を追加
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {capexAssets.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              登録済みの資産はありません。「資産を追加」から設備投資を登録してください。
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm border-collapse min-w-[700px]">
+                <thead>
+                  <tr className="border-b-2 border-gray-300">
+                    <th className="text-left py-2 px-2">資産名</th>
+                    <th className="text-right py-2 px-2 w-36">取得価額（千円）</th>
+                    <th className="text-right py-2 px-2 w-28">耐用年数（年）</th>
+                    <th className="text-left py-2 px-2 w-40">償却方法</th>
+                    <th className="text-right py-2 px-2 w-28">取得年度</th>
+                    <th className="w-10" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {capexAssets.map((asset, i) => (
+                    <tr key={asset.id} className="border-b">
+                      <td className="py-1.5 px-2">
+                        <Input
+                          value={asset.name}
+                          onChange={(e) => updateCapexAsset(i, { name: e.target.value })}
+                          className="h-8 text-sm"
+                        />
+                      </td>
+                      <td className="py-1.5 px-2">
+                        <Input
+                          type="number"
+                          value={asset.acquisitionCost}
+                          min={0}
+                          step={1000}
+                          onChange={(e) =>
+                            updateCapexAsset(i, {
+                              acquisitionCost: Math.max(0, parseFloat(e.target.value) || 0),
+                            })
+                          }
+                          className="h-8 text-right text-sm tabular-nums"
+                        />
+                      </td>
+                      <td className="py-1.5 px-2">
+                        <Input
+                          type="number"
+                          value={asset.usefulLife}
+                          min={1}
+                          step={1}
+                          onChange={(e) =>
+                            updateCapexAsset(i, {
+                              usefulLife: Math.max(1, Math.round(parseFloat(e.target.value) || 1)),
+                            })
+                          }
+                          className="h-8 text-right text-sm tabular-nums"
+                        />
+                      </td>
+                      <td className="py-1.5 px-2">
+                        <Select
+                          value={asset.method}
+                          onValueChange={(v) =>
+                            updateCapexAsset(i, { method: v as DepreciationMethod })
+                          }
+                        >
+                          <SelectTrigger className="h-8 text-sm">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(methodLabels) as DepreciationMethod[]).map((m) => (
+                              <SelectItem key={m} value={m}>
+                                {methodLabels[m]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </td>
+                      <td className="py-1.5 px-2">
+                        <Input
+                          type="number"
+                          value={asset.startYear}
+                          step={1}
+                          onChange={(e) =>
+                            updateCapexAsset(i, {
+                              startYear: Math.round(parseFloat(e.target.value) || 0),
+                            })
+                          }
+                          className="h-8 text-right text-sm tabular-nums"
+                        />
+                      </td>
+                      <td className="py-1.5 px-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => removeCapexAsset(i)}
+                          aria-label={`${asset.name}を削除`}
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground mt-3">
+            取得年度は {basePeriod.label} の翌期を1年目とします。0以下を指定すると実績期以前に取得した既存資産として扱います。
+            定率法は200%定率法（償却保証額に達した後は残存年数で均等償却）で計算します。
+          </p>
+        </CardContent>
+      </Card>
+
+      {capexAssets.length > 0 && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">減価償却スケジュール（千円）</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm border-collapse min-w-[600px]">
+                  <thead>
+                    <tr className="border-b-2 border-gray-300">
+                      <th className="text-left py-2 px-3 w-56">項目</th>
+                      {schedule.map((y) => (
+                        <th key={y.year} className="text-right py-2 px-2 min-w-[100px]">
+                          {yearLabel(y.year)}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    <tr className="border-b">
+                      <td className="py-1.5 px-3">設備投資額</td>
+                      {schedule.map((y) => (
+                        <td key={y.year} className="text-right py-1.5 px-2 tabular-nums">
+                          {fmt(y.capex)}
+                        </td>
+                      ))}
+                    </tr>
+                    {capexAssets.map((asset, i) => (
+                      <tr key={asset.id} className="border-b bg-fixed">
+                        <td className="py-1.5 px-3 pl-8">{asset.name}</td>
+                        {assetSchedules[i].map((v, j) => (
+                          <td key={j} className="text-right py-1.5 px-2 tabular-nums">
+                            {fmt(v)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                    <tr className="border-b bg-fixed">
+                      <td className="py-1.5 px-3 font-bold">減価償却費（登録資産計）</td>
+                      {schedule.map((y) => (
+                        <td key={y.year} className="text-right py-1.5 px-2 tabular-nums font-bold">
+                          {fmt(y.depreciation)}
+                        </td>
+                      ))}
+                    </tr>
+                    <tr className="border-b">
+                      <td className="py-1.5 px-3">前年度比増減</td>
+                      {schedule.map((y) => (
+                        <td
+                          key={y.year}
+                          className={`text-right py-1.5 px-2 tabular-nums ${
+                            y.depreciationChange > 0 ? "text-red-600" : ""
+                          }`}
+                        >
+                          {y.year === 0 ? "-" : fmt(y.depreciationChange)}
+                        </td>
+                      ))}
+                    </tr>
+                    <tr className="border-b">
+                      <td className="py-1.5 px-3">期末帳簿価額（登録資産計）</td>
+                      {schedule.map((y) => (
+                        <td key={y.year} className="text-right py-1.5 px-2 tabular-nums">
+                          {fmt(y.bookValue)}
+                        </td>
+                      ))}
+                    </tr>
+                    <tr className="border-b bg-fixed">
+                      <td className="py-1.5 px-3 font-bold">見込み減価償却費（実績＋増減）</td>
+                      {projectedDepreciation.map((v, j) => (
+                        <td key={j} className="text-right py-1.5 px-2 tabular-nums font-bold">
+                          {fmt(v)}
+                        </td>
+                      ))}
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-muted-foreground mt-3">
+                中期経営計画の減価償却費は、上記の「前年度比増減」を前年度の計画値に加算して計算します。
+                損益シミュレーションでは「設備投資計画に連動」を選んだシナリオに1年目の増減額を反映します。
+              </p>
+            </CardContent>
+          </Card>
+
+          <div className="flex gap-3">
+            <Button
+              variant="outline"
+              onClick={handleExcelExport}
+              disabled={isExcelExporting}
+            >
+              {isExcelExporting ? "Excel生成中..." : "Excelダウンロード"}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
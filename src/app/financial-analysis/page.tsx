@@ -0,0 +1,207 @@
+"use client";
+
+import React, { useMemo, useCallback, useState } from "react";
+import { useAppStore } from "@/lib/store";
+import { calculateBalanceSheetMetrics, formatNumber } from "@/lib/calculations";
+import { exportActualDataExcel } from "@/lib/excel-export";
+import { BALANCE_SHEET_SECTIONS, BALANCE_SHEET_RATIOS } from "@/lib/balance-sheet-items";
+import { BalanceSheetData, BalanceSheetMetrics, PeriodData } from "@/lib/types";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+interface AnalysisColumn {
+  period: PeriodData;
+  bs: BalanceSheetData;
+  metrics: BalanceSheetMetrics;
+}
+
+export default function FinancialAnalysisPage() {
+  const periods = useAppStore((s) => s.periods);
+  const company = useAppStore((s) => s.company);
+  const budgets = useAppStore((s) => s.budgets);
+  const [isExcelExporting, setIsExcelExporting] = useState(false);
+
+  // 貸借対照表が入力済みの期のみ分析対象にする
+  const columns: AnalysisColumn[] = useMemo(
+    () =>
+      periods.flatMap((p) =>
+        p.balanceSheet
+          ? [{ period: p, bs: p.balanceSheet, metrics: calculateBalanceSheetMetrics(p, p.balanceSheet) }]
+          : []
+      ),
+    [periods]
+  );
+
+  const handleExcelExport = useCallback(async () => {
+    setIsExcelExporting(true);
+    try {
+      await exportActualDataExcel(periods, company.name, budgets);
+    } catch (err) {
+      console.error("Excel export failed:", err);
+      alert("Excelエクスポートに失敗しました。");
+    } finally {
+      setIsExcelExporting(false);
+    }
+  }, [periods, company.name, budgets]);
+
+  const fmt = (v: number) => formatNumber(v, 0);
+
+  if (columns.length === 0) {
+    return (
+      <div className="p-6 max-w-7xl mx-auto space-y-6">
+        <h1 className="text-2xl font-bold">財務指標分析</h1>
+        <Card>
+          <CardContent className="py-12">
+            <p className="text-center text-muted-foreground">
+              財務指標を分析するには、貸借対照表が入力された期が1期以上必要です。
+              <br />
+              Step 1（PDF読み取り）または Step 2（データ入力）で貸借対照表を入力してください。
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      <h1 className="text-2xl font-bold">財務指標分析</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">財務指標</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm border-collapse min-w-[600px]">
+              <thead>
+                <tr className="border-b-2 border-gray-300">
+                  <th className="text-left py-2 px-3 w-56">指標</th>
+                  {columns.map((c) => (
+                    <th key={c.period.id} className="text-right py-2 px-2 min-w-[100px]">
+                      {c.period.label}
+                    </th>
+                  ))}
+                  <th className="text-left py-2 px-3 text-muted-foreground font-normal">目安</th>
+                </tr>
+              </thead>
+              <tbody>
+                {BALANCE_SHEET_RATIOS.map((r) => (
+                  <tr key={r.key} className="border-b">
+                    <td className="py-1.5 px-3 font-medium">{r.label}</td>
+                    {columns.map((c) => (
+                      <td key={c.period.id} className="text-right py-1.5 px-2 tabular-nums">
+                        {formatNumber(c.metrics[r.key], r.decimals)}
+                        <span className="text-xs text-muted-foreground ml-0.5">{r.unit}</span>
+                      </td>
+                    ))}
+                    <td className="py-1.5 px-3 text-xs text-muted-foreground">{r.guide}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-muted-foreground mt-3">
+            ROAは経常利益÷資産合計、総資本回転率は売上高÷資産合計、有利子負債月商倍率は（短期借入金＋長期借入金）÷（売上高÷12）で計算します。
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">貸借対照表（千円）</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm border-collapse min-w-[600px]">
+              <thead>
+                <tr className="border-b-2 border-gray-300">
+                  <th className="text-left py-2 px-3 w-56">項目</th>
+                  {columns.map((c) => (
+                    <th key={c.period.id} className="text-right py-2 px-2 min-w-[100px]">
+                      {c.period.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {BALANCE_SHEET_SECTIONS.map(({ title, items, total }) => (
+                  <React.Fragment key={title}>
+                    {items.map((item) => (
+                      <tr key={item.key} className="border-b">
+                        <td className="py-1.5 px-3 pl-6">{item.label}</td>
+                        {columns.map((c) => (
+                          <td
+                            key={c.period.id}
+                            className={`text-right py-1.5 px-2 tabular-nums ${
+                              c.bs[item.key] < 0 ? "text-red-600" : ""
+                            }`}
+                          >
+                            {fmt(c.bs[item.key])}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                    {total && (
+                      <tr className="border-b bg-fixed">
+                        <td className="py-1.5 px-3 font-bold">{total.label}</td>
+                        {columns.map((c) => (
+                          <td key={c.period.id} className="text-right py-1.5 px-2 tabular-nums font-bold">
+                            {fmt(c.metrics[total.key])}
+                          </td>
+                        ))}
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+                <tr className="border-b bg-profit">
+                  <td className="py-1.5 px-3 font-bold">資産合計</td>
+                  {columns.map((c) => (
+                    <td key={c.period.id} className="text-right py-1.5 px-2 tabular-nums font-bold">
+                      {fmt(c.metrics.totalAssets)}
+                    </td>
+                  ))}
+                </tr>
+                <tr className="border-b bg-profit">
+                  <td className="py-1.5 px-3 font-bold">負債・純資産合計</td>
+                  {columns.map((c) => (
+                    <td key={c.period.id} className="text-right py-1.5 px-2 tabular-nums font-bold">
+                      {fmt(c.metrics.totalLiabilitiesAndNetAssets)}
+                    </td>
+                  ))}
+                </tr>
+                <tr className="border-b">
+                  <td className="py-1.5 px-3">貸借差額</td>
+                  {columns.map((c) => (
+                    <td
+                      key={c.period.id}
+                      className={`text-right py-1.5 px-2 tabular-nums ${
+                        Math.abs(c.metrics.balanceDifference) >= 1 ? "text-red-600 font-bold" : ""
+                      }`}
+                    >
+                      {fmt(c.metrics.balanceDifference)}
+                    </td>
+                  ))}
+                </tr>
+                <tr className="border-b">
+                  <td className="py-1.5 px-3">有利子負債</td>
+                  {columns.map((c) => (
+                    <td key={c.period.id} className="text-right py-1.5 px-2 tabular-nums">
+                      {fmt(c.metrics.interestBearingDebt)}
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex gap-3">
+        <Button variant="outline" onClick={handleExcelExport} disabled={isExcelExporting}>
+          {isExcelExporting ? "Excel生成中..." : "Excelダウンロード"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -3,8 +3,18 @@
 import React, { useMemo, useRef, useCallback, useState } from "react";
 import { toPng } from "html-to-image";
 import { useAppStore } from "@/lib/store";
-import { calculateMetrics, toOku, formatNumber } from "@/lib/calculations";
-import GrowthChart, { GrowthChartDataPoint } from "@/components/charts/GrowthChart";
+import {
+  calculateMetrics,
+  calculateScenario,
+  resolveScenarioBasePeriod,
+  getLatestTtmPeriod,
+  toOku,
+  formatNumber,
+} from "@/lib/calculations";
+import GrowthChart, {
+  GrowthChartDataPoint,
+  GrowthChartScenarioPoint,
+} from "@/components/charts/GrowthChart";
 import { exportGrowthChartExcel } from "@/lib/excel-export";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -21,23 +31,55 @@ import {
 export default function GrowthChartPage() {
   const periods = useAppStore((s) => s.periods);
   const company = useAppStore((s) => s.company);
+  const scenarios = useAppStore((s) => s.scenarios);
+  const [showScenarios, setShowScenarios] = useState(false);
+  const [showTtm, setShowTtm] = useState(false);
   const chartAreaRef = useRef<HTMLDivElement>(null);
   const [isPngExporting, setIsPngExporting] = useState(false);
   const [isExcelExporting, setIsExcelExporting] = useState(false);
 
+  const validPeriods = useMemo(() => periods.filter((p) => p.sales > 0), [periods]);
+
+  // 直近12ヶ月（TTM）は最新の実績期の次の点として描画する
+  const latestTtm = useMemo(() => getLatestTtmPeriod(periods), [periods]);
+  const chartPeriods = useMemo(
+    () => (showTtm && latestTtm ? [...validPeriods, latestTtm] : validPeriods),
+    [showTtm, latestTtm, validPeriods]
+  );
+
   const chartData: GrowthChartDataPoint[] = useMemo(() => {
-    return periods
-      .filter((p) => p.sales > 0)
-      .map((p) => {
-        const metrics = calculateMetrics(p);
-        return {
-          label: p.label,
-          salesOku: toOku(p.sales),
-          marginalProfitRate: metrics.marginalProfitRate,
-          marginalProfitOku: toOku(metrics.marginalProfit),
-        };
-      });
-  }, [periods]);
+    return chartPeriods.map((p) => {
+      const metrics = calculateMetrics(p);
+      return {
+        label: p.label,
+        salesOku: toOku(p.sales),
+        marginalProfitRate: metrics.marginalProfitRate,
+        marginalProfitOku: toOku(metrics.marginalProfit),
+        isTtm: p === latestTtm,
+      };
+    });
+  }, [chartPeriods, latestTtm]);
+
+  // シナリオ結果（基準期は各シナリオの periodId、なければ最新期）
+  const scenarioResults = useMemo(() => {
+    if (!showScenarios || validPeriods.length === 0) return [];
+    const latest = validPeriods[validPeriods.length - 1];
+    return scenarios.map((s) =>
+      calculateScenario(resolveScenarioBasePeriod(validPeriods, s, latest), s)
+    );
+  }, [showScenarios, scenarios, validPeriods]);
+
+  const scenarioPoints: GrowthChartScenarioPoint[] = useMemo(
+    () =>
+      scenarioResults.map((r) => ({
+        label: r.scenario.label,
+        salesOku: toOku(r.sales),
+        marginalProfitRate: r.marginalProfitRate,
+        marginalProfitOku: toOku(r.marginalProfit),
+        baseIndex: validPeriods.findIndex((p) => p.id === r.basePeriodId),
+      })),
+    [scenarioResults, validPeriods]
+  );
 
   const hasEnoughData = chartData.length >= 2;
 
@@ -80,14 +122,14 @@ export default function GrowthChartPage() {
           // キャプチャ失敗時は画像なしで進行
         }
       }
-      await exportGrowthChartExcel(periods, company.name, chartImage);
+      await exportGrowthChartExcel(chartPeriods, company.name, chartImage, scenarioResults);
     } catch (err) {
       console.error("Excel export failed:", err);
       alert("Excelエクスポートに失敗しました。");
     } finally {
       setIsExcelExporting(false);
     }
-  }, [periods, company.name]);
+  }, [chartPeriods, company.name, scenarioResults]);
 
   return (
     <div className="p-6 max-w-5xl mx-auto space-y-6">
@@ -108,11 +150,33 @@ export default function GrowthChartPage() {
           <div ref={chartAreaRef}>
             <Card>
               <CardHeader>
-                <CardTitle>成長チャート（売上高 × 限界利益率）</CardTitle>
+                <div className="flex items-center justify-between">
+                  <CardTitle>成長チャート（売上高 × 限界利益率）</CardTitle>
+                  <div className="flex gap-1">
+                    {latestTtm && (
+                      <Button
+                        variant={showTtm ? "secondary" : "ghost"}
+                        size="sm"
+                        onClick={() => setShowTtm((v) => !v)}
+                      >
+                        直近12ヶ月（TTM）を追加
+                      </Button>
+                    )}
+                    {scenarios.length > 0 && (
+                      <Button
+                        variant={showScenarios ? "secondary" : "ghost"}
+                        size="sm"
+                        onClick={() => setShowScenarios((v) => !v)}
+                      >
+                        シナリオを重ねて表示
+                      </Button>
+                    )}
+                  </div>
+                </div>
               </CardHeader>
               <CardContent>
                 <div data-growth-chart>
-                  <GrowthChart data={chartData} />
+                  <GrowthChart data={chartData} scenarios={scenarioPoints} />
                 </div>
               </CardContent>
             </Card>
@@ -146,6 +210,23 @@ export default function GrowthChartPage() {
                         </TableCell>
                       </TableRow>
                     ))}
+                    {scenarioResults.map((r) => (
+                      <TableRow key={r.scenario.id} className="text-muted-foreground">
+                        <TableCell className="font-medium">
+                          {r.scenario.label}
+                          <span className="text-xs ml-1">（{r.basePeriodLabel} ベース）</span>
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatNumber(toOku(r.sales), 2)}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatNumber(r.marginalProfitRate, 1)}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatNumber(toOku(r.marginalProfit), 2)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
                   </TableBody>
                 </Table>
               </CardContent>
@@ -1,10 +1,14 @@
 "use client";
 
 import { useCallback, useMemo, useState } from "react";
-import { useAppStore } from "@/lib/store";
+import { useAppStore, createEmptyBalanceSheet, createEmptyInventory } from "@/lib/store";
+import { BALANCE_SHEET_SECTIONS, BALANCE_SHEET_RATIOS } from "@/lib/balance-sheet-items";
+import { INVENTORY_ITEMS, sumInventory } from "@/lib/inventory-items";
 import { exportActualDataExcel } from "@/lib/excel-export";
 import { PeriodData } from "@/lib/types";
 import {
+  calculateBalanceSheetMetrics,
+  calculateInventoryAdjustment,
   calculateMetrics,
   formatNumber,
   validateOperatingProfit,
@@ -31,6 +35,9 @@ type EditableField = keyof Pick<
   | "employeeCount"
 >;
 
+// 未入力（旧データ）は0として扱う任意項目
+type OptionalField = "extraordinaryIncome" | "extraordinaryLoss" | "corporateTax";
+
 interface FieldDef {
   key: EditableField;
   label: string;
@@ -58,6 +65,12 @@ const nonOperatingFields: FieldDef[] = [
   { key: "nonOperatingIncome", label: "営業外損益", unit: "千円" },
 ];
 
+const taxFields: { key: OptionalField; label: string; unit: string }[] = [
+  { key: "extraordinaryIncome", label: "特別利益", unit: "千円" },
+  { key: "extraordinaryLoss", label: "特別損失", unit: "千円" },
+  { key: "corporateTax", label: "法人税等", unit: "千円" },
+];
+
 const otherFields: FieldDef[] = [
   { key: "employeeCount", label: "従業員数", unit: "人" },
 ];
@@ -119,7 +132,7 @@ function NumberInputCell({
   onChange,
   allowNegative = false,
 }: {
-  field: FieldDef;
+  field: Pick<FieldDef, "label" | "unit">;
   value: number;
   onChange: (v: number) => void;
   allowNegative?: boolean;
@@ -204,7 +217,7 @@ function PeriodForm({ periodIndex }: { periodIndex: number }) {
   const validation = useMemo(() => validateOperatingProfit(period), [period]);
 
   const handleFieldChange = useCallback(
-    (field: EditableField, value: number) => {
+    (field: EditableField | OptionalField, value: number) => {
       updatePeriod(periodIndex, { [field]: value });
     },
     [periodIndex, updatePeriod]
@@ -258,6 +271,9 @@ function PeriodForm({ periodIndex }: { periodIndex: number }) {
             onChange={(v) => handleFieldChange(f.key, v)}
           />
         ))}
+        {period.inventory && (
+          <ReadOnlyRow label="棚卸増減調整" value={metrics.inventoryAdjustment} />
+        )}
         <ReadOnlyRow label="変動費合計" value={metrics.totalVariableCost} bold />
       </div>
 
@@ -315,6 +331,24 @@ function PeriodForm({ periodIndex }: { periodIndex: number }) {
 
       <Separator />
 
+      <div className="space-y-2">
+        <SectionHeader title="特別損益・法人税等" />
+        {taxFields.map((f) => (
+          <NumberInputCell
+            key={f.key}
+            field={f}
+            value={period[f.key] ?? 0}
+            onChange={(v) => handleFieldChange(f.key, v)}
+            allowNegative={f.key === "corporateTax"}
+          />
+        ))}
+        <ReadOnlyRow label="税引前当期純利益" value={metrics.incomeBeforeTax} bold />
+        <ReadOnlyRow label="当期純利益" value={metrics.netIncome} bold />
+        <ReadOnlyRow label="実効税率" value={metrics.effectiveTaxRate} unit="%" decimals={1} />
+      </div>
+
+      <Separator />
+
       <div className="space-y-2">
         <SectionHeader title="その他" />
         {otherFields.map((f) => (
@@ -330,6 +364,10 @@ function PeriodForm({ periodIndex }: { periodIndex: number }) {
 
       <Separator />
 
+      <InventorySection periodIndex={periodIndex} />
+
+      <Separator />
+
       <div className="flex items-center gap-3 rounded-lg border p-3">
         <span className="text-sm font-medium">検算: 営業利益 = 限界利益 - 固定費合計</span>
         <div className="ml-auto">
@@ -344,13 +382,223 @@ function PeriodForm({ periodIndex }: { periodIndex: number }) {
   );
 }
 
+/**
+ * 棚卸高の入力と全部原価との照合表
+ * 変動費は当期の仕入・発生額とし、期首−期末の増減を加算した値が全部原価の損益計算書と一致する
+ */
+function InventorySection({ periodIndex }: { periodIndex: number }) {
+  const period = useAppStore((s) => s.periods[periodIndex]);
+  const updateInventory = useAppStore((s) => s.updateInventory);
+
+  const inv = useMemo(
+    () => period?.inventory ?? createEmptyInventory(),
+    [period]
+  );
+  const adjustment = useMemo(
+    () => (period ? calculateInventoryAdjustment(period) : null),
+    [period]
+  );
+  const metrics = useMemo(() => (period ? calculateMetrics(period) : null), [period]);
+
+  if (!period || !adjustment || !metrics) return null;
+
+  const totals = sumInventory(period.inventory);
+  const bsInventories = period.balanceSheet?.inventories;
+  const fmt = (v: number) => formatNumber(v, 0);
+  const reconciliationRows = [
+    { label: "変動費合計", value: metrics.totalVariableCost, sign: 1 },
+    { label: "限界利益", value: metrics.marginalProfit, sign: -1 },
+    { label: "営業利益", value: metrics.operatingProfit, sign: -1 },
+    { label: "経常利益", value: metrics.ordinaryProfit, sign: -1 },
+  ];
+
+  return (
+    <div className="space-y-2">
+      <SectionHeader title="棚卸高（期首・期末）" bgClass="bg-variable" />
+      <p className="text-xs text-muted-foreground">
+        材料費・商品仕入は当期の仕入高を入力し、期首・期末の棚卸高で在庫の増減を調整します。
+      </p>
+      {INVENTORY_ITEMS.map((item) => (
+        <div key={item.adjustmentKey} className="grid grid-cols-2 gap-2">
+          <NumberInputCell
+            field={{ label: `期首${item.label}`, unit: "千円" }}
+            value={inv[item.beginningKey]}
+            onChange={(v) => updateInventory(periodIndex, { [item.beginningKey]: v })}
+          />
+          <NumberInputCell
+            field={{ label: `期末${item.label}`, unit: "千円" }}
+            value={inv[item.endingKey]}
+            onChange={(v) => updateInventory(periodIndex, { [item.endingKey]: v })}
+          />
+        </div>
+      ))}
+
+      {period.inventory && (
+        <div className="overflow-x-auto pt-2">
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr className="border-b-2 border-gray-300">
+                <th className="text-left py-1.5 px-2">区分</th>
+                <th className="text-right py-1.5 px-2">期首</th>
+                <th className="text-right py-1.5 px-2">期末</th>
+                <th className="text-right py-1.5 px-2">増減調整</th>
+              </tr>
+            </thead>
+            <tbody>
+              {INVENTORY_ITEMS.map((item) => (
+                <tr key={item.adjustmentKey} className="border-b">
+                  <td className="py-1 px-2">{item.label}</td>
+                  <td className="text-right py-1 px-2 tabular-nums">{fmt(inv[item.beginningKey])}</td>
+                  <td className="text-right py-1 px-2 tabular-nums">{fmt(inv[item.endingKey])}</td>
+                  <td className="text-right py-1 px-2 tabular-nums">
+                    {fmt(adjustment[item.adjustmentKey])}
+                  </td>
+                </tr>
+              ))}
+              <tr className="border-b font-bold">
+                <td className="py-1 px-2">合計</td>
+                <td className="text-right py-1 px-2 tabular-nums">{fmt(totals.beginning)}</td>
+                <td className="text-right py-1 px-2 tabular-nums">{fmt(totals.ending)}</td>
+                <td className="text-right py-1 px-2 tabular-nums">{fmt(adjustment.total)}</td>
+              </tr>
+            </tbody>
+          </table>
+
+          <p className="text-sm font-bold mt-4 mb-1">全部原価（決算書）と直接原価の照合</p>
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr className="border-b-2 border-gray-300">
+                <th className="text-left py-1.5 px-2">項目</th>
+                <th className="text-right py-1.5 px-2">直接原価（仕入ベース）</th>
+                <th className="text-right py-1.5 px-2">棚卸増減調整</th>
+                <th className="text-right py-1.5 px-2">全部原価ベース</th>
+              </tr>
+            </thead>
+            <tbody>
+              {reconciliationRows.map((r) => (
+                <tr key={r.label} className="border-b">
+                  <td className="py-1 px-2">{r.label}</td>
+                  <td className="text-right py-1 px-2 tabular-nums">
+                    {fmt(r.value - r.sign * adjustment.total)}
+                  </td>
+                  <td className="text-right py-1 px-2 tabular-nums">
+                    {fmt(r.sign * adjustment.total)}
+                  </td>
+                  <td className="text-right py-1 px-2 tabular-nums font-bold">{fmt(r.value)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-muted-foreground mt-2">
+            分析には全部原価ベース（棚卸増減調整後）の値を使います。
+            仕掛品・製品の増減に含まれる固定費の配賦分も変動費で調整する簡便法です。
+          </p>
+          {bsInventories !== undefined && Math.abs(bsInventories - totals.ending) >= 1 && (
+            <p className="text-xs text-amber-600 mt-1">
+              貸借対照表の棚卸資産 {fmt(bsInventories)} 千円と期末棚卸高の合計 {fmt(totals.ending)} 千円が一致しません
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function BalanceSheetForm({ periodIndex }: { periodIndex: number }) {
+  const period = useAppStore((s) => s.periods[periodIndex]);
+  const updateBalanceSheet = useAppStore((s) => s.updateBalanceSheet);
+
+  const bs = useMemo(
+    () => period?.balanceSheet ?? createEmptyBalanceSheet(),
+    [period]
+  );
+  const metrics = useMemo(
+    () => (period ? calculateBalanceSheetMetrics(period, bs) : null),
+    [period, bs]
+  );
+
+  if (!period || !metrics) return null;
+
+  const isBalanced = Math.abs(metrics.balanceDifference) < 1;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {period.label} の期末残高を入力してください。
+      </p>
+
+      {BALANCE_SHEET_SECTIONS.map((section) => (
+        <div key={section.title} className="space-y-4">
+          <div className="space-y-2">
+            <SectionHeader title={section.title} />
+            {section.items.map((item) => (
+              <NumberInputCell
+                key={item.key}
+                field={{ label: item.label, unit: "千円" }}
+                value={bs[item.key]}
+                onChange={(v) => updateBalanceSheet(periodIndex, { [item.key]: v })}
+                allowNegative={item.key === "netAssets"}
+              />
+            ))}
+            {section.total && (
+              <ReadOnlyRow label={section.total.label} value={metrics[section.total.key]} bold />
+            )}
+          </div>
+          <Separator />
+        </div>
+      ))}
+
+      <div className="space-y-2">
+        <SectionHeader title="合計" bgClass="bg-profit" />
+        <ReadOnlyRow label="資産合計" value={metrics.totalAssets} bold />
+        <ReadOnlyRow label="負債・純資産合計" value={metrics.totalLiabilitiesAndNetAssets} bold />
+        <ReadOnlyRow label="有利子負債" value={metrics.interestBearingDebt} />
+      </div>
+
+      <Separator />
+
+      <div className="space-y-2">
+        <SectionHeader title="財務指標" />
+        {BALANCE_SHEET_RATIOS.map((r) => (
+          <ReadOnlyRow
+            key={r.key}
+            label={r.label}
+            value={metrics[r.key]}
+            unit={r.unit}
+            decimals={r.decimals}
+          />
+        ))}
+      </div>
+
+      <Separator />
+
+      <div className="flex items-center gap-3 rounded-lg border p-3">
+        <span className="text-sm font-medium">検算: 資産合計 = 負債・純資産合計</span>
+        <div className="ml-auto">
+          {isBalanced ? (
+            <Badge className="bg-green-600 hover:bg-green-600 text-white">OK</Badge>
+          ) : (
+            <Badge variant="destructive">
+              NG (差額: {formatNumber(metrics.balanceDifference, 0)})
+            </Badge>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+type Statement = "pl" | "bs";
+
 export default function InputPage() {
   const periods = useAppStore((s) => s.periods);
   const company = useAppStore((s) => s.company);
+  const budgets = useAppStore((s) => s.budgets);
   const selectedPeriodIndex = useAppStore((s) => s.selectedPeriodIndex);
   const setSelectedPeriodIndex = useAppStore((s) => s.setSelectedPeriodIndex);
   const addPeriod = useAppStore((s) => s.addPeriod);
   const removePeriod = useAppStore((s) => s.removePeriod);
+  const [statement, setStatement] = useState<Statement>("pl");
 
   const canAdd = periods.length < 5;
   const canRemove = periods.length > 2;
@@ -375,10 +623,26 @@ export default function InputPage() {
           <CardHeader>
             <CardTitle className="text-lg">Step 2: 実績データ入力・編集</CardTitle>
             <p className="text-sm text-muted-foreground">
-              各決算期の損益計算書データを入力してください。金額は千円単位で入力します。
+              各決算期の損益計算書・貸借対照表データを入力してください。金額は千円単位で入力します。
             </p>
           </CardHeader>
           <CardContent>
+            <div className="flex items-center gap-1 mb-4">
+              <Button
+                variant={statement === "pl" ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setStatement("pl")}
+              >
+                損益計算書
+              </Button>
+              <Button
+                variant={statement === "bs" ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setStatement("bs")}
+              >
+                貸借対照表
+              </Button>
+            </div>
             <Tabs
               value={String(selectedPeriodIndex)}
               onValueChange={(v) => setSelectedPeriodIndex(parseInt(v, 10))}
@@ -409,7 +673,11 @@ export default function InputPage() {
 
               {periods.map((period, index) => (
                 <TabsContent key={period.id} value={String(index)}>
-                  <PeriodForm periodIndex={index} />
+                  {statement === "pl" ? (
+                    <PeriodForm periodIndex={index} />
+                  ) : (
+                    <BalanceSheetForm periodIndex={index} />
+                  )}
                 </TabsContent>
               ))}
             </Tabs>
@@ -417,7 +685,7 @@ export default function InputPage() {
             <Separator className="my-4" />
             <Button
               variant="outline"
-              onClick={() => exportActualDataExcel(periods, company.name)}
+              onClick={() => exportActualDataExcel(periods, company.name, budgets)}
             >
               Excelエクスポート
             </Button>
@@ -0,0 +1,480 @@
+"use client";
+
+import React, { useMemo, useCallback, useState } from "react";
+import { useAppStore } from "@/lib/store";
+import {
+  calculateMetrics,
+  calculateScenario,
+  resolveScenarioBasePeriod,
+  calculateLoanSchedule,
+  calculateLoanPortfolioSchedule,
+  calculateLoanBalance,
+  calculatePeriodInterestBearingDebt,
+  calculateDebtRepaymentCapacity,
+  calculateScenarioDebtRepaymentCapacity,
+  formatNumber,
+} from "@/lib/calculations";
+import { exportLoanExcel } from "@/lib/excel-export";
+import { DebtRepaymentCapacity, RepaymentMethod } from "@/lib/types";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+
+const methodLabels: Record<RepaymentMethod, string> = {
+  equalPrincipal: "元金均等",
+  equalPayment: "元利均等",
+  bullet: "期日一括",
+};
+
+// 金融機関が目安とする債務償還年数（年）
+const REPAYMENT_YEARS_GUIDE = 10;
+
+interface CapacityColumn {
+  key: string;
+  label: string;
+  sublabel: string;
+  capacity: DebtRepaymentCapacity;
+  isScenario: boolean;
+}
+
+export default function LoansPage() {
+  const periods = useAppStore((s) => s.periods);
+  const company = useAppStore((s) => s.company);
+  const scenarios = useAppStore((s) => s.scenarios);
+  const loans = useAppStore((s) => s.loans);
+  const loanTaxRate = useAppStore((s) => s.loanTaxRate);
+  const addLoan = useAppStore((s) => s.addLoan);
+  const removeLoan = useAppStore((s) => s.removeLoan);
+  const updateLoan = useAppStore((s) => s.updateLoan);
+  const setLoanTaxRate = useAppStore((s) => s.setLoanTaxRate);
+  const [isExcelExporting, setIsExcelExporting] = useState(false);
+
+  const validPeriods = useMemo(
+    () => periods.filter((p) => p.sales > 0),
+    [periods]
+  );
+  const latestPeriod = validPeriods[validPeriods.length - 1];
+
+  const scenarioResults = useMemo(() => {
+    if (!latestPeriod) return [];
+    return scenarios.map((s) =>
+      calculateScenario(resolveScenarioBasePeriod(validPeriods, s, latestPeriod), s)
+    );
+  }, [scenarios, validPeriods, latestPeriod]);
+
+  const totalBalance = calculateLoanBalance(loans);
+  const years = Math.max(1, ...loans.map((l) => Math.round(l.remainingYears)));
+  const schedule = useMemo(
+    () => calculateLoanPortfolioSchedule(loans, years),
+    [loans, years]
+  );
+  const loanPayments = useMemo(
+    () =>
+      loans.map((loan) => {
+        const rows = calculateLoanSchedule(loan);
+        return schedule.map((y) => {
+          const r = rows.find((x) => x.year === y.year);
+          return r ? r.principal + r.interest : 0;
+        });
+      }),
+    [loans, schedule]
+  );
+
+  // 実績期は貸借対照表の有利子負債（未入力なら最新期末の借入金残高）を使い、
+  // シナリオは基準期の有利子負債に借入増減額を加える
+  const capacityColumns: CapacityColumn[] = useMemo(
+    () => [
+      ...validPeriods.map((p) => ({
+        key: p.id,
+        label: p.label,
+        sublabel: "実績",
+        capacity: calculateDebtRepaymentCapacity(
+          calculateMetrics(p).ordinaryProfit,
+          p.depreciation,
+          calculatePeriodInterestBearingDebt(p, loans),
+          loanTaxRate
+        ),
+        isScenario: false,
+      })),
+      ...scenarioResults.map((r) => ({
+        key: r.scenario.id,
+        label: r.scenario.label,
+        sublabel: `基準: ${r.basePeriodLabel}`,
+        capacity: calculateScenarioDebtRepaymentCapacity(
+          r,
+          validPeriods.find((p) => p.id === r.basePeriodId) ?? latestPeriod,
+          loans,
+          loanTaxRate
+        ),
+        isScenario: true,
+      })),
+    ],
+    [validPeriods, latestPeriod, scenarioResults, loans, loanTaxRate]
+  );
+
+  const handleExcelExport = useCallback(async () => {
+    setIsExcelExporting(true);
+    try {
+      await exportLoanExcel(
+        loans,
+        validPeriods,
+        scenarioResults,
+        loanTaxRate,
+        company.name
+      );
+    } catch (err) {
+      console.error("Excel export failed:", err);
+      alert("Excelエクスポートに失敗しました。");
+    } finally {
+      setIsExcelExporting(false);
+    }
+  }, [loans, validPeriods, scenarioResults, loanTaxRate, company.name]);
+
+  const fmt = (v: number) => formatNumber(v, 0);
+
+  const capacityRows: {
+    label: string;
+    bgClass: string;
+    value: (c: DebtRepaymentCapacity) => number;
+    bold?: boolean;
+  }[] = [
+    { label: "経常利益", bgClass: "bg-profit", value: (c) => c.ordinaryProfit },
+    { label: "想定税額", bgClass: "", value: (c) => -c.tax },
+    { label: "減価償却費", bgClass: "bg-fixed", value: (c) => c.depreciation },
+    { label: "簡易キャッシュフロー", bgClass: "bg-sales", value: (c) => c.cashFlow, bold: true },
+    { label: "有利子負債残高", bgClass: "", value: (c) => c.debt },
+  ];
+
+  if (!latestPeriod) {
+    return (
+      <div className="p-6 max-w-7xl mx-auto space-y-6">
+        <h1 className="text-2xl font-bold">借入金・債務償還</h1>
+        <Card>
+          <CardContent className="py-12">
+            <p className="text-center text-muted-foreground">
+              債務償還能力を分析するには、売上高が入力された期が1期以上必要です。
+              <br />
+              Step 2（データ入力）でデータを入力してください。
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      <h1 className="text-2xl font-bold">借入金・債務償還</h1>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">
+              借入金（{latestPeriod.label} 期末残高）
+            </CardTitle>
+            <Button variant="outline" size="sm" onClick={addLoan}>
+              <Plus className="w-4 h-4 mr-1" />
+              借入を追加
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loans.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              登録済みの借入金はありません。「借入を追加」から金融機関別の借入を登録してください。
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm border-collapse min-w-[700px]">
+                <thead>
+                  <tr className="border-b-2 border-gray-300">
+                    <th className="text-left py-2 px-2">借入先・名称</th>
+                    <th className="text-right py-2 px-2 w-36">期末残高（千円）</th>
+                    <th className="text-right py-2 px-2 w-28">年利（%）</th>
+                    <th className="text-right py-2 px-2 w-28">残存年数（年）</th>
+                    <th className="text-left py-2 px-2 w-36">返済方法</th>
+                    <th className="w-10" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {loans.map((loan, i) => (
+                    <tr key={loan.id} className="border-b">
+                      <td className="py-1.5 px-2">
+                        <Input
+                          value={loan.name}
+                          onChange={(e) => updateLoan(i, { name: e.target.value })}
+                          className="h-8 text-sm"
+                        />
+                      </td>
+                      <td className="py-1.5 px-2">
+                        <Input
+                          type="number"
+                          value={loan.balance}
+                          min={0}
+                          step={1000}
+                          onChange={(e) =>
+                            updateLoan(i, {
+                              balance: Math.max(0, parseFloat(e.target.value) || 0),
+                            })
+                          }
+                          className="h-8 text-right text-sm tabular-nums"
+                        />
+                      </td>
+                      <td className="py-1.5 px-2">
+                        <Input
+                          type="number"
+                          value={loan.interestRate}
+                          min={0}
+                          step={0.1}
+                          onChange={(e) =>
+                            updateLoan(i, {
+                              interestRate: Math.max(0, parseFloat(e.target.value) || 0),
+                            })
+                          }
+                          className="h-8 text-right text-sm tabular-nums"
+                        />
+                      </td>
+                      <td className="py-1.5 px-2">
+                        <Input
+                          type="number"
+                          value={loan.remainingYears}
+                          min={1}
+                          step={1}
+                          onChange={(e) =>
+                            updateLoan(i, {
+                              remainingYears: Math.max(1, Math.round(parseFloat(e.target.value) || 1)),
+                            })
+                          }
+                          className="h-8 text-right text-sm tabular-nums"
+                        />
+                      </td>
+                      <td className="py-1.5 px-2">
+                        <Select
+                          value={loan.method}
+                          onValueChange={(v) =>
+                            updateLoan(i, { method: v as RepaymentMethod })
+                          }
+                        >
+                          <SelectTrigger className="h-8 text-sm">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(methodLabels) as RepaymentMethod[]).map((m) => (
+                              <SelectItem key={m} value={m}>
+                                {methodLabels[m]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </td>
+                      <td className="py-1.5 px-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => removeLoan(i)}
+                          aria-label={`${loan.name}を削除`}
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                  <tr className="border-t-2 border-gray-300 font-bold">
+                    <td className="py-1.5 px-2">合計</td>
+                    <td className="text-right py-1.5 px-4 tabular-nums">{fmt(totalBalance)}</td>
+                    <td colSpan={4} />
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {loans.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">返済スケジュール（千円 / 1年目 = {latestPeriod.label} の翌期）</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm border-collapse min-w-[600px]">
+                <thead>
+                  <tr className="border-b-2 border-gray-300">
+                    <th className="text-left py-2 px-3 w-48">項目</th>
+                    {schedule.map((y) => (
+                      <th key={y.year} className="text-right py-2 px-2 min-w-[90px]">
+                        {y.year}年目
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-b">
+                    <td className="py-1.5 px-3">期首残高</td>
+                    {schedule.map((y) => (
+                      <td key={y.year} className="text-right py-1.5 px-2 tabular-nums">
+                        {fmt(y.openingBalance)}
+                      </td>
+                    ))}
+                  </tr>
+                  <tr className="border-b">
+                    <td className="py-1.5 px-3">支払利息</td>
+                    {schedule.map((y) => (
+                      <td key={y.year} className="text-right py-1.5 px-2 tabular-nums">
+                        {fmt(y.interest)}
+                      </td>
+                    ))}
+                  </tr>
+                  <tr className="border-b">
+                    <td className="py-1.5 px-3">元金返済額</td>
+                    {schedule.map((y) => (
+                      <td key={y.year} className="text-right py-1.5 px-2 tabular-nums">
+                        {fmt(y.principal)}
+                      </td>
+                    ))}
+                  </tr>
+                  {loans.map((loan, i) => (
+                    <tr key={loan.id} className="border-b">
+                      <td className="py-1.5 px-3 pl-8 text-xs text-muted-foreground">
+                        {loan.name} 元利返済額
+                      </td>
+                      {loanPayments[i].map((v, j) => (
+                        <td
+                          key={j}
+                          className="text-right py-1.5 px-2 tabular-nums text-xs text-muted-foreground"
+                        >
+                          {fmt(v)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                  <tr className="border-b bg-fixed">
+                    <td className="py-1.5 px-3 font-bold">期末残高</td>
+                    {schedule.map((y) => (
+                      <td key={y.year} className="text-right py-1.5 px-2 tabular-nums font-bold">
+                        {fmt(y.closingBalance)}
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-muted-foreground mt-3">
+              支払利息は期首残高 × 年利で年1回計算します（実際の約定とは端数が異なる場合があります）。
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">債務償還年数（千円）</CardTitle>
+            <div className="flex items-center gap-2">
+              <Label className="text-xs">想定税率</Label>
+              <Input
+                type="number"
+                value={loanTaxRate}
+                min={0}
+                max={100}
+                step={1}
+                onChange={(e) =>
+                  setLoanTaxRate(Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)))
+                }
+                className="h-7 w-20 text-right text-xs tabular-nums"
+              />
+              <span className="text-xs text-muted-foreground">%</span>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm border-collapse min-w-[600px]">
+              <thead>
+                <tr className="border-b-2 border-gray-300">
+                  <th className="text-left py-2 px-3 w-48">項目</th>
+                  {capacityColumns.map((c) => (
+                    <th key={c.key} className="text-right py-2 px-2 min-w-[110px]">
+                      {c.label}
+                      <span
+                        className={`block text-[10px] font-normal ${
+                          c.isScenario ? "text-blue-700" : "text-muted-foreground"
+                        }`}
+                      >
+                        {c.sublabel}
+                      </span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {capacityRows.map((row) => (
+                  <tr key={row.label} className={`border-b ${row.bgClass}`}>
+                    <td className={`py-1.5 px-3 ${row.bold ? "font-bold" : ""}`}>{row.label}</td>
+                    {capacityColumns.map((c) => {
+                      const v = row.value(c.capacity);
+                      return (
+                        <td
+                          key={c.key}
+                          className={`text-right py-1.5 px-2 tabular-nums ${
+                            row.bold ? "font-bold" : ""
+                          } ${v < 0 && row.bold ? "text-red-600" : ""}`}
+                        >
+                          {fmt(v)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+                <tr className="border-b-2 border-gray-300">
+                  <td className="py-2 px-3 font-bold">債務償還年数</td>
+                  {capacityColumns.map((c) => {
+                    const y = c.capacity.repaymentYears;
+                    return (
+                      <td
+                        key={c.key}
+                        className={`text-right py-2 px-2 tabular-nums font-bold ${
+                          y === null || y > REPAYMENT_YEARS_GUIDE
+                            ? "text-red-600"
+                            : "text-blue-600"
+                        }`}
+                      >
+                        {y === null ? "返済原資なし" : `${formatNumber(y, 1)}年`}
+                      </td>
+                    );
+                  })}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-muted-foreground mt-3">
+            簡易キャッシュフロー = 経常利益 ×（1 − 想定税率）＋ 減価償却費、債務償還年数 = 有利子負債残高 ÷ 簡易キャッシュフロー。
+            金融機関は{REPAYMENT_YEARS_GUIDE}年以内をひとつの目安としています。
+            実績期の有利子負債は {latestPeriod.label} 期末の借入金残高を共通で用い、シナリオは借入増減額を加算します。
+          </p>
+        </CardContent>
+      </Card>
+
+      <div className="flex gap-3">
+        <Button
+          variant="outline"
+          onClick={handleExcelExport}
+          disabled={isExcelExporting || loans.length === 0}
+        >
+          {isExcelExporting ? "Excel生成中..." : "Excelダウンロード"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,395 @@
+"use client";
+
+import { useMemo, useCallback, useState } from "react";
+import { useAppStore, createDefaultMonthlySeries } from "@/lib/store";
+import {
+  aggregateMonthlyData,
+  calculateMetrics,
+  calculateMonthlyTrend,
+  formatNumber,
+  getCalendarMonth,
+} from "@/lib/calculations";
+import { exportActualDataExcel } from "@/lib/excel-export";
+import { MonthlyData } from "@/lib/types";
+import MonthlyTrendChart, { MonthlyTrendBasis } from "@/components/charts/MonthlyTrendChart";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Minus } from "lucide-react";
+
+const monthlyRows: { key: keyof MonthlyData; label: string; bgClass: string; allowNegative?: boolean }[] = [
+  { key: "sales", label: "売上高", bgClass: "bg-sales" },
+  { key: "materialCost", label: "材料費", bgClass: "bg-variable" },
+  { key: "outsourcingCost", label: "外注費", bgClass: "bg-variable" },
+  { key: "merchandisePurchase", label: "商品仕入", bgClass: "bg-variable" },
+  { key: "otherVariableCost", label: "その他変動費", bgClass: "bg-variable" },
+  { key: "laborCost", label: "人件費", bgClass: "bg-fixed" },
+  { key: "depreciation", label: "減価償却費", bgClass: "bg-fixed" },
+  { key: "otherExpenses", label: "その他経費", bgClass: "bg-fixed" },
+  { key: "nonOperatingIncome", label: "営業外損益", bgClass: "", allowNegative: true },
+  { key: "employeeCount", label: "従業員数（人）", bgClass: "" },
+];
+
+const basisLabels: Record<MonthlyTrendBasis, string> = {
+  monthly: "単月",
+  ytd: "累計（YTD）",
+  ttm: "直近12ヶ月（TTM）",
+};
+
+export default function MonthlyPage() {
+  const periods = useAppStore((s) => s.periods);
+  const company = useAppStore((s) => s.company);
+  const budgets = useAppStore((s) => s.budgets);
+  const updatePeriod = useAppStore((s) => s.updatePeriod);
+  const setMonthlyStartMonth = useAppStore((s) => s.setMonthlyStartMonth);
+  const addMonthlyData = useAppStore((s) => s.addMonthlyData);
+  const removeMonthlyData = useAppStore((s) => s.removeMonthlyData);
+  const updateMonthlyData = useAppStore((s) => s.updateMonthlyData);
+  const [selectedIndex, setSelectedIndex] = useState(() => Math.max(0, periods.length - 1));
+  const [basis, setBasis] = useState<MonthlyTrendBasis>("monthly");
+  const [isExcelExporting, setIsExcelExporting] = useState(false);
+
+  // 期の削除で範囲外になった場合は最新期を表示する
+  const periodIndex = Math.min(selectedIndex, periods.length - 1);
+  const period = periods[periodIndex];
+  const series = period?.monthly;
+  const months = useMemo(() => series?.months ?? [], [series]);
+  const startMonth = (series ?? createDefaultMonthlySeries(periods, periodIndex)).startMonth;
+
+  const trend = useMemo(() => calculateMonthlyTrend(periods), [periods]);
+  const periodPoints = useMemo(
+    () =>
+      trend
+        .filter((pt) => pt.periodId === period?.id)
+        .map((pt) => ({ point: pt, metrics: calculateMetrics(pt.monthly) })),
+    [trend, period]
+  );
+  const total = useMemo(() => aggregateMonthlyData(months), [months]);
+  const totalMetrics = useMemo(() => {
+    const last = periodPoints[periodPoints.length - 1];
+    return last ? calculateMetrics(last.point.ytd) : null;
+  }, [periodPoints]);
+  const annualMetrics = useMemo(() => (period ? calculateMetrics(period) : null), [period]);
+
+  const handleAggregate = useCallback(() => {
+    if (months.length === 0) return;
+    const message =
+      months.length < 12
+        ? `月次は${months.length}ヶ月分です。${months.length}ヶ月の累計で年次データを上書きしますか？`
+        : "12ヶ月の月次合計で年次データ（売上高〜営業外損益・従業員数）を上書きしますか？";
+    if (!confirm(message)) return;
+    updatePeriod(periodIndex, aggregateMonthlyData(months));
+  }, [months, periodIndex, updatePeriod]);
+
+  const handleExcelExport = useCallback(async () => {
+    setIsExcelExporting(true);
+    try {
+      await exportActualDataExcel(periods, company.name, budgets);
+    } catch (err) {
+      console.error("Excel export failed:", err);
+      alert("Excelエクスポートに失敗しました。");
+    } finally {
+      setIsExcelExporting(false);
+    }
+  }, [periods, company.name, budgets]);
+
+  const fmt = (v: number) => formatNumber(v, 0);
+
+  if (!period) {
+    return (
+      <div className="p-6 max-w-7xl mx-auto space-y-6">
+        <h1 className="text-2xl font-bold">月次推移</h1>
+        <Card>
+          <CardContent className="py-12">
+            <p className="text-center text-muted-foreground">
+              月次試算表を入力するには、決算期を1期以上追加してください。
+              <br />
+              Step 2（データ入力）で決算期を追加できます。
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      <h1 className="text-2xl font-bold">月次推移</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">月次試算表（千円）</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            月次試算表の数値を期首月から入力します。年次データと同じ費目で入力し、12ヶ月そろったら年次データに集計できます。
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <Label className="text-sm">決算期</Label>
+            <Select
+              value={String(periodIndex)}
+              onValueChange={(v) => setSelectedIndex(Number(v))}
+            >
+              <SelectTrigger className="w-48 h-8 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {periods.map((p, i) => (
+                  <SelectItem key={p.id} value={String(i)}>
+                    {p.label}
+                    {p.monthly && `（${p.monthly.months.length}ヶ月）`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Label className="text-sm ml-2">期首月</Label>
+            <Select
+              value={String(startMonth)}
+              onValueChange={(v) => setMonthlyStartMonth(periodIndex, Number(v))}
+            >
+              <SelectTrigger className="w-24 h-8 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: 12 }, (_, i) => i + 1).map((m) => (
+                  <SelectItem key={m} value={String(m)}>
+                    {m}月
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex gap-2 ml-auto">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => addMonthlyData(periodIndex)}
+                disabled={months.length >= 12}
+              >
+                <Plus className="w-3.5 h-3.5 mr-1" />
+                翌月を追加
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => removeMonthlyData(periodIndex)}
+                disabled={months.length === 0}
+              >
+                <Minus className="w-3.5 h-3.5 mr-1" />
+                最終月を削除
+              </Button>
+              <Button size="sm" onClick={handleAggregate} disabled={months.length === 0}>
+                年次データに集計
+              </Button>
+            </div>
+          </div>
+
+          {months.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-6 text-center">
+              「翌月を追加」で期首月から月次試算表を入力してください。
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm border-collapse">
+                <thead>
+                  <tr className="border-b-2 border-gray-300">
+                    <th className="text-left py-2 px-3 w-32">項目</th>
+                    {months.map((_, i) => (
+                      <th key={i} className="text-right py-2 px-1 min-w-[88px]">
+                        {getCalendarMonth(startMonth, i + 1)}月
+                      </th>
+                    ))}
+                    <th className="text-right py-2 px-2 min-w-[100px]">累計</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {monthlyRows.map((row) => (
+                    <tr key={row.key} className={`border-b ${row.bgClass}`}>
+                      <td className="py-1 px-3">{row.label}</td>
+                      {months.map((m, i) => (
+                        <td key={i} className="py-1 px-1">
+                          <Input
+                            type="number"
+                            value={m[row.key]}
+                            min={row.allowNegative ? undefined : 0}
+                            onChange={(e) => {
+                              const v = parseFloat(e.target.value) || 0;
+                              updateMonthlyData(periodIndex, i, {
+                                [row.key]: row.allowNegative ? v : Math.max(0, v),
+                              });
+                            }}
+                            className="h-7 text-right text-xs tabular-nums"
+                          />
+                        </td>
+                      ))}
+                      <td className="text-right py-1 px-2 tabular-nums font-medium">
+                        {fmt(total[row.key])}
+                      </td>
+                    </tr>
+                  ))}
+                  <tr className="border-b bg-sales">
+                    <td className="py-1.5 px-3 font-bold">限界利益</td>
+                    {periodPoints.map(({ point, metrics }) => (
+                      <td key={point.monthIndex} className="text-right py-1.5 px-2 tabular-nums">
+                        {fmt(metrics.marginalProfit)}
+                      </td>
+                    ))}
+                    <td className="text-right py-1.5 px-2 tabular-nums font-bold">
+                      {fmt(totalMetrics?.marginalProfit ?? 0)}
+                    </td>
+                  </tr>
+                  <tr className="border-b">
+                    <td className="py-1.5 px-3">限界利益率</td>
+                    {periodPoints.map(({ point, metrics }) => (
+                      <td key={point.monthIndex} className="text-right py-1.5 px-2 tabular-nums">
+                        {formatNumber(metrics.marginalProfitRate, 1)}%
+                      </td>
+                    ))}
+                    <td className="text-right py-1.5 px-2 tabular-nums">
+                      {formatNumber(totalMetrics?.marginalProfitRate ?? 0, 1)}%
+                    </td>
+                  </tr>
+                  <tr className="border-b bg-profit">
+                    <td className="py-1.5 px-3 font-bold">経常利益</td>
+                    {periodPoints.map(({ point, metrics }) => (
+                      <td
+                        key={point.monthIndex}
+                        className={`text-right py-1.5 px-2 tabular-nums ${
+                          metrics.ordinaryProfit < 0 ? "text-red-600" : ""
+                        }`}
+                      >
+                        {fmt(metrics.ordinaryProfit)}
+                      </td>
+                    ))}
+                    <td className="text-right py-1.5 px-2 tabular-nums font-bold">
+                      {fmt(totalMetrics?.ordinaryProfit ?? 0)}
+                    </td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {months.length === 12 && period.sales > 0 && totalMetrics && annualMetrics && (
+            <div
+              className={`rounded-md px-3 py-2 border text-sm ${
+                Math.abs(totalMetrics.ordinaryProfit - annualMetrics.ordinaryProfit) < 1 &&
+                Math.abs(total.sales - period.sales) < 1
+                  ? "bg-emerald-50 border-emerald-300"
+                  : "bg-amber-50 border-amber-300"
+              }`}
+            >
+              年次データとの差: 売上高 {fmt(total.sales - period.sales)} 千円 / 経常利益{" "}
+              {fmt(totalMetrics.ordinaryProfit - annualMetrics.ordinaryProfit)} 千円
+              <span className="text-xs text-muted-foreground ml-2">
+                （決算整理・棚卸増減調整の有無で差が生じます）
+              </span>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {trend.length > 0 && (
+        <>
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-base">月次推移チャート</CardTitle>
+                <div className="flex gap-1">
+                  {(Object.keys(basisLabels) as MonthlyTrendBasis[]).map((b) => (
+                    <Button
+                      key={b}
+                      variant={basis === b ? "secondary" : "ghost"}
+                      size="sm"
+                      onClick={() => setBasis(b)}
+                    >
+                      {basisLabels[b]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <MonthlyTrendChart points={trend} basis={basis} />
+              {basis === "ttm" && trend.every((pt) => !pt.ttm) && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  TTMは連続した12ヶ月分の月次が必要です（前期の月次が12ヶ月そろっていれば期をまたいで集計します）。
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">YTD・TTM（千円）</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm border-collapse min-w-[800px]">
+                  <thead>
+                    <tr className="border-b-2 border-gray-300">
+                      <th className="text-left py-2 px-3">月</th>
+                      <th className="text-right py-2 px-2">単月売上高</th>
+                      <th className="text-right py-2 px-2">単月経常利益</th>
+                      <th className="text-right py-2 px-2">YTD売上高</th>
+                      <th className="text-right py-2 px-2">YTD経常利益</th>
+                      <th className="text-right py-2 px-2">TTM売上高</th>
+                      <th className="text-right py-2 px-2">TTM限界利益率</th>
+                      <th className="text-right py-2 px-2">TTM経常利益</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {trend.map((pt) => {
+                      const monthly = calculateMetrics(pt.monthly);
+                      const ytd = calculateMetrics(pt.ytd);
+                      const ttm = pt.ttm ? calculateMetrics(pt.ttm) : null;
+                      return (
+                        <tr key={`${pt.periodId}-${pt.monthIndex}`} className="border-b">
+                          <td className="py-1.5 px-3">{pt.label}</td>
+                          <td className="text-right py-1.5 px-2 tabular-nums">
+                            {fmt(pt.monthly.sales)}
+                          </td>
+                          <td className="text-right py-1.5 px-2 tabular-nums">
+                            {fmt(monthly.ordinaryProfit)}
+                          </td>
+                          <td className="text-right py-1.5 px-2 tabular-nums">
+                            {fmt(pt.ytd.sales)}
+                          </td>
+                          <td className="text-right py-1.5 px-2 tabular-nums">
+                            {fmt(ytd.ordinaryProfit)}
+                          </td>
+                          <td className="text-right py-1.5 px-2 tabular-nums">
+                            {pt.ttm ? fmt(pt.ttm.sales) : "-"}
+                          </td>
+                          <td className="text-right py-1.5 px-2 tabular-nums">
+                            {ttm ? `${formatNumber(ttm.marginalProfitRate, 1)}%` : "-"}
+                          </td>
+                          <td className="text-right py-1.5 px-2 tabular-nums">
+                            {ttm ? fmt(ttm.ordinaryProfit) : "-"}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <div className="flex gap-3">
+        <Button variant="outline" onClick={handleExcelExport} disabled={isExcelExporting}>
+          {isExcelExporting ? "Excel生成中..." : "Excelダウンロード"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,376 @@
+"use client";
+
+import React, { useMemo, useCallback, useState } from "react";
+import { toPng } from "html-to-image";
+import { useAppStore } from "@/lib/store";
+import {
+  calculateMetrics,
+  calculateManagementPlan,
+  formatNumber,
+  toOku,
+} from "@/lib/calculations";
+import { exportManagementPlanExcel } from "@/lib/excel-export";
+import { CalculatedMetrics, PeriodData, PlanYear } from "@/lib/types";
+import GrowthChart, { GrowthChartDataPoint } from "@/components/charts/GrowthChart";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, Trash2 } from "lucide-react";
+
+const assumptionDefs: {
+  key: Exclude<keyof PlanYear, "id" | "label">;
+  label: string;
+  unit: string;
+  step: number;
+}[] = [
+  { key: "salesGrowthRate", label: "売上高成長率", unit: "%", step: 0.5 },
+  { key: "variableCostRateChange", label: "変動費率変化", unit: "%pt", step: 0.1 },
+  { key: "wageIncreaseRate", label: "賃上げ率（1人当たり人件費）", unit: "%", step: 0.5 },
+  { key: "employeeCount", label: "従業員数", unit: "人", step: 1 },
+  { key: "fixedCostChangeRate", label: "減価償却費・その他経費変化率", unit: "%", step: 0.5 },
+];
+
+interface PlanColumn {
+  key: string;
+  label: string;
+  period: PeriodData;
+  metrics: CalculatedMetrics;
+  isProjection: boolean;
+}
+
+function PlanTable({ columns }: { columns: PlanColumn[] }) {
+  const fmt = (v: number) => formatNumber(v, 0);
+  const fmtR = (v: number) => `${formatNumber(v, 1)}%`;
+
+  const rows: {
+    label: string;
+    bgClass: string;
+    render: (c: PlanColumn) => string;
+    bold?: boolean;
+    highlight?: (c: PlanColumn) => string;
+  }[] = [
+    { label: "売上高", bgClass: "bg-sales", render: (c) => fmt(c.period.sales), bold: true },
+    { label: "変動費合計", bgClass: "bg-variable", render: (c) => fmt(c.metrics.totalVariableCost) },
+    { label: "限界利益", bgClass: "bg-sales", render: (c) => fmt(c.metrics.marginalProfit), bold: true },
+    { label: "限界利益率", bgClass: "bg-sales", render: (c) => fmtR(c.metrics.marginalProfitRate) },
+    { label: "人件費", bgClass: "bg-fixed", render: (c) => fmt(c.period.laborCost) },
+    { label: "減価償却費", bgClass: "bg-fixed", render: (c) => fmt(c.period.depreciation) },
+    { label: "その他経費", bgClass: "bg-fixed", render: (c) => fmt(c.period.otherExpenses) },
+    { label: "固定費合計", bgClass: "bg-fixed", render: (c) => fmt(c.metrics.totalFixedCost) },
+    { label: "営業利益", bgClass: "bg-profit", render: (c) => fmt(c.metrics.operatingProfit) },
+    { label: "営業外損益", bgClass: "", render: (c) => fmt(c.period.nonOperatingIncome) },
+    {
+      label: "経常利益",
+      bgClass: "bg-profit",
+      render: (c) => fmt(c.metrics.ordinaryProfit),
+      bold: true,
+      highlight: (c) => (c.metrics.ordinaryProfit < 0 ? "text-red-600" : ""),
+    },
+    { label: "法人税等", bgClass: "", render: (c) => fmt(c.metrics.corporateTax) },
+    {
+      label: "当期純利益",
+      bgClass: "bg-profit",
+      render: (c) => fmt(c.metrics.netIncome),
+      highlight: (c) => (c.metrics.netIncome < 0 ? "text-red-600" : ""),
+    },
+    { label: "労働分配率", bgClass: "", render: (c) => fmtR(c.metrics.laborShareRate) },
+    { label: "従業員数", bgClass: "", render: (c) => `${fmt(c.period.employeeCount)}人` },
+    {
+      label: "1人当たり人件費",
+      bgClass: "",
+      render: (c) =>
+        fmt(c.period.employeeCount > 0 ? c.period.laborCost / c.period.employeeCount : 0),
+    },
+    { label: "1人当たり加工高（年）", bgClass: "", render: (c) => fmt(c.metrics.marginalProfitPerEmployee) },
+    { label: "1人当たり経常利益", bgClass: "", render: (c) => fmt(c.metrics.ordinaryProfitPerEmployee) },
+  ];
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm border-collapse min-w-[600px]">
+        <thead>
+          <tr className="border-b-2 border-gray-300">
+            <th className="text-left py-2 px-3 w-48">項目（千円）</th>
+            {columns.map((c) => (
+              <th key={c.key} className="text-right py-2 px-2 min-w-[110px]">
+                {c.label}
+                {c.isProjection && (
+                  <span className="block text-[10px] font-normal text-muted-foreground">計画</span>
+                )}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.label} className={`border-b ${row.bgClass}`}>
+              <td className={`py-1.5 px-3 ${row.bold ? "font-bold" : ""}`}>{row.label}</td>
+              {columns.map((c) => (
+                <td
+                  key={c.key}
+                  className={`text-right py-1.5 px-2 tabular-nums ${
+                    c.isProjection ? "italic" : ""
+                  } ${row.highlight?.(c) ?? ""}`}
+                >
+                  {row.render(c)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function PlanPage() {
+  const periods = useAppStore((s) => s.periods);
+  const company = useAppStore((s) => s.company);
+  const planYears = useAppStore((s) => s.planYears);
+  const capexAssets = useAppStore((s) => s.capexAssets);
+  const createPlan = useAppStore((s) => s.createPlan);
+  const addPlanYear = useAppStore((s) => s.addPlanYear);
+  const removePlanYear = useAppStore((s) => s.removePlanYear);
+  const updatePlanYear = useAppStore((s) => s.updatePlanYear);
+  const [isExcelExporting, setIsExcelExporting] = useState(false);
+
+  const validPeriods = useMemo(
+    () => periods.filter((p) => p.sales > 0),
+    [periods]
+  );
+  const basePeriod = validPeriods[validPeriods.length - 1];
+
+  const results = useMemo(
+    () =>
+      basePeriod ? calculateManagementPlan(basePeriod, planYears, capexAssets) : [],
+    [basePeriod, planYears, capexAssets]
+  );
+
+  const columns: PlanColumn[] = useMemo(() => {
+    if (!basePeriod) return [];
+    return [
+      {
+        key: basePeriod.id,
+        label: basePeriod.label,
+        period: basePeriod,
+        metrics: calculateMetrics(basePeriod),
+        isProjection: false,
+      },
+      ...results.map((r) => ({
+        key: r.plan.id,
+        label: r.plan.label,
+        period: r.period,
+        metrics: r.metrics,
+        isProjection: true,
+      })),
+    ];
+  }, [basePeriod, results]);
+
+  // 実績全期 → 計画年度の順に並べ、計画は破線マーカーで表示
+  const chartData: GrowthChartDataPoint[] = useMemo(
+    () => [
+      ...validPeriods.map((p) => {
+        const m = calculateMetrics(p);
+        return {
+          label: p.label,
+          salesOku: toOku(p.sales),
+          marginalProfitRate: m.marginalProfitRate,
+          marginalProfitOku: toOku(m.marginalProfit),
+        };
+      }),
+      ...results.map((r) => ({
+        label: r.plan.label,
+        salesOku: toOku(r.period.sales),
+        marginalProfitRate: r.metrics.marginalProfitRate,
+        marginalProfitOku: toOku(r.metrics.marginalProfit),
+        isProjection: true,
+      })),
+    ],
+    [validPeriods, results]
+  );
+
+  const handleExcelExport = useCallback(async () => {
+    if (!basePeriod) return;
+    setIsExcelExporting(true);
+    try {
+      let chartImage: string | undefined;
+      const chartEl = document.querySelector<HTMLElement>("[data-plan-growth-chart]");
+      if (chartEl) {
+        try {
+          chartImage = await toPng(chartEl, {
+            backgroundColor: "#ffffff",
+            pixelRatio: 2,
+            cacheBust: true,
+          });
+        } catch {
+          // キャプチャ失敗時は画像なしで進行
+        }
+      }
+      await exportManagementPlanExcel(
+        basePeriod,
+        planYears,
+        company.name,
+        chartImage,
+        capexAssets
+      );
+    } catch (err) {
+      console.error("Excel export failed:", err);
+      alert("Excelエクスポートに失敗しました。");
+    } finally {
+      setIsExcelExporting(false);
+    }
+  }, [basePeriod, planYears, company.name, capexAssets]);
+
+  const hasData = !!basePeriod;
+  const hasPlan = planYears.length > 0;
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      <h1 className="text-2xl font-bold">中期経営計画</h1>
+
+      {!hasData ? (
+        <Card>
+          <CardContent className="py-12">
+            <p className="text-center text-muted-foreground">
+              中期経営計画を作成するには、売上高が入力された期が1期以上必要です。
+              <br />
+              Step 2（データ入力）でデータを入力してください。
+            </p>
+          </CardContent>
+        </Card>
+      ) : !hasPlan ? (
+        <Card>
+          <CardContent className="py-12 space-y-4 text-center">
+            <p className="text-muted-foreground">
+              直近期（{basePeriod.label}）の実績を起点に、3〜5年の年度別計画を作成します。
+            </p>
+            <Button onClick={() => createPlan(basePeriod.employeeCount || 1)}>
+              <Plus className="w-4 h-4 mr-1" />
+              計画を作成
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-base">
+                  計画前提（前年度比 / 起点: {basePeriod.label}）
+                </CardTitle>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={addPlanYear}
+                  disabled={planYears.length >= 5}
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  年度追加
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm border-collapse min-w-[600px]">
+                  <thead>
+                    <tr className="border-b-2 border-gray-300">
+                      <th className="text-left py-2 px-3 w-56">項目</th>
+                      {planYears.map((y, i) => (
+                        <th key={y.id} className="py-2 px-2 min-w-[130px]">
+                          <div className="flex items-center gap-1">
+                            <Input
+                              value={y.label}
+                              onChange={(e) => updatePlanYear(i, { label: e.target.value })}
+                              className="h-8 text-xs font-semibold"
+                            />
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7 shrink-0"
+                              onClick={() => removePlanYear(i)}
+                              disabled={planYears.length <= 3}
+                              aria-label={`${y.label}を削除`}
+                            >
+                              <Trash2 className="w-3.5 h-3.5" />
+                            </Button>
+                          </div>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {assumptionDefs.map((def) => (
+                      <tr key={def.key} className="border-b">
+                        <td className="py-1.5 px-3">
+                          {def.label}
+                          <span className="text-xs text-muted-foreground ml-1">（{def.unit}）</span>
+                        </td>
+                        {planYears.map((y, i) => (
+                          <td key={y.id} className="py-1.5 px-2">
+                            <Input
+                              type="number"
+                              value={y[def.key]}
+                              step={def.step}
+                              min={def.key === "employeeCount" ? 1 : undefined}
+                              onChange={(e) => {
+                                const v = parseFloat(e.target.value) || 0;
+                                updatePlanYear(i, {
+                                  [def.key]: def.key === "employeeCount" ? Math.max(1, Math.round(v)) : v,
+                                });
+                              }}
+                              className="h-8 text-right text-xs tabular-nums"
+                            />
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-muted-foreground mt-3">
+                各年度の前提は前年度の計画値に連鎖して適用します。人件費は「前年人件費 ×（1＋賃上げ率）× 従業員数 ÷ 前年従業員数」、
+                変動費は前年度の構成比で按分し、営業外損益は起点期の値で据え置きます。
+              </p>
+              {capexAssets.length > 0 && (
+                <p className="text-xs text-blue-700 mt-1">
+                  設備投資計画（{capexAssets.length}件）を登録済みのため、減価償却費は「前年度＋設備投資による増減」で計算し、
+                  「減価償却費・その他経費変化率」はその他経費にのみ適用します。
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">年度別損益計画</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <PlanTable columns={columns} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">成長チャート（実績＋計画）</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div data-plan-growth-chart>
+                <GrowthChart data={chartData} />
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="flex gap-3">
+            <Button
+              variant="outline"
+              onClick={handleExcelExport}
+              disabled={isExcelExporting}
+            >
+              {isExcelExporting ? "Excel生成中..." : "Excelダウンロード"}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
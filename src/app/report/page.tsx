@@ -7,6 +7,7 @@ import {
   calculateCompositionRatios,
   calculateWaterfallFactors,
   calculateScenario,
+  resolveScenarioBasePeriod,
   formatNumber,
   toOku,
 } from "@/lib/calculations";
@@ -16,6 +17,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import WaterfallChart from "@/components/charts/WaterfallChart";
 import GrowthChart from "@/components/charts/GrowthChart";
+import ScenarioComparisonChart from "@/components/charts/ScenarioComparisonChart";
 import {
   FileText,
   Printer,
@@ -32,6 +34,7 @@ interface ReportSections {
   waterfallChart: boolean;
   growthChart: boolean;
   simulation: boolean;
+  scenarioChart: boolean;
 }
 
 function calcWaterfallYRange(
@@ -62,6 +65,7 @@ export default function ReportPage() {
     waterfallChart: true,
     growthChart: true,
     simulation: true,
+    scenarioChart: true,
   });
   const printRef = useRef<HTMLDivElement>(null);
 
@@ -87,8 +91,9 @@ export default function ReportPage() {
     if (sections.waterfallChart) count += waterfallPairs.length;
     if (sections.growthChart && validPeriods.length >= 2) count++;
     if (sections.simulation) count++;
+    if (sections.scenarioChart && scenarios.length >= 1) count++;
     return count;
-  }, [sections, waterfallPairs.length, validPeriods.length]);
+  }, [sections, waterfallPairs.length, validPeriods.length, scenarios.length]);
 
   const handlePrint = () => {
     window.print();
@@ -100,6 +105,7 @@ export default function ReportPage() {
     { key: "waterfallChart", label: "ウォーターフォールチャート", available: waterfallPairs.length >= 1 },
     { key: "growthChart", label: "Growth Chart", available: validPeriods.length >= 2 },
     { key: "simulation", label: "損益シミュレーション", available: scenarios.length >= 1 },
+    { key: "scenarioChart", label: "シナリオ比較チャート", available: scenarios.length >= 1 },
   ];
 
   const basePeriod = validPeriods[validPeriods.length - 1];
@@ -232,6 +238,9 @@ export default function ReportPage() {
                     { label: "　外注費", cls: "bg-variable", getValue: (p) => formatNumber(p.outsourcingCost, 0) },
                     { label: "　商品仕入", cls: "bg-variable", getValue: (p) => formatNumber(p.merchandisePurchase, 0) },
                     { label: "　その他変動費", cls: "bg-variable", getValue: (p) => formatNumber(p.otherVariableCost, 0) },
+                    ...(validPeriods.some((p) => p.inventory)
+                      ? [{ label: "　棚卸増減調整", cls: "bg-variable", getValue: (p: typeof validPeriods[0]) => formatNumber(calculateMetrics(p).inventoryAdjustment, 0) }]
+                      : []),
                     { label: "変動費合計", cls: "bg-variable", getValue: (p) => formatNumber(calculateMetrics(p).totalVariableCost, 0), bold: true },
                     { label: "限界利益", cls: "bg-marginal", getValue: (p) => formatNumber(calculateMetrics(p).marginalProfit, 0), bold: true },
                     { label: "限界利益率(%)", cls: "bg-marginal", getValue: (p) => formatNumber(calculateMetrics(p).marginalProfitRate, 1) + "%" },
@@ -242,6 +251,8 @@ export default function ReportPage() {
                     { label: "営業利益", cls: "bg-profit", getValue: (p) => formatNumber(calculateMetrics(p).operatingProfit, 0), bold: true },
                     { label: "営業外損益", cls: "", getValue: (p) => formatNumber(p.nonOperatingIncome, 0) },
                     { label: "経常利益", cls: "bg-profit", getValue: (p) => formatNumber(calculateMetrics(p).ordinaryProfit, 0), bold: true },
+                    { label: "税引前当期純利益", cls: "bg-profit", getValue: (p) => formatNumber(calculateMetrics(p).incomeBeforeTax, 0) },
+                    { label: "当期純利益", cls: "bg-profit", getValue: (p) => formatNumber(calculateMetrics(p).netIncome, 0), bold: true },
                     { label: "従業員数(人)", cls: "", getValue: (p) => String(p.employeeCount) },
                     { label: "労働分配率(%)", cls: "", getValue: (p) => formatNumber(calculateMetrics(p).laborShareRate, 1) + "%" },
                   ];
@@ -338,20 +349,28 @@ export default function ReportPage() {
         {sections.simulation && basePeriod && baseMetrics && (
           <div className="report-page">
             <h2 className="report-section-title">損益シミュレーション</h2>
-            <p className="report-unit">（{basePeriod.label} ベース / 単位：千円）</p>
+            <p className="report-unit">（実績列: {basePeriod.label} / 単位：千円）</p>
             <table className="report-table" style={{ fontSize: "11px" }}>
               <thead>
                 <tr>
                   <th className="text-left">項目</th>
                   <th className="text-right">実績({basePeriod.label})</th>
                   {scenarios.map((s) => (
-                    <th key={s.id} className="text-right">{s.label}</th>
+                    <th key={s.id} className="text-right">
+                      {s.label}
+                      <br />
+                      <span style={{ fontWeight: "normal" }}>
+                        （{resolveScenarioBasePeriod(periods, s, basePeriod).label} ベース）
+                      </span>
+                    </th>
                   ))}
                 </tr>
               </thead>
               <tbody>
                 {(() => {
-                  const results = scenarios.map((s) => calculateScenario(basePeriod, s));
+                  const results = scenarios.map((s) =>
+                    calculateScenario(resolveScenarioBasePeriod(periods, s, basePeriod), s)
+                  );
                   const simRows: { label: string; base: string; getVal: (r: typeof results[0]) => string }[] = [
                     { label: "売上高", base: formatNumber(basePeriod.sales, 0), getVal: (r) => formatNumber(r.sales, 0) },
                     { label: "変動費合計", base: formatNumber(baseMetrics.totalVariableCost, 0), getVal: (r) => formatNumber(r.totalVariableCost, 0) },
@@ -361,6 +380,8 @@ export default function ReportPage() {
                     { label: "固定費合計", base: formatNumber(baseMetrics.totalFixedCost, 0), getVal: (r) => formatNumber(r.totalFixedCost, 0) },
                     { label: "営業利益", base: formatNumber(baseMetrics.operatingProfit, 0), getVal: (r) => formatNumber(r.operatingProfit, 0) },
                     { label: "経常利益", base: formatNumber(baseMetrics.ordinaryProfit, 0), getVal: (r) => formatNumber(r.ordinaryProfit, 0) },
+                    { label: "法人税等", base: formatNumber(baseMetrics.corporateTax, 0), getVal: (r) => formatNumber(r.corporateTax, 0) },
+                    { label: "当期純利益", base: formatNumber(baseMetrics.netIncome, 0), getVal: (r) => formatNumber(r.netIncome, 0) },
                     { label: "労働分配率(%)", base: formatNumber(baseMetrics.laborShareRate, 1) + "%", getVal: (r) => formatNumber(r.laborShareRate, 1) + "%" },
                     { label: "1人当たり売上高", base: formatNumber(baseMetrics.salesPerEmployee, 0), getVal: (r) => formatNumber(r.salesPerEmployee, 0) },
                     { label: "1人当たり加工高", base: formatNumber(baseMetrics.marginalProfitPerEmployee, 0), getVal: (r) => formatNumber(r.marginalProfitPerEmployee, 0) },
@@ -380,6 +401,22 @@ export default function ReportPage() {
             </table>
           </div>
         )}
+
+        {/* シナリオ比較チャート */}
+        {sections.scenarioChart && basePeriod && baseMetrics && scenarios.length >= 1 && (
+          <div className="report-page">
+            <h2 className="report-section-title">シナリオ比較チャート</h2>
+            <p className="report-unit">（実績: {basePeriod.label} / 単位：千円）</p>
+            <ScenarioComparisonChart
+              basePeriod={basePeriod}
+              baseMetrics={baseMetrics}
+              scenarioResults={scenarios.map((s) =>
+                calculateScenario(resolveScenarioBasePeriod(periods, s, basePeriod), s)
+              )}
+              periods={periods}
+            />
+          </div>
+        )}
       </div>
 
       {/* 印刷用CSSはglobals.cssに定義済み */}
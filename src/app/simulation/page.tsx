@@ -1,10 +1,33 @@
 "use client";
 
-import React, { useMemo, useCallback } from "react";
+import React, { useMemo, useCallback, useState } from "react";
+import { toPng } from "html-to-image";
 import { useAppStore } from "@/lib/store";
-import { calculateMetrics, calculateScenario } from "@/lib/calculations";
+import {
+  calculateMetrics,
+  calculateScenario,
+  goalSeekScenario,
+  withScenarioLever,
+  getBaseEffectiveTaxRate,
+  resolveScenarioBasePeriod,
+  formatNumber,
+  DEFAULT_SENSITIVITY_RANGES,
+  DEFAULT_EFFECTIVE_TAX_RATE,
+} from "@/lib/calculations";
 import { exportSimulationExcel } from "@/lib/excel-export";
 import SimulationTable from "@/components/charts/SimulationTable";
+import ScenarioComparisonChart from "@/components/charts/ScenarioComparisonChart";
+import SensitivityPanel from "@/components/simulation/SensitivityPanel";
+import GridSimulationPanel, {
+  DEFAULT_GRID_CONFIG,
+  GridSimulationConfig,
+} from "@/components/simulation/GridSimulationPanel";
+import WageCapacityPanel from "@/components/simulation/WageCapacityPanel";
+import PassThroughPanel from "@/components/simulation/PassThroughPanel";
+import ScenarioTemplateDialog from "@/components/simulation/ScenarioTemplateDialog";
+import MonteCarloPanel, {
+  MonteCarloRun,
+} from "@/components/simulation/MonteCarloPanel";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -18,19 +41,310 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Scenario } from "@/lib/types";
-import { Plus, Trash2 } from "lucide-react";
+import {
+  Scenario,
+  PeriodData,
+  ScenarioLever,
+  ScenarioMetric,
+  SensitivityRanges,
+  VariableCostItem,
+} from "@/lib/types";
+import { Plus, Trash2, Crosshair, BookMarked, Factory } from "lucide-react";
+
+const leverOptions: { key: ScenarioLever; label: string; unit: string }[] = [
+  { key: "priceChangeRate", label: "販売単価変化率", unit: "%" },
+  { key: "volumeChangeRate", label: "販売数量変化率", unit: "%" },
+  { key: "variableCostRateChange", label: "変動費率変化", unit: "%pt" },
+  { key: "laborCostChangeRate", label: "人件費変化率", unit: "%" },
+  { key: "fixedCostChangeRate", label: "その他固定費変化率", unit: "%" },
+];
+
+const scenarioMetricOptions: {
+  key: ScenarioMetric;
+  label: string;
+  unit: string;
+}[] = [
+  { key: "ordinaryProfit", label: "経常利益", unit: "千円" },
+  { key: "laborShareRate", label: "労働分配率", unit: "%" },
+  { key: "ordinaryProfitPerEmployee", label: "1人当たり経常利益", unit: "千円" },
+];
+
+function GoalSeekPanel({
+  basePeriod,
+  scenario,
+  onApply,
+}: {
+  basePeriod: PeriodData;
+  scenario: Scenario;
+  onApply: (patch: Partial<Scenario>) => void;
+}) {
+  const [metric, setMetric] = useState<ScenarioMetric>("ordinaryProfit");
+  const [lever, setLever] = useState<ScenarioLever>("volumeChangeRate");
+  const [target, setTarget] = useState<number>(0);
+
+  const result = useMemo(
+    () => goalSeekScenario(basePeriod, scenario, lever, metric, target),
+    [basePeriod, scenario, lever, metric, target]
+  );
+
+  const metricDef = scenarioMetricOptions.find((m) => m.key === metric)!;
+  const hasItemLevers =
+    (lever === "variableCostRateChange" && scenario.variableCostRateOverrides !== undefined) ||
+    (lever === "fixedCostChangeRate" &&
+      (scenario.depreciationChangeRate !== undefined ||
+        scenario.otherExpensesChangeRate !== undefined ||
+        scenario.capexDepreciationChange !== undefined));
+  const leverDef = leverOptions.find((l) => l.key === lever)!;
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1.5">
+        <Label className="text-xs">目標指標</Label>
+        <Select
+          value={metric}
+          onValueChange={(v) => setMetric(v as ScenarioMetric)}
+        >
+          <SelectTrigger className="h-8 text-xs w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {scenarioMetricOptions.map((m) => (
+              <SelectItem key={m.key} value={m.key}>
+                {m.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label className="text-xs">目標値</Label>
+        <div className="flex items-center gap-1">
+          <Input
+            type="number"
+            value={target}
+            onChange={(e) => setTarget(parseFloat(e.target.value) || 0)}
+            className="h-8 text-right text-sm tabular-nums"
+          />
+          <span className="text-xs text-muted-foreground w-8">
+            {metricDef.unit}
+          </span>
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label className="text-xs">逆算するパラメータ</Label>
+        <Select
+          value={lever}
+          onValueChange={(v) => setLever(v as ScenarioLever)}
+        >
+          <SelectTrigger className="h-8 text-xs w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {leverOptions.map((l) => (
+              <SelectItem key={l.key} value={l.key}>
+                {l.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-[11px] text-muted-foreground">
+          他のパラメータは現在の値のまま固定します
+          {hasItemLevers && "（費目別に設定した費目にも変化分を上乗せします）"}
+        </p>
+      </div>
+
+      <Separator />
+
+      {result.achieved && result.value !== null ? (
+        <div className="space-y-2">
+          <div className="rounded-md bg-blue-50 border border-blue-200 px-3 py-2 text-sm">
+            <span className="text-xs text-muted-foreground">
+              必要な{leverDef.label}
+            </span>
+            <p className="font-bold tabular-nums">
+              {formatNumber(result.value, 2)}
+              {leverDef.unit}
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            onClick={() =>
+              onApply(
+                withScenarioLever(
+                  basePeriod,
+                  scenario,
+                  lever,
+                  Math.round(result.value! * 100) / 100
+                )
+              )
+            }
+          >
+            このシナリオに反映
+          </Button>
+        </div>
+      ) : (
+        <p className="text-xs text-red-600">
+          {leverDef.label}の調整だけでは目標の{metricDef.label}に到達できません。
+        </p>
+      )}
+    </div>
+  );
+}
+
+const variableItemOptions: { key: VariableCostItem; label: string }[] = [
+  { key: "materialCost", label: "材料費率" },
+  { key: "outsourcingCost", label: "外注費率" },
+  { key: "merchandisePurchase", label: "商品仕入率" },
+  { key: "otherVariableCost", label: "その他変動費率" },
+];
+
+const parseOptional = (v: string) => (v === "" ? undefined : parseFloat(v) || 0);
+
+/**
+ * 費目別のレバー（空欄は全体の変動費率変化・その他固定費変化率に連動）
+ */
+function ItemLeverEditor({
+  scenario,
+  onChange,
+}: {
+  scenario: Scenario;
+  onChange: (data: Partial<Scenario>) => void;
+}) {
+  const overrides = scenario.variableCostRateOverrides ?? {};
+
+  const setOverride = (item: VariableCostItem, value: number | undefined) => {
+    const next = { ...overrides };
+    if (value === undefined) delete next[item];
+    else next[item] = value;
+    onChange({
+      variableCostRateOverrides: Object.keys(next).length > 0 ? next : undefined,
+    });
+  };
+
+  const fixedItems: {
+    key: "depreciationChangeRate" | "otherExpensesChangeRate";
+    label: string;
+  }[] = [
+    { key: "depreciationChangeRate", label: "減価償却費変化率" },
+    { key: "otherExpensesChangeRate", label: "その他経費変化率" },
+  ];
+
+  return (
+    <div className="space-y-2">
+      <p className="text-[11px] text-muted-foreground">
+        空欄の費目は変動費率変化（構成比で按分）・その他固定費変化率に連動します
+      </p>
+      {variableItemOptions.map((item) => (
+        <div key={item.key} className="flex items-center justify-between">
+          <Label className="text-xs">{item.label}</Label>
+          <div className="flex items-center gap-1">
+            <Input
+              type="number"
+              value={overrides[item.key] ?? ""}
+              placeholder="連動"
+              onChange={(e) => setOverride(item.key, parseOptional(e.target.value))}
+              className="w-20 h-7 text-right text-xs tabular-nums"
+              step={0.5}
+            />
+            <span className="text-xs text-muted-foreground w-8">%pt</span>
+          </div>
+        </div>
+      ))}
+      {fixedItems.map((item) => (
+        <div key={item.key} className="flex items-center justify-between">
+          <Label className="text-xs">{item.label}</Label>
+          <div className="flex items-center gap-1">
+            <Input
+              type="number"
+              value={scenario[item.key] ?? ""}
+              placeholder="連動"
+              onChange={(e) =>
+                onChange({ [item.key]: parseOptional(e.target.value) })
+              }
+              className="w-20 h-7 text-right text-xs tabular-nums"
+              step={1}
+            />
+            <span className="text-xs text-muted-foreground w-8">%</span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const nonOperatingFields: {
+  key: "nonOperatingIncomeChange" | "borrowingChange" | "borrowingInterestRate";
+  label: string;
+  unit: string;
+  step: number;
+}[] = [
+  { key: "nonOperatingIncomeChange", label: "営業外損益の増減額", unit: "千円", step: 1000 },
+  { key: "borrowingChange", label: "借入増減額", unit: "千円", step: 10000 },
+  { key: "borrowingInterestRate", label: "借入金利", unit: "%", step: 0.1 },
+];
+
+/**
+ * 営業外損益のレバー（増減額の直接指定と、借入増減 × 金利による支払利息）
+ */
+function NonOperatingEditor({
+  scenario,
+  onChange,
+}: {
+  scenario: Scenario;
+  onChange: (data: Partial<Scenario>) => void;
+}) {
+  const interest =
+    ((scenario.borrowingChange ?? 0) * (scenario.borrowingInterestRate ?? 0)) / 100;
+  return (
+    <div className="space-y-2">
+      {nonOperatingFields.map((field) => (
+        <div key={field.key} className="flex items-center justify-between">
+          <Label className="text-xs">{field.label}</Label>
+          <div className="flex items-center gap-1">
+            <Input
+              type="number"
+              value={scenario[field.key] ?? ""}
+              placeholder="0"
+              onChange={(e) =>
+                onChange({ [field.key]: parseOptional(e.target.value) })
+              }
+              className="w-24 h-7 text-right text-xs tabular-nums"
+              step={field.step}
+            />
+            <span className="text-xs text-muted-foreground w-8">{field.unit}</span>
+          </div>
+        </div>
+      ))}
+      <p className="text-[11px] text-muted-foreground">
+        支払利息の増減: {formatNumber(interest, 0)} 千円（返済は借入増減額をマイナスで入力）
+      </p>
+    </div>
+  );
+}
 
 function ScenarioCard({
   index,
   canRemove,
+  basePeriod,
+  periodOptions,
 }: {
   index: number;
   canRemove: boolean;
+  basePeriod?: PeriodData;
+  periodOptions: PeriodData[];
 }) {
   const scenario = useAppStore((s) => s.scenarios[index]);
   const updateScenario = useAppStore((s) => s.updateScenario);
   const removeScenario = useAppStore((s) => s.removeScenario);
+  const hasCapexAssets = useAppStore((s) => s.capexAssets.length > 0);
+  const setScenarioCapexLink = useAppStore((s) => s.setScenarioCapexLink);
+  const [isGoalSeek, setIsGoalSeek] = useState(false);
+  const [showItemLevers, setShowItemLevers] = useState(false);
+  const [showNonOperating, setShowNonOperating] = useState(false);
 
   const handleChange = useCallback(
     (field: keyof Scenario, value: number | string) => {
@@ -41,6 +355,15 @@ function ScenarioCard({
 
   if (!scenario) return null;
 
+  const isCapexLinked = scenario.capexDepreciationChange !== undefined;
+  const baseTaxRate = basePeriod
+    ? getBaseEffectiveTaxRate(calculateMetrics(basePeriod))
+    : DEFAULT_EFFECTIVE_TAX_RATE;
+  const itemOverrideCount =
+    Object.keys(scenario.variableCostRateOverrides ?? {}).length +
+    (scenario.depreciationChangeRate !== undefined ? 1 : 0) +
+    (scenario.otherExpensesChangeRate !== undefined ? 1 : 0);
+
   const sliderParams: {
     key: keyof Scenario;
     label: string;
@@ -50,8 +373,16 @@ function ScenarioCard({
     unit: string;
   }[] = [
     {
-      key: "salesChangeRate",
-      label: "売上高変化率",
+      key: "priceChangeRate",
+      label: "販売単価変化率",
+      min: -30,
+      max: 50,
+      step: 1,
+      unit: "%",
+    },
+    {
+      key: "volumeChangeRate",
+      label: "販売数量変化率",
       min: -50,
       max: 100,
       step: 1,
@@ -92,65 +423,182 @@ function ScenarioCard({
             onChange={(e) => handleChange("label", e.target.value)}
             className="text-sm font-semibold h-8 w-32 border-none shadow-none p-0 focus-visible:ring-0"
           />
-          {canRemove && (
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => removeScenario(index)}
-              className="text-muted-foreground hover:text-destructive h-7 w-7 p-0"
-            >
-              <Trash2 className="w-4 h-4" />
-            </Button>
-          )}
+          <div className="flex items-center gap-1">
+            {basePeriod && (
+              <Button
+                variant={isGoalSeek ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setIsGoalSeek((v) => !v)}
+                className="h-7 px-2 text-xs"
+                title="目標値からパラメータを逆算"
+              >
+                <Crosshair className="w-3.5 h-3.5 mr-1" />
+                逆算
+              </Button>
+            )}
+            {canRemove && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeScenario(index)}
+                className="text-muted-foreground hover:text-destructive h-7 w-7 p-0"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
-        {sliderParams.map((param) => (
-          <div key={param.key} className="space-y-1.5">
-            <div className="flex items-center justify-between">
-              <Label className="text-xs">{param.label}</Label>
-              <div className="flex items-center gap-1">
-                <Input
-                  type="number"
-                  value={scenario[param.key] as number}
-                  onChange={(e) =>
-                    handleChange(param.key, parseFloat(e.target.value) || 0)
-                  }
-                  className="w-20 h-7 text-right text-xs tabular-nums"
-                  step={param.step}
+        {basePeriod && (
+          <div className="flex items-center justify-between">
+            <Label className="text-xs">基準期</Label>
+            <Select
+              value={basePeriod.id}
+              onValueChange={(v) => updateScenario(index, { periodId: v })}
+            >
+              <SelectTrigger className="h-7 w-32 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {periodOptions.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {isGoalSeek && basePeriod ? (
+          <GoalSeekPanel
+            basePeriod={basePeriod}
+            scenario={scenario}
+            onApply={(patch) => {
+              updateScenario(index, patch);
+              setIsGoalSeek(false);
+            }}
+          />
+        ) : (
+          <>
+            {sliderParams.map((param) => (
+              <div key={param.key} className="space-y-1.5">
+                <div className="flex items-center justify-between">
+                  <Label className="text-xs">{param.label}</Label>
+                  <div className="flex items-center gap-1">
+                    <Input
+                      type="number"
+                      value={scenario[param.key] as number}
+                      onChange={(e) =>
+                        handleChange(param.key, parseFloat(e.target.value) || 0)
+                      }
+                      className="w-20 h-7 text-right text-xs tabular-nums"
+                      step={param.step}
+                      min={param.min}
+                      max={param.max}
+                    />
+                    <span className="text-xs text-muted-foreground w-8">
+                      {param.unit}
+                    </span>
+                  </div>
+                </div>
+                <Slider
+                  value={[scenario[param.key] as number]}
+                  onValueChange={(v) => handleChange(param.key, v[0])}
                   min={param.min}
                   max={param.max}
+                  step={param.step}
+                  className="w-full"
                 />
-                <span className="text-xs text-muted-foreground w-8">
-                  {param.unit}
-                </span>
               </div>
+            ))}
+
+            <Separator />
+
+            <div className="space-y-1.5">
+              <Label className="text-xs">従業員数</Label>
+              <Input
+                type="number"
+                value={scenario.employeeCount}
+                onChange={(e) =>
+                  handleChange("employeeCount", parseInt(e.target.value) || 1)
+                }
+                className="h-8 text-right text-sm"
+                min={1}
+              />
             </div>
-            <Slider
-              value={[scenario[param.key] as number]}
-              onValueChange={(v) => handleChange(param.key, v[0])}
-              min={param.min}
-              max={param.max}
-              step={param.step}
-              className="w-full"
-            />
-          </div>
-        ))}
 
-        <Separator />
+            <div className="space-y-1.5">
+              <Label className="text-xs">実効税率（%）</Label>
+              <Input
+                type="number"
+                value={scenario.effectiveTaxRate ?? ""}
+                placeholder={`${formatNumber(baseTaxRate, 1)}（未入力時）`}
+                onChange={(e) =>
+                  updateScenario(index, {
+                    effectiveTaxRate: parseOptional(e.target.value),
+                  })
+                }
+                className="h-8 text-right text-sm"
+                min={0}
+                max={100}
+                step={0.1}
+              />
+            </div>
 
-        <div className="space-y-1.5">
-          <Label className="text-xs">従業員数</Label>
-          <Input
-            type="number"
-            value={scenario.employeeCount}
-            onChange={(e) =>
-              handleChange("employeeCount", parseInt(e.target.value) || 1)
-            }
-            className="h-8 text-right text-sm"
-            min={1}
-          />
-        </div>
+            <Separator />
+
+            <Button
+              variant={showItemLevers ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setShowItemLevers((v) => !v)}
+              className="h-7 px-2 text-xs w-full"
+            >
+              費目別に設定
+              {itemOverrideCount > 0 && `（${itemOverrideCount}件）`}
+            </Button>
+            {showItemLevers && (
+              <ItemLeverEditor
+                scenario={scenario}
+                onChange={(data) => updateScenario(index, data)}
+              />
+            )}
+            <Button
+              variant={showNonOperating ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setShowNonOperating((v) => !v)}
+              className="h-7 px-2 text-xs w-full"
+            >
+              営業外損益・借入を設定
+            </Button>
+            {showNonOperating && (
+              <NonOperatingEditor
+                scenario={scenario}
+                onChange={(data) => updateScenario(index, data)}
+              />
+            )}
+            {(hasCapexAssets || isCapexLinked) && (
+              <>
+                <Button
+                  variant={isCapexLinked ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => setScenarioCapexLink(index, !isCapexLinked)}
+                  className="h-7 px-2 text-xs w-full"
+                  title="減価償却費に設備投資計画の基準期翌期の増減額を反映"
+                >
+                  <Factory className="w-3.5 h-3.5 mr-1" />
+                  設備投資計画に連動
+                </Button>
+                {isCapexLinked && (
+                  <p className="text-[11px] text-muted-foreground">
+                    減価償却費の増減: {formatNumber(scenario.capexDepreciationChange ?? 0, 0)} 千円
+                    （費目別の減価償却費変化率より優先）
+                  </p>
+                )}
+              </>
+            )}
+          </>
+        )}
       </CardContent>
     </Card>
   );
@@ -160,7 +608,10 @@ export default function SimulationPage() {
   const periods = useAppStore((s) => s.periods);
   const company = useAppStore((s) => s.company);
   const scenarios = useAppStore((s) => s.scenarios);
+  const loans = useAppStore((s) => s.loans);
+  const loanTaxRate = useAppStore((s) => s.loanTaxRate);
   const addScenario = useAppStore((s) => s.addScenario);
+  const updateScenario = useAppStore((s) => s.updateScenario);
 
   const validPeriods = useMemo(
     () =>
@@ -182,8 +633,75 @@ export default function SimulationPage() {
 
   const scenarioResults = useMemo(() => {
     if (!basePeriod) return [];
-    return scenarios.map((s) => calculateScenario(basePeriod, s));
-  }, [basePeriod, scenarios]);
+    return scenarios.map((s) =>
+      calculateScenario(resolveScenarioBasePeriod(periods, s, basePeriod), s)
+    );
+  }, [periods, basePeriod, scenarios]);
+
+  const [sensitivityRanges, setSensitivityRanges] = useState<SensitivityRanges>(
+    DEFAULT_SENSITIVITY_RANGES
+  );
+  const [sensitivityMetric, setSensitivityMetric] =
+    useState<ScenarioMetric>("ordinaryProfit");
+  const [gridConfig, setGridConfig] =
+    useState<GridSimulationConfig>(DEFAULT_GRID_CONFIG);
+  const [monteCarloRun, setMonteCarloRun] = useState<MonteCarloRun | null>(null);
+  const [templateDialogOpen, setTemplateDialogOpen] = useState(false);
+  const [isExcelExporting, setIsExcelExporting] = useState(false);
+
+  // Excelエクスポート: シナリオ比較チャートをキャプチャして埋め込む
+  const handleExcelExport = useCallback(async () => {
+    if (!basePeriod) return;
+    setIsExcelExporting(true);
+    try {
+      let comparisonChartImage: string | undefined;
+      const chartEl = document.querySelector<HTMLElement>(
+        "[data-scenario-comparison-chart]"
+      );
+      if (chartEl) {
+        try {
+          comparisonChartImage = await toPng(chartEl, {
+            backgroundColor: "#ffffff",
+            pixelRatio: 2,
+            cacheBust: true,
+          });
+        } catch {
+          // キャプチャ失敗時は画像なしで進行
+        }
+      }
+      const gridScenario =
+        scenarios[Math.min(gridConfig.scenarioIndex, scenarios.length - 1)];
+      await exportSimulationExcel(basePeriod, scenarios, company.name, {
+        sensitivityRanges,
+        sensitivityMetric,
+        grid: {
+          scenario: gridScenario,
+          xAxis: gridConfig.xAxis,
+          yAxis: gridConfig.yAxis,
+        },
+        monteCarlo: monteCarloRun ?? undefined,
+        periods,
+        comparisonChartImage,
+        loans: { loans, taxRate: loanTaxRate },
+      });
+    } catch (err) {
+      console.error("Excel export failed:", err);
+      alert("Excelエクスポートに失敗しました。");
+    } finally {
+      setIsExcelExporting(false);
+    }
+  }, [
+    basePeriod,
+    scenarios,
+    company.name,
+    sensitivityRanges,
+    sensitivityMetric,
+    gridConfig,
+    monteCarloRun,
+    periods,
+    loans,
+    loanTaxRate,
+  ]);
 
   const canAdd = scenarios.length < 5;
   const canRemove = scenarios.length > 1;
@@ -209,41 +727,86 @@ export default function SimulationPage() {
             <CardHeader>
               <CardTitle className="text-base">基準期の選択</CardTitle>
             </CardHeader>
-            <CardContent>
-              <Select
-                value={String(basePeriodIndex)}
-                onValueChange={(v) => setBasePeriodIndex(parseInt(v, 10))}
-              >
-                <SelectTrigger className="w-60">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  {validPeriods.map((x) => (
-                    <SelectItem key={x.index} value={String(x.index)}>
-                      {x.period.label}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+            <CardContent className="space-y-2">
+              <div className="flex flex-wrap items-center gap-3">
+                <Select
+                  value={String(basePeriodIndex)}
+                  onValueChange={(v) => setBasePeriodIndex(parseInt(v, 10))}
+                >
+                  <SelectTrigger className="w-60">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {validPeriods.map((x) => (
+                      <SelectItem key={x.index} value={String(x.index)}>
+                        {x.period.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!basePeriod}
+                  onClick={() =>
+                    scenarios.forEach((_, i) =>
+                      updateScenario(i, { periodId: basePeriod.id })
+                    )
+                  }
+                >
+                  全シナリオの基準期をこの期に揃える
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                結果表の「実績」列と各分析の基準になる期です。シナリオごとの基準期は各シナリオカードで変更できます。
+              </p>
             </CardContent>
           </Card>
 
           <div>
             <div className="flex items-center justify-between mb-3">
               <h2 className="text-lg font-semibold">シナリオパラメータ</h2>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={addScenario}
-                disabled={!canAdd}
-              >
-                <Plus className="w-4 h-4 mr-1" />
-                シナリオ追加
-              </Button>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setTemplateDialogOpen(true)}
+                  disabled={!basePeriod}
+                >
+                  <BookMarked className="w-4 h-4 mr-1" />
+                  テンプレート
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => addScenario(basePeriod?.id)}
+                  disabled={!canAdd}
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  シナリオ追加
+                </Button>
+              </div>
             </div>
+            {basePeriod && templateDialogOpen && (
+              <ScenarioTemplateDialog
+                open={templateDialogOpen}
+                onOpenChange={setTemplateDialogOpen}
+                basePeriod={basePeriod}
+                periods={periods}
+              />
+            )}
             <div className="flex gap-4 overflow-x-auto pb-2">
               {scenarios.map((_, index) => (
-                <ScenarioCard key={index} index={index} canRemove={canRemove} />
+                <ScenarioCard
+                  key={index}
+                  index={index}
+                  canRemove={canRemove}
+                  basePeriod={
+                    basePeriod &&
+                    resolveScenarioBasePeriod(periods, scenarios[index], basePeriod)
+                  }
+                  periodOptions={validPeriods.map((x) => x.period)}
+                />
               ))}
             </div>
           </div>
@@ -260,21 +823,81 @@ export default function SimulationPage() {
                   basePeriod={basePeriod}
                   baseMetrics={baseMetrics}
                   scenarioResults={scenarioResults}
+                  periods={periods}
                 />
               </CardContent>
             </Card>
           )}
 
+          {basePeriod && baseMetrics && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">シナリオ比較チャート</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div data-scenario-comparison-chart className="bg-white">
+                  <ScenarioComparisonChart
+                    basePeriod={basePeriod}
+                    baseMetrics={baseMetrics}
+                    scenarioResults={scenarioResults}
+                    periods={periods}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {basePeriod && (
+            <WageCapacityPanel
+              key={basePeriod.id}
+              basePeriod={basePeriod}
+              scenarios={scenarios}
+            />
+          )}
+
+          {basePeriod && (
+            <PassThroughPanel basePeriod={basePeriod} scenarios={scenarios} />
+          )}
+
+          {basePeriod && (
+            <SensitivityPanel
+              basePeriod={basePeriod}
+              periods={periods}
+              scenarios={scenarios}
+              ranges={sensitivityRanges}
+              onRangesChange={setSensitivityRanges}
+              metric={sensitivityMetric}
+              onMetricChange={setSensitivityMetric}
+            />
+          )}
+
+          {basePeriod && (
+            <GridSimulationPanel
+              basePeriod={basePeriod}
+              periods={periods}
+              scenarios={scenarios}
+              config={gridConfig}
+              onConfigChange={setGridConfig}
+            />
+          )}
+
+          {basePeriod && (
+            <MonteCarloPanel
+              basePeriod={basePeriod}
+              periods={periods}
+              scenarios={scenarios}
+              run={monteCarloRun}
+              onRunChange={setMonteCarloRun}
+            />
+          )}
+
           <div className="flex gap-3">
             <Button
               variant="outline"
-              onClick={() => {
-                if (basePeriod) {
-                  exportSimulationExcel(basePeriod, scenarios, company.name);
-                }
-              }}
+              onClick={handleExcelExport}
+              disabled={isExcelExporting}
             >
-              Excelダウンロード
+              {isExcelExporting ? "Excel生成中..." : "Excelダウンロード"}
             </Button>
           </div>
         </>
@@ -268,7 +268,8 @@ export default function TutorialPage() {
           <div className="space-y-2">
             <p className="font-medium">設定できるパラメータ：</p>
             <ul className="list-disc list-inside space-y-1 text-muted-foreground">
-              <li><strong className="text-foreground">売上高変化率</strong> — 売上の増減（%）</li>
+              <li><strong className="text-foreground">販売単価変化率</strong> — 値上げ・値下げ（%）。変動費は増えません</li>
+              <li><strong className="text-foreground">販売数量変化率</strong> — 数量の増減（%）。変動費も連動します</li>
               <li><strong className="text-foreground">変動費率変化</strong> — 変動費率の増減（%pt）</li>
               <li><strong className="text-foreground">人件費変化率</strong> — 人件費の増減（%）</li>
               <li><strong className="text-foreground">固定費変化率</strong> — その他固定費の増減（%）</li>
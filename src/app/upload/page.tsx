@@ -3,8 +3,13 @@
 import { useState, useCallback, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { useAppStore } from "@/lib/store";
-import { ExtractedPeriodData } from "@/lib/types";
+import {
+  BalanceSheetData,
+  ExtractedBalanceSheetData,
+  ExtractedPeriodData,
+} from "@/lib/types";
 import { extractFromPDF } from "@/lib/pdf-extract";
+import { toInventoryData, fromInventoryData } from "@/lib/inventory-items";
 import { getActiveApiKey } from "@/lib/api-key-storage";
 import {
   getVariableCostItems,
@@ -15,6 +20,7 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import PdfUploader from "@/components/pdf/PdfUploader";
 import ExtractedDataReview from "@/components/pdf/ExtractedDataReview";
+import BalanceSheetReview from "@/components/pdf/BalanceSheetReview";
 import ApiKeyDialog from "@/components/pdf/ApiKeyDialog";
 import { exportPdfToExcel, PdfExcelData } from "@/lib/excel-export";
 import {
@@ -31,7 +37,15 @@ import {
   ArrowLeft,
 } from "lucide-react";
 
-type Phase = "upload" | "extracting" | "parsing" | "review" | "error" | "saved-review" | "excel-converting";
+type Phase = "upload" | "extracting" | "parsing" | "review" | "bs-review" | "error" | "saved-review" | "excel-converting";
+
+// 読み取る書類（pl: 損益計算書、bs: 貸借対照表）
+type DocumentKind = "pl" | "bs";
+
+const DOCUMENT_NAMES: Record<DocumentKind, string> = {
+  pl: "損益計算書",
+  bs: "貸借対照表",
+};
 
 export default function UploadPage() {
   const router = useRouter();
@@ -43,6 +57,10 @@ export default function UploadPage() {
   const [extractedPeriods, setExtractedPeriods] = useState<
     ExtractedPeriodData[]
   >([]);
+  const [documentKind, setDocumentKind] = useState<DocumentKind>("pl");
+  const [extractedBalanceSheets, setExtractedBalanceSheets] = useState<
+    ExtractedBalanceSheetData[]
+  >([]);
   const [apiKeyDialogOpen, setApiKeyDialogOpen] = useState(false);
   const [parseMode, setParseMode] = useState<"text" | "image">("text");
   const [targetPeriodIndex, setTargetPeriodIndex] = useState(0);
@@ -134,6 +152,7 @@ export default function UploadPage() {
           apiKey: active.apiKey,
           provider: active.provider,
           mode,
+          document: documentKind,
           variableCostItems: vcItems,
         };
 
@@ -170,8 +189,13 @@ export default function UploadPage() {
         const result = await response.json();
 
         if (result.periods && result.periods.length > 0) {
-          setExtractedPeriods(result.periods);
-          setPhase("review");
+          if (documentKind === "bs") {
+            setExtractedBalanceSheets(result.periods);
+            setPhase("bs-review");
+          } else {
+            setExtractedPeriods(result.periods);
+            setPhase("review");
+          }
         } else {
           throw new Error(
             "決算データを抽出できませんでした。PDFの内容を確認してください。"
@@ -186,7 +210,7 @@ export default function UploadPage() {
         setPhase("error");
       }
     },
-    [vcItems]
+    [vcItems, documentKind]
   );
 
   const savePeriod = useCallback(
@@ -209,6 +233,9 @@ export default function UploadPage() {
         "otherExpenses",
         "nonOperatingIncome",
         "employeeCount",
+        "extraordinaryIncome",
+        "extraordinaryLoss",
+        "corporateTax",
       ] as const;
 
       for (const field of numericFields) {
@@ -219,6 +246,8 @@ export default function UploadPage() {
       if ((periodData.employeeCount as number) < 1)
         periodData.employeeCount = 1;
 
+      periodData.inventory = toInventoryData(data);
+
       updatePeriod(targetIndex, periodData);
     },
     [periods, updatePeriod]
@@ -247,6 +276,30 @@ export default function UploadPage() {
     [savePeriod, router]
   );
 
+  // 貸借対照表は期ラベル・損益データを変更せず、balanceSheet のみ更新する
+  const handleSaveBalanceSheetAndContinue = useCallback(
+    (targetIndex: number, data: BalanceSheetData) => {
+      updatePeriod(targetIndex, { balanceSheet: data });
+      const nextEmpty = periods.findIndex(
+        (p, i) => i !== targetIndex && !p.balanceSheet
+      );
+      setTargetPeriodIndex(nextEmpty >= 0 ? nextEmpty : 0);
+      setPhase("upload");
+      setError("");
+      setExtractedBalanceSheets([]);
+      setParseMode("text");
+    },
+    [updatePeriod, periods]
+  );
+
+  const handleSaveBalanceSheetAndFinish = useCallback(
+    (targetIndex: number, data: BalanceSheetData) => {
+      updatePeriod(targetIndex, { balanceSheet: data });
+      router.push("/input");
+    },
+    [updatePeriod, router]
+  );
+
   // 保存済みデータを確認・編集する
   const handleViewSavedPeriod = useCallback(
     (index: number) => {
@@ -266,6 +319,10 @@ export default function UploadPage() {
         otherExpenses: period.otherExpenses,
         nonOperatingIncome: period.nonOperatingIncome,
         employeeCount: period.employeeCount,
+        extraordinaryIncome: period.extraordinaryIncome ?? 0,
+        extraordinaryLoss: period.extraordinaryLoss ?? 0,
+        corporateTax: period.corporateTax ?? 0,
+        ...fromInventoryData(period.inventory),
         ordinaryProfitFromPdf: null,
         confidence: {},
         breakdown: {},
@@ -361,6 +418,7 @@ export default function UploadPage() {
     setPhase("upload");
     setError("");
     setExtractedPeriods([]);
+    setExtractedBalanceSheets([]);
     setParseMode("text");
   };
 
@@ -426,7 +484,7 @@ export default function UploadPage() {
                     決算書PDF読み取り
                   </CardTitle>
                   <p className="text-sm text-muted-foreground mt-1">
-                    決算書のPDFをアップロードすると、AIが損益計算書の数値を自動的に抽出します。
+                    決算書のPDFをアップロードすると、AIが損益計算書・貸借対照表の数値を自動的に抽出します。
                   </p>
                 </div>
               </div>
@@ -473,7 +531,8 @@ export default function UploadPage() {
                   </div>
                   <div className="flex gap-2 flex-wrap">
                     {periods.map((period, index) => {
-                      const hasData = period.sales > 0;
+                      const hasData =
+                        documentKind === "bs" ? !!period.balanceSheet : period.sales > 0;
                       return (
                         <div key={period.id} className="flex items-center gap-0.5">
                           <Button
@@ -491,7 +550,7 @@ export default function UploadPage() {
                             )}
                             {period.label}
                           </Button>
-                          {hasData && (
+                          {hasData && documentKind === "pl" && (
                             <Button
                               variant="ghost"
                               size="sm"
@@ -511,7 +570,9 @@ export default function UploadPage() {
                     <span className="font-medium ml-1">
                       {periods[targetPeriodIndex]?.label}
                     </span>
-                    {periods[targetPeriodIndex]?.sales > 0 && (
+                    {(documentKind === "bs"
+                      ? !!periods[targetPeriodIndex]?.balanceSheet
+                      : periods[targetPeriodIndex]?.sales > 0) && (
                       <span className="text-destructive ml-1">
                         （データあり・上書きされます）
                       </span>
@@ -519,58 +580,75 @@ export default function UploadPage() {
                   </p>
                 </div>
 
-                {/* その他変動費に含める項目 */}
-                <div className="mb-5 p-3 bg-muted/50 rounded-lg border">
-                  <p className="text-sm font-medium mb-2">
-                    その他変動費に含める勘定科目:
-                  </p>
-                  <p className="text-xs text-muted-foreground mb-2">
-                    以下の項目に該当する費用はAIが「その他変動費」に振り分けます。
-                    それ以外は「その他経費（固定費）」に分類されます。
-                  </p>
-                  <div className="flex flex-wrap gap-1.5 mb-2">
-                    {vcItems.map((item) => (
-                      <span
-                        key={item}
-                        className="inline-flex items-center gap-1 bg-blue-100 text-blue-800 text-xs font-medium px-2.5 py-1 rounded-full"
-                      >
-                        {item}
-                        <button
-                          type="button"
-                          onClick={() => removeVcItem(item)}
-                          className="text-blue-600 hover:text-blue-900"
-                        >
-                          <X className="w-3 h-3" />
-                        </button>
-                      </span>
-                    ))}
-                    {vcItems.length === 0 && (
-                      <span className="text-xs text-muted-foreground italic">
-                        項目が未設定です
-                      </span>
-                    )}
-                  </div>
-                  <div className="flex gap-2">
-                    <Input
-                      value={vcInput}
-                      onChange={(e) => setVcInput(e.target.value)}
-                      onKeyDown={handleVcInputKeyDown}
-                      placeholder="例: 消耗品費、荷造運賃..."
-                      className="text-sm h-8"
-                    />
+                {/* 読み取る書類 */}
+                <div className="mb-5 flex items-center gap-2">
+                  <p className="text-sm font-medium">読み取る書類:</p>
+                  {(Object.keys(DOCUMENT_NAMES) as DocumentKind[]).map((kind) => (
                     <Button
-                      variant="outline"
+                      key={kind}
+                      variant={documentKind === kind ? "secondary" : "ghost"}
                       size="sm"
-                      onClick={addVcItem}
-                      disabled={!vcInput.trim()}
-                      className="h-8 shrink-0"
+                      onClick={() => setDocumentKind(kind)}
                     >
-                      <Plus className="w-3.5 h-3.5 mr-1" />
-                      追加
+                      {DOCUMENT_NAMES[kind]}
                     </Button>
-                  </div>
+                  ))}
                 </div>
 
+                {/* その他変動費に含める項目 */}
+                {documentKind === "pl" && (
+                  <div className="mb-5 p-3 bg-muted/50 rounded-lg border">
+                    <p className="text-sm font-medium mb-2">
+                      その他変動費に含める勘定科目:
+                    </p>
+                    <p className="text-xs text-muted-foreground mb-2">
+                      以下の項目に該当する費用はAIが「その他変動費」に振り分けます。
+                      それ以外は「その他経費（固定費）」に分類されます。
+                    </p>
+                    <div className="flex flex-wrap gap-1.5 mb-2">
+                      {vcItems.map((item) => (
+                        <span
+                          key={item}
+                          className="inline-flex items-center gap-1 bg-blue-100 text-blue-800 text-xs font-medium px-2.5 py-1 rounded-full"
+                        >
+                          {item}
+                          <button
+                            type="button"
+                            onClick={() => removeVcItem(item)}
+                            className="text-blue-600 hover:text-blue-900"
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        </span>
+                      ))}
+                      {vcItems.length === 0 && (
+                        <span className="text-xs text-muted-foreground italic">
+                          項目が未設定です
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <Input
+                        value={vcInput}
+                        onChange={(e) => setVcInput(e.target.value)}
+                        onKeyDown={handleVcInputKeyDown}
+                        placeholder="例: 消耗品費、荷造運賃..."
+                        className="text-sm h-8"
+                      />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={addVcItem}
+                        disabled={!vcInput.trim()}
+                        className="h-8 shrink-0"
+                      >
+                        <Plus className="w-3.5 h-3.5 mr-1" />
+                        追加
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
                 <PdfUploader
                   onFileSelected={handleFileSelected}
                   onExcelConvert={handleExcelConvert}
@@ -605,7 +683,7 @@ export default function UploadPage() {
                       ? "PDFを処理しています"
                       : parseMode === "image"
                         ? "画像認識で決算書を読み取っています（1〜2分程度）"
-                        : "AIが損益計算書の数値を抽出しています（30秒〜1分程度）"}
+                        : `AIが${DOCUMENT_NAMES[documentKind]}の数値を抽出しています（30秒〜1分程度）`}
                   </p>
                   {phase === "parsing" && parseMode === "image" && (
                     <p className="text-xs text-blue-600 mt-2">
@@ -643,6 +721,18 @@ export default function UploadPage() {
               />
             )}
 
+            {phase === "bs-review" && extractedBalanceSheets.length > 0 && (
+              <BalanceSheetReview
+                allExtracted={extractedBalanceSheets}
+                storePeriods={periods}
+                initialTargetIndex={targetPeriodIndex}
+                pdfBase64={lastPdfBase64}
+                onSaveAndContinue={handleSaveBalanceSheetAndContinue}
+                onSaveAndFinish={handleSaveBalanceSheetAndFinish}
+                onBack={handleReset}
+              />
+            )}
+
             {phase === "saved-review" && extractedPeriods.length > 0 && (
               <ExtractedDataReview
                 allExtracted={extractedPeriods}
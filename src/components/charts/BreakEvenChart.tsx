@@ -0,0 +1,89 @@
+"use client";
+
+import React from "react";
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+
+export interface BreakEvenChartDataPoint {
+  label: string;
+  sales: number;
+  breakEvenSales: number;
+  marginOfSafetyRate: number;
+}
+
+export interface BreakEvenChartProps {
+  data: BreakEvenChartDataPoint[];
+}
+
+const NAVY = "#1F3864";
+const ORANGE = "#ED7D31";
+const GREEN = "#70AD47";
+
+export default function BreakEvenChart({ data }: BreakEvenChartProps) {
+  const formatValue = (v: number) =>
+    v.toLocaleString("ja-JP", { maximumFractionDigits: 0 });
+
+  return (
+    <div className="w-full">
+      <ResponsiveContainer width="100%" height={360}>
+        <ComposedChart
+          data={data}
+          margin={{ top: 20, right: 30, left: 20, bottom: 10 }}
+        >
+          <CartesianGrid strokeDasharray="3 3" vertical={false} />
+          <XAxis dataKey="label" tick={{ fontSize: 11 }} interval={0} />
+          <YAxis
+            yAxisId="amount"
+            tickFormatter={formatValue}
+            tick={{ fontSize: 11 }}
+            label={{
+              value: "千円",
+              angle: -90,
+              position: "insideLeft",
+              style: { fontSize: 12 },
+            }}
+          />
+          <YAxis
+            yAxisId="rate"
+            orientation="right"
+            tickFormatter={(v: number) => `${v.toFixed(0)}%`}
+            tick={{ fontSize: 11 }}
+          />
+          <Tooltip
+            formatter={(value, name) =>
+              name === "安全余裕率"
+                ? [`${Number(value).toFixed(1)}%`, name]
+                : [`${formatValue(Number(value))} 千円`, name]
+            }
+          />
+          <Legend wrapperStyle={{ fontSize: 12 }} />
+          <Bar yAxisId="amount" dataKey="sales" name="売上高" fill={NAVY} />
+          <Bar
+            yAxisId="amount"
+            dataKey="breakEvenSales"
+            name="損益分岐点売上高"
+            fill={ORANGE}
+          />
+          <Line
+            yAxisId="rate"
+            dataKey="marginOfSafetyRate"
+            name="安全余裕率"
+            stroke={GREEN}
+            strokeWidth={2}
+            dot={{ r: 4 }}
+            isAnimationActive={false}
+          />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
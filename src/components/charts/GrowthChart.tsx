@@ -19,13 +19,26 @@ export interface GrowthChartDataPoint {
   salesOku: number;
   marginalProfitRate: number;
   marginalProfitOku: number;
+  isProjection?: boolean; // 計画値（破線の白抜きマーカーで表示）
+  isTtm?: boolean; // 月次試算表の直近12ヶ月（半透明のマーカーで表示）
+}
+
+// シナリオ結果（基準期から破線矢印で結ぶ白抜きマーカーで表示）
+export interface GrowthChartScenarioPoint {
+  label: string; // シナリオ名
+  salesOku: number;
+  marginalProfitRate: number;
+  marginalProfitOku: number;
+  baseIndex: number; // 基準期の data 内インデックス
 }
 
 export interface GrowthChartProps {
   data: GrowthChartDataPoint[];
+  scenarios?: GrowthChartScenarioPoint[];
 }
 
 const POINT_COLORS = ["#1F3864", "#2E75B6", "#C00000", "#70AD47", "#FFC000"];
+const SCENARIO_COLORS = ["#7030A0", "#ED7D31", "#00B0F0", "#A5A5A5", "#00B050"];
 
 function calcAxisRange(values: number[], marginRatio: number) {
   const dataMin = Math.min(...values);
@@ -38,7 +51,9 @@ function calcAxisRange(values: number[], marginRatio: number) {
   };
 }
 
-function generateIsolineValues(dataPoints: GrowthChartDataPoint[]): number[] {
+function generateIsolineValues(
+  dataPoints: Pick<GrowthChartDataPoint, "marginalProfitOku">[]
+): number[] {
   if (dataPoints.length === 0) return [];
   const mpValues = dataPoints.map((d) => d.marginalProfitOku);
   const mpMin = Math.min(...mpValues);
@@ -85,7 +100,12 @@ function CustomTooltip({ active, payload }: CustomTooltipProps) {
   if (!d || d.label === undefined) return null;
   return (
     <div className="rounded-md border bg-white px-3 py-2 shadow-md text-sm">
-      <p className="font-semibold mb-1">{d.label}</p>
+      <p className="font-semibold mb-1">
+        {d.label}
+        {d.isProjection ? "（計画値）" : ""}
+        {d.isTtm ? "（直近12ヶ月）" : ""}
+        {d.isScenario ? `（シナリオ / 基準: ${d.baseLabel}）` : ""}
+      </p>
       <p>売上高: {d.salesOku.toFixed(2)} 億円</p>
       <p>限界利益率: {d.marginalProfitRate.toFixed(1)}%</p>
       <p>限界利益: {d.marginalProfitOku.toFixed(2)} 億円</p>
@@ -98,27 +118,105 @@ function CustomDot(props: any) {
   const { cx, cy, payload } = props;
   if (cx === undefined || cy === undefined || !payload) return null;
   const color = POINT_COLORS[(payload.index ?? 0) % POINT_COLORS.length];
+  if (payload.isProjection) {
+    return (
+      <circle
+        className="growth-chart-point"
+        cx={cx}
+        cy={cy}
+        r={7}
+        fill="#fff"
+        stroke={color}
+        strokeWidth={2}
+        strokeDasharray="3 2"
+      />
+    );
+  }
+  if (payload.isTtm) {
+    return (
+      <circle
+        className="growth-chart-point"
+        cx={cx}
+        cy={cy}
+        r={7}
+        fill={color}
+        fillOpacity={0.35}
+        stroke={color}
+        strokeWidth={2}
+      />
+    );
+  }
   return (
-    <circle cx={cx} cy={cy} r={7} fill={color} stroke="#fff" strokeWidth={2} />
+    <circle
+      className="growth-chart-point"
+      cx={cx}
+      cy={cy}
+      r={7}
+      fill={color}
+      stroke="#fff"
+      strokeWidth={2}
+    />
   );
 }
 
-export default function GrowthChart({ data }: GrowthChartProps) {
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function ScenarioDot(props: any) {
+  const { cx, cy, payload } = props;
+  if (cx === undefined || cy === undefined || !payload) return null;
+  const color = SCENARIO_COLORS[(payload.index ?? 0) % SCENARIO_COLORS.length];
+  return (
+    <circle
+      className="growth-chart-scenario-point"
+      data-base-index={payload.baseIndex}
+      data-color={color}
+      cx={cx}
+      cy={cy}
+      r={7}
+      fill="#fff"
+      stroke={color}
+      strokeWidth={2.5}
+    />
+  );
+}
+
+export default function GrowthChart({ data, scenarios = [] }: GrowthChartProps) {
   const indexedData = useMemo(
     () => data.map((d, i) => ({ ...d, index: i })),
     [data]
   );
 
+  // 基準期が図に含まれるシナリオのみ描画する
+  const scenarioData = useMemo(
+    () =>
+      scenarios
+        .filter((s) => data[s.baseIndex])
+        .map((s, i) => ({
+          ...s,
+          index: i,
+          isScenario: true,
+          baseLabel: data[s.baseIndex].label,
+        })),
+    [scenarios, data]
+  );
+
+  const allPoints = useMemo(
+    () => [...data, ...scenarioData],
+    [data, scenarioData]
+  );
+
   const xRange = useMemo(
-    () => calcAxisRange(data.map((d) => d.marginalProfitRate), 0.4),
-    [data]
+    () => calcAxisRange(allPoints.map((d) => d.marginalProfitRate), 0.4),
+    [allPoints]
   );
   const yRange = useMemo(
-    () => calcAxisRange(data.map((d) => d.salesOku), 0.5),
-    [data]
+    () => calcAxisRange(allPoints.map((d) => d.salesOku), 0.5),
+    [allPoints]
   );
 
-  const isolineValues = useMemo(() => generateIsolineValues(data), [data]);
+  const isolineValues = useMemo(
+    () => generateIsolineValues(allPoints),
+    [allPoints]
+  );
   const isolineDataSets = useMemo(
     () =>
       isolineValues.map((mp) => ({
@@ -141,7 +239,7 @@ export default function GrowthChart({ data }: GrowthChartProps) {
   const chartRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
-    if (!chartRef.current || indexedData.length < 2) return;
+    if (!chartRef.current || (indexedData.length < 2 && scenarioData.length === 0)) return;
 
     const drawArrows = () => {
       const container = chartRef.current;
@@ -152,15 +250,12 @@ export default function GrowthChart({ data }: GrowthChartProps) {
       // 前回の矢印を削除
       svg.querySelectorAll(".growth-chart-arrow").forEach((el) => el.remove());
 
-      // Scatter の circle 要素を取得（r="7", stroke="#fff" で識別）
-      const circles = Array.from(svg.querySelectorAll("circle")).filter(
-        (c) =>
-          c.getAttribute("r") === "7" &&
-          c.getAttribute("stroke") === "#fff" &&
-          c.getAttribute("stroke-width") === "2"
+      // Scatter の circle 要素を取得（実績・計画とも CustomDot のクラスで識別）
+      const circles = Array.from(
+        svg.querySelectorAll<SVGCircleElement>("circle.growth-chart-point")
       );
 
-      if (circles.length < 2) return;
+      if (circles.length === 0) return;
 
       // ピクセル座標を取得
       const coords = circles.map((c) => ({
@@ -168,38 +263,57 @@ export default function GrowthChart({ data }: GrowthChartProps) {
         y: parseFloat(c.getAttribute("cy") || "0"),
       }));
 
-      // 各セグメントの中間点に矢印を描画
-      for (let i = 0; i < coords.length - 1; i++) {
-        const from = coords[i];
-        const to = coords[i + 1];
-        const midX = (from.x + to.x) / 2;
-        const midY = (from.y + to.y) / 2;
-        const angle =
-          Math.atan2(to.y - from.y, to.x - from.x) * (180 / Math.PI);
-
+      const appendArrowHead = (x: number, y: number, angle: number, color: string) => {
         const g = document.createElementNS("http://www.w3.org/2000/svg", "g");
         g.setAttribute("class", "growth-chart-arrow");
-        g.setAttribute(
-          "transform",
-          `translate(${midX},${midY}) rotate(${angle})`
-        );
-
+        g.setAttribute("transform", `translate(${x},${y}) rotate(${angle})`);
         const poly = document.createElementNS(
           "http://www.w3.org/2000/svg",
           "polygon"
         );
         poly.setAttribute("points", "-7,-6 7,0 -7,6");
-        poly.setAttribute("fill", "#555");
+        poly.setAttribute("fill", color);
         g.appendChild(poly);
-
         svg.appendChild(g);
+      };
+
+      // シナリオ: 基準期からの矢印の先端をマーカーの手前に描画
+      svg
+        .querySelectorAll<SVGCircleElement>("circle.growth-chart-scenario-point")
+        .forEach((c) => {
+          const from = coords[parseInt(c.getAttribute("data-base-index") || "-1", 10)];
+          if (!from) return;
+          const to = {
+            x: parseFloat(c.getAttribute("cx") || "0"),
+            y: parseFloat(c.getAttribute("cy") || "0"),
+          };
+          const length = Math.hypot(to.x - from.x, to.y - from.y);
+          if (length < 20) return;
+          const rad = Math.atan2(to.y - from.y, to.x - from.x);
+          appendArrowHead(
+            to.x - Math.cos(rad) * 15,
+            to.y - Math.sin(rad) * 15,
+            rad * (180 / Math.PI),
+            c.getAttribute("data-color") || "#555"
+          );
+        });
+
+      // 各セグメントの中間点に矢印を描画
+      for (let i = 0; i < coords.length - 1; i++) {
+        const from = coords[i];
+        const to = coords[i + 1];
+        const midX = (from.x + to.x) / 2;
+        const midY = (from.y + to.y) / 2;
+        const angle =
+          Math.atan2(to.y - from.y, to.x - from.x) * (180 / Math.PI);
+        appendArrowHead(midX, midY, angle, "#555");
       }
     };
 
     // ResponsiveContainer のレンダリング完了を待つ
     const timer = setTimeout(drawArrows, 150);
     return () => clearTimeout(timer);
-  }, [indexedData]);
+  }, [indexedData, scenarioData]);
 
   return (
     <div className="w-full" ref={chartRef}>
@@ -284,6 +398,42 @@ export default function GrowthChart({ data }: GrowthChartProps) {
               <Cell key={`cell-${i}`} fill={POINT_COLORS[i % POINT_COLORS.length]} />
             ))}
           </Scatter>
+
+          {/* シナリオ: 基準期からの破線 */}
+          {scenarioData.map((sp) => (
+            <Line
+              key={`scenario-line-${sp.index}`}
+              data={[
+                {
+                  x: data[sp.baseIndex].marginalProfitRate,
+                  y: data[sp.baseIndex].salesOku,
+                },
+                { x: sp.marginalProfitRate, y: sp.salesOku },
+              ]}
+              dataKey="y"
+              type="linear"
+              stroke={SCENARIO_COLORS[sp.index % SCENARIO_COLORS.length]}
+              strokeWidth={1.5}
+              strokeDasharray="4 3"
+              dot={false}
+              activeDot={false}
+              legendType="none"
+              isAnimationActive={false}
+              name={`__scenario_${sp.index}__`}
+            />
+          ))}
+
+          {scenarioData.length > 0 && (
+            <Scatter
+              data={scenarioData.map((sp) => ({
+                ...sp,
+                x: sp.marginalProfitRate,
+                y: sp.salesOku,
+              }))}
+              shape={<ScenarioDot />}
+              isAnimationActive={false}
+            />
+          )}
         </ComposedChart>
       </ResponsiveContainer>
 
@@ -291,8 +441,19 @@ export default function GrowthChart({ data }: GrowthChartProps) {
         {data.map((d, i) => (
           <div key={i} className="flex items-center gap-1.5 text-sm">
             <span
-              className="inline-block w-3 h-3 rounded-full"
-              style={{ backgroundColor: POINT_COLORS[i % POINT_COLORS.length] }}
+              className={`inline-block w-3 h-3 rounded-full ${
+                d.isProjection ? "border-2 border-dashed bg-white" : d.isTtm ? "border-2" : ""
+              }`}
+              style={
+                d.isProjection
+                  ? { borderColor: POINT_COLORS[i % POINT_COLORS.length] }
+                  : d.isTtm
+                    ? {
+                        borderColor: POINT_COLORS[i % POINT_COLORS.length],
+                        backgroundColor: `${POINT_COLORS[i % POINT_COLORS.length]}59`,
+                      }
+                    : { backgroundColor: POINT_COLORS[i % POINT_COLORS.length] }
+              }
             />
             <span>
               {d.label}（{d.salesOku.toFixed(2)}億円 / {d.marginalProfitRate.toFixed(1)}%
@@ -302,6 +463,25 @@ export default function GrowthChart({ data }: GrowthChartProps) {
         ))}
       </div>
 
+      {scenarioData.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-4 mb-2">
+          {scenarioData.map((sp) => (
+            <div key={sp.index} className="flex items-center gap-1.5 text-sm">
+              <span
+                className="inline-block w-3 h-3 rounded-full border-2 bg-white"
+                style={{
+                  borderColor: SCENARIO_COLORS[sp.index % SCENARIO_COLORS.length],
+                }}
+              />
+              <span>
+                {sp.label}（{sp.baseLabel}→ {sp.salesOku.toFixed(2)}億円 /{" "}
+                {sp.marginalProfitRate.toFixed(1)}% / 限界利益{sp.marginalProfitOku.toFixed(2)}億円）
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="flex flex-wrap justify-center gap-3 mt-1 mb-4 text-xs text-gray-500">
         <span className="flex items-center gap-1">
           <svg width="24" height="8">
@@ -316,6 +496,30 @@ export default function GrowthChart({ data }: GrowthChartProps) {
           </svg>
           期間推移の方向
         </span>
+        {data.some((d) => d.isProjection) && (
+          <span className="flex items-center gap-1">
+            <svg width="14" height="14">
+              <circle cx="7" cy="7" r="5" fill="#fff" stroke="#555" strokeWidth="1.5" strokeDasharray="2 1.5" />
+            </svg>
+            白抜き破線 = 計画値
+          </span>
+        )}
+        {data.some((d) => d.isTtm) && (
+          <span className="flex items-center gap-1">
+            <svg width="14" height="14">
+              <circle cx="7" cy="7" r="5" fill="#555" fillOpacity="0.35" stroke="#555" strokeWidth="1.5" />
+            </svg>
+            半透明 = 直近12ヶ月（TTM）
+          </span>
+        )}
+        {scenarioData.length > 0 && (
+          <span className="flex items-center gap-1">
+            <svg width="14" height="14">
+              <circle cx="7" cy="7" r="5" fill="#fff" stroke="#555" strokeWidth="2" />
+            </svg>
+            白抜き = シナリオ（基準期から破線矢印）
+          </span>
+        )}
       </div>
 
     </div>
@@ -0,0 +1,116 @@
+"use client";
+
+import React, { useMemo } from "react";
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from "recharts";
+import { MonthlyTrendPoint } from "@/lib/types";
+import { calculateMetrics, formatNumber } from "@/lib/calculations";
+
+/** 表示する集計単位（単月・期首からの累計・直近12ヶ月） */
+export type MonthlyTrendBasis = "monthly" | "ytd" | "ttm";
+
+export interface MonthlyTrendChartProps {
+  points: MonthlyTrendPoint[];
+  basis: MonthlyTrendBasis;
+}
+
+const SALES = "#2E75B6";
+const MARGINAL = "#70AD47";
+const PROFIT = "#1F3864";
+
+const formatValue = (v: number) =>
+  v.toLocaleString("ja-JP", { maximumFractionDigits: 0 });
+
+/**
+ * 月次推移チャート
+ * 売上高（棒）・経常利益（折れ線）を千円軸、限界利益率（折れ線）を%軸に表示する
+ * TTM は直近12ヶ月がそろわない月を空欄にする
+ */
+export default function MonthlyTrendChart({ points, basis }: MonthlyTrendChartProps) {
+  const data = useMemo(
+    () =>
+      points.map((pt) => {
+        const period = pt[basis];
+        if (!period) {
+          return { label: pt.label, sales: null, ordinaryProfit: null, marginalProfitRate: null };
+        }
+        const metrics = calculateMetrics(period);
+        return {
+          label: pt.label,
+          sales: period.sales,
+          ordinaryProfit: metrics.ordinaryProfit,
+          marginalProfitRate: metrics.marginalProfitRate,
+        };
+      }),
+    [points, basis]
+  );
+
+  return (
+    <ResponsiveContainer width="100%" height={380}>
+      <ComposedChart data={data} margin={{ top: 20, right: 20, left: 20, bottom: 10 }}>
+        <CartesianGrid strokeDasharray="3 3" vertical={false} />
+        <XAxis
+          dataKey="label"
+          tick={{ fontSize: 11 }}
+          tickFormatter={(v) => String(v).split(" ").pop() ?? ""}
+        />
+        <YAxis
+          yAxisId="amount"
+          tickFormatter={formatValue}
+          tick={{ fontSize: 11 }}
+          label={{
+            value: "千円",
+            angle: -90,
+            position: "insideLeft",
+            style: { fontSize: 12 },
+          }}
+        />
+        <YAxis
+          yAxisId="rate"
+          orientation="right"
+          domain={[0, (max: number) => Math.max(50, Math.ceil(max / 10) * 10)]}
+          tickFormatter={(v) => `${v}%`}
+          tick={{ fontSize: 11 }}
+        />
+        <Tooltip
+          formatter={(value, name) =>
+            name === "限界利益率"
+              ? [`${formatNumber(Number(value), 1)}%`, name]
+              : [`${formatValue(Number(value))} 千円`, name]
+          }
+        />
+        <Legend wrapperStyle={{ fontSize: 12 }} />
+        <ReferenceLine yAxisId="amount" y={0} stroke="#000" />
+        <Bar yAxisId="amount" dataKey="sales" name="売上高" fill={SALES} isAnimationActive={false} />
+        <Line
+          yAxisId="amount"
+          dataKey="ordinaryProfit"
+          name="経常利益"
+          stroke={PROFIT}
+          strokeWidth={2}
+          dot={{ r: 3 }}
+          isAnimationActive={false}
+        />
+        <Line
+          yAxisId="rate"
+          dataKey="marginalProfitRate"
+          name="限界利益率"
+          stroke={MARGINAL}
+          strokeWidth={2}
+          dot={{ r: 3 }}
+          isAnimationActive={false}
+        />
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+}
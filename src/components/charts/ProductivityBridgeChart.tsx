@@ -0,0 +1,97 @@
+"use client";
+
+import React, { useMemo } from "react";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Cell,
+  ReferenceLine,
+} from "recharts";
+import { ProductivityBridge } from "@/lib/types";
+
+export interface ProductivityBridgeChartProps {
+  title: string; // 例: 限界利益（1人当たり加工高）
+  previousPeriodLabel: string;
+  currentPeriodLabel: string;
+  bridge: ProductivityBridge;
+}
+
+interface BridgeBar {
+  name: string;
+  range: [number, number]; // 棒の下端・上端
+  amount: number; // 表示用の金額（要因は増減額）
+  color: string;
+}
+
+const NAVY = "#1F3864";
+const BLUE = "#2E75B6";
+const RED = "#C00000";
+
+const formatValue = (v: number) =>
+  v.toLocaleString("ja-JP", { maximumFractionDigits: 0 });
+
+/**
+ * 前期総額 → 人員効果 → 生産性効果 → 当期総額 のブリッジ
+ * 負の値も扱えるよう、各棒は [下端, 上端] の範囲で描画する
+ */
+export default function ProductivityBridgeChart({
+  title,
+  previousPeriodLabel,
+  currentPeriodLabel,
+  bridge,
+}: ProductivityBridgeChartProps) {
+  const data = useMemo((): BridgeBar[] => {
+    const afterHeadcount = bridge.previousValue + bridge.headcountEffect;
+    const step = (name: string, from: number, delta: number): BridgeBar => ({
+      name,
+      range: [Math.min(from, from + delta), Math.max(from, from + delta)],
+      amount: delta,
+      color: delta >= 0 ? BLUE : RED,
+    });
+    const total = (name: string, value: number): BridgeBar => ({
+      name,
+      range: [Math.min(0, value), Math.max(0, value)],
+      amount: value,
+      color: NAVY,
+    });
+    return [
+      total(previousPeriodLabel, bridge.previousValue),
+      step("人員効果", bridge.previousValue, bridge.headcountEffect),
+      step("生産性効果", afterHeadcount, bridge.productivityEffect),
+      total(currentPeriodLabel, bridge.currentValue),
+    ];
+  }, [bridge, previousPeriodLabel, currentPeriodLabel]);
+
+  return (
+    <div className="w-full">
+      <p className="text-xs font-semibold text-center mb-1">{title}</p>
+      <ResponsiveContainer width="100%" height={260}>
+        <BarChart data={data} margin={{ top: 10, right: 20, left: 10, bottom: 10 }}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} />
+          <XAxis dataKey="name" tick={{ fontSize: 11 }} interval={0} />
+          <YAxis tickFormatter={formatValue} tick={{ fontSize: 11 }} />
+          <Tooltip
+            formatter={(_value, _name, item) => [
+              `${formatValue(item.payload.amount)} 千円`,
+              "金額",
+            ]}
+          />
+          <ReferenceLine y={0} stroke="#000" />
+          <Bar dataKey="range" isAnimationActive={false} radius={[2, 2, 0, 0]}>
+            {data.map((entry, i) => (
+              <Cell key={i} fill={entry.color} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+      <p className="text-[11px] text-muted-foreground text-center">
+        1人当たり {formatValue(bridge.previousPerEmployee)} → {formatValue(bridge.currentPerEmployee)} 千円
+      </p>
+    </div>
+  );
+}
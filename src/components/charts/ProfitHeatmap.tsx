@@ -0,0 +1,119 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { GridSimulation } from "@/lib/types";
+import { formatNumber } from "@/lib/calculations";
+
+export type HeatmapMetric = "ordinaryProfit" | "laborShareRate";
+
+export interface ProfitHeatmapProps {
+  grid: GridSimulation;
+  metric: HeatmapMetric;
+  xLabel: string;
+  yLabel: string;
+  xUnit: string;
+  yUnit: string;
+}
+
+/**
+ * 経常利益: 黒字=青、赤字=赤（絶対値が大きいほど濃い）
+ * 労働分配率: 低い=青、高い=赤（50%を中心とした発散スケール）
+ */
+function cellColor(value: number, metric: HeatmapMetric, maxAbs: number): string {
+  let t: number;
+  let positive: boolean;
+  if (metric === "ordinaryProfit") {
+    t = maxAbs > 0 ? Math.min(1, Math.abs(value) / maxAbs) : 0;
+    positive = value >= 0;
+  } else {
+    t = Math.min(1, Math.abs(value - 50) / 30);
+    positive = value < 50;
+  }
+  const alpha = 0.12 + t * 0.68;
+  return positive
+    ? `rgba(46, 117, 182, ${alpha.toFixed(2)})`
+    : `rgba(192, 0, 0, ${alpha.toFixed(2)})`;
+}
+
+export default function ProfitHeatmap({
+  grid,
+  metric,
+  xLabel,
+  yLabel,
+  xUnit,
+  yUnit,
+}: ProfitHeatmapProps) {
+  const maxAbs = useMemo(
+    () =>
+      Math.max(
+        0,
+        ...grid.cells.flat().map((c) => Math.abs(c.ordinaryProfit))
+      ),
+    [grid]
+  );
+
+  const format = (v: number) =>
+    metric === "ordinaryProfit" ? formatNumber(v, 0) : `${formatNumber(v, 1)}%`;
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="text-xs border-collapse tabular-nums">
+        <thead>
+          <tr>
+            <th className="py-1 px-2 text-left text-muted-foreground font-normal whitespace-nowrap">
+              {yLabel} ＼ {xLabel}
+            </th>
+            {grid.xValues.map((x) => (
+              <th key={x} className="py-1 px-2 text-right font-semibold whitespace-nowrap">
+                {x > 0 ? "+" : ""}
+                {x}
+                {xUnit}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {grid.cells.map((row, yi) => (
+            <tr key={grid.yValues[yi]}>
+              <th className="py-1 px-2 text-right font-semibold whitespace-nowrap">
+                {grid.yValues[yi] > 0 ? "+" : ""}
+                {grid.yValues[yi]}
+                {yUnit}
+              </th>
+              {row.map((cell) => {
+                const value = metric === "ordinaryProfit" ? cell.ordinaryProfit : cell.laborShareRate;
+                return (
+                  <td
+                    key={cell.xValue}
+                    className={`py-1 px-2 text-right whitespace-nowrap ${
+                      cell.isBreakEvenBoundary ? "outline outline-2 -outline-offset-2 outline-black font-bold" : ""
+                    }`}
+                    style={{ backgroundColor: cellColor(value, metric, maxAbs) }}
+                    title={`${xLabel} ${cell.xValue}${xUnit} / ${yLabel} ${cell.yValue}${yUnit}: 経常利益 ${formatNumber(cell.ordinaryProfit, 0)}千円・労働分配率 ${formatNumber(cell.laborShareRate, 1)}%`}
+                  >
+                    {format(value)}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex flex-wrap gap-4 text-xs mt-3 text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: "rgba(46, 117, 182, 0.6)" }} />
+          {metric === "ordinaryProfit" ? "黒字" : "労働分配率 50%未満"}
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: "rgba(192, 0, 0, 0.6)" }} />
+          {metric === "ordinaryProfit" ? "赤字" : "労働分配率 50%以上"}
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="w-3 h-3 outline outline-2 outline-black" />
+          損益分岐線（経常利益の黒字・赤字の境界）
+        </span>
+      </div>
+    </div>
+  );
+}
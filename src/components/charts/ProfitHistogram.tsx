@@ -0,0 +1,97 @@
+"use client";
+
+import React, { useMemo } from "react";
+import {
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from "recharts";
+import { HistogramBin } from "@/lib/types";
+
+export interface ProfitHistogramProps {
+  bins: HistogramBin[];
+  trials: number;
+  percentiles?: { label: string; value: number }[]; // P10/P50/P90 等の参照線
+}
+
+const RED = "#C00000";
+const BLUE = "#2E75B6";
+
+const formatValue = (v: number) =>
+  v.toLocaleString("ja-JP", { maximumFractionDigits: 0 });
+
+export default function ProfitHistogram({
+  bins,
+  trials,
+  percentiles = [],
+}: ProfitHistogramProps) {
+  // 数値軸に階級の中央値を置き、参照線をそのまま重ねられるようにする
+  const data = useMemo(
+    () =>
+      bins.map((b) => ({
+        mid: (b.from + b.to) / 2,
+        from: b.from,
+        to: b.to,
+        share: trials > 0 ? (b.count / trials) * 100 : 0,
+        isLoss: (b.from + b.to) / 2 < 0,
+      })),
+    [bins, trials]
+  );
+
+  const domain = useMemo((): [number, number] => {
+    if (bins.length === 0) return [0, 1];
+    const lo = bins[0].from;
+    const hi = bins[bins.length - 1].to;
+    return lo === hi ? [lo - 1, hi + 1] : [lo, hi];
+  }, [bins]);
+
+  return (
+    <div className="w-full">
+      <ResponsiveContainer width="100%" height={300}>
+        <BarChart data={data} margin={{ top: 20, right: 30, left: 20, bottom: 20 }} barCategoryGap={1}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} />
+          <XAxis
+            type="number"
+            dataKey="mid"
+            domain={domain}
+            tickFormatter={formatValue}
+            tick={{ fontSize: 11 }}
+            label={{ value: "経常利益（千円）", position: "insideBottom", offset: -10, fontSize: 11 }}
+          />
+          <YAxis
+            tickFormatter={(v) => `${v}%`}
+            tick={{ fontSize: 11 }}
+          />
+          <Tooltip
+            labelFormatter={(_, payload) => {
+              const p = payload?.[0]?.payload;
+              return p ? `${formatValue(p.from)} 〜 ${formatValue(p.to)} 千円` : "";
+            }}
+            formatter={(value) => [`${Number(value).toFixed(1)}%`, "構成比"]}
+          />
+          <ReferenceLine x={0} stroke="#000" />
+          {percentiles.map((p) => (
+            <ReferenceLine
+              key={p.label}
+              x={p.value}
+              stroke="#7F7F7F"
+              strokeDasharray="4 3"
+              label={{ value: p.label, position: "top", fontSize: 11 }}
+            />
+          ))}
+          <Bar dataKey="share" isAnimationActive={false}>
+            {data.map((d, i) => (
+              <Cell key={i} fill={d.isLoss ? RED : BLUE} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+"use client";
+
+import React, { useMemo } from "react";
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from "recharts";
+import WaterfallChart, { calcWaterfallYRange } from "./WaterfallChart";
+import { PeriodData, CalculatedMetrics, ScenarioResult } from "@/lib/types";
+import {
+  calculateMetrics,
+  calculateScenarioWaterfallFactors,
+  formatNumber,
+} from "@/lib/calculations";
+
+export interface ScenarioComparisonChartProps {
+  basePeriod: PeriodData; // 「実績」列の期
+  baseMetrics: CalculatedMetrics;
+  scenarioResults: ScenarioResult[];
+  /** 各シナリオの基準期（basePeriodId）を引くための期一覧 */
+  periods: PeriodData[];
+}
+
+const SALES = "#2E75B6";
+const MARGINAL = "#70AD47";
+const FIXED = "#ED7D31";
+const PROFIT = "#1F3864";
+const LABOR_SHARE = "#C00000";
+
+const formatValue = (v: number) =>
+  v.toLocaleString("ja-JP", { maximumFractionDigits: 0 });
+
+/**
+ * シナリオ比較チャート
+ * 上段: 実績と各シナリオの売上高・限界利益・固定費・経常利益（棒）と労働分配率（折れ線）
+ * 中段: 経常利益の順位
+ * 下段: シナリオごとの基準期→シナリオの経常利益ウォーターフォール
+ */
+export default function ScenarioComparisonChart({
+  basePeriod,
+  baseMetrics,
+  scenarioResults,
+  periods,
+}: ScenarioComparisonChartProps) {
+  const barData = useMemo(
+    () => [
+      {
+        name: `実績\n${basePeriod.label}`,
+        sales: basePeriod.sales,
+        marginalProfit: baseMetrics.marginalProfit,
+        totalFixedCost: baseMetrics.totalFixedCost,
+        ordinaryProfit: baseMetrics.ordinaryProfit,
+        laborShareRate: baseMetrics.laborShareRate,
+      },
+      ...scenarioResults.map((sr) => ({
+        name: sr.scenario.label,
+        sales: sr.sales,
+        marginalProfit: sr.marginalProfit,
+        totalFixedCost: sr.totalFixedCost,
+        ordinaryProfit: sr.ordinaryProfit,
+        laborShareRate: sr.laborShareRate,
+      })),
+    ],
+    [basePeriod, baseMetrics, scenarioResults]
+  );
+
+  const ranking = useMemo(
+    () =>
+      [...scenarioResults].sort((a, b) => b.ordinaryProfit - a.ordinaryProfit),
+    [scenarioResults]
+  );
+
+  // シナリオごとの基準期→シナリオの要因分解（Y軸は全チャート共通）
+  const waterfalls = useMemo(() => {
+    const items = scenarioResults.map((sr) => {
+      const base = periods.find((p) => p.id === sr.basePeriodId) ?? basePeriod;
+      const baseOrdinaryProfit = calculateMetrics(base).ordinaryProfit;
+      return {
+        result: sr,
+        base,
+        baseOrdinaryProfit,
+        factors: calculateScenarioWaterfallFactors(base, sr),
+      };
+    });
+    let min = 0;
+    let max = 0;
+    for (const w of items) {
+      const [lo, hi] = calcWaterfallYRange(w.baseOrdinaryProfit, w.factors);
+      min = Math.min(min, lo);
+      max = Math.max(max, hi);
+    }
+    const margin = (max - min) * 0.1;
+    return { items, yDomain: [min - margin, max + margin] as [number, number] };
+  }, [scenarioResults, periods, basePeriod]);
+
+  return (
+    <div className="space-y-6">
+      <ResponsiveContainer width="100%" height={380}>
+        <ComposedChart
+          data={barData}
+          margin={{ top: 20, right: 20, left: 20, bottom: 10 }}
+        >
+          <CartesianGrid strokeDasharray="3 3" vertical={false} />
+          <XAxis
+            dataKey="name"
+            interval={0}
+            tick={{ fontSize: 11 }}
+            tickFormatter={(v) => String(v).replace("\n", " ")}
+          />
+          <YAxis
+            yAxisId="amount"
+            tickFormatter={formatValue}
+            tick={{ fontSize: 11 }}
+            label={{
+              value: "千円",
+              angle: -90,
+              position: "insideLeft",
+              style: { fontSize: 12 },
+            }}
+          />
+          <YAxis
+            yAxisId="rate"
+            orientation="right"
+            domain={[0, (max: number) => Math.max(100, Math.ceil(max / 10) * 10)]}
+            tickFormatter={(v) => `${v}%`}
+            tick={{ fontSize: 11 }}
+          />
+          <Tooltip
+            formatter={(value, name) =>
+              name === "労働分配率"
+                ? [`${formatNumber(Number(value), 1)}%`, name]
+                : [`${formatValue(Number(value))} 千円`, name]
+            }
+            labelFormatter={(label) => String(label).replace("\n", " ")}
+          />
+          <Legend wrapperStyle={{ fontSize: 12 }} />
+          <ReferenceLine yAxisId="amount" y={0} stroke="#000" />
+          <Bar yAxisId="amount" dataKey="sales" name="売上高" fill={SALES} isAnimationActive={false} />
+          <Bar yAxisId="amount" dataKey="marginalProfit" name="限界利益" fill={MARGINAL} isAnimationActive={false} />
+          <Bar yAxisId="amount" dataKey="totalFixedCost" name="固定費" fill={FIXED} isAnimationActive={false} />
+          <Bar yAxisId="amount" dataKey="ordinaryProfit" name="経常利益" fill={PROFIT} isAnimationActive={false} />
+          <Line
+            yAxisId="rate"
+            dataKey="laborShareRate"
+            name="労働分配率"
+            stroke={LABOR_SHARE}
+            strokeWidth={2}
+            dot={{ r: 4 }}
+            isAnimationActive={false}
+          />
+        </ComposedChart>
+      </ResponsiveContainer>
+
+      <div>
+        <h3 className="text-sm font-semibold mb-2">経常利益ランキング</h3>
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr className="border-b-2 border-gray-300">
+              <th className="text-center py-1.5 px-2 w-12">順位</th>
+              <th className="text-left py-1.5 px-2">シナリオ</th>
+              <th className="text-right py-1.5 px-2">経常利益</th>
+              <th className="text-right py-1.5 px-2">基準期比</th>
+              <th className="text-right py-1.5 px-2">当期純利益</th>
+              <th className="text-right py-1.5 px-2">労働分配率</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ranking.map((sr, i) => (
+              <tr key={sr.scenario.id} className="border-b">
+                <td className="text-center py-1.5 px-2 font-bold">{i + 1}</td>
+                <td className="py-1.5 px-2">
+                  {sr.scenario.label}
+                  <span className="text-xs text-muted-foreground ml-2">
+                    基準: {sr.basePeriodLabel}
+                  </span>
+                </td>
+                <td
+                  className={`text-right py-1.5 px-2 tabular-nums ${
+                    sr.ordinaryProfit < 0 ? "text-red-600" : ""
+                  }`}
+                >
+                  {formatValue(sr.ordinaryProfit)}
+                </td>
+                <td
+                  className={`text-right py-1.5 px-2 tabular-nums ${
+                    sr.ordinaryProfitChangeFromActual > 0
+                      ? "text-blue-600"
+                      : sr.ordinaryProfitChangeFromActual < 0
+                        ? "text-red-600"
+                        : ""
+                  }`}
+                >
+                  {formatNumber(sr.ordinaryProfitChangeFromActual, 1)}%
+                </td>
+                <td
+                  className={`text-right py-1.5 px-2 tabular-nums ${
+                    sr.netIncome < 0 ? "text-red-600" : ""
+                  }`}
+                >
+                  {formatValue(sr.netIncome)}
+                </td>
+                <td className="text-right py-1.5 px-2 tabular-nums">
+                  {formatNumber(sr.laborShareRate, 1)}%
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold mb-2">
+          シナリオ別 経常利益の変動要因（基準期 → シナリオ）
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {waterfalls.items.map((w) => (
+            <div key={w.result.scenario.id} className="border rounded-md p-2">
+              <p className="text-xs font-medium mb-1">
+                {w.result.scenario.label}
+                <span className="text-muted-foreground ml-2">
+                  （{w.base.label} ベース）
+                </span>
+              </p>
+              <WaterfallChart
+                previousPeriodLabel={w.base.label}
+                currentPeriodLabel={w.result.scenario.label}
+                previousOrdinaryProfit={w.baseOrdinaryProfit}
+                currentOrdinaryProfit={w.result.ordinaryProfit}
+                factors={w.factors}
+                yDomain={waterfalls.yDomain}
+                compact
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
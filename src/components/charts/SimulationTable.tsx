@@ -1,13 +1,14 @@
 "use client";
 
-import React from "react";
+import React, { useMemo } from "react";
 import { PeriodData, ScenarioResult, CalculatedMetrics } from "@/lib/types";
-import { formatNumber } from "@/lib/calculations";
+import { calculateMetrics, formatNumber } from "@/lib/calculations";
 
 interface SimulationTableProps {
   basePeriod: PeriodData;
   baseMetrics: CalculatedMetrics;
   scenarioResults: ScenarioResult[];
+  periods: PeriodData[]; // シナリオごとの基準期（basePeriodId）の解決用
 }
 
 interface RowDef {
@@ -19,6 +20,8 @@ interface RowDef {
   decimals?: number;
   bold?: boolean;
   indent?: boolean;
+  scenarioOnly?: boolean; // 実績列を「-」表示にする（シナリオの増減内訳など）
+  hideIfZero?: boolean; // 実績が0なら行ごと表示しない
 }
 
 const rows: RowDef[] = [
@@ -29,6 +32,22 @@ const rows: RowDef[] = [
     getScenarioValue: (sr) => sr.sales,
     bold: true,
   },
+  {
+    label: "うち単価効果",
+    bgClass: "bg-sales",
+    getValue: () => 0,
+    getScenarioValue: (sr) => sr.priceEffect,
+    indent: true,
+    scenarioOnly: true,
+  },
+  {
+    label: "うち数量効果",
+    bgClass: "bg-sales",
+    getValue: () => 0,
+    getScenarioValue: (sr) => sr.volumeEffect,
+    indent: true,
+    scenarioOnly: true,
+  },
   {
     label: "材料費",
     bgClass: "bg-variable",
@@ -57,6 +76,15 @@ const rows: RowDef[] = [
     getScenarioValue: (sr) => sr.otherVariableCost,
     indent: true,
   },
+  {
+    // シナリオは調整後の変動費率で試算するため、在庫増減なし（0）
+    label: "棚卸増減調整",
+    bgClass: "bg-variable",
+    getValue: (b) => b.metrics.inventoryAdjustment,
+    getScenarioValue: () => 0,
+    indent: true,
+    hideIfZero: true,
+  },
   {
     label: "変動費合計",
     bgClass: "bg-variable",
@@ -120,6 +148,22 @@ const rows: RowDef[] = [
     getValue: (b) => b.period.nonOperatingIncome,
     getScenarioValue: (sr) => sr.nonOperatingIncome,
   },
+  {
+    label: "うち増減額",
+    bgClass: "",
+    getValue: () => 0,
+    getScenarioValue: (sr) => sr.nonOperatingIncomeChange,
+    indent: true,
+    scenarioOnly: true,
+  },
+  {
+    label: "うち借入利息の影響",
+    bgClass: "",
+    getValue: () => 0,
+    getScenarioValue: (sr) => -sr.interestExpenseChange,
+    indent: true,
+    scenarioOnly: true,
+  },
   {
     label: "経常利益",
     bgClass: "bg-profit",
@@ -127,6 +171,43 @@ const rows: RowDef[] = [
     getScenarioValue: (sr) => sr.ordinaryProfit,
     bold: true,
   },
+  {
+    label: "特別損益",
+    bgClass: "",
+    getValue: (b) => b.metrics.extraordinaryItems,
+    getScenarioValue: () => 0,
+    indent: true,
+    hideIfZero: true,
+  },
+  {
+    label: "税引前当期純利益",
+    bgClass: "bg-profit",
+    getValue: (b) => b.metrics.incomeBeforeTax,
+    getScenarioValue: (sr) => sr.incomeBeforeTax,
+  },
+  {
+    label: "法人税等",
+    bgClass: "",
+    getValue: (b) => b.metrics.corporateTax,
+    getScenarioValue: (sr) => sr.corporateTax,
+    indent: true,
+  },
+  {
+    label: "実効税率",
+    bgClass: "",
+    getValue: (b) => b.metrics.effectiveTaxRate,
+    getScenarioValue: (sr) => sr.effectiveTaxRate,
+    unit: "%",
+    decimals: 1,
+    indent: true,
+  },
+  {
+    label: "当期純利益",
+    bgClass: "bg-profit",
+    getValue: (b) => b.metrics.netIncome,
+    getScenarioValue: (sr) => sr.netIncome,
+    bold: true,
+  },
 ];
 
 const perEmployeeRows: RowDef[] = [
@@ -160,9 +241,16 @@ export default function SimulationTable({
   basePeriod,
   baseMetrics,
   scenarioResults,
+  periods,
 }: SimulationTableProps) {
   const base = { period: basePeriod, metrics: baseMetrics };
 
+  // 経常利益の色分けは各シナリオ自身の基準期と比べる
+  const baseOrdinaryProfitOf = useMemo(() => {
+    const byId = new Map(periods.map((p) => [p.id, calculateMetrics(p).ordinaryProfit]));
+    return (sr: ScenarioResult) => byId.get(sr.basePeriodId) ?? baseMetrics.ordinaryProfit;
+  }, [periods, baseMetrics]);
+
   const fmt = (v: number, decimals?: number) =>
     decimals ? formatNumber(v, decimals) : v.toLocaleString("ja-JP", { maximumFractionDigits: 0 });
 
@@ -174,14 +262,14 @@ export default function SimulationTable({
           {row.label}
         </td>
         <td className="text-right py-1.5 px-2 tabular-nums font-medium">
-          {fmt(baseVal, row.decimals)}
-          {row.unit || ""}
+          {row.scenarioOnly ? "-" : `${fmt(baseVal, row.decimals)}${row.unit || ""}`}
         </td>
         {scenarioResults.map((sr) => {
           const scenarioVal = row.getScenarioValue(sr);
           const isProfit = row.label === "経常利益";
-          const profitImproved = isProfit && scenarioVal > baseVal;
-          const profitWorsened = isProfit && scenarioVal < baseVal;
+          const scenarioBaseVal = isProfit ? baseOrdinaryProfitOf(sr) : baseVal;
+          const profitImproved = isProfit && scenarioVal > scenarioBaseVal;
+          const profitWorsened = isProfit && scenarioVal < scenarioBaseVal;
           return (
             <td
               key={sr.scenario.id}
@@ -214,16 +302,26 @@ export default function SimulationTable({
             {scenarioResults.map((sr) => (
               <th key={sr.scenario.id} className="text-right py-2 px-2 min-w-[110px]">
                 {sr.scenario.label}
+                <br />
+                <span
+                  className={`text-xs font-normal ${
+                    sr.basePeriodId !== basePeriod.id
+                      ? "text-amber-600"
+                      : "text-muted-foreground"
+                  }`}
+                >
+                  基準: {sr.basePeriodLabel}
+                </span>
               </th>
             ))}
           </tr>
         </thead>
         <tbody>
-          {rows.map(renderRow)}
+          {rows.filter((row) => !row.hideIfZero || row.getValue(base) !== 0).map(renderRow)}
 
           {/* 経常利益の実績比増減率 */}
           <tr className="border-b bg-gray-50">
-            <td className="py-1.5 px-3 text-xs text-muted-foreground">経常利益 実績比</td>
+            <td className="py-1.5 px-3 text-xs text-muted-foreground">経常利益 基準期比</td>
             <td className="text-right py-1.5 px-2 text-xs text-muted-foreground">-</td>
             {scenarioResults.map((sr) => (
               <td
@@ -0,0 +1,76 @@
+"use client";
+
+import React, { useMemo } from "react";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from "recharts";
+
+export interface TornadoChartDataPoint {
+  label: string; // レバー名（例: 売上高変化率 ±10%）
+  lowDelta: number; // 下振れ時の基準値からの変化額
+  highDelta: number; // 上振れ時の基準値からの変化額
+}
+
+export interface TornadoChartProps {
+  data: TornadoChartDataPoint[];
+  unit?: string;
+}
+
+const RED = "#C00000";
+const BLUE = "#2E75B6";
+
+export default function TornadoChart({ data, unit = "千円" }: TornadoChartProps) {
+  // 左右対称の軸にして影響の大小を比較しやすくする
+  const maxAbs = useMemo(() => {
+    const values = data.flatMap((d) => [Math.abs(d.lowDelta), Math.abs(d.highDelta)]);
+    return Math.max(1, ...values) * 1.1;
+  }, [data]);
+
+  const formatValue = (v: number) =>
+    v.toLocaleString("ja-JP", { maximumFractionDigits: unit === "千円" ? 0 : 1 });
+
+  return (
+    <div className="w-full">
+      <ResponsiveContainer width="100%" height={Math.max(220, data.length * 56 + 60)}>
+        <BarChart
+          data={data}
+          layout="vertical"
+          margin={{ top: 10, right: 30, left: 20, bottom: 10 }}
+          barGap={0}
+        >
+          <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+          <XAxis
+            type="number"
+            domain={[-maxAbs, maxAbs]}
+            tickFormatter={formatValue}
+            tick={{ fontSize: 11 }}
+          />
+          <YAxis
+            type="category"
+            dataKey="label"
+            width={150}
+            tick={{ fontSize: 11 }}
+          />
+          <Tooltip
+            formatter={(value, name) => [
+              `${Number(value) >= 0 ? "+" : ""}${formatValue(Number(value))} ${unit}`,
+              name,
+            ]}
+          />
+          <Legend wrapperStyle={{ fontSize: 12 }} />
+          <ReferenceLine x={0} stroke="#000" />
+          <Bar dataKey="lowDelta" name="下振れ" fill={RED} isAnimationActive={false} />
+          <Bar dataKey="highDelta" name="上振れ" fill={BLUE} isAnimationActive={false} />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
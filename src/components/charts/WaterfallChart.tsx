@@ -13,11 +13,22 @@ import {
   ReferenceLine,
 } from "recharts";
 
+export interface WaterfallDetail {
+  materialCostRateContribution: number;
+  outsourcingCostRateContribution: number;
+  merchandisePurchaseRateContribution: number;
+  otherVariableCostRateContribution: number;
+  laborCostContribution: number;
+  depreciationContribution: number;
+  otherExpensesContribution: number;
+}
+
 export interface WaterfallFactors {
   salesContribution: number;
   marginalRateContribution: number;
   fixedCostContribution: number;
   nonOperatingContribution: number;
+  detail?: WaterfallDetail;
 }
 
 export interface WaterfallChartProps {
@@ -28,6 +39,55 @@ export interface WaterfallChartProps {
   factors: WaterfallFactors;
   /** 全チャート共通のY軸ドメイン [min, max]。未指定時は自動計算 */
   yDomain?: [number, number];
+  /** true のとき②③を変動費項目・固定費項目別のバーに分けて表示 */
+  detailed?: boolean;
+  /** 要因の算定方法。指定時はチャート下に注記を表示 */
+  method?: "sequential" | "shapley";
+  /** true のとき高さを抑えて凡例を省略（複数並べる一覧表示用） */
+  compact?: boolean;
+}
+
+const METHOD_NOTES: Record<NonNullable<WaterfallChartProps["method"]>, string> = {
+  sequential:
+    "算定方法: 順次法（①は前期の加工高比率、②は当期の売上高で評価。①②の配分は計算順序に依存します）",
+  shapley:
+    "算定方法: 対称分解（①②とも前期・当期の平均で評価するシャープレイ値。計算順序に依存しません）",
+};
+
+/**
+ * 要因バーの並び。詳細モードでは②を変動費項目別、③を固定費項目別に展開する
+ * （両期とも0の変動費項目はバーを省略）
+ */
+function buildFactorItems(
+  factors: WaterfallFactors,
+  detailed: boolean
+): { name: string; value: number }[] {
+  const sales = { name: "売上高\n貢献", value: factors.salesContribution };
+  const nonOperating = { name: "営業外損益\n貢献", value: factors.nonOperatingContribution };
+  const d = factors.detail;
+
+  if (!detailed || !d) {
+    return [
+      sales,
+      { name: "加工高比率\n貢献", value: factors.marginalRateContribution },
+      { name: "固定費\n貢献", value: factors.fixedCostContribution },
+      nonOperating,
+    ];
+  }
+
+  return [
+    sales,
+    ...[
+      { name: "材料費率\n貢献", value: d.materialCostRateContribution },
+      { name: "外注費率\n貢献", value: d.outsourcingCostRateContribution },
+      { name: "商品仕入率\n貢献", value: d.merchandisePurchaseRateContribution },
+      { name: "その他変動費率\n貢献", value: d.otherVariableCostRateContribution },
+    ].filter((item) => item.value !== 0),
+    { name: "人件費\n貢献", value: d.laborCostContribution },
+    { name: "減価償却費\n貢献", value: d.depreciationContribution },
+    { name: "その他経費\n貢献", value: d.otherExpensesContribution },
+    nonOperating,
+  ];
 }
 
 /**
@@ -35,20 +95,14 @@ export interface WaterfallChartProps {
  */
 export function calcWaterfallYRange(
   previousOrdinaryProfit: number,
-  factors: WaterfallFactors
+  factors: WaterfallFactors,
+  detailed: boolean = false
 ): [number, number] {
   let cumulative = previousOrdinaryProfit;
   let min = Math.min(0, cumulative);
   let max = Math.max(0, cumulative);
 
-  const items = [
-    factors.salesContribution,
-    factors.marginalRateContribution,
-    factors.fixedCostContribution,
-    factors.nonOperatingContribution,
-  ];
-
-  for (const v of items) {
+  for (const { value: v } of buildFactorItems(factors, detailed)) {
     cumulative += v;
     min = Math.min(min, cumulative);
     max = Math.max(max, cumulative);
@@ -92,6 +146,9 @@ export default function WaterfallChart({
   currentOrdinaryProfit,
   factors,
   yDomain,
+  detailed = false,
+  method,
+  compact = false,
 }: WaterfallChartProps) {
   const data = useMemo(() => {
     const bars: WaterfallBar[] = [];
@@ -105,14 +162,7 @@ export default function WaterfallChart({
       color: NAVY,
     });
 
-    const factorItems = [
-      { name: "売上高\n貢献", value: factors.salesContribution },
-      { name: "加工高比率\n貢献", value: factors.marginalRateContribution },
-      { name: "固定費\n貢献", value: factors.fixedCostContribution },
-      { name: "営業外損益\n貢献", value: factors.nonOperatingContribution },
-    ];
-
-    for (const item of factorItems) {
+    for (const item of buildFactorItems(factors, detailed)) {
       const color = item.value >= 0 ? BLUE : RED;
       const invisible = item.value >= 0 ? cumulative : cumulative + item.value;
       bars.push({
@@ -140,6 +190,7 @@ export default function WaterfallChart({
     previousOrdinaryProfit,
     currentOrdinaryProfit,
     factors,
+    detailed,
   ]);
 
   const formatValue = (v: number) => {
@@ -148,7 +199,7 @@ export default function WaterfallChart({
 
   return (
     <div className="w-full">
-      <ResponsiveContainer width="100%" height={400}>
+      <ResponsiveContainer width="100%" height={compact ? 240 : 400}>
         <BarChart
           data={data}
           margin={{ top: 20, right: 30, left: 20, bottom: 40 }}
@@ -189,20 +240,27 @@ export default function WaterfallChart({
         </BarChart>
       </ResponsiveContainer>
 
-      <div className="flex justify-center gap-6 text-xs mt-2">
-        <span className="flex items-center gap-1">
-          <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: NAVY }} />
-          前期/当期 経常利益
-        </span>
-        <span className="flex items-center gap-1">
-          <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: BLUE }} />
-          改善（正の要因）
-        </span>
-        <span className="flex items-center gap-1">
-          <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: RED }} />
-          悪化（負の要因）
-        </span>
-      </div>
+      {!compact && (
+        <div className="flex justify-center gap-6 text-xs mt-2">
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: NAVY }} />
+            前期/当期 経常利益
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: BLUE }} />
+            改善（正の要因）
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: RED }} />
+            悪化（負の要因）
+          </span>
+        </div>
+      )}
+      {method && (
+        <p className="text-center text-[11px] text-muted-foreground mt-1">
+          {METHOD_NOTES[method]}
+        </p>
+      )}
     </div>
   );
 }
@@ -12,6 +12,13 @@ import {
   BarChart3,
   TrendingUp,
   Calculator,
+  Target,
+  CalendarRange,
+  Factory,
+  Landmark,
+  Scale,
+  CalendarDays,
+  ClipboardCheck,
   Save,
   FolderOpen,
   RotateCcw,
@@ -58,6 +65,48 @@ const steps = [
   },
   {
     step: 6,
+    label: "損益分岐点分析",
+    path: "/break-even",
+    icon: Target,
+  },
+  {
+    step: 7,
+    label: "中期経営計画",
+    path: "/plan",
+    icon: CalendarRange,
+  },
+  {
+    step: 8,
+    label: "設備投資計画",
+    path: "/capex",
+    icon: Factory,
+  },
+  {
+    step: 9,
+    label: "借入金・債務償還",
+    path: "/loans",
+    icon: Landmark,
+  },
+  {
+    step: 10,
+    label: "財務指標分析",
+    path: "/financial-analysis",
+    icon: Scale,
+  },
+  {
+    step: 11,
+    label: "月次推移",
+    path: "/monthly",
+    icon: CalendarDays,
+  },
+  {
+    step: 12,
+    label: "予実管理",
+    path: "/budget",
+    icon: ClipboardCheck,
+  },
+  {
+    step: 13,
     label: "レポート出力",
     path: "/report",
     icon: FileText,
@@ -0,0 +1,332 @@
+"use client";
+
+import { useState, useCallback, useMemo } from "react";
+import {
+  BalanceSheetData,
+  ExtractedBalanceSheetData,
+  PeriodData,
+} from "@/lib/types";
+import { getActiveApiKey } from "@/lib/api-key-storage";
+import { calculateBalanceSheetMetrics } from "@/lib/calculations";
+import { BALANCE_SHEET_SECTIONS } from "@/lib/balance-sheet-items";
+import { renderField } from "./ExtractedDataReview";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TooltipProvider } from "@/components/ui/tooltip";
+import { ShieldCheck, ShieldAlert, Loader2, Send } from "lucide-react";
+
+/** 抽出結果（null は 0 とみなす）→ 保存用の貸借対照表 */
+export function toBalanceSheetData(data: ExtractedBalanceSheetData): BalanceSheetData {
+  const bs = {} as BalanceSheetData;
+  for (const section of BALANCE_SHEET_SECTIONS) {
+    for (const item of section.items) {
+      bs[item.key] = data[item.key] ?? 0;
+    }
+  }
+  return bs;
+}
+
+interface BalanceSheetReviewProps {
+  allExtracted: ExtractedBalanceSheetData[];
+  storePeriods: PeriodData[];
+  initialTargetIndex: number;
+  pdfBase64?: string;
+  onSaveAndContinue: (targetIndex: number, data: BalanceSheetData) => void;
+  onSaveAndFinish: (targetIndex: number, data: BalanceSheetData) => void;
+  onBack: () => void;
+}
+
+/**
+ * 貸借対照表の抽出データ確認・編集
+ * 期ラベルは損益計算書側を正とし、保存先の期の貸借対照表だけを更新する
+ */
+export default function BalanceSheetReview({
+  allExtracted,
+  storePeriods,
+  initialTargetIndex,
+  pdfBase64,
+  onSaveAndContinue,
+  onSaveAndFinish,
+  onBack,
+}: BalanceSheetReviewProps) {
+  const [selectedExtractedIndex, setSelectedExtractedIndex] = useState(0);
+  const [editedPeriods, setEditedPeriods] = useState<ExtractedBalanceSheetData[]>(
+    () => allExtracted.map((p) => ({ ...p }))
+  );
+  const [targetIndex, setTargetIndex] = useState(initialTargetIndex);
+
+  const [correctionText, setCorrectionText] = useState("");
+  const [isCorrecting, setIsCorrecting] = useState(false);
+  const [correctionError, setCorrectionError] = useState("");
+
+  const data = editedPeriods[selectedExtractedIndex];
+  const metrics = useMemo(
+    () => calculateBalanceSheetMetrics(storePeriods[targetIndex], toBalanceSheetData(data)),
+    [storePeriods, targetIndex, data]
+  );
+  const totalAssetsDiff =
+    data.totalAssetsFromPdf !== null && data.totalAssetsFromPdf !== undefined
+      ? metrics.totalAssets - data.totalAssetsFromPdf
+      : null;
+
+  const handleCorrection = useCallback(async () => {
+    if (!correctionText.trim() || isCorrecting) return;
+    const active = getActiveApiKey();
+    if (!active) return;
+
+    setIsCorrecting(true);
+    setCorrectionError("");
+
+    try {
+      const response = await fetch("/api/parse-pdf", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          apiKey: active.apiKey,
+          provider: active.provider,
+          mode: "correction",
+          document: "bs",
+          currentData: data,
+          correctionInstruction: correctionText,
+          pdfBase64: pdfBase64 || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const errData = await response.json();
+        throw new Error(errData.error || "修正APIの呼び出しに失敗しました");
+      }
+
+      const result = await response.json();
+      if (result.periods && result.periods.length > 0) {
+        setEditedPeriods((prev) => {
+          const updated = [...prev];
+          updated[selectedExtractedIndex] = result.periods[0];
+          return updated;
+        });
+        setCorrectionText("");
+      }
+    } catch (err: unknown) {
+      setCorrectionError(
+        err instanceof Error ? err.message : "修正中にエラーが発生しました"
+      );
+    } finally {
+      setIsCorrecting(false);
+    }
+  }, [correctionText, isCorrecting, data, pdfBase64, selectedExtractedIndex]);
+
+  const handleFieldChange = useCallback(
+    (key: string, rawValue: string) => {
+      const cleaned = rawValue.replace(/,/g, "").trim();
+      const num = cleaned === "" ? null : Number(cleaned);
+      setEditedPeriods((prev) => {
+        const updated = [...prev];
+        const d = { ...updated[selectedExtractedIndex] };
+        const current = (d as unknown as Record<string, unknown>)[key];
+        (d as unknown as Record<string, unknown>)[key] =
+          num !== null && isNaN(num) ? current : num;
+        updated[selectedExtractedIndex] = d;
+        return updated;
+      });
+    },
+    [selectedExtractedIndex]
+  );
+
+  const formatNum = (v: number) => v.toLocaleString();
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">貸借対照表の確認・編集</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          AIが抽出した期末残高を確認し、必要に応じて修正してください。
+          合計欄と貸借一致のチェックが自動更新されます。
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {allExtracted.length > 1 && (
+          <>
+            <div className="bg-blue-50 border border-blue-200 rounded-md p-3">
+              <p className="text-sm font-medium text-blue-800 mb-2">
+                PDFから{allExtracted.length}
+                期分の貸借対照表を検出しました。使用する期を選択してください:
+              </p>
+              <div className="flex gap-2 flex-wrap">
+                {allExtracted.map((p, i) => (
+                  <Button
+                    key={i}
+                    variant={selectedExtractedIndex === i ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setSelectedExtractedIndex(i)}
+                  >
+                    {p.label || `期${i + 1}`}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <Separator />
+          </>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Label className="w-32 shrink-0 text-sm font-bold">保存先</Label>
+          <Select
+            value={String(targetIndex)}
+            onValueChange={(v) => setTargetIndex(Number(v))}
+          >
+            <SelectTrigger className="max-w-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {storePeriods.map((sp, idx) => (
+                <SelectItem key={idx} value={String(idx)}>
+                  {sp.label}
+                  {sp.balanceSheet && " (B/Sあり・上書き)"}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {data.label && (
+            <span className="text-xs text-muted-foreground">
+              PDF上の期: {data.label}
+            </span>
+          )}
+        </div>
+
+        <Separator />
+
+        {data.notes && data.notes.length > 0 && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 space-y-1">
+            <p className="text-sm font-medium text-yellow-800">AI解析メモ:</p>
+            {data.notes.map((note, i) => (
+              <p key={i} className="text-sm text-yellow-700">
+                {note}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <TooltipProvider>
+          {BALANCE_SHEET_SECTIONS.map((section) => (
+            <div key={section.title} className="space-y-2">
+              <p className="text-xs font-bold text-muted-foreground mt-2">
+                ▼ {section.title}
+              </p>
+              {section.items.map((item) =>
+                renderField({ ...item, unit: "千円" }, data, handleFieldChange)
+              )}
+              {section.total && (
+                <div className="flex justify-between text-sm bg-muted/50 border rounded-md px-3 py-1.5">
+                  <span className="font-medium">{section.total.label}</span>
+                  <span className="tabular-nums font-medium">
+                    {formatNum(metrics[section.total.key])} 千円
+                  </span>
+                </div>
+              )}
+            </div>
+          ))}
+        </TooltipProvider>
+
+        {/* 貸借一致チェック */}
+        <div
+          className={`rounded-md px-3 py-2 border space-y-1 ${
+            Math.abs(metrics.balanceDifference) < 1
+              ? "bg-emerald-50 border-emerald-300"
+              : "bg-amber-50 border-amber-300"
+          }`}
+        >
+          <div className="flex justify-between text-sm">
+            <span className="font-bold">資産合計</span>
+            <span className="tabular-nums font-bold">{formatNum(metrics.totalAssets)} 千円</span>
+          </div>
+          <div className="flex justify-between text-sm">
+            <span className="font-bold">負債・純資産合計</span>
+            <span className="tabular-nums font-bold">
+              {formatNum(metrics.totalLiabilitiesAndNetAssets)} 千円
+            </span>
+          </div>
+          {Math.abs(metrics.balanceDifference) < 1 ? (
+            <div className="flex items-center gap-1">
+              <ShieldCheck className="w-3.5 h-3.5 text-green-500" />
+              <span className="text-xs text-green-600">貸借が一致しています</span>
+            </div>
+          ) : (
+            <div className="flex items-center gap-1">
+              <ShieldAlert className="w-3.5 h-3.5 text-amber-500" />
+              <span className="text-xs text-amber-600">
+                貸借差額 {formatNum(metrics.balanceDifference)} 千円（その他の区分で調整してください）
+              </span>
+            </div>
+          )}
+          {totalAssetsDiff !== null && Math.abs(totalAssetsDiff) >= 1 && (
+            <p className="text-xs text-amber-600">
+              決算書記載の資産合計 {formatNum(data.totalAssetsFromPdf ?? 0)} 千円と
+              {formatNum(totalAssetsDiff)} 千円の差があります
+            </p>
+          )}
+        </div>
+
+        <Separator />
+        <div className="space-y-2">
+          <p className="text-sm font-bold">AIに修正を指示</p>
+          <div className="flex gap-2">
+            <Textarea
+              value={correctionText}
+              onChange={(e) => setCorrectionText(e.target.value)}
+              placeholder="例: 1年内返済予定の長期借入金が長期借入金に含まれています。短期借入金に振り替えてください。"
+              className="text-sm min-h-[60px] flex-1"
+              disabled={isCorrecting}
+            />
+            <Button
+              onClick={handleCorrection}
+              disabled={!correctionText.trim() || isCorrecting}
+              className="shrink-0 self-end"
+              size="sm"
+            >
+              {isCorrecting ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <>
+                  <Send className="w-4 h-4 mr-1" />
+                  修正
+                </>
+              )}
+            </Button>
+          </div>
+          {correctionError && (
+            <p className="text-xs text-destructive">{correctionError}</p>
+          )}
+        </div>
+
+        <Separator />
+
+        <div className="flex justify-between">
+          <Button variant="outline" onClick={onBack}>
+            戻る
+          </Button>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => onSaveAndContinue(targetIndex, toBalanceSheetData(data))}
+            >
+              保存して別の期を読み取る
+            </Button>
+            <Button onClick={() => onSaveAndFinish(targetIndex, toBalanceSheetData(data))}>
+              保存してStep 2へ
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
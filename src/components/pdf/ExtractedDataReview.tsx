@@ -1,9 +1,14 @@
 "use client";
 
 import { useState, useCallback, useMemo } from "react";
-import { ExtractedPeriodData, PeriodData } from "@/lib/types";
+import {
+  ExtractedBalanceSheetData,
+  ExtractedPeriodData,
+  PeriodData,
+} from "@/lib/types";
 import { getActiveApiKey } from "@/lib/api-key-storage";
 import { getVariableCostItems } from "@/lib/variable-cost-settings";
+import { INVENTORY_ITEMS } from "@/lib/inventory-items";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -29,7 +34,7 @@ interface FieldDef {
   key: string;
   label: string;
   unit: string;
-  group: "variable" | "fixed" | "other";
+  group: "variable" | "fixed" | "tax" | "other";
 }
 
 const fields: FieldDef[] = [
@@ -42,6 +47,9 @@ const fields: FieldDef[] = [
   { key: "depreciation", label: "減価償却費", unit: "千円", group: "fixed" },
   { key: "otherExpenses", label: "その他経費", unit: "千円", group: "fixed" },
   { key: "nonOperatingIncome", label: "営業外損益", unit: "千円", group: "other" },
+  { key: "extraordinaryIncome", label: "特別利益", unit: "千円", group: "tax" },
+  { key: "extraordinaryLoss", label: "特別損失", unit: "千円", group: "tax" },
+  { key: "corporateTax", label: "法人税等", unit: "千円", group: "tax" },
   { key: "employeeCount", label: "従業員数", unit: "人", group: "other" },
 ];
 
@@ -49,6 +57,14 @@ function n(val: number | null | undefined): number {
   return val ?? 0;
 }
 
+/** 棚卸増減調整額（期首 − 期末の合計、未抽出は0） */
+function inventoryAdjustment(data: ExtractedPeriodData): number {
+  return INVENTORY_ITEMS.reduce(
+    (sum, item) => sum + n(data[item.beginningKey]) - n(data[item.endingKey]),
+    0
+  );
+}
+
 function formatNum(v: number): string {
   return v.toLocaleString();
 }
@@ -68,12 +84,15 @@ function ConfidenceBadge({
 }
 
 interface CalcSummary {
+  inventoryAdjustment: number;
   totalVariableCost: number;
   marginalProfit: number;
   marginalProfitRate: number;
   totalFixedCost: number;
   operatingProfit: number;
   ordinaryProfit: number;
+  incomeBeforeTax: number;
+  netIncome: number;
   /** 決算書記載の経常利益（null = 不明） */
   ordinaryProfitFromPdf: number | null;
   /** 計算値と決算書記載値の差分（0 = 整合, null = 比較不可） */
@@ -82,17 +101,22 @@ interface CalcSummary {
 
 function calcSummary(data: ExtractedPeriodData): CalcSummary {
   const sales = n(data.sales);
+  const adjustment = inventoryAdjustment(data);
   const totalVariableCost =
     n(data.materialCost) +
     n(data.outsourcingCost) +
     n(data.merchandisePurchase) +
-    n(data.otherVariableCost);
+    n(data.otherVariableCost) +
+    adjustment;
   const marginalProfit = sales - totalVariableCost;
   const marginalProfitRate = sales > 0 ? (marginalProfit / sales) * 100 : 0;
   const totalFixedCost =
     n(data.laborCost) + n(data.depreciation) + n(data.otherExpenses);
   const operatingProfit = marginalProfit - totalFixedCost;
   const ordinaryProfit = operatingProfit + n(data.nonOperatingIncome);
+  const incomeBeforeTax =
+    ordinaryProfit + n(data.extraordinaryIncome) - n(data.extraordinaryLoss);
+  const netIncome = incomeBeforeTax - n(data.corporateTax);
 
   const ordinaryProfitFromPdf = data.ordinaryProfitFromPdf ?? null;
   const discrepancy =
@@ -101,12 +125,15 @@ function calcSummary(data: ExtractedPeriodData): CalcSummary {
       : null;
 
   return {
+    inventoryAdjustment: adjustment,
     totalVariableCost,
     marginalProfit,
     marginalProfitRate,
     totalFixedCost,
     operatingProfit,
     ordinaryProfit,
+    incomeBeforeTax,
+    netIncome,
     ordinaryProfitFromPdf,
     discrepancy,
   };
@@ -125,7 +152,8 @@ function validateAndFix(data: ExtractedPeriodData): ExtractedPeriodData {
     n(data.materialCost) +
     n(data.outsourcingCost) +
     n(data.merchandisePurchase) +
-    n(data.otherVariableCost);
+    n(data.otherVariableCost) +
+    inventoryAdjustment(data);
   const marginalProfit = sales - totalVariable;
   const operatingProfit = marginalProfit - n(data.laborCost) - n(data.depreciation) - n(data.otherExpenses);
   const ordinaryProfit = operatingProfit + n(data.nonOperatingIncome);
@@ -356,8 +384,37 @@ export default function ExtractedDataReview({
             .filter((f) => f.group === "variable")
             .map((field) => renderField(field, data, handleFieldChange, readOnly))}
 
+          {/* ── 棚卸高（期首−期末を変動費に加算） ── */}
+          <div className="mt-2">
+            <p className="text-xs font-bold text-muted-foreground mb-1">
+              ▼ 棚卸高（期首・期末）
+            </p>
+          </div>
+          {INVENTORY_ITEMS.flatMap((item) => [
+            renderField(
+              { key: item.beginningKey, label: `期首${item.label}棚卸高`, unit: "千円" },
+              data,
+              handleFieldChange,
+              readOnly
+            ),
+            renderField(
+              { key: item.endingKey, label: `期末${item.label}棚卸高`, unit: "千円" },
+              data,
+              handleFieldChange,
+              readOnly
+            ),
+          ])}
+
           {/* 変動費合計 + 限界利益 */}
           <div className="bg-blue-50 border border-blue-200 rounded-md px-3 py-2 space-y-1">
+            {summary.inventoryAdjustment !== 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">棚卸増減調整（期首−期末）</span>
+                <span className="tabular-nums">
+                  {formatNum(summary.inventoryAdjustment)} 千円
+                </span>
+              </div>
+            )}
             <div className="flex justify-between text-sm">
               <span className="font-medium">変動費合計</span>
               <span className="tabular-nums font-medium">
@@ -455,6 +512,33 @@ export default function ExtractedDataReview({
             )}
           </div>
 
+          {/* ── 特別損益・法人税等 ── */}
+          <div className="mt-2">
+            <p className="text-xs font-bold text-muted-foreground mb-1">
+              ▼ 特別損益・法人税等
+            </p>
+          </div>
+          {fields
+            .filter((f) => f.group === "tax")
+            .map((field) => renderField(field, data, handleFieldChange, readOnly))}
+
+          <div className="bg-muted/50 border rounded-md px-3 py-2 space-y-1">
+            <div className="flex justify-between text-sm">
+              <span className="font-medium">税引前当期純利益</span>
+              <span className="tabular-nums font-medium">
+                {formatNum(summary.incomeBeforeTax)} 千円
+              </span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="font-bold">当期純利益</span>
+              <span
+                className={`tabular-nums font-bold ${summary.netIncome < 0 ? "text-red-600" : ""}`}
+              >
+                {formatNum(summary.netIncome)} 千円
+              </span>
+            </div>
+          </div>
+
           {/* ── 従業員数 ── */}
           <div className="mt-2">
             <p className="text-xs font-bold text-muted-foreground mb-1">
@@ -536,10 +620,10 @@ export default function ExtractedDataReview({
   );
 }
 
-/** 1フィールドの入力行を描画 */
-function renderField(
-  field: FieldDef,
-  data: ExtractedPeriodData,
+/** 1フィールドの入力行を描画（貸借対照表の確認画面と共用） */
+export function renderField(
+  field: Pick<FieldDef, "key" | "label" | "unit">,
+  data: ExtractedPeriodData | ExtractedBalanceSheetData,
   onChange: (key: string, rawValue: string) => void,
   readOnly?: boolean
 ) {
@@ -0,0 +1,201 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import {
+  calculateGridSimulation,
+  resolveScenarioBasePeriod,
+} from "@/lib/calculations";
+import { GridAxis, PeriodData, Scenario, ScenarioLever } from "@/lib/types";
+import ProfitHeatmap, { HeatmapMetric } from "@/components/charts/ProfitHeatmap";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export interface GridSimulationConfig {
+  scenarioIndex: number; // 掃引しないレバーの値を取るシナリオ
+  xAxis: GridAxis;
+  yAxis: GridAxis;
+}
+
+export const DEFAULT_GRID_CONFIG: GridSimulationConfig = {
+  scenarioIndex: 0,
+  xAxis: { lever: "volumeChangeRate", min: -20, max: 20, step: 5 },
+  yAxis: { lever: "variableCostRateChange", min: -5, max: 5, step: 1 },
+};
+
+const gridLeverDefs: { key: ScenarioLever; label: string; unit: string }[] = [
+  { key: "priceChangeRate", label: "販売単価変化率", unit: "%" },
+  { key: "volumeChangeRate", label: "販売数量変化率", unit: "%" },
+  { key: "variableCostRateChange", label: "変動費率変化", unit: "%pt" },
+  { key: "laborCostChangeRate", label: "人件費変化率", unit: "%" },
+  { key: "fixedCostChangeRate", label: "その他固定費変化率", unit: "%" },
+];
+
+function AxisEditor({
+  title,
+  axis,
+  otherLever,
+  onChange,
+}: {
+  title: string;
+  axis: GridAxis;
+  otherLever: ScenarioLever;
+  onChange: (axis: GridAxis) => void;
+}) {
+  const numberField = (key: "min" | "max" | "step", label: string) => (
+    <div className="space-y-1">
+      <Label className="text-[11px] text-muted-foreground">{label}</Label>
+      <Input
+        type="number"
+        value={axis[key]}
+        onChange={(e) => onChange({ ...axis, [key]: parseFloat(e.target.value) || 0 })}
+        className="w-20 h-8 text-right text-xs tabular-nums"
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-1.5">
+      <Label className="text-xs font-semibold">{title}</Label>
+      <div className="flex items-end gap-2">
+        <Select
+          value={axis.lever}
+          onValueChange={(v) => onChange({ ...axis, lever: v as ScenarioLever })}
+        >
+          <SelectTrigger className="w-44 h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {gridLeverDefs.map((d) => (
+              <SelectItem key={d.key} value={d.key} disabled={d.key === otherLever}>
+                {d.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {numberField("min", "下限")}
+        {numberField("max", "上限")}
+        {numberField("step", "刻み")}
+      </div>
+    </div>
+  );
+}
+
+interface GridSimulationPanelProps {
+  basePeriod: PeriodData;
+  periods: PeriodData[];
+  scenarios: Scenario[];
+  config: GridSimulationConfig;
+  onConfigChange: (config: GridSimulationConfig) => void;
+}
+
+export default function GridSimulationPanel({
+  basePeriod,
+  periods,
+  scenarios,
+  config,
+  onConfigChange,
+}: GridSimulationPanelProps) {
+  const [metric, setMetric] = useState<HeatmapMetric>("ordinaryProfit");
+  const scenarioIndex = Math.min(config.scenarioIndex, scenarios.length - 1);
+  const scenario = scenarios[scenarioIndex];
+
+  const grid = useMemo(
+    () =>
+      scenario
+        ? calculateGridSimulation(
+            resolveScenarioBasePeriod(periods, scenario, basePeriod),
+            scenario,
+            config.xAxis,
+            config.yAxis
+          )
+        : null,
+    [basePeriod, periods, scenario, config.xAxis, config.yAxis]
+  );
+
+  if (!scenario || !grid) return null;
+
+  const xDef = gridLeverDefs.find((d) => d.key === config.xAxis.lever)!;
+  const yDef = gridLeverDefs.find((d) => d.key === config.yAxis.lever)!;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">2次元シミュレーション（ヒートマップ）</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-6">
+          <div className="space-y-1.5">
+            <Label className="text-xs font-semibold">固定するシナリオ</Label>
+            <Select
+              value={String(scenarioIndex)}
+              onValueChange={(v) =>
+                onConfigChange({ ...config, scenarioIndex: parseInt(v, 10) })
+              }
+            >
+              <SelectTrigger className="w-44 h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {scenarios.map((s, i) => (
+                  <SelectItem key={s.id} value={String(i)}>
+                    {s.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <AxisEditor
+            title="横軸"
+            axis={config.xAxis}
+            otherLever={config.yAxis.lever}
+            onChange={(xAxis) => onConfigChange({ ...config, xAxis })}
+          />
+          <AxisEditor
+            title="縦軸"
+            axis={config.yAxis}
+            otherLever={config.xAxis.lever}
+            onChange={(yAxis) => onConfigChange({ ...config, yAxis })}
+          />
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button
+            variant={metric === "ordinaryProfit" ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => setMetric("ordinaryProfit")}
+          >
+            経常利益
+          </Button>
+          <Button
+            variant={metric === "laborShareRate" ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => setMetric("laborShareRate")}
+          >
+            労働分配率
+          </Button>
+          <span className="text-xs text-muted-foreground ml-2">
+            その他のパラメータは「{scenario.label}」の値で固定（単位：千円）
+          </span>
+        </div>
+
+        <ProfitHeatmap
+          grid={grid}
+          metric={metric}
+          xLabel={xDef.label}
+          yLabel={yDef.label}
+          xUnit={xDef.unit}
+          yUnit={yDef.unit}
+        />
+      </CardContent>
+    </Card>
+  );
+}
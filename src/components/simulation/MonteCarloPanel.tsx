@@ -0,0 +1,355 @@
+"use client";
+
+import React, { useState } from "react";
+import { Dices, Loader2 } from "lucide-react";
+import { formatNumber, resolveScenarioBasePeriod } from "@/lib/calculations";
+import {
+  createDefaultMonteCarloConfig,
+  validateDistribution,
+  runMonteCarloInWorker,
+  MONTE_CARLO_MAX_TRIALS,
+  MONTE_CARLO_MIN_TRIALS,
+} from "@/lib/monte-carlo";
+import {
+  LeverDistribution,
+  MonteCarloConfig,
+  MonteCarloResult,
+  PeriodData,
+  Scenario,
+  ScenarioLever,
+} from "@/lib/types";
+import ProfitHistogram from "@/components/charts/ProfitHistogram";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export interface MonteCarloRun {
+  scenarioLabel: string;
+  basePeriodLabel: string;
+  config: MonteCarloConfig;
+  result: MonteCarloResult;
+}
+
+const leverDefs: { key: ScenarioLever; label: string; unit: string }[] = [
+  { key: "priceChangeRate", label: "販売単価変化率", unit: "%" },
+  { key: "volumeChangeRate", label: "販売数量変化率", unit: "%" },
+  { key: "variableCostRateChange", label: "変動費率変化", unit: "%pt" },
+  { key: "laborCostChangeRate", label: "人件費変化率", unit: "%" },
+  { key: "fixedCostChangeRate", label: "その他固定費変化率", unit: "%" },
+];
+
+const distributionTypeOptions: { value: LeverDistribution["type"]; label: string }[] = [
+  { value: "fixed", label: "固定" },
+  { value: "normal", label: "正規分布" },
+  { value: "triangular", label: "三角分布" },
+  { value: "uniform", label: "一様分布" },
+];
+
+/** 分布の種類を切り替えたときの初期パラメータ（シナリオ値を中心に設定） */
+function defaultDistribution(
+  type: LeverDistribution["type"],
+  center: number
+): LeverDistribution {
+  switch (type) {
+    case "normal":
+      return { type, mean: center, stdDev: 5 };
+    case "triangular":
+      return { type, min: center - 10, mode: center, max: center + 10 };
+    case "uniform":
+      return { type, min: center - 10, max: center + 10 };
+    default:
+      return { type: "fixed" };
+  }
+}
+
+function DistributionEditor({
+  label,
+  unit,
+  scenarioValue,
+  dist,
+  onChange,
+}: {
+  label: string;
+  unit: string;
+  scenarioValue: number;
+  dist: LeverDistribution;
+  onChange: (dist: LeverDistribution) => void;
+}) {
+  const paramField = (key: string, fieldLabel: string, value: number) => (
+    <div className="space-y-1">
+      <Label className="text-[11px] text-muted-foreground">{fieldLabel}</Label>
+      <Input
+        type="number"
+        value={value}
+        onChange={(e) =>
+          onChange({ ...dist, [key]: parseFloat(e.target.value) || 0 } as LeverDistribution)
+        }
+        className="w-20 h-8 text-right text-xs tabular-nums"
+      />
+    </div>
+  );
+
+  return (
+    <div className="flex flex-wrap items-end gap-2">
+      <div className="space-y-1 w-40">
+        <Label className="text-xs font-semibold">{label}</Label>
+        <Select
+          value={dist.type}
+          onValueChange={(v) =>
+            onChange(defaultDistribution(v as LeverDistribution["type"], scenarioValue))
+          }
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {distributionTypeOptions.map((o) => (
+              <SelectItem key={o.value} value={o.value}>
+                {o.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {dist.type === "fixed" && (
+        <span className="text-xs text-muted-foreground pb-2">
+          シナリオの値 {formatNumber(scenarioValue, 1)}
+          {unit} で固定
+        </span>
+      )}
+      {dist.type === "normal" && (
+        <>
+          {paramField("mean", `平均（${unit}）`, dist.mean)}
+          {paramField("stdDev", `標準偏差（${unit}）`, dist.stdDev)}
+        </>
+      )}
+      {dist.type === "triangular" && (
+        <>
+          {paramField("min", `最小（${unit}）`, dist.min)}
+          {paramField("mode", `最頻（${unit}）`, dist.mode)}
+          {paramField("max", `最大（${unit}）`, dist.max)}
+        </>
+      )}
+      {dist.type === "uniform" && (
+        <>
+          {paramField("min", `最小（${unit}）`, dist.min)}
+          {paramField("max", `最大（${unit}）`, dist.max)}
+        </>
+      )}
+    </div>
+  );
+}
+
+interface MonteCarloPanelProps {
+  basePeriod: PeriodData;
+  periods: PeriodData[];
+  scenarios: Scenario[];
+  run: MonteCarloRun | null;
+  onRunChange: (run: MonteCarloRun | null) => void;
+}
+
+export default function MonteCarloPanel({
+  basePeriod,
+  periods,
+  scenarios,
+  run,
+  onRunChange,
+}: MonteCarloPanelProps) {
+  const [scenarioIndex, setScenarioIndex] = useState(0);
+  const index = Math.min(scenarioIndex, scenarios.length - 1);
+  const scenario = scenarios[index];
+  const [config, setConfig] = useState<MonteCarloConfig | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!scenario) return null;
+
+  const activeConfig = config ?? createDefaultMonteCarloConfig(scenario);
+  // 分布パラメータに不整合があれば実行できないようにする
+  const distributionErrors = leverDefs.flatMap((def) => {
+    const message = validateDistribution(activeConfig.distributions[def.key]);
+    return message ? [`${def.label}: ${message}`] : [];
+  });
+
+  const handleRun = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      const scenarioBase = resolveScenarioBasePeriod(periods, scenario, basePeriod);
+      const result = await runMonteCarloInWorker(scenarioBase, scenario, activeConfig);
+      onRunChange({
+        scenarioLabel: scenario.label,
+        basePeriodLabel: scenarioBase.label,
+        config: activeConfig,
+        result,
+      });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "モンテカルロの実行に失敗しました");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const result = run?.result;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">モンテカルロシミュレーション</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1.5">
+            <Label className="text-xs">対象シナリオ</Label>
+            <Select
+              value={String(index)}
+              onValueChange={(v) => {
+                setScenarioIndex(parseInt(v, 10));
+                setConfig(null);
+              }}
+            >
+              <SelectTrigger className="w-48 h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {scenarios.map((s, i) => (
+                  <SelectItem key={s.id} value={String(i)}>
+                    {s.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">試行回数</Label>
+            <Input
+              type="number"
+              value={activeConfig.trials}
+              onChange={(e) =>
+                setConfig({ ...activeConfig, trials: parseInt(e.target.value, 10) || 0 })
+              }
+              className="w-24 h-8 text-right text-xs tabular-nums"
+              min={MONTE_CARLO_MIN_TRIALS}
+              max={MONTE_CARLO_MAX_TRIALS}
+              step={1000}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">乱数シード</Label>
+            <Input
+              type="number"
+              value={activeConfig.seed}
+              onChange={(e) =>
+                setConfig({ ...activeConfig, seed: parseInt(e.target.value, 10) || 0 })
+              }
+              className="w-24 h-8 text-right text-xs tabular-nums"
+            />
+          </div>
+          <Button
+            size="sm"
+            onClick={handleRun}
+            disabled={running || distributionErrors.length > 0}
+          >
+            {running ? (
+              <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+            ) : (
+              <Dices className="w-4 h-4 mr-1" />
+            )}
+            実行
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          {leverDefs.map((def) => (
+            <DistributionEditor
+              key={def.key}
+              label={def.label}
+              unit={def.unit}
+              scenarioValue={scenario[def.key]}
+              dist={activeConfig.distributions[def.key]}
+              onChange={(dist) =>
+                setConfig({
+                  ...activeConfig,
+                  distributions: { ...activeConfig.distributions, [def.key]: dist },
+                })
+              }
+            />
+          ))}
+        </div>
+
+        {distributionErrors.length > 0 && (
+          <div className="text-sm text-red-600">
+            {distributionErrors.map((message) => (
+              <p key={message}>{message}</p>
+            ))}
+          </div>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          各パラメータを指定した分布からランダムに抽出して経常利益を繰り返し計算し、その分布を表示します。
+          同じ乱数シードであれば同じ結果が再現されます（単位：千円）。
+        </p>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {result && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {[
+                { label: "平均", value: result.mean },
+                { label: "P10（悲観）", value: result.p10 },
+                { label: "P50（中央値）", value: result.p50 },
+                { label: "P90（楽観）", value: result.p90 },
+              ].map((s) => (
+                <div key={s.label} className="rounded-md border p-3">
+                  <p className="text-xs text-muted-foreground">{s.label}</p>
+                  <p
+                    className={`text-lg font-semibold tabular-nums ${
+                      s.value < 0 ? "text-red-600" : ""
+                    }`}
+                  >
+                    {formatNumber(s.value, 0)}
+                  </p>
+                </div>
+              ))}
+              <div className="rounded-md border p-3">
+                <p className="text-xs text-muted-foreground">赤字確率</p>
+                <p
+                  className={`text-lg font-semibold tabular-nums ${
+                    result.lossProbability > 0 ? "text-red-600" : ""
+                  }`}
+                >
+                  {formatNumber(result.lossProbability, 1)}%
+                </p>
+              </div>
+            </div>
+
+            <ProfitHistogram
+              bins={result.histogram}
+              trials={result.trials}
+              percentiles={[
+                { label: "P10", value: result.p10 },
+                { label: "P50", value: result.p50 },
+                { label: "P90", value: result.p90 },
+              ]}
+            />
+
+            <p className="text-xs text-muted-foreground">
+              「{run?.scenarioLabel}」・試行 {result.trials.toLocaleString()} 回・シード {result.seed}
+              ／標準偏差 {formatNumber(result.stdDev, 0)}・最小 {formatNumber(result.min, 0)}・最大{" "}
+              {formatNumber(result.max, 0)}
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,264 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { useAppStore } from "@/lib/store";
+import {
+  CALCULATOR_SCENARIO_RESET,
+  analyzePassThrough,
+  formatNumber,
+} from "@/lib/calculations";
+import {
+  PassThroughInput,
+  PassThroughOutcome,
+  PassThroughTarget,
+  PeriodData,
+  Scenario,
+} from "@/lib/types";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const inputDefs: { key: keyof PassThroughInput; label: string; unit: string; step: number }[] = [
+  { key: "materialInflationRate", label: "材料費 単価上昇率", unit: "%", step: 1 },
+  { key: "outsourcingInflationRate", label: "外注費 単価上昇率", unit: "%", step: 1 },
+  { key: "merchandiseInflationRate", label: "商品仕入 単価上昇率", unit: "%", step: 1 },
+  { key: "otherVariableInflationRate", label: "その他変動費 単価上昇率", unit: "%", step: 1 },
+  { key: "laborCostChangeRate", label: "人件費変化率", unit: "%", step: 1 },
+  { key: "fixedCostChangeRate", label: "その他固定費変化率", unit: "%", step: 1 },
+  { key: "priceElasticity", label: "価格弾力性", unit: "", step: 0.1 },
+];
+
+const targetLabels: Record<PassThroughTarget, string> = {
+  marginalProfit: "限界利益額を維持",
+  marginalProfitRate: "限界利益率を維持",
+  ordinaryProfit: "経常利益を維持",
+};
+
+const DEFAULT_PASS_THROUGH_INPUT: PassThroughInput = {
+  materialInflationRate: 10,
+  outsourcingInflationRate: 0,
+  merchandiseInflationRate: 0,
+  otherVariableInflationRate: 0,
+  laborCostChangeRate: 0,
+  fixedCostChangeRate: 0,
+  priceElasticity: -0.5,
+};
+
+interface PassThroughPanelProps {
+  basePeriod: PeriodData;
+  scenarios: Scenario[];
+}
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+function OutcomeCells({
+  outcome,
+  showVolume,
+}: {
+  outcome: PassThroughOutcome | null;
+  showVolume: boolean;
+}) {
+  if (!outcome) {
+    return (
+      <td
+        colSpan={showVolume ? 4 : 3}
+        className="text-center py-1.5 px-2 text-xs text-red-600"
+      >
+        値上げだけでは到達できません
+      </td>
+    );
+  }
+  return (
+    <>
+      <td className="text-right py-1.5 px-2 tabular-nums font-semibold">
+        {formatNumber(outcome.priceChangeRate, 2)}%
+      </td>
+      {showVolume && (
+        <td className="text-right py-1.5 px-2 tabular-nums">
+          {formatNumber(outcome.volumeChangeRate, 2)}%
+        </td>
+      )}
+      <td className="text-right py-1.5 px-2 tabular-nums">
+        {formatNumber(outcome.marginalProfit, 0)}
+        <span className="text-xs text-muted-foreground ml-1">
+          （{formatNumber(outcome.marginalProfitRate, 1)}%）
+        </span>
+      </td>
+      <td
+        className={`text-right py-1.5 px-2 tabular-nums ${
+          outcome.ordinaryProfit < 0 ? "text-red-600" : ""
+        }`}
+      >
+        {formatNumber(outcome.ordinaryProfit, 0)}
+      </td>
+    </>
+  );
+}
+
+/**
+ * 価格転嫁シミュレーション
+ * 費目別の単価上昇に対し、目標（限界利益額・限界利益率・経常利益の維持）ごとに
+ * 必要な値上げ率を数量据え置きと価格弾力性ありで比較する
+ */
+export default function PassThroughPanel({
+  basePeriod,
+  scenarios,
+}: PassThroughPanelProps) {
+  const updateScenario = useAppStore((s) => s.updateScenario);
+  const [input, setInput] = useState<PassThroughInput>(DEFAULT_PASS_THROUGH_INPUT);
+  const [scenarioIndex, setScenarioIndex] = useState(0);
+  const targetIndex = Math.min(scenarioIndex, scenarios.length - 1);
+
+  const analysis = useMemo(
+    () => analyzePassThrough(basePeriod, input),
+    [basePeriod, input]
+  );
+
+  const applyToScenario = (outcome: PassThroughOutcome) => {
+    updateScenario(targetIndex, {
+      ...CALCULATOR_SCENARIO_RESET,
+      periodId: basePeriod.id,
+      priceChangeRate: round2(outcome.priceChangeRate),
+      volumeChangeRate: round2(outcome.volumeChangeRate),
+      variableCostRateChange: round2(outcome.scenarioVariableCostRateChange),
+      laborCostChangeRate: input.laborCostChangeRate,
+      fixedCostChangeRate: input.fixedCostChangeRate,
+      employeeCount: basePeriod.employeeCount,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">価格転嫁シミュレーション</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          {inputDefs.map((def) => (
+            <div key={def.key} className="space-y-1.5">
+              <Label className="text-xs">{def.label}</Label>
+              <div className="flex items-center gap-1">
+                <Input
+                  type="number"
+                  value={input[def.key]}
+                  onChange={(e) =>
+                    setInput({ ...input, [def.key]: parseFloat(e.target.value) || 0 })
+                  }
+                  className="w-20 h-8 text-right text-xs tabular-nums"
+                  step={def.step}
+                />
+                {def.unit && (
+                  <span className="text-xs text-muted-foreground">{def.unit}</span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          変動費 {formatNumber(analysis.baseTotalVariableCost, 0)} →{" "}
+          {formatNumber(analysis.inflatedVariableCost, 0)} 千円（
+          {formatNumber(analysis.costIncrease, 0)} 千円増）、固定費{" "}
+          {formatNumber(analysis.fixedCostIncrease, 0)} 千円増。価格を据え置くと経常利益は{" "}
+          {formatNumber(analysis.noPassThrough.ordinaryProfit, 0)} 千円になります。
+          価格弾力性は販売単価1%の変化に対する販売数量の変化率（%）で、
+          {formatNumber(input.priceElasticity, 1)} なら10%の値上げで数量が
+          {formatNumber(Math.abs(input.priceElasticity * 10), 1)}%
+          {input.priceElasticity <= 0 ? "減少" : "増加"}します。
+        </p>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm border-collapse min-w-[900px]">
+            <thead>
+              <tr className="border-b">
+                <th rowSpan={2} className="text-left py-2 px-3">目標</th>
+                <th colSpan={4} className="text-center py-1 px-2 border-l">
+                  数量据え置き
+                </th>
+                <th colSpan={5} className="text-center py-1 px-2 border-l">
+                  価格弾力性あり
+                </th>
+              </tr>
+              <tr className="border-b-2 border-gray-300 text-xs">
+                <th className="text-right py-1 px-2 border-l">値上げ率</th>
+                <th className="text-right py-1 px-2">限界利益</th>
+                <th className="text-right py-1 px-2">経常利益</th>
+                <th />
+                <th className="text-right py-1 px-2 border-l">値上げ率</th>
+                <th className="text-right py-1 px-2">数量変化</th>
+                <th className="text-right py-1 px-2">限界利益</th>
+                <th className="text-right py-1 px-2">経常利益</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {analysis.targets.map((t) => (
+                <tr key={t.target} className="border-b">
+                  <td className="py-1.5 px-3">{targetLabels[t.target]}</td>
+                  <OutcomeCells outcome={t.volumeNeutral} showVolume={false} />
+                  <td className="py-1.5 px-1">
+                    {t.volumeNeutral && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2 text-xs"
+                        onClick={() => applyToScenario(t.volumeNeutral!)}
+                      >
+                        反映
+                      </Button>
+                    )}
+                  </td>
+                  <OutcomeCells outcome={t.volumeElastic} showVolume />
+                  <td className="py-1.5 px-1">
+                    {t.volumeElastic && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2 text-xs"
+                        onClick={() => applyToScenario(t.volumeElastic!)}
+                      >
+                        反映
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1.5">
+            <Label className="text-xs">反映先シナリオ</Label>
+            <Select
+              value={String(targetIndex)}
+              onValueChange={(v) => setScenarioIndex(parseInt(v, 10))}
+            >
+              <SelectTrigger className="w-48 h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {scenarios.map((s, i) => (
+                  <SelectItem key={s.id} value={String(i)}>
+                    {s.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-[11px] text-muted-foreground pb-1">
+            「反映」で販売単価・販売数量の変化率と変動費率変化をシナリオへ設定します
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,291 @@
+"use client";
+
+import { useState, useCallback, useRef } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  useAppStore,
+  getScenarioTemplates,
+  saveScenarioTemplate,
+  deleteScenarioTemplate,
+  exportScenarioTemplatesJSON,
+  importScenarioTemplatesJSON,
+} from "@/lib/store";
+import { resolveScenarioBasePeriod } from "@/lib/calculations";
+import { PeriodData, ScenarioTemplateParams } from "@/lib/types";
+import { toast } from "sonner";
+import { BookMarked, Download, Upload, Trash2, Plus } from "lucide-react";
+
+interface ScenarioTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  basePeriod: PeriodData; // テンプレート適用先の基準期
+  periods: PeriodData[];
+}
+
+const signed = (v: number, unit: string) =>
+  `${v > 0 ? "+" : ""}${Math.round(v * 10) / 10}${unit}`;
+
+/** テンプレートのパラメータを「単価+5% / 人件費+3%」形式に要約 */
+function summarizeParams(params: ScenarioTemplateParams): string {
+  const parts: string[] = [];
+  if (params.priceChangeRate) parts.push(`単価${signed(params.priceChangeRate, "%")}`);
+  if (params.volumeChangeRate) parts.push(`数量${signed(params.volumeChangeRate, "%")}`);
+  if (params.variableCostRateChange)
+    parts.push(`変動費率${signed(params.variableCostRateChange, "pt")}`);
+  const overrides = Object.keys(params.variableCostRateOverrides ?? {}).length;
+  if (overrides > 0) parts.push(`費目別変動費率${overrides}件`);
+  if (params.laborCostChangeRate)
+    parts.push(`人件費${signed(params.laborCostChangeRate, "%")}`);
+  if (params.fixedCostChangeRate)
+    parts.push(`固定費${signed(params.fixedCostChangeRate, "%")}`);
+  if (params.depreciationChangeRate != null)
+    parts.push(`減価償却費${signed(params.depreciationChangeRate, "%")}`);
+  if (params.otherExpensesChangeRate != null)
+    parts.push(`その他経費${signed(params.otherExpensesChangeRate, "%")}`);
+  if (params.nonOperatingIncomeChange)
+    parts.push(`営業外${signed(params.nonOperatingIncomeChange, "千円")}`);
+  if (params.borrowingChange)
+    parts.push(`借入${signed(params.borrowingChange, "千円")}`);
+  if (params.employeeCountChangeRate)
+    parts.push(`従業員${signed(params.employeeCountChangeRate, "%")}`);
+  return parts.length > 0 ? parts.join(" / ") : "変更なし";
+}
+
+/**
+ * シナリオテンプレートの一覧・適用・保存・JSON入出力
+ * 開くたびに一覧を読み直すため、親側で open の間だけマウントする
+ */
+export default function ScenarioTemplateDialog({
+  open,
+  onOpenChange,
+  basePeriod,
+  periods,
+}: ScenarioTemplateDialogProps) {
+  const scenarios = useAppStore((s) => s.scenarios);
+  const applyScenarioTemplate = useAppStore((s) => s.applyScenarioTemplate);
+  const [templates, setTemplates] = useState(getScenarioTemplates);
+  const [sourceIndex, setSourceIndex] = useState(0);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refreshTemplates = useCallback(() => {
+    setTemplates(getScenarioTemplates());
+  }, []);
+
+  const source = scenarios[Math.min(sourceIndex, scenarios.length - 1)];
+
+  const handleApply = (templateId: string) => {
+    const template = templates.find((t) => t.id === templateId);
+    if (!template) return;
+    if (!applyScenarioTemplate(template, basePeriod.id)) {
+      toast.error("シナリオは最大5件です。不要なシナリオを削除してください");
+      return;
+    }
+    toast.success(`「${template.name}」をシナリオに追加しました`);
+  };
+
+  const handleSave = () => {
+    if (!source) return;
+    const sourceBase = resolveScenarioBasePeriod(periods, source, basePeriod);
+    const template = saveScenarioTemplate(
+      source,
+      sourceBase,
+      name.trim(),
+      description.trim()
+    );
+    setName("");
+    setDescription("");
+    refreshTemplates();
+    toast.success(`「${template.name}」をテンプレートに保存しました`);
+  };
+
+  const handleDelete = (id: string, templateName: string) => {
+    if (!confirm(`テンプレート「${templateName}」を削除しますか？`)) return;
+    deleteScenarioTemplate(id);
+    refreshTemplates();
+  };
+
+  // ── JSON書き出し・読込 ──
+  const handleExport = () => {
+    const blob = new Blob([exportScenarioTemplatesJSON()], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "シナリオテンプレート.json";
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (ev) => {
+      const count = importScenarioTemplatesJSON(ev.target?.result as string);
+      if (count === null) {
+        toast.error("テンプレートの読み込みに失敗しました。ファイル形式を確認してください");
+        return;
+      }
+      refreshTemplates();
+      toast.success(`${count}件のテンプレートを読み込みました`);
+    };
+    reader.readAsText(file);
+    e.target.value = "";
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BookMarked className="w-5 h-5" />
+            シナリオテンプレート
+          </DialogTitle>
+          <DialogDescription>
+            よく使うシナリオを保存し、他の企業にも適用できます。従業員数は基準期（
+            {basePeriod.label}）に対する増減率で適用されます。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-[40vh] overflow-y-auto">
+          {templates.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              保存済みのテンプレートはありません
+            </p>
+          ) : (
+            templates.map((t) => (
+              <div
+                key={t.id}
+                className="flex items-start gap-3 p-3 rounded-lg border border-gray-200"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-sm">{t.name}</p>
+                  {t.description && (
+                    <p className="text-xs text-muted-foreground mt-0.5">
+                      {t.description}
+                    </p>
+                  )}
+                  <p className="text-xs text-blue-700 mt-1">
+                    {summarizeParams(t.params)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 text-xs"
+                    disabled={scenarios.length >= 5}
+                    onClick={() => handleApply(t.id)}
+                  >
+                    <Plus className="w-3.5 h-3.5 mr-1" />
+                    適用
+                  </Button>
+                  <button
+                    onClick={() => handleDelete(t.id, t.name)}
+                    className="p-1.5 rounded hover:bg-red-100 text-gray-400 hover:text-red-600"
+                    title="削除"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <Separator />
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">現在のシナリオをテンプレートとして保存</p>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">保存するシナリオ</Label>
+              <Select
+                value={String(Math.min(sourceIndex, scenarios.length - 1))}
+                onValueChange={(v) => setSourceIndex(parseInt(v, 10))}
+              >
+                <SelectTrigger className="h-8 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {scenarios.map((s, i) => (
+                    <SelectItem key={s.id} value={String(i)}>
+                      {s.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">テンプレート名</Label>
+              <Input
+                value={name}
+                placeholder={source?.label}
+                onChange={(e) => setName(e.target.value)}
+                className="h-8 text-sm"
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">説明</Label>
+            <Textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              className="text-sm"
+              placeholder="前提条件や使いどころなど"
+            />
+          </div>
+          <Button size="sm" onClick={handleSave} disabled={!source}>
+            テンプレートに保存
+          </Button>
+        </div>
+
+        <Separator />
+
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={handleExport}>
+            <Download className="w-4 h-4 mr-1" />
+            JSONに書き出し
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="w-4 h-4 mr-1" />
+            JSONから読込
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,215 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import {
+  calculateSensitivity,
+  formatNumber,
+  resolveScenarioBasePeriod,
+} from "@/lib/calculations";
+import {
+  PeriodData,
+  Scenario,
+  ScenarioMetric,
+  SensitivityLever,
+  SensitivityRanges,
+} from "@/lib/types";
+import TornadoChart, {
+  TornadoChartDataPoint,
+} from "@/components/charts/TornadoChart";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const leverDefs: { key: SensitivityLever; label: string; unit: string; step: number }[] = [
+  { key: "priceChangeRate", label: "販売単価変化率", unit: "%", step: 1 },
+  { key: "volumeChangeRate", label: "販売数量変化率", unit: "%", step: 1 },
+  { key: "variableCostRateChange", label: "変動費率変化", unit: "%pt", step: 0.5 },
+  { key: "laborCostChangeRate", label: "人件費変化率", unit: "%", step: 1 },
+  { key: "fixedCostChangeRate", label: "その他固定費変化率", unit: "%", step: 1 },
+  { key: "employeeCount", label: "従業員数", unit: "人", step: 1 },
+];
+
+const metricDefs: { key: ScenarioMetric; label: string; unit: string; digits: number }[] = [
+  { key: "ordinaryProfit", label: "経常利益", unit: "千円", digits: 0 },
+  { key: "laborShareRate", label: "労働分配率", unit: "%", digits: 1 },
+  { key: "ordinaryProfitPerEmployee", label: "1人当たり経常利益", unit: "千円", digits: 0 },
+];
+
+interface SensitivityPanelProps {
+  basePeriod: PeriodData;
+  periods: PeriodData[];
+  scenarios: Scenario[];
+  ranges: SensitivityRanges;
+  onRangesChange: (ranges: SensitivityRanges) => void;
+  metric: ScenarioMetric;
+  onMetricChange: (metric: ScenarioMetric) => void;
+}
+
+export default function SensitivityPanel({
+  basePeriod,
+  periods,
+  scenarios,
+  ranges,
+  onRangesChange,
+  metric,
+  onMetricChange,
+}: SensitivityPanelProps) {
+  const [scenarioIndex, setScenarioIndex] = useState(0);
+  const scenario = scenarios[Math.min(scenarioIndex, scenarios.length - 1)];
+
+  const analysis = useMemo(
+    () =>
+      scenario
+        ? calculateSensitivity(
+            resolveScenarioBasePeriod(periods, scenario, basePeriod),
+            scenario,
+            ranges,
+            metric
+          )
+        : null,
+    [basePeriod, periods, scenario, ranges, metric]
+  );
+  const metricDef = metricDefs.find((m) => m.key === metric)!;
+  // 従業員数は1人当たり経常利益のときだけ分析対象になる
+  const visibleLeverDefs = leverDefs.filter(
+    (def) => def.key !== "employeeCount" || metric === "ordinaryProfitPerEmployee"
+  );
+
+  const chartData: TornadoChartDataPoint[] = useMemo(() => {
+    if (!analysis) return [];
+    return analysis.items.map((item) => {
+      const def = leverDefs.find((d) => d.key === item.lever)!;
+      return {
+        label: `${def.label} ±${ranges[item.lever]}${def.unit}`,
+        lowDelta: item.lowResult - analysis.baseResult,
+        highDelta: item.highResult - analysis.baseResult,
+      };
+    });
+  }, [analysis, ranges]);
+
+  if (!scenario || !analysis) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">感度分析（トルネードチャート）</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1.5">
+            <Label className="text-xs">対象シナリオ</Label>
+            <Select
+              value={String(Math.min(scenarioIndex, scenarios.length - 1))}
+              onValueChange={(v) => setScenarioIndex(parseInt(v, 10))}
+            >
+              <SelectTrigger className="w-48 h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {scenarios.map((s, i) => (
+                  <SelectItem key={s.id} value={String(i)}>
+                    {s.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">指標</Label>
+            <Select value={metric} onValueChange={(v) => onMetricChange(v as ScenarioMetric)}>
+              <SelectTrigger className="w-40 h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {metricDefs.map((m) => (
+                  <SelectItem key={m.key} value={m.key}>
+                    {m.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {visibleLeverDefs.map((def) => (
+            <div key={def.key} className="space-y-1.5">
+              <Label className="text-xs">{def.label} ±</Label>
+              <div className="flex items-center gap-1">
+                <Input
+                  type="number"
+                  value={ranges[def.key]}
+                  onChange={(e) =>
+                    onRangesChange({
+                      ...ranges,
+                      [def.key]: Math.abs(parseFloat(e.target.value) || 0),
+                    })
+                  }
+                  className="w-16 h-8 text-right text-xs tabular-nums"
+                  step={def.step}
+                  min={0}
+                />
+                <span className="text-xs text-muted-foreground">{def.unit}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          「{scenario.label}」の{metricDef.label}{" "}
+          {formatNumber(analysis.baseResult, metricDef.digits)} {metricDef.unit}を基準に、
+          各パラメータを±の幅で動かしたときの{metricDef.label}の変化を表示します（影響の大きい順）。
+        </p>
+
+        <TornadoChart
+          data={chartData}
+          unit={metricDef.unit === "%" ? "%pt" : metricDef.unit}
+        />
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm border-collapse min-w-[600px]">
+            <thead>
+              <tr className="border-b-2 border-gray-300">
+                <th className="text-left py-2 px-3">順位</th>
+                <th className="text-left py-2 px-3">パラメータ</th>
+                <th className="text-right py-2 px-2">下振れ時 {metricDef.label}</th>
+                <th className="text-right py-2 px-2">上振れ時 {metricDef.label}</th>
+                <th className="text-right py-2 px-2">影響幅</th>
+              </tr>
+            </thead>
+            <tbody>
+              {analysis.items.map((item, i) => {
+                const def = leverDefs.find((d) => d.key === item.lever)!;
+                return (
+                  <tr key={item.lever} className="border-b">
+                    <td className="py-1.5 px-3">{i + 1}</td>
+                    <td className="py-1.5 px-3">
+                      {def.label}
+                      <span className="text-xs text-muted-foreground ml-1">
+                        （{formatNumber(item.lowValue, 1)}〜{formatNumber(item.highValue, 1)}
+                        {def.unit}）
+                      </span>
+                    </td>
+                    <td className="text-right py-1.5 px-2 tabular-nums">
+                      {formatNumber(item.lowResult, metricDef.digits)}
+                    </td>
+                    <td className="text-right py-1.5 px-2 tabular-nums">
+                      {formatNumber(item.highResult, metricDef.digits)}
+                    </td>
+                    <td className="text-right py-1.5 px-2 tabular-nums font-semibold">
+                      {formatNumber(item.impact, metricDef.digits)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
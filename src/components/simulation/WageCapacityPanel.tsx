@@ -0,0 +1,247 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { useAppStore } from "@/lib/store";
+import {
+  CALCULATOR_SCENARIO_RESET,
+  calculateMetrics,
+  calculateWageCapacity,
+  formatNumber,
+} from "@/lib/calculations";
+import { PeriodData, Scenario, WageCapacityInput } from "@/lib/types";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const inputDefs: { key: keyof WageCapacityInput; label: string; unit: string; step: number }[] = [
+  { key: "targetLaborShareRate", label: "目標労働分配率", unit: "%", step: 1 },
+  { key: "targetOrdinaryProfit", label: "目標経常利益", unit: "千円", step: 1000 },
+  { key: "requestedRaiseRate", label: "希望賃上げ率", unit: "%", step: 0.5 },
+];
+
+interface WageCapacityPanelProps {
+  basePeriod: PeriodData;
+  scenarios: Scenario[];
+}
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+// 必要売上高は目標を下回らないよう切り上げる
+const ceil2 = (v: number) => Math.ceil(v * 100) / 100;
+
+/**
+ * 賃上げ原資の試算
+ * 目標労働分配率・目標経常利益から人件費の上限と許容賃上げ額を求め、
+ * 希望賃上げに必要な売上高成長率を逆算してシナリオへ反映する
+ */
+export default function WageCapacityPanel({
+  basePeriod,
+  scenarios,
+}: WageCapacityPanelProps) {
+  const updateScenario = useAppStore((s) => s.updateScenario);
+  const [input, setInput] = useState<WageCapacityInput>(() => {
+    const m = calculateMetrics(basePeriod);
+    return {
+      targetLaborShareRate: Math.round(m.laborShareRate),
+      targetOrdinaryProfit: Math.max(0, Math.round(m.ordinaryProfit)),
+      requestedRaiseRate: 3,
+    };
+  });
+  const [scenarioIndex, setScenarioIndex] = useState(0);
+  const targetIndex = Math.min(scenarioIndex, scenarios.length - 1);
+
+  const result = useMemo(
+    () => calculateWageCapacity(basePeriod, input),
+    [basePeriod, input]
+  );
+
+  const applyToScenario = (changes: Partial<Scenario>) => {
+    updateScenario(targetIndex, {
+      ...CALCULATOR_SCENARIO_RESET,
+      periodId: basePeriod.id,
+      variableCostRateChange: 0,
+      fixedCostChangeRate: 0,
+      employeeCount: basePeriod.employeeCount,
+      ...changes,
+    });
+  };
+
+  const canApplyAllowable = result.laborCostHeadroom > 0;
+  const canApplyRequested = result.requiredSalesGrowthRate !== null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">賃上げ原資の試算</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          {inputDefs.map((def) => (
+            <div key={def.key} className="space-y-1.5">
+              <Label className="text-xs">{def.label}</Label>
+              <div className="flex items-center gap-1">
+                <Input
+                  type="number"
+                  value={input[def.key]}
+                  onChange={(e) =>
+                    setInput({ ...input, [def.key]: parseFloat(e.target.value) || 0 })
+                  }
+                  className="w-28 h-8 text-right text-xs tabular-nums"
+                  step={def.step}
+                />
+                <span className="text-xs text-muted-foreground">{def.unit}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          基準期「{basePeriod.label}」の限界利益・その他固定費・営業外損益・従業員数を据え置いた場合の試算です。
+          人件費の上限は、目標労働分配率と目標経常利益の両方を満たす小さい方の値です。
+        </p>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm border-collapse min-w-[600px]">
+            <tbody>
+              <tr className="border-b">
+                <td className="py-1.5 px-3">現在の人件費</td>
+                <td className="text-right py-1.5 px-3 tabular-nums">
+                  {formatNumber(result.currentLaborCost, 0)} 千円
+                </td>
+              </tr>
+              <tr className="border-b">
+                <td className="py-1.5 px-3">
+                  人件費上限（労働分配率 {formatNumber(input.targetLaborShareRate, 1)}%）
+                </td>
+                <td className="text-right py-1.5 px-3 tabular-nums">
+                  {formatNumber(result.maxLaborCostByShare, 0)} 千円
+                </td>
+              </tr>
+              <tr className="border-b">
+                <td className="py-1.5 px-3">
+                  人件費上限（経常利益 {formatNumber(input.targetOrdinaryProfit, 0)} 千円確保）
+                </td>
+                <td className="text-right py-1.5 px-3 tabular-nums">
+                  {formatNumber(result.maxLaborCostByProfit, 0)} 千円
+                </td>
+              </tr>
+              <tr className="border-b bg-profit font-semibold">
+                <td className="py-1.5 px-3">
+                  持続可能な人件費上限
+                  <span className="text-xs text-muted-foreground font-normal ml-1">
+                    （{result.bindingConstraint === "laborShare" ? "労働分配率" : "経常利益"}
+                    の制約で決定）
+                  </span>
+                </td>
+                <td className="text-right py-1.5 px-3 tabular-nums">
+                  {formatNumber(result.maxLaborCost, 0)} 千円
+                </td>
+              </tr>
+              <tr className="border-b">
+                <td className="py-1.5 px-3">賃上げ原資</td>
+                <td
+                  className={`text-right py-1.5 px-3 tabular-nums ${
+                    result.laborCostHeadroom < 0 ? "text-red-600" : ""
+                  }`}
+                >
+                  {formatNumber(result.laborCostHeadroom, 0)} 千円
+                </td>
+              </tr>
+              <tr className="border-b">
+                <td className="py-1.5 px-3">1人当たり許容賃上げ額（年額）</td>
+                <td
+                  className={`text-right py-1.5 px-3 tabular-nums ${
+                    result.allowableRaisePerEmployee < 0 ? "text-red-600" : ""
+                  }`}
+                >
+                  {formatNumber(result.allowableRaisePerEmployee, 1)} 千円
+                  <span className="text-xs text-muted-foreground ml-1">
+                    （{formatNumber(result.allowableRaiseRate, 1)}%）
+                  </span>
+                </td>
+              </tr>
+              <tr className="border-b">
+                <td className="py-1.5 px-3">
+                  希望賃上げ {formatNumber(input.requestedRaiseRate, 1)}% 後の人件費
+                </td>
+                <td className="text-right py-1.5 px-3 tabular-nums">
+                  {formatNumber(result.requestedLaborCost, 0)} 千円
+                </td>
+              </tr>
+              <tr className="border-b">
+                <td className="py-1.5 px-3">必要な売上高成長率（限界利益率一定）</td>
+                <td className="text-right py-1.5 px-3 tabular-nums font-semibold">
+                  {result.requiredSalesGrowthRate !== null
+                    ? `${formatNumber(result.requiredSalesGrowthRate, 1)}%`
+                    : "算出不可"}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+
+        {result.laborCostHeadroom < 0 && (
+          <p className="text-xs text-red-600">
+            現在の人件費が既に上限を超えています。賃上げには売上高の増加または目標の見直しが必要です。
+          </p>
+        )}
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1.5">
+            <Label className="text-xs">反映先シナリオ</Label>
+            <Select
+              value={String(targetIndex)}
+              onValueChange={(v) => setScenarioIndex(parseInt(v, 10))}
+            >
+              <SelectTrigger className="w-48 h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {scenarios.map((s, i) => (
+                  <SelectItem key={s.id} value={String(i)}>
+                    {s.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!canApplyAllowable}
+            onClick={() =>
+              applyToScenario({
+                priceChangeRate: 0,
+                volumeChangeRate: 0,
+                laborCostChangeRate: round2(result.allowableRaiseRate),
+              })
+            }
+          >
+            許容賃上げをシナリオに反映
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!canApplyRequested}
+            onClick={() =>
+              applyToScenario({
+                priceChangeRate: 0,
+                volumeChangeRate: ceil2(result.requiredSalesGrowthRate!),
+                laborCostChangeRate: input.requestedRaiseRate,
+              })
+            }
+          >
+            希望賃上げ＋必要売上をシナリオに反映
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,17 +1,63 @@
 import { describe, it, expect } from "vitest";
 import {
   calculateMetrics,
+  calculateInventoryAdjustment,
+  applyInventoryAdjustment,
   calculateCompositionRatios,
   calculateYoYChange,
   calculateWaterfallFactors,
+  calculateProductivityBridge,
   validateOperatingProfit,
   validateOrdinaryProfit,
+  calculateBalanceSheetMetrics,
+  calculatePeriodInterestBearingDebt,
+  aggregateMonthlyData,
+  getCalendarMonth,
+  calculateMonthlyTrend,
+  getLatestTtmPeriod,
   calculateScenario,
+  calculateScenarioWaterfallFactors,
+  scenarioResultToPeriod,
+  resolveScenarioBasePeriod,
+  calculateBreakEven,
+  calculateScenarioBreakEven,
+  goalSeekScenario,
+  calculateSensitivity,
+  DEFAULT_SENSITIVITY_RANGES,
+  generateGridAxisValues,
+  calculateGridSimulation,
+  GRID_MAX_STEPS,
+  calculateManagementPlan,
+  createBudgetFromPeriod,
+  calculateBudgetVariance,
+  calculateDepreciationSchedule,
+  calculateCapexDepreciationChange,
+  calculateCapexSchedule,
+  calculateLoanSchedule,
+  calculateLoanPortfolioSchedule,
+  calculateDebtRepaymentCapacity,
+  calculateScenarioDebtRepaymentCapacity,
+  calculateWageCapacity,
+  analyzePassThrough,
+  CALCULATOR_SCENARIO_RESET,
   formatNumber,
   toOku,
   calculateIsoline,
+  DEFAULT_EFFECTIVE_TAX_RATE,
 } from "../calculations";
-import { PeriodData, Scenario } from "../types";
+import {
+  BalanceSheetData,
+  CapexAsset,
+  InventoryData,
+  Loan,
+  MonthlyData,
+  MonthlySeries,
+  PassThroughInput,
+  PeriodData,
+  PlanYear,
+  Scenario,
+  ScenarioMetric,
+} from "../types";
 
 // ── ヘルパー ──
 
@@ -39,7 +85,8 @@ function makeScenario(overrides?: Partial<Scenario>): Scenario {
     id: "scenario-1",
     periodId: "test-id",
     label: "テストシナリオ",
-    salesChangeRate: 0,
+    priceChangeRate: 0,
+    volumeChangeRate: 0,
     variableCostRateChange: 0,
     laborCostChangeRate: 0,
     fixedCostChangeRate: 0,
@@ -48,6 +95,17 @@ function makeScenario(overrides?: Partial<Scenario>): Scenario {
   };
 }
 
+/** 全体レバーより優先されるレバーをすべて指定したシナリオ */
+const leveredScenario = makeScenario({
+  variableCostRateOverrides: { materialCost: -3 },
+  depreciationChangeRate: 20,
+  otherExpensesChangeRate: -10,
+  nonOperatingIncomeChange: 8000,
+  borrowingChange: 100000,
+  borrowingInterestRate: 2,
+  capexDepreciationChange: 6000,
+});
+
 // ═══════════════════════════════════════════════
 // calculateMetrics
 // ═══════════════════════════════════════════════
@@ -111,6 +169,118 @@ describe("calculateMetrics", () => {
   });
 });
 
+// ═══════════════════════════════════════════════
+// calculateInventoryAdjustment / applyInventoryAdjustment
+// ═══════════════════════════════════════════════
+describe("calculateInventoryAdjustment / applyInventoryAdjustment", () => {
+  const inventory: InventoryData = {
+    beginningMaterials: 20000,
+    endingMaterials: 30000,
+    beginningWorkInProgress: 10000,
+    endingWorkInProgress: 15000,
+    beginningFinishedGoods: 25000,
+    endingFinishedGoods: 20000,
+    beginningMerchandise: 0,
+    endingMerchandise: 0,
+  };
+
+  it("棚卸高がなければ調整額は0", () => {
+    expect(calculateInventoryAdjustment(makePeriod()).total).toBe(0);
+    expect(calculateMetrics(makePeriod()).inventoryAdjustment).toBe(0);
+  });
+
+  it("期首−期末を区分別に集計し、変動費合計に加算する", () => {
+    const period = makePeriod({ inventory });
+    const adj = calculateInventoryAdjustment(period);
+    expect(adj.materials).toBe(-10000);
+    expect(adj.workInProgress).toBe(-5000);
+    expect(adj.finishedGoods).toBe(5000);
+    expect(adj.total).toBe(-10000);
+
+    // 在庫が 10,000 増えた分だけ変動費が減り、経常利益が増える
+    const m = calculateMetrics(period);
+    expect(m.inventoryAdjustment).toBe(-10000);
+    expect(m.totalVariableCost).toBe(210000);
+    expect(m.ordinaryProfit).toBe(55000);
+  });
+
+  it("調整額を材料費に振り替えても変動費合計は変わらない", () => {
+    const period = makePeriod({ inventory });
+    const adjusted = applyInventoryAdjustment(period);
+    expect(adjusted.materialCost).toBe(140000);
+    expect(adjusted.inventory).toBeUndefined();
+    expect(calculateMetrics(adjusted).totalVariableCost).toBe(
+      calculateMetrics(period).totalVariableCost
+    );
+  });
+
+  it("変化なしのシナリオは棚卸調整後の実績と一致する", () => {
+    const period = makePeriod({ inventory });
+    const r = calculateScenario(period, makeScenario());
+    expect(r.totalVariableCost).toBeCloseTo(210000);
+    expect(r.ordinaryProfit).toBeCloseTo(55000);
+    // シナリオを期データに変換しても調整額を二重に計上しない
+    const asPeriod = scenarioResultToPeriod(period, r);
+    expect(calculateMetrics(asPeriod).ordinaryProfit).toBeCloseTo(55000);
+  });
+});
+
+// ═══════════════════════════════════════════════
+// 特別損益・法人税等
+// ═══════════════════════════════════════════════
+describe("特別損益・法人税等", () => {
+  it("未入力なら税引前当期純利益・当期純利益は経常利益と一致する", () => {
+    const m = calculateMetrics(makePeriod());
+    expect(m.incomeBeforeTax).toBe(45000);
+    expect(m.corporateTax).toBe(0);
+    expect(m.netIncome).toBe(45000);
+    expect(m.effectiveTaxRate).toBe(0);
+  });
+
+  it("特別損益と法人税等から当期純利益と実効税率を算出する", () => {
+    const m = calculateMetrics(
+      makePeriod({ extraordinaryIncome: 10000, extraordinaryLoss: 5000, corporateTax: 15000 })
+    );
+    expect(m.extraordinaryItems).toBe(5000);
+    expect(m.incomeBeforeTax).toBe(50000);
+    expect(m.netIncome).toBe(35000);
+    expect(m.effectiveTaxRate).toBeCloseTo(30);
+  });
+
+  it("シナリオは基準期の実績税率を使い、特別損益は見込まない", () => {
+    const base = makePeriod({ extraordinaryLoss: 5000, corporateTax: 10000 });
+    const r = calculateScenario(base, makeScenario());
+    expect(r.effectiveTaxRate).toBeCloseTo(25);
+    expect(r.incomeBeforeTax).toBeCloseTo(45000);
+    expect(r.corporateTax).toBeCloseTo(11250);
+    expect(r.netIncome).toBeCloseTo(33750);
+  });
+
+  it("実績がなければ既定税率、指定があれば指定税率を使う", () => {
+    expect(calculateScenario(makePeriod(), makeScenario()).effectiveTaxRate).toBe(
+      DEFAULT_EFFECTIVE_TAX_RATE
+    );
+    const r = calculateScenario(makePeriod(), makeScenario({ effectiveTaxRate: 40 }));
+    expect(r.corporateTax).toBeCloseTo(18000);
+    expect(r.netIncome).toBeCloseTo(27000);
+  });
+
+  it("税引前が赤字なら法人税等は0", () => {
+    const r = calculateScenario(makePeriod(), makeScenario({ priceChangeRate: -20 }));
+    expect(r.incomeBeforeTax).toBeLessThan(0);
+    expect(r.corporateTax).toBe(0);
+    expect(r.netIncome).toBeCloseTo(r.incomeBeforeTax);
+  });
+
+  it("シナリオを期データに変換すると法人税等を引き継ぐ", () => {
+    const base = makePeriod();
+    const r = calculateScenario(base, makeScenario());
+    const m = calculateMetrics(scenarioResultToPeriod(base, r));
+    expect(m.corporateTax).toBeCloseTo(r.corporateTax);
+    expect(m.netIncome).toBeCloseTo(r.netIncome);
+  });
+});
+
 // ═══════════════════════════════════════════════
 // calculateCompositionRatios
 // ═══════════════════════════════════════════════
@@ -139,7 +309,7 @@ describe("calculateCompositionRatios", () => {
     }
   });
 
-  it("全13フィールドが返される", () => {
+  it("全14フィールドが返される", () => {
     const period = makePeriod();
     const metrics = calculateMetrics(period);
     const ratios = calculateCompositionRatios(period, metrics);
@@ -149,6 +319,7 @@ describe("calculateCompositionRatios", () => {
       "outsourcingCostRate",
       "merchandisePurchaseRate",
       "otherVariableCostRate",
+      "inventoryAdjustmentRate",
       "totalVariableCostRate",
       "marginalProfitRate",
       "laborCostRate",
@@ -239,6 +410,135 @@ describe("calculateWaterfallFactors", () => {
 
     expect(factorSum).toBeCloseTo(actualChange, 0);
   });
+
+  it("詳細内訳の合計は②加工高比率貢献・③固定費貢献に一致する", () => {
+    const prev = makePeriod({
+      sales: 400000,
+      materialCost: 140000,
+      outsourcingCost: 30000,
+      merchandisePurchase: 10000,
+      laborCost: 100000,
+      depreciation: 35000,
+      otherExpenses: 70000,
+    });
+    const curr = makePeriod();
+    const { marginalRateContribution, fixedCostContribution, detail } =
+      calculateWaterfallFactors(curr, prev);
+
+    expect(
+      detail.materialCostRateContribution +
+        detail.outsourcingCostRateContribution +
+        detail.merchandisePurchaseRateContribution +
+        detail.otherVariableCostRateContribution
+    ).toBeCloseTo(marginalRateContribution, 6);
+    expect(
+      detail.laborCostContribution +
+        detail.depreciationContribution +
+        detail.otherExpensesContribution
+    ).toBeCloseTo(fixedCostContribution, 6);
+  });
+
+  it("対称分解（shapley）でも4要因の合計 = 経常利益の変動額", () => {
+    const prev = makePeriod({
+      sales: 400000,
+      materialCost: 120000,
+      outsourcingCost: 40000,
+      laborCost: 100000,
+      otherExpenses: 70000,
+      nonOperatingIncome: -3000,
+    });
+    const curr = makePeriod();
+    const factors = calculateWaterfallFactors(curr, prev, "shapley");
+
+    const actualChange =
+      calculateMetrics(curr).ordinaryProfit - calculateMetrics(prev).ordinaryProfit;
+    const factorSum =
+      factors.salesContribution +
+      factors.marginalRateContribution +
+      factors.fixedCostContribution +
+      factors.nonOperatingContribution;
+
+    expect(factorSum).toBeCloseTo(actualChange, 6);
+    const d = factors.detail;
+    expect(
+      d.materialCostRateContribution +
+        d.outsourcingCostRateContribution +
+        d.merchandisePurchaseRateContribution +
+        d.otherVariableCostRateContribution
+    ).toBeCloseTo(factors.marginalRateContribution, 6);
+  });
+
+  it("対称分解: ①②は両順序の平均で、期を入れ替えると符号だけ反転する", () => {
+    // 前期: 売上400k・限界利益率50%、当期: 売上500k・限界利益率56%
+    const prev = makePeriod({ sales: 400000, materialCost: 130000 });
+    const curr = makePeriod();
+    const f = calculateWaterfallFactors(curr, prev, "shapley");
+    const seq = calculateWaterfallFactors(curr, prev);
+
+    // ① = 100k × (0.50+0.56)/2 = 53,000 / ② = 450k × 0.06 = 27,000
+    expect(f.salesContribution).toBeCloseTo(53000);
+    expect(f.marginalRateContribution).toBeCloseTo(27000);
+    // 順次法: ① = 100k × 0.50 = 50,000 / ② = 500k × 0.06 = 30,000（合計は同じ）
+    expect(seq.salesContribution).toBeCloseTo(50000);
+    expect(seq.marginalRateContribution).toBeCloseTo(30000);
+
+    const reversed = calculateWaterfallFactors(prev, curr, "shapley");
+    expect(reversed.salesContribution).toBeCloseTo(-f.salesContribution);
+    expect(reversed.marginalRateContribution).toBeCloseTo(-f.marginalRateContribution);
+  });
+
+  it("詳細内訳: 項目別の率貢献・金額貢献", () => {
+    const prev = makePeriod({ sales: 400000, materialCost: 140000, laborCost: 100000 });
+    const curr = makePeriod();
+    const { detail } = calculateWaterfallFactors(curr, prev);
+
+    // 材料費率 35% → 30%: −500k ×（0.30 − 0.35）= +25,000
+    expect(detail.materialCostRateContribution).toBeCloseTo(25000);
+    // 外注費率 12.5% → 10%: −500k ×（0.10 − 0.125）= +12,500
+    expect(detail.outsourcingCostRateContribution).toBeCloseTo(12500);
+    expect(detail.merchandisePurchaseRateContribution).toBeCloseTo(0);
+    // 人件費 +20,000 → 貢献 −20,000
+    expect(detail.laborCostContribution).toBe(-20000);
+    expect(detail.depreciationContribution).toBeCloseTo(0);
+  });
+});
+
+// ═══════════════════════════════════════════════
+// calculateProductivityBridge
+// ═══════════════════════════════════════════════
+describe("calculateProductivityBridge", () => {
+  it("人員効果 + 生産性効果 = 総額の変動（限界利益・経常利益）", () => {
+    const prev = makePeriod({ sales: 400000, materialCost: 120000, employeeCount: 40 });
+    const curr = makePeriod();
+    const { marginalProfit, ordinaryProfit } = calculateProductivityBridge(curr, prev);
+
+    for (const b of [marginalProfit, ordinaryProfit]) {
+      expect(b.headcountEffect + b.productivityEffect).toBeCloseTo(
+        b.currentValue - b.previousValue,
+        6
+      );
+    }
+  });
+
+  it("人員効果 = Δ従業員数 × 前期1人当たり加工高", () => {
+    // 前期: 限界利益 210k / 40人 = 5,250、当期: 280k / 50人 = 5,600
+    const prev = makePeriod({ sales: 400000, materialCost: 120000, employeeCount: 40 });
+    const curr = makePeriod();
+    const { marginalProfit: b } = calculateProductivityBridge(curr, prev);
+
+    expect(b.previousPerEmployee).toBeCloseTo(5250);
+    expect(b.currentPerEmployee).toBeCloseTo(5600);
+    expect(b.headcountEffect).toBeCloseTo(52500); // 10人 × 5,250
+    expect(b.productivityEffect).toBeCloseTo(17500); // 50人 × 350
+  });
+
+  it("従業員数が同じなら人員効果は0", () => {
+    const prev = makePeriod({ sales: 400000 });
+    const curr = makePeriod();
+    const { marginalProfit, ordinaryProfit } = calculateProductivityBridge(curr, prev);
+    expect(marginalProfit.headcountEffect).toBeCloseTo(0);
+    expect(ordinaryProfit.headcountEffect).toBeCloseTo(0);
+  });
 });
 
 // ═══════════════════════════════════════════════
@@ -293,6 +593,164 @@ describe("validateOrdinaryProfit", () => {
   });
 });
 
+// ═══════════════════════════════════════════════
+// calculateBalanceSheetMetrics
+// ═══════════════════════════════════════════════
+describe("calculateBalanceSheetMetrics", () => {
+  const bs: BalanceSheetData = {
+    cashAndDeposits: 60000,
+    receivables: 90000,
+    inventories: 50000,
+    otherCurrentAssets: 10000,
+    tangibleFixedAssets: 250000,
+    intangibleFixedAssets: 5000,
+    investmentsAndOtherAssets: 35000,
+    payables: 60000,
+    shortTermBorrowings: 40000,
+    otherCurrentLiabilities: 20000,
+    longTermBorrowings: 160000,
+    otherFixedLiabilities: 20000,
+    netAssets: 200000,
+  };
+
+  it("合計と貸借一致", () => {
+    const m = calculateBalanceSheetMetrics(makePeriod(), bs);
+    expect(m.totalCurrentAssets).toBe(210000);
+    expect(m.totalFixedAssets).toBe(290000);
+    expect(m.totalAssets).toBe(500000);
+    expect(m.totalCurrentLiabilities).toBe(120000);
+    expect(m.totalFixedLiabilities).toBe(180000);
+    expect(m.balanceDifference).toBe(0);
+    expect(m.interestBearingDebt).toBe(200000);
+  });
+
+  it("財務指標", () => {
+    const m = calculateBalanceSheetMetrics(makePeriod(), bs);
+    expect(m.equityRatio).toBeCloseTo(40);
+    expect(m.currentRatio).toBeCloseTo(175);
+    // 経常利益 45,000 ÷ 総資本 500,000
+    expect(m.roa).toBeCloseTo(9);
+    expect(m.totalAssetTurnover).toBeCloseTo(1);
+    // 200,000 ÷ (500,000 ÷ 12)
+    expect(m.debtToMonthlySales).toBeCloseTo(4.8);
+  });
+
+  it("総資本・流動負債・売上高が0なら指標は0", () => {
+    const empty = Object.fromEntries(
+      Object.keys(bs).map((k) => [k, 0])
+    ) as unknown as BalanceSheetData;
+    const m = calculateBalanceSheetMetrics(makePeriod({ sales: 0 }), empty);
+    expect(m.equityRatio).toBe(0);
+    expect(m.currentRatio).toBe(0);
+    expect(m.roa).toBe(0);
+    expect(m.debtToMonthlySales).toBe(0);
+  });
+});
+
+// ═══════════════════════════════════════════════
+// 月次推移（aggregateMonthlyData / calculateMonthlyTrend / getLatestTtmPeriod）
+// ═══════════════════════════════════════════════
+describe("月次推移", () => {
+  const makeMonth = (sales: number, employeeCount = 50): MonthlyData => ({
+    sales,
+    materialCost: sales * 0.4,
+    outsourcingCost: 0,
+    merchandisePurchase: 0,
+    otherVariableCost: 0,
+    laborCost: 10000,
+    depreciation: 2000,
+    otherExpenses: 3000,
+    nonOperatingIncome: -500,
+    employeeCount,
+  });
+  const makeSeries = (count: number, sales: number): MonthlySeries => ({
+    startMonth: 4,
+    months: Array.from({ length: count }, () => makeMonth(sales)),
+  });
+
+  it("金額は合計し、従業員数は月末人数の平均を四捨五入する", () => {
+    const total = aggregateMonthlyData([makeMonth(40000, 49), makeMonth(50000, 50), makeMonth(60000, 52)]);
+    expect(total.sales).toBe(150000);
+    expect(total.materialCost).toBeCloseTo(60000);
+    expect(total.laborCost).toBe(30000);
+    expect(total.nonOperatingIncome).toBe(-1500);
+    expect(total.employeeCount).toBe(50);
+  });
+
+  it("期首月から暦月を求める", () => {
+    expect(getCalendarMonth(4, 1)).toBe(4);
+    expect(getCalendarMonth(4, 10)).toBe(1);
+    expect(getCalendarMonth(1, 12)).toBe(12);
+  });
+
+  it("YTD は期首からの累計、TTM は前期の月次とつなげた直近12ヶ月", () => {
+    const periods = [
+      makePeriod({ id: "prev", label: "前期", monthly: makeSeries(12, 40000) }),
+      makePeriod({ id: "curr", label: "当期", monthly: makeSeries(3, 50000) }),
+    ];
+    const points = calculateMonthlyTrend(periods);
+    expect(points).toHaveLength(15);
+    expect(points[10].ttm).toBeNull();
+    expect(points[11].ttm?.sales).toBe(480000);
+
+    const latest = points[14];
+    expect(latest.label).toBe("当期 6月");
+    expect(latest.monthIndex).toBe(3);
+    expect(latest.ytd.sales).toBe(150000);
+    expect(latest.ttm?.sales).toBe(510000);
+    // 限界利益率 60%、固定費 15,000×12ヶ月、営業外 −500×12ヶ月
+    const m = calculateMetrics(latest.ttm as PeriodData);
+    expect(m.marginalProfitRate).toBeCloseTo(60);
+    expect(m.ordinaryProfit).toBeCloseTo(510000 * 0.6 - 180000 - 6000);
+  });
+
+  it("12ヶ月に満たない期や月次のない期をはさむと TTM は途切れる", () => {
+    const short = calculateMonthlyTrend([
+      makePeriod({ id: "prev", monthly: makeSeries(11, 40000) }),
+      makePeriod({ id: "curr", monthly: makeSeries(3, 50000) }),
+    ]);
+    expect(short.every((pt) => pt.ttm === null)).toBe(true);
+
+    const gap = calculateMonthlyTrend([
+      makePeriod({ id: "p1", monthly: makeSeries(12, 40000) }),
+      makePeriod({ id: "p2" }),
+      makePeriod({ id: "p3", monthly: makeSeries(3, 50000) }),
+    ]);
+    expect(gap[gap.length - 1].ttm).toBeNull();
+  });
+
+  it("最新月が期末月なら図表に追加する TTM はない", () => {
+    expect(getLatestTtmPeriod([makePeriod({ monthly: makeSeries(12, 40000) })])).toBeNull();
+    const ttm = getLatestTtmPeriod([
+      makePeriod({ id: "prev", monthly: makeSeries(12, 40000) }),
+      makePeriod({ id: "curr", label: "当期", monthly: makeSeries(3, 50000) }),
+    ]);
+    expect(ttm?.label).toBe("TTM（当期 6月）");
+    expect(ttm?.sales).toBe(510000);
+  });
+});
+
+// ═══════════════════════════════════════════════
+// resolveScenarioBasePeriod
+// ═══════════════════════════════════════════════
+describe("resolveScenarioBasePeriod", () => {
+  const p1 = makePeriod({ id: "p1", label: "第1期", sales: 400000 });
+  const p2 = makePeriod({ id: "p2", label: "第2期" });
+
+  it("periodId が指す期を基準期にする", () => {
+    const base = resolveScenarioBasePeriod([p1, p2], makeScenario({ periodId: "p1" }), p2);
+    expect(base.id).toBe("p1");
+    const result = calculateScenario(base, makeScenario({ periodId: "p1" }));
+    expect(result.basePeriodLabel).toBe("第1期");
+    expect(result.sales).toBeCloseTo(400000);
+  });
+
+  it("該当する期がなければ既定の基準期を使う", () => {
+    const base = resolveScenarioBasePeriod([p1, p2], makeScenario({ periodId: "" }), p2);
+    expect(base.id).toBe("p2");
+  });
+});
+
 // ═══════════════════════════════════════════════
 // calculateScenario
 // ═══════════════════════════════════════════════
@@ -309,15 +767,115 @@ describe("calculateScenario", () => {
     expect(result.ordinaryProfit).toBeCloseTo(base.ordinaryProfit);
   });
 
-  it("売上+10%で売上高が1.1倍になる", () => {
+  it("数量+10%で売上高が1.1倍になる", () => {
     const period = makePeriod();
     const result = calculateScenario(
       period,
-      makeScenario({ salesChangeRate: 10 })
+      makeScenario({ volumeChangeRate: 10 })
     );
     expect(result.sales).toBeCloseTo(period.sales * 1.1);
   });
 
+  it("単価+10%では変動費が増えず、数量+10%では変動費も1.1倍になる", () => {
+    const period = makePeriod();
+    const byPrice = calculateScenario(period, makeScenario({ priceChangeRate: 10 }));
+    const byVolume = calculateScenario(period, makeScenario({ volumeChangeRate: 10 }));
+
+    expect(byPrice.sales).toBeCloseTo(550000);
+    expect(byPrice.totalVariableCost).toBeCloseTo(220000);
+    expect(byPrice.marginalProfit).toBeCloseTo(330000);
+
+    expect(byVolume.sales).toBeCloseTo(550000);
+    expect(byVolume.totalVariableCost).toBeCloseTo(242000);
+    expect(byVolume.marginalProfit).toBeCloseTo(308000);
+  });
+
+  it("売上高の増減を単価効果と数量効果に分解する", () => {
+    const period = makePeriod();
+    const result = calculateScenario(
+      period,
+      makeScenario({ priceChangeRate: 5, volumeChangeRate: -10 })
+    );
+    // 数量効果 = 500,000 × −10% = −50,000、単価効果 = 450,000 × 5% = 22,500
+    expect(result.volumeEffect).toBeCloseTo(-50000);
+    expect(result.priceEffect).toBeCloseTo(22500);
+    expect(result.sales - period.sales).toBeCloseTo(
+      result.priceEffect + result.volumeEffect
+    );
+  });
+
+  it("費目別の変動費率変化で外注費だけをなくせる（内製化）", () => {
+    const period = makePeriod();
+    const result = calculateScenario(
+      period,
+      makeScenario({ variableCostRateOverrides: { outsourcingCost: -10 } })
+    );
+    // 外注費率 10% − 10pt = 0%
+    expect(result.outsourcingCost).toBeCloseTo(0);
+    expect(result.materialCost).toBeCloseTo(period.materialCost);
+    expect(result.otherVariableCost).toBeCloseTo(period.otherVariableCost);
+    expect(result.totalVariableCost).toBeCloseTo(170000);
+  });
+
+  it("費目別の指定がない費目には変動費率変化を構成比で按分する", () => {
+    const period = makePeriod();
+    const result = calculateScenario(
+      period,
+      makeScenario({
+        variableCostRateChange: 2.2,
+        variableCostRateOverrides: { materialCost: 0 },
+      })
+    );
+    expect(result.materialCost).toBeCloseTo(150000);
+    // 外注費: 2.2pt × 50,000 / 220,000 = 0.5pt → 500,000 × 10.5%
+    expect(result.outsourcingCost).toBeCloseTo(52500);
+    // その他変動費: 2.2pt × 20,000 / 220,000 = 0.2pt → 500,000 × 4.2%
+    expect(result.otherVariableCost).toBeCloseTo(21000);
+  });
+
+  it("減価償却費・その他経費は費目別の変化率を優先する", () => {
+    const period = makePeriod();
+    const result = calculateScenario(
+      period,
+      makeScenario({ fixedCostChangeRate: 10, depreciationChangeRate: 50 })
+    );
+    expect(result.depreciation).toBeCloseTo(45000);
+    expect(result.otherExpenses).toBeCloseTo(88000);
+  });
+
+  it("営業外損益は指定がなければ据え置き", () => {
+    const period = makePeriod();
+    const result = calculateScenario(period, makeScenario());
+    expect(result.nonOperatingIncome).toBe(-5000);
+    expect(result.interestExpenseChange).toBe(0);
+  });
+
+  it("営業外損益の増減額と借入×金利の支払利息を反映する", () => {
+    const period = makePeriod();
+    const result = calculateScenario(
+      period,
+      makeScenario({
+        nonOperatingIncomeChange: 2000,
+        borrowingChange: 100000,
+        borrowingInterestRate: 1.5,
+      })
+    );
+    // −5,000 ＋ 2,000 − 100,000 × 1.5% = −4,500
+    expect(result.interestExpenseChange).toBeCloseTo(1500);
+    expect(result.nonOperatingIncome).toBeCloseTo(-4500);
+    expect(result.ordinaryProfit).toBeCloseTo(50000 - 4500); // 営業利益 50,000
+  });
+
+  it("借入の返済（マイナス）は支払利息を減らす", () => {
+    const period = makePeriod();
+    const result = calculateScenario(
+      period,
+      makeScenario({ borrowingChange: -200000, borrowingInterestRate: 2 })
+    );
+    expect(result.interestExpenseChange).toBeCloseTo(-4000);
+    expect(result.nonOperatingIncome).toBeCloseTo(-1000);
+  });
+
   it("人件費+20%で人件費のみ変化する", () => {
     const period = makePeriod();
     const result = calculateScenario(
@@ -353,6 +911,452 @@ describe("calculateScenario", () => {
   });
 });
 
+// ═══════════════════════════════════════════════
+// scenarioResultToPeriod / calculateScenarioWaterfallFactors
+// ═══════════════════════════════════════════════
+describe("calculateScenarioWaterfallFactors", () => {
+  const base = makePeriod();
+
+  it("期データに変換しても経常利益はシナリオ計算と一致する", () => {
+    const result = calculateScenario(
+      base,
+      makeScenario({ priceChangeRate: 3, volumeChangeRate: 5, nonOperatingIncomeChange: 2000 })
+    );
+    const period = scenarioResultToPeriod(base, result);
+    expect(period.label).toBe("テストシナリオ");
+    expect(calculateMetrics(period).ordinaryProfit).toBeCloseTo(result.ordinaryProfit, 6);
+  });
+
+  it("要因の合計が基準期→シナリオの経常利益増減に一致する", () => {
+    const result = calculateScenario(
+      base,
+      makeScenario({ volumeChangeRate: 10, laborCostChangeRate: 5 })
+    );
+    const f = calculateScenarioWaterfallFactors(base, result);
+    // ①売上高 +50,000 × 加工高比率 56% = 28,000、③人件費 +6,000
+    expect(f.salesContribution).toBeCloseTo(28000, 6);
+    expect(f.marginalRateContribution).toBeCloseTo(0, 6);
+    expect(f.fixedCostContribution).toBeCloseTo(-6000, 6);
+    const total =
+      f.salesContribution +
+      f.marginalRateContribution +
+      f.fixedCostContribution +
+      f.nonOperatingContribution;
+    expect(total).toBeCloseTo(result.ordinaryProfit - 45000, 6);
+  });
+});
+
+// ═══════════════════════════════════════════════
+// calculateBreakEven / calculateScenarioBreakEven
+// ═══════════════════════════════════════════════
+describe("calculateBreakEven", () => {
+  it("正常値で損益分岐点指標を正しく算出する", () => {
+    const be = calculateBreakEven(makePeriod());
+
+    // (230k − (−5k)) / 0.56
+    expect(be.isAttainable).toBe(true);
+    expect(be.breakEvenSales).toBeCloseTo(419642.857, 0);
+    expect(be.breakEvenPointRate).toBeCloseTo(83.929, 1);
+    expect(be.marginOfSafetyRate).toBeCloseTo(16.071, 1);
+    expect(be.operatingLeverage).toBeCloseTo(6.222, 2); // 280k/45k
+  });
+
+  it("損益分岐点売上高では経常利益が0になる", () => {
+    const period = makePeriod();
+    const be = calculateBreakEven(period);
+    const rate = be.breakEvenSales / period.sales;
+    const atBreakEven = calculateMetrics(
+      makePeriod({
+        sales: be.breakEvenSales,
+        materialCost: period.materialCost * rate,
+        outsourcingCost: period.outsourcingCost * rate,
+        otherVariableCost: period.otherVariableCost * rate,
+      })
+    );
+    expect(atBreakEven.ordinaryProfit).toBeCloseTo(0, 6);
+  });
+
+  it("安全余裕率 + 損益分岐点比率 = 100%", () => {
+    const be = calculateBreakEven(makePeriod({ sales: 380000 }));
+    expect(be.marginOfSafetyRate + be.breakEvenPointRate).toBeCloseTo(100);
+    expect(be.marginOfSafetyRate).toBeLessThan(0); // 赤字なら安全余裕率は負
+  });
+
+  it("売上0の場合は分岐点なしでNaN/Infinityにならない", () => {
+    const be = calculateBreakEven(makePeriod({ sales: 0 }));
+    expect(be.isAttainable).toBe(false);
+    for (const value of [
+      be.breakEvenSales,
+      be.marginOfSafetyRate,
+      be.breakEvenPointRate,
+      be.operatingLeverage,
+    ]) {
+      expect(Number.isFinite(value)).toBe(true);
+    }
+  });
+
+  it("限界利益が負の場合は分岐点なし", () => {
+    const be = calculateBreakEven(
+      makePeriod({ sales: 100000, materialCost: 150000 })
+    );
+    expect(be.isAttainable).toBe(false);
+    expect(be.breakEvenSales).toBe(0);
+  });
+
+  it("経常利益0の場合、経営レバレッジ係数は0", () => {
+    // 固定費+営業外費用 = 限界利益 となるよう調整
+    const be = calculateBreakEven(makePeriod({ otherExpenses: 125000 }));
+    expect(be.operatingLeverage).toBe(0);
+    expect(be.breakEvenPointRate).toBeCloseTo(100);
+  });
+
+  it("営業外収益が固定費を上回る場合、損益分岐点売上高は0", () => {
+    const be = calculateBreakEven(makePeriod({ nonOperatingIncome: 300000 }));
+    expect(be.breakEvenSales).toBe(0);
+    expect(be.marginOfSafetyRate).toBeCloseTo(100);
+  });
+});
+
+describe("calculateScenarioBreakEven", () => {
+  it("変化率0のシナリオは実績の分岐点と一致する", () => {
+    const period = makePeriod();
+    const fromScenario = calculateScenarioBreakEven(
+      calculateScenario(period, makeScenario())
+    );
+    const fromPeriod = calculateBreakEven(period);
+    expect(fromScenario.breakEvenSales).toBeCloseTo(fromPeriod.breakEvenSales);
+    expect(fromScenario.operatingLeverage).toBeCloseTo(
+      fromPeriod.operatingLeverage
+    );
+  });
+
+  it("固定費削減で損益分岐点売上高が下がる", () => {
+    const period = makePeriod();
+    const base = calculateScenarioBreakEven(
+      calculateScenario(period, makeScenario())
+    );
+    const cut = calculateScenarioBreakEven(
+      calculateScenario(period, makeScenario({ fixedCostChangeRate: -10 }))
+    );
+    expect(cut.breakEvenSales).toBeLessThan(base.breakEvenSales);
+  });
+});
+
+// ═══════════════════════════════════════════════
+// goalSeekScenario
+// ═══════════════════════════════════════════════
+describe("goalSeekScenario", () => {
+  it("目標経常利益に必要な販売数量変化率を逆算する", () => {
+    const period = makePeriod();
+    const gs = goalSeekScenario(
+      period,
+      makeScenario(),
+      "volumeChangeRate",
+      "ordinaryProfit",
+      100000
+    );
+    // 280k × (1 + x) − 235k = 100k → x = 19.643%
+    expect(gs.achieved).toBe(true);
+    expect(gs.value).toBeCloseTo(19.643, 2);
+    expect(gs.result?.ordinaryProfit).toBeCloseTo(100000, 0);
+  });
+
+  it("他のレバーは固定したまま解く", () => {
+    const scenario = makeScenario({ laborCostChangeRate: 10, employeeCount: 55 });
+    const gs = goalSeekScenario(
+      makePeriod(),
+      scenario,
+      "fixedCostChangeRate",
+      "ordinaryProfit",
+      60000
+    );
+    expect(gs.achieved).toBe(true);
+    expect(gs.result?.scenario.laborCostChangeRate).toBe(10);
+    expect(gs.result?.scenario.employeeCount).toBe(55);
+    expect(gs.result?.ordinaryProfit).toBeCloseTo(60000, 0);
+  });
+
+  it("固定費削減率を逆算する", () => {
+    const gs = goalSeekScenario(
+      makePeriod(),
+      makeScenario(),
+      "fixedCostChangeRate",
+      "ordinaryProfit",
+      100000
+    );
+    // 280k − 120k − 110k × (1 + y) − 5k = 100k → y = −50%
+    expect(gs.value).toBeCloseTo(-50, 2);
+  });
+
+  it("目標労働分配率に対する人件費変化率を逆算する", () => {
+    const gs = goalSeekScenario(
+      makePeriod(),
+      makeScenario(),
+      "laborCostChangeRate",
+      "laborShareRate",
+      40
+    );
+    // 120k × (1 + z) / 280k = 40% → z = −6.667%
+    expect(gs.achieved).toBe(true);
+    expect(gs.value).toBeCloseTo(-6.667, 2);
+  });
+
+  it("目標1人当たり経常利益から変動費率変化を逆算する", () => {
+    const gs = goalSeekScenario(
+      makePeriod(),
+      makeScenario(),
+      "variableCostRateChange",
+      "ordinaryProfitPerEmployee",
+      1000
+    );
+    // 経常利益50k（50人）→ 限界利益を5k増やす → 変動費率 −1pt
+    expect(gs.achieved).toBe(true);
+    expect(gs.value).toBeCloseTo(-1, 3);
+  });
+
+  it("レバーが目標指標に影響しない場合は未達", () => {
+    const gs = goalSeekScenario(
+      makePeriod(),
+      makeScenario(),
+      "fixedCostChangeRate",
+      "laborShareRate",
+      40
+    );
+    expect(gs.achieved).toBe(false);
+    expect(gs.value).toBeNull();
+    expect(gs.result).toBeNull();
+  });
+
+  it("費目別の変動費率変化を指定していても変動費率変化で逆算できる", () => {
+    const scenario = makeScenario({
+      variableCostRateOverrides: {
+        materialCost: 0,
+        outsourcingCost: 0,
+        merchandisePurchase: 0,
+        otherVariableCost: 0,
+      },
+    });
+    const gs = goalSeekScenario(
+      makePeriod(),
+      scenario,
+      "variableCostRateChange",
+      "ordinaryProfitPerEmployee",
+      1000
+    );
+    // 変化分を構成比で各費目に上乗せするため、指定なしと同じ −1pt
+    expect(gs.achieved).toBe(true);
+    expect(gs.value).toBeCloseTo(-1, 3);
+    expect(gs.result?.scenario.variableCostRateOverrides?.materialCost).toBeCloseTo(
+      (-1 * 150) / 220,
+      3
+    );
+  });
+
+  it("費目別の固定費変化率・設備投資連動があっても固定費変化率で逆算できる", () => {
+    const scenario = makeScenario({
+      otherExpensesChangeRate: 10,
+      capexDepreciationChange: 6000,
+    });
+    const gs = goalSeekScenario(
+      makePeriod(),
+      scenario,
+      "fixedCostChangeRate",
+      "ordinaryProfit",
+      100000
+    );
+    // 280k − 120k −（30k＋6k）− 80k × 1.1 − 5k = 31k → 固定費を69k削減（110k × y）
+    expect(gs.achieved).toBe(true);
+    expect(gs.value).toBeCloseTo((-69000 / 110000) * 100, 2);
+    expect(gs.result?.ordinaryProfit).toBeCloseTo(100000, 0);
+  });
+
+  it("売上0の基準期では販売数量変化率で目標に届かない", () => {
+    const gs = goalSeekScenario(
+      makePeriod({ sales: 0 }),
+      makeScenario(),
+      "volumeChangeRate",
+      "ordinaryProfit",
+      100000
+    );
+    expect(gs.achieved).toBe(false);
+  });
+});
+
+// ═══════════════════════════════════════════════
+// calculateSensitivity
+// ═══════════════════════════════════════════════
+describe("calculateSensitivity", () => {
+  it("影響幅の大きい順にレバーを並べる", () => {
+    const sa = calculateSensitivity(makePeriod(), makeScenario());
+
+    // 数量±10%: ±28k / 単価±5%: ±25k / 人件費±10%: ±12k / 固定費±10%: ±11k / 変動費率±2pt: ±10k
+    expect(sa.items.map((i) => i.lever)).toEqual([
+      "volumeChangeRate",
+      "priceChangeRate",
+      "laborCostChangeRate",
+      "fixedCostChangeRate",
+      "variableCostRateChange",
+    ]);
+    expect(sa.items[0].impact).toBeCloseTo(56000, 0);
+    expect(sa.items[1].impact).toBeCloseTo(50000, 0);
+  });
+
+  it("従業員数は1人当たり経常利益のときだけ対象にする", () => {
+    // 人件費は従業員数に連動しないため、経常利益・労働分配率には影響しない
+    const levers = (metric: ScenarioMetric) =>
+      calculateSensitivity(makePeriod(), makeScenario(), DEFAULT_SENSITIVITY_RANGES, metric).items.map(
+        (i) => i.lever
+      );
+    expect(levers("ordinaryProfit")).not.toContain("employeeCount");
+    expect(levers("laborShareRate")).not.toContain("employeeCount");
+    expect(levers("ordinaryProfitPerEmployee")).toContain("employeeCount");
+  });
+
+  it("基準値は現在のシナリオの指標値", () => {
+    const period = makePeriod();
+    const scenario = makeScenario({ volumeChangeRate: 5 });
+    const sa = calculateSensitivity(period, scenario);
+    expect(sa.baseResult).toBeCloseTo(
+      calculateScenario(period, scenario).ordinaryProfit
+    );
+    const sales = sa.items.find((i) => i.lever === "volumeChangeRate")!;
+    expect(sales.lowValue).toBe(-5);
+    expect(sales.highValue).toBe(15);
+    expect(sales.lowResult).toBeLessThan(sa.baseResult);
+    expect(sales.highResult).toBeGreaterThan(sa.baseResult);
+  });
+
+  it("摂動幅を指定できる", () => {
+    const sa = calculateSensitivity(makePeriod(), makeScenario(), {
+      ...DEFAULT_SENSITIVITY_RANGES,
+      volumeChangeRate: 1,
+    });
+    const sales = sa.items.find((i) => i.lever === "volumeChangeRate")!;
+    expect(sales.impact).toBeCloseTo(5600, 0);
+  });
+
+  it("費目別の指定があっても全体レバーの影響を反映する", () => {
+    const sa = calculateSensitivity(
+      makePeriod(),
+      makeScenario({
+        variableCostRateOverrides: {
+          materialCost: -1,
+          outsourcingCost: 0,
+          merchandisePurchase: 0,
+          otherVariableCost: 0,
+        },
+        depreciationChangeRate: 5,
+        otherExpensesChangeRate: -5,
+      })
+    );
+    const variable = sa.items.find((i) => i.lever === "variableCostRateChange")!;
+    const fixed = sa.items.find((i) => i.lever === "fixedCostChangeRate")!;
+    // 変動費率±2pt: ±10k / 固定費±10%: ±11k（指定なしと同じ）
+    expect(variable.impact).toBeCloseTo(20000, 0);
+    expect(fixed.impact).toBeCloseTo(22000, 0);
+  });
+
+  it("従業員数は1人を下回らない", () => {
+    const sa = calculateSensitivity(
+      makePeriod(),
+      makeScenario({ employeeCount: 3 }),
+      DEFAULT_SENSITIVITY_RANGES,
+      "ordinaryProfitPerEmployee"
+    );
+    const emp = sa.items.find((i) => i.lever === "employeeCount")!;
+    expect(emp.lowValue).toBe(1);
+    expect(emp.highValue).toBe(8);
+    expect(sa.items[0].lever).toBe("employeeCount");
+  });
+});
+
+// ═══════════════════════════════════════════════
+// generateGridAxisValues / calculateGridSimulation
+// ═══════════════════════════════════════════════
+describe("generateGridAxisValues", () => {
+  it("下限から上限まで刻み幅で値を生成する", () => {
+    expect(
+      generateGridAxisValues({ lever: "volumeChangeRate", min: -20, max: 20, step: 10 })
+    ).toEqual([-20, -10, 0, 10, 20]);
+  });
+
+  it("小数刻みでも誤差が残らない", () => {
+    const values = generateGridAxisValues({
+      lever: "variableCostRateChange",
+      min: -1,
+      max: 1,
+      step: 0.1,
+    });
+    expect(values).toHaveLength(21);
+    expect(values[13]).toBe(0.3);
+    expect(values[20]).toBe(1);
+  });
+
+  it("分割数は上限で打ち切る", () => {
+    const values = generateGridAxisValues({
+      lever: "volumeChangeRate",
+      min: 0,
+      max: 1000,
+      step: 1,
+    });
+    expect(values).toHaveLength(GRID_MAX_STEPS);
+  });
+
+  it("刻み幅0以下でも無限ループしない", () => {
+    const values = generateGridAxisValues({
+      lever: "volumeChangeRate",
+      min: -10,
+      max: 10,
+      step: 0,
+    });
+    expect(values).toEqual([-10, 10]);
+  });
+});
+
+describe("calculateGridSimulation", () => {
+  const xAxis = { lever: "volumeChangeRate" as const, min: -20, max: 20, step: 10 };
+  const yAxis = { lever: "variableCostRateChange" as const, min: -5, max: 5, step: 5 };
+
+  it("各セルがcalculateScenarioの結果と一致する", () => {
+    const period = makePeriod();
+    const scenario = makeScenario({ laborCostChangeRate: 5 });
+    const grid = calculateGridSimulation(period, scenario, xAxis, yAxis);
+
+    expect(grid.cells).toHaveLength(3);
+    expect(grid.cells[0]).toHaveLength(5);
+    const cell = grid.cells[2][4]; // 変動費率+5pt × 売上+20%
+    const expected = calculateScenario(period, {
+      ...scenario,
+      volumeChangeRate: 20,
+      variableCostRateChange: 5,
+    });
+    expect(cell.ordinaryProfit).toBeCloseTo(expected.ordinaryProfit);
+    expect(cell.laborShareRate).toBeCloseTo(expected.laborShareRate);
+  });
+
+  it("費目別の指定がある費目にも軸の変化分を上乗せする", () => {
+    const period = makePeriod();
+    const scenario = makeScenario({ variableCostRateOverrides: { outsourcingCost: -5 } });
+    const grid = calculateGridSimulation(period, scenario, xAxis, yAxis);
+    // 変動費率+5pt行は、指定なしの費目を含め変動費が売上高 × 5pt 増える
+    const base = calculateScenario(period, scenario);
+    expect(grid.cells[1][2].ordinaryProfit).toBeCloseTo(base.ordinaryProfit);
+    expect(grid.cells[2][2].ordinaryProfit).toBeCloseTo(base.ordinaryProfit - 25000);
+  });
+
+  it("経常利益の符号が変わる境界に印を付ける", () => {
+    const grid = calculateGridSimulation(makePeriod(), makeScenario(), xAxis, yAxis);
+    // 変動費率0pt行: 売上−20% → 赤字(−11k)、−10% → 黒字(17k)
+    const row = grid.cells[1];
+    expect(row[0].ordinaryProfit).toBeLessThan(0);
+    expect(row[1].ordinaryProfit).toBeGreaterThan(0);
+    expect(row[0].isBreakEvenBoundary).toBe(true);
+    expect(row[1].isBreakEvenBoundary).toBe(true);
+    // 売上+20%・変動費率−5ptは周囲も黒字
+    expect(grid.cells[0][4].isBreakEvenBoundary).toBe(false);
+  });
+});
+
 // ═══════════════════════════════════════════════
 // formatNumber
 // ═══════════════════════════════════════════════
@@ -410,3 +1414,511 @@ describe("calculateIsoline", () => {
     expect(calculateIsoline(0, 50)).toBe(0);
   });
 });
+
+// ═══════════════════════════════════════════════
+// calculateManagementPlan
+// ═══════════════════════════════════════════════
+describe("calculateManagementPlan", () => {
+  const base = makePeriod();
+
+  function makePlanYear(overrides?: Partial<PlanYear>): PlanYear {
+    return {
+      id: "plan-1",
+      label: "計画1年目",
+      salesGrowthRate: 0,
+      variableCostRateChange: 0,
+      wageIncreaseRate: 0,
+      employeeCount: 50,
+      fixedCostChangeRate: 0,
+      ...overrides,
+    };
+  }
+
+  it("変化なしなら各年度とも起点期と同じ損益", () => {
+    const results = calculateManagementPlan(base, [
+      makePlanYear(),
+      makePlanYear({ id: "plan-2", label: "計画2年目" }),
+    ]);
+    expect(results).toHaveLength(2);
+    for (const r of results) {
+      expect(r.period.sales).toBeCloseTo(500000);
+      expect(r.metrics.ordinaryProfit).toBeCloseTo(45000);
+    }
+  });
+
+  it("売上高成長率は前年度の試算値に複利で連鎖する", () => {
+    const results = calculateManagementPlan(base, [
+      makePlanYear({ salesGrowthRate: 10 }),
+      makePlanYear({ id: "plan-2", salesGrowthRate: 10 }),
+    ]);
+    expect(results[0].period.sales).toBeCloseTo(550000);
+    expect(results[1].period.sales).toBeCloseTo(605000);
+    // 変動費率44%維持 → 限界利益 = 605k × 56%
+    expect(results[1].metrics.marginalProfit).toBeCloseTo(338800);
+  });
+
+  it("変動費率変化は前年度の変動費率に累積する", () => {
+    const results = calculateManagementPlan(base, [
+      makePlanYear({ variableCostRateChange: 1 }),
+      makePlanYear({ id: "plan-2", variableCostRateChange: 1 }),
+    ]);
+    expect(results[0].metrics.marginalProfitRate).toBeCloseTo(55);
+    expect(results[1].metrics.marginalProfitRate).toBeCloseTo(54);
+  });
+
+  it("人件費 = 前年人件費 ×（1＋賃上げ率）× 人員比", () => {
+    const results = calculateManagementPlan(base, [
+      makePlanYear({ wageIncreaseRate: 3, employeeCount: 55 }),
+      makePlanYear({ id: "plan-2", wageIncreaseRate: 3, employeeCount: 55 }),
+    ]);
+    // 120,000 × 1.03 × 55/50 = 135,960
+    expect(results[0].period.laborCost).toBeCloseTo(135960);
+    // 135,960 × 1.03 × 55/55 = 140,038.8
+    expect(results[1].period.laborCost).toBeCloseTo(140038.8);
+    expect(results[1].period.employeeCount).toBe(55);
+  });
+
+  it("固定費変化率は減価償却費・その他経費に適用し営業外損益は据え置く", () => {
+    const [r] = calculateManagementPlan(base, [makePlanYear({ fixedCostChangeRate: 10 })]);
+    expect(r.period.depreciation).toBeCloseTo(33000);
+    expect(r.period.otherExpenses).toBeCloseTo(88000);
+    expect(r.period.nonOperatingIncome).toBe(-5000);
+    expect(r.metrics.ordinaryProfit).toBeCloseTo(34000);
+  });
+
+  it("年度がなければ空配列", () => {
+    expect(calculateManagementPlan(base, [])).toEqual([]);
+  });
+
+  it("設備投資計画があれば減価償却費は前年＋設備投資による増減", () => {
+    const asset: CapexAsset = {
+      id: "a1",
+      name: "新ライン",
+      acquisitionCost: 50000,
+      usefulLife: 5,
+      method: "straightLine",
+      startYear: 2,
+    };
+    const results = calculateManagementPlan(
+      base,
+      [
+        makePlanYear({ fixedCostChangeRate: 10 }),
+        makePlanYear({ id: "plan-2", fixedCostChangeRate: 10 }),
+      ],
+      [asset]
+    );
+    // 1年目: 増減なし、2年目: +10,000（固定費変化率はその他経費のみに適用）
+    expect(results[0].period.depreciation).toBeCloseTo(30000);
+    expect(results[1].period.depreciation).toBeCloseTo(40000);
+    expect(results[1].period.otherExpenses).toBeCloseTo(96800);
+  });
+});
+
+// ═══════════════════════════════════════════════
+// 設備投資計画（減価償却スケジュール）
+// ═══════════════════════════════════════════════
+describe("calculateDepreciationSchedule / calculateCapexSchedule", () => {
+  const makeAsset = (overrides?: Partial<CapexAsset>): CapexAsset => ({
+    id: "asset-1",
+    name: "設備",
+    acquisitionCost: 1000,
+    usefulLife: 5,
+    method: "straightLine",
+    startYear: 1,
+    ...overrides,
+  });
+
+  it("定額法: 取得価額 ÷ 耐用年数を耐用年数にわたって計上", () => {
+    const rows = calculateDepreciationSchedule(makeAsset());
+    expect(rows.map((r) => r.year)).toEqual([1, 2, 3, 4, 5]);
+    for (const r of rows) expect(r.depreciation).toBeCloseTo(200);
+    expect(rows[4].bookValue).toBeCloseTo(0);
+  });
+
+  it("定率法: 償却率 2/耐用年数、均等償却額を下回ったら切り替える", () => {
+    const rows = calculateDepreciationSchedule(makeAsset({ method: "decliningBalance" }));
+    // 400 → 240 → 144 → 均等償却 108 → 108
+    const expected = [400, 240, 144, 108, 108];
+    rows.forEach((r, i) => expect(r.depreciation).toBeCloseTo(expected[i]));
+    expect(rows.reduce((a, r) => a + r.depreciation, 0)).toBeCloseTo(1000);
+  });
+
+  it("年度別集計と前年度比の増減（既存資産の償却終了を含む）", () => {
+    const assets = [
+      makeAsset({ id: "old", startYear: -3 }), // 年度1まで償却
+      makeAsset({ id: "new", acquisitionCost: 600, usefulLife: 3, startYear: 2 }),
+    ];
+    const schedule = calculateCapexSchedule(assets, 1, 3);
+    expect(schedule.map((y) => y.capex)).toEqual([0, 600, 0]);
+    expect(schedule.map((y) => y.depreciation)).toEqual([200, 200, 200]);
+    expect(schedule[1].bookValue).toBeCloseTo(400);
+    expect(calculateCapexDepreciationChange(assets, 1)).toBeCloseTo(0);
+    expect(calculateCapexDepreciationChange(assets, 2)).toBeCloseTo(0);
+    expect(calculateCapexDepreciationChange(assets, 5)).toBeCloseTo(-200);
+  });
+
+  it("シナリオの減価償却費は設備投資による増減を優先する", () => {
+    const r = calculateScenario(
+      makePeriod(),
+      makeScenario({ fixedCostChangeRate: 10, capexDepreciationChange: 5000 })
+    );
+    expect(r.depreciation).toBeCloseTo(35000);
+    expect(r.otherExpenses).toBeCloseTo(88000);
+  });
+});
+
+// ═══════════════════════════════════════════════
+// 借入金の返済スケジュール・債務償還年数
+// ═══════════════════════════════════════════════
+describe("calculateLoanSchedule / calculateDebtRepaymentCapacity", () => {
+  const makeLoan = (overrides?: Partial<Loan>): Loan => ({
+    id: "loan-1",
+    name: "借入",
+    balance: 1000,
+    interestRate: 10,
+    remainingYears: 4,
+    method: "equalPrincipal",
+    ...overrides,
+  });
+
+  it("元金均等: 元金は一定、利息は期首残高 × 年利", () => {
+    const rows = calculateLoanSchedule(makeLoan());
+    expect(rows.map((r) => r.principal)).toEqual([250, 250, 250, 250]);
+    expect(rows.map((r) => r.interest)).toEqual([100, 75, 50, 25]);
+    expect(rows[3].closingBalance).toBeCloseTo(0);
+  });
+
+  it("元利均等: 毎年の返済額が一定で残高を完済する", () => {
+    const rows = calculateLoanSchedule(makeLoan({ method: "equalPayment" }));
+    const payments = rows.map((r) => r.principal + r.interest);
+    // 1000 × 0.1 ÷ (1 − 1.1^−4) ≈ 315.47
+    for (const p of payments) expect(p).toBeCloseTo(315.47, 1);
+    expect(rows.reduce((a, r) => a + r.principal, 0)).toBeCloseTo(1000);
+    expect(rows[3].closingBalance).toBeCloseTo(0);
+  });
+
+  it("期日一括: 最終年度まで元金返済なし", () => {
+    const rows = calculateLoanSchedule(makeLoan({ method: "bullet", remainingYears: 3 }));
+    expect(rows.map((r) => r.principal)).toEqual([0, 0, 1000]);
+    expect(rows.map((r) => r.interest)).toEqual([100, 100, 100]);
+  });
+
+  it("複数借入の年度別集計（完済後は0）", () => {
+    const schedule = calculateLoanPortfolioSchedule(
+      [makeLoan(), makeLoan({ id: "loan-2", balance: 600, interestRate: 0, remainingYears: 2 })],
+      5
+    );
+    expect(schedule.map((y) => y.principal)).toEqual([550, 550, 250, 250, 0]);
+    expect(schedule[0].openingBalance).toBe(1600);
+    expect(schedule[4].closingBalance).toBe(0);
+  });
+
+  it("債務償還年数 = 有利子負債 ÷（経常利益 × (1 − 税率) ＋ 減価償却費）", () => {
+    // 45,000 × 0.7 + 30,000 = 61,500
+    const c = calculateDebtRepaymentCapacity(45000, 30000, 615000, 30);
+    expect(c.tax).toBeCloseTo(13500);
+    expect(c.cashFlow).toBeCloseTo(61500);
+    expect(c.repaymentYears).toBeCloseTo(10);
+  });
+
+  it("赤字時は税額0、キャッシュフローが0以下なら償還年数は null", () => {
+    const c = calculateDebtRepaymentCapacity(-40000, 30000, 100000, 30);
+    expect(c.tax).toBe(0);
+    expect(c.cashFlow).toBe(-10000);
+    expect(c.repaymentYears).toBeNull();
+  });
+
+  it("シナリオは借入増減額を残高に加え、支払利息の増加も経常利益に反映される", () => {
+    const loans = [makeLoan({ balance: 500000 })];
+    const r = calculateScenario(
+      makePeriod(),
+      makeScenario({ borrowingChange: 100000, borrowingInterestRate: 2 })
+    );
+    const c = calculateScenarioDebtRepaymentCapacity(r, makePeriod(), loans, 30);
+    expect(c.debt).toBe(600000);
+    // 経常利益 45,000 − 2,000 = 43,000 → 43,000 × 0.7 + 30,000 = 60,100
+    expect(c.cashFlow).toBeCloseTo(60100);
+  });
+
+  it("実績期の有利子負債は貸借対照表があればその期末残高を使う", () => {
+    const loans = [makeLoan({ balance: 500000 })];
+    expect(calculatePeriodInterestBearingDebt(makePeriod(), loans)).toBe(500000);
+    const withBs = makePeriod({
+      balanceSheet: {
+        cashAndDeposits: 100000,
+        receivables: 0,
+        inventories: 0,
+        otherCurrentAssets: 0,
+        tangibleFixedAssets: 300000,
+        intangibleFixedAssets: 0,
+        investmentsAndOtherAssets: 0,
+        payables: 0,
+        shortTermBorrowings: 40000,
+        otherCurrentLiabilities: 0,
+        longTermBorrowings: 160000,
+        otherFixedLiabilities: 0,
+        netAssets: 200000,
+      },
+    });
+    expect(calculatePeriodInterestBearingDebt(withBs, loans)).toBe(200000);
+
+    // シナリオも基準期の有利子負債から借入増減額を加える
+    const r = calculateScenario(withBs, makeScenario({ borrowingChange: 100000 }));
+    expect(calculateScenarioDebtRepaymentCapacity(r, withBs, loans, 30).debt).toBe(300000);
+  });
+});
+
+// ═══════════════════════════════════════════════
+// createBudgetFromPeriod / calculateBudgetVariance
+// ═══════════════════════════════════════════════
+describe("createBudgetFromPeriod / calculateBudgetVariance", () => {
+  const target = { id: "next", label: "翌期" };
+
+  it("シナリオ結果から対象期の予算を作成する", () => {
+    const base = makePeriod();
+    const r = calculateScenario(base, makeScenario({ priceChangeRate: 10 }));
+    const budget = createBudgetFromPeriod(scenarioResultToPeriod(base, r), target, "b1", r.scenario.label);
+    expect(budget.periodId).toBe("next");
+    expect(budget.label).toBe("翌期 予算");
+    expect(budget.sourceScenarioLabel).toBe("テストシナリオ");
+    expect(budget.sales).toBeCloseTo(550000);
+    expect(calculateMetrics(budget).ordinaryProfit).toBeCloseTo(r.ordinaryProfit);
+    expect(budget.corporateTax).toBeCloseTo(r.corporateTax);
+  });
+
+  it("棚卸高のある期から作成すると調整額を変動費に振り替える", () => {
+    const period = makePeriod({
+      inventory: {
+        beginningMaterials: 20000,
+        endingMaterials: 30000,
+        beginningWorkInProgress: 0,
+        endingWorkInProgress: 0,
+        beginningFinishedGoods: 0,
+        endingFinishedGoods: 0,
+        beginningMerchandise: 0,
+        endingMerchandise: 0,
+      },
+    });
+    const budget = createBudgetFromPeriod(period, target, "b1");
+    expect(budget.materialCost).toBe(140000);
+    expect(calculateMetrics(budget).ordinaryProfit).toBe(calculateMetrics(period).ordinaryProfit);
+  });
+
+  it("差異は実績−予算、差異率は予算比で算出する", () => {
+    const budget = createBudgetFromPeriod(makePeriod(), target, "b1");
+    const actual = makePeriod({ sales: 520000, laborCost: 130000 });
+    const rows = calculateBudgetVariance(budget, actual);
+    const find = (label: string) => rows.find((r) => r.label === label)!;
+
+    expect(find("売上高").variance).toBe(20000);
+    expect(find("売上高").varianceRate).toBeCloseTo(4);
+    expect(find("人件費").isCost).toBe(true);
+    expect(find("人件費").variance).toBe(10000);
+    expect(find("限界利益率").varianceRate).toBeNull();
+    // 限界利益 +20,000、人件費 +10,000 → 経常利益 +10,000
+    expect(find("経常利益").variance).toBeCloseTo(10000);
+    expect(find("経常利益").varianceRate).toBeCloseTo((10000 / 45000) * 100);
+    expect(rows.some((r) => r.label === "棚卸増減調整" || r.label === "特別損益")).toBe(false);
+  });
+
+  it("予算→実績の要因分解の合計は経常利益の差異と一致する", () => {
+    const budget = createBudgetFromPeriod(makePeriod(), target, "b1");
+    const actual = makePeriod({ sales: 480000, materialCost: 160000, nonOperatingIncome: -2000 });
+    const f = calculateWaterfallFactors(actual, budget, "sequential");
+    const total =
+      f.salesContribution +
+      f.marginalRateContribution +
+      f.fixedCostContribution +
+      f.nonOperatingContribution;
+    expect(total).toBeCloseTo(
+      calculateBudgetVariance(budget, actual).find((r) => r.label === "経常利益")!.variance
+    );
+  });
+});
+
+// ═══════════════════════════════════════════════
+// calculateWageCapacity
+// ═══════════════════════════════════════════════
+describe("calculateWageCapacity", () => {
+  // 基準: 限界利益 280,000 / 人件費 120,000 / その他固定費 110,000 / 営業外 −5,000 / 50人
+  const base = makePeriod();
+
+  it("労働分配率の上限が厳しい場合はそちらで決まる", () => {
+    const r = calculateWageCapacity(base, {
+      targetLaborShareRate: 45,
+      targetOrdinaryProfit: 20000,
+      requestedRaiseRate: 0,
+    });
+    // ① 280,000 × 45% = 126,000 / ② 280,000 − 110,000 − 5,000 − 20,000 = 145,000
+    expect(r.maxLaborCostByShare).toBeCloseTo(126000);
+    expect(r.maxLaborCostByProfit).toBeCloseTo(145000);
+    expect(r.bindingConstraint).toBe("laborShare");
+    expect(r.laborCostHeadroom).toBeCloseTo(6000);
+    expect(r.allowableRaisePerEmployee).toBeCloseTo(120); // 6,000 / 50人
+    expect(r.allowableRaiseRate).toBeCloseTo(5); // 6,000 / 120,000
+  });
+
+  it("目標経常利益の上限が厳しい場合はそちらで決まる", () => {
+    const r = calculateWageCapacity(base, {
+      targetLaborShareRate: 60,
+      targetOrdinaryProfit: 40000,
+      requestedRaiseRate: 0,
+    });
+    // ② 280,000 − 110,000 − 5,000 − 40,000 = 125,000
+    expect(r.bindingConstraint).toBe("ordinaryProfit");
+    expect(r.maxLaborCost).toBeCloseTo(125000);
+    expect(r.laborCostHeadroom).toBeCloseTo(5000);
+  });
+
+  it("希望賃上げに必要な売上高成長率（限界利益率一定）", () => {
+    const r = calculateWageCapacity(base, {
+      targetLaborShareRate: 45,
+      targetOrdinaryProfit: 20000,
+      requestedRaiseRate: 10,
+    });
+    // 希望人件費 132,000 → 分配率45%なら限界利益 293,333、経常利益確保なら 132,000+110,000+5,000+20,000 = 267,000
+    expect(r.requestedLaborCost).toBeCloseTo(132000);
+    expect(r.requiredMarginalProfit).toBeCloseTo(293333.33, 0);
+    expect(r.requiredSalesGrowthRate).toBeCloseTo((293333.33 / 280000 - 1) * 100, 2);
+
+    // 必要な売上成長率でシナリオを組むと両目標を満たす
+    const result = calculateScenario(
+      base,
+      makeScenario({
+        volumeChangeRate: r.requiredSalesGrowthRate!,
+        laborCostChangeRate: 10,
+      })
+    );
+    expect(result.laborShareRate).toBeCloseTo(45, 4);
+    expect(result.ordinaryProfit).toBeGreaterThanOrEqual(20000);
+  });
+
+  it("費目別・営業外・設備投資のレバーがあるシナリオに反映しても試算を再現する", () => {
+    const r = calculateWageCapacity(base, {
+      targetLaborShareRate: 45,
+      targetOrdinaryProfit: 20000,
+      requestedRaiseRate: 10,
+    });
+    const result = calculateScenario(base, {
+      ...leveredScenario,
+      ...CALCULATOR_SCENARIO_RESET,
+      variableCostRateChange: 0,
+      fixedCostChangeRate: 0,
+      volumeChangeRate: r.requiredSalesGrowthRate!,
+      laborCostChangeRate: 10,
+    });
+    expect(result.marginalProfit).toBeCloseTo(r.requiredMarginalProfit, 4);
+    expect(result.laborShareRate).toBeCloseTo(45, 4);
+    // 267,000 を上回る限界利益のため、目標経常利益 20,000 に 26,333 上乗せされる
+    expect(result.ordinaryProfit).toBeCloseTo(20000 + (293333.33 - 267000), 0);
+  });
+
+  it("限界利益が0以下なら必要売上高成長率は null", () => {
+    const r = calculateWageCapacity(makePeriod({ sales: 100000, materialCost: 80000 }), {
+      targetLaborShareRate: 50,
+      targetOrdinaryProfit: 0,
+      requestedRaiseRate: 5,
+    });
+    expect(r.requiredSalesGrowthRate).toBeNull();
+  });
+});
+
+// ═══════════════════════════════════════════════
+// analyzePassThrough
+// ═══════════════════════════════════════════════
+describe("analyzePassThrough", () => {
+  // 基準: 売上高 500,000 / 変動費 220,000（材料費 150,000）/ 限界利益 280,000
+  const base = makePeriod();
+  const makeInput = (overrides: Partial<PassThroughInput> = {}): PassThroughInput => ({
+    materialInflationRate: 10,
+    outsourcingInflationRate: 0,
+    merchandiseInflationRate: 0,
+    otherVariableInflationRate: 0,
+    laborCostChangeRate: 0,
+    fixedCostChangeRate: 0,
+    priceElasticity: -0.5,
+    ...overrides,
+  });
+  const findTarget = (a: ReturnType<typeof analyzePassThrough>, t: string) =>
+    a.targets.find((x) => x.target === t)!;
+
+  it("費目別の単価上昇から変動費の増加額を求める", () => {
+    const a = analyzePassThrough(base, makeInput());
+    expect(a.inflatedVariableCost).toBeCloseTo(235000);
+    expect(a.costIncrease).toBeCloseTo(15000);
+    // 価格据え置きなら増加分がそのまま経常利益を押し下げる
+    expect(a.noPassThrough.ordinaryProfit).toBeCloseTo(30000);
+  });
+
+  it("数量据え置きで限界利益額を維持: 値上げ率 = 変動費増加額 ÷ 売上高", () => {
+    const a = analyzePassThrough(base, makeInput());
+    const r = findTarget(a, "marginalProfit").volumeNeutral!;
+    expect(r.priceChangeRate).toBeCloseTo(3);
+    expect(r.marginalProfit).toBeCloseTo(280000);
+  });
+
+  it("限界利益率の維持は数量に依存しない値上げ率になる", () => {
+    const a = analyzePassThrough(base, makeInput());
+    const t = findTarget(a, "marginalProfitRate");
+    expect(t.volumeNeutral!.priceChangeRate).toBeCloseTo((235000 / 220000 - 1) * 100);
+    expect(t.volumeElastic!.priceChangeRate).toBeCloseTo(t.volumeNeutral!.priceChangeRate);
+    expect(t.volumeElastic!.marginalProfitRate).toBeCloseTo(56);
+    expect(t.volumeElastic!.volumeChangeRate).toBeLessThan(0);
+  });
+
+  it("価格弾力性があると限界利益額の維持に必要な値上げ率は大きくなる", () => {
+    const a = analyzePassThrough(base, makeInput());
+    const t = findTarget(a, "marginalProfit");
+    expect(t.volumeElastic!.marginalProfit).toBeCloseTo(280000, 4);
+    expect(t.volumeElastic!.priceChangeRate).toBeGreaterThan(t.volumeNeutral!.priceChangeRate);
+  });
+
+  it("経常利益の維持には固定費の増加分も転嫁する", () => {
+    // 人件費 +5% = +6,000
+    const a = analyzePassThrough(base, makeInput({ laborCostChangeRate: 5 }));
+    const r = findTarget(a, "ordinaryProfit").volumeNeutral!;
+    expect(a.fixedCostIncrease).toBeCloseTo(6000);
+    expect(r.priceChangeRate).toBeCloseTo(4.2);
+    expect(r.ordinaryProfit).toBeCloseTo(calculateMetrics(base).ordinaryProfit);
+  });
+
+  it("シナリオ換算値を calculateScenario に渡すと同じ限界利益になる", () => {
+    const a = analyzePassThrough(base, makeInput({ outsourcingInflationRate: 5 }));
+    const r = findTarget(a, "marginalProfit").volumeElastic!;
+    const result = calculateScenario(
+      base,
+      makeScenario({
+        priceChangeRate: r.priceChangeRate,
+        volumeChangeRate: r.volumeChangeRate,
+        variableCostRateChange: r.scenarioVariableCostRateChange,
+      })
+    );
+    expect(result.sales).toBeCloseTo(r.sales, 4);
+    expect(result.marginalProfit).toBeCloseTo(r.marginalProfit, 4);
+  });
+
+  it("費目別・営業外・設備投資のレバーがあるシナリオに反映しても試算を再現する", () => {
+    const a = analyzePassThrough(base, makeInput({ laborCostChangeRate: 5 }));
+    const r = findTarget(a, "ordinaryProfit").volumeElastic!;
+    const result = calculateScenario(base, {
+      ...leveredScenario,
+      ...CALCULATOR_SCENARIO_RESET,
+      priceChangeRate: r.priceChangeRate,
+      volumeChangeRate: r.volumeChangeRate,
+      variableCostRateChange: r.scenarioVariableCostRateChange,
+      laborCostChangeRate: 5,
+      fixedCostChangeRate: 0,
+    });
+    expect(result.marginalProfit).toBeCloseTo(r.marginalProfit, 4);
+    expect(result.ordinaryProfit).toBeCloseTo(r.ordinaryProfit, 4);
+  });
+
+  it("弾力性が大きすぎて到達できない場合は null", () => {
+    const a = analyzePassThrough(
+      base,
+      makeInput({ materialInflationRate: 100, priceElasticity: -3 })
+    );
+    expect(findTarget(a, "marginalProfit").volumeElastic).toBeNull();
+    expect(findTarget(a, "marginalProfit").volumeNeutral).not.toBeNull();
+  });
+});
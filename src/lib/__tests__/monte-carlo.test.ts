@@ -0,0 +1,218 @@
+import { describe, it, expect } from "vitest";
+import {
+  createRng,
+  sampleDistribution,
+  validateDistribution,
+  percentile,
+  buildHistogram,
+  createDefaultMonteCarloConfig,
+  runMonteCarlo,
+  MONTE_CARLO_MIN_TRIALS,
+} from "../monte-carlo";
+import { calculateScenario } from "../calculations";
+import { MonteCarloConfig, PeriodData, Scenario } from "../types";
+
+// ── ヘルパー ──
+
+function makePeriod(overrides?: Partial<PeriodData>): PeriodData {
+  return {
+    id: "test-id",
+    companyId: "test-company",
+    label: "テスト期",
+    sales: 500000,
+    materialCost: 150000,
+    outsourcingCost: 50000,
+    merchandisePurchase: 0,
+    otherVariableCost: 20000,
+    laborCost: 120000,
+    depreciation: 30000,
+    otherExpenses: 80000,
+    nonOperatingIncome: -5000,
+    employeeCount: 50,
+    ...overrides,
+  };
+}
+
+function makeScenario(overrides?: Partial<Scenario>): Scenario {
+  return {
+    id: "scenario-1",
+    periodId: "test-id",
+    label: "テストシナリオ",
+    priceChangeRate: 0,
+    volumeChangeRate: 0,
+    variableCostRateChange: 0,
+    laborCostChangeRate: 0,
+    fixedCostChangeRate: 0,
+    employeeCount: 50,
+    ...overrides,
+  };
+}
+
+function makeFixedConfig(overrides?: Partial<MonteCarloConfig>): MonteCarloConfig {
+  return {
+    distributions: {
+      priceChangeRate: { type: "fixed" },
+      volumeChangeRate: { type: "fixed" },
+      variableCostRateChange: { type: "fixed" },
+      laborCostChangeRate: { type: "fixed" },
+      fixedCostChangeRate: { type: "fixed" },
+    },
+    trials: 1000,
+    seed: 42,
+    ...overrides,
+  };
+}
+
+// ═══════════════════════════════════════════════
+// 乱数・分布サンプリング
+// ═══════════════════════════════════════════════
+describe("createRng / sampleDistribution", () => {
+  it("同じシードなら同じ乱数列を返す", () => {
+    const a = createRng(123);
+    const b = createRng(123);
+    for (let i = 0; i < 10; i++) {
+      expect(a()).toBe(b());
+    }
+  });
+
+  it("乱数は [0, 1) の範囲", () => {
+    const rng = createRng(7);
+    for (let i = 0; i < 1000; i++) {
+      const v = rng();
+      expect(v).toBeGreaterThanOrEqual(0);
+      expect(v).toBeLessThan(1);
+    }
+  });
+
+  it("三角分布・一様分布は指定範囲内に収まる", () => {
+    const rng = createRng(1);
+    for (let i = 0; i < 1000; i++) {
+      const t = sampleDistribution({ type: "triangular", min: -5, mode: 2, max: 10 }, rng, 0);
+      expect(t).toBeGreaterThanOrEqual(-5);
+      expect(t).toBeLessThanOrEqual(10);
+      const u = sampleDistribution({ type: "uniform", min: -3, max: 3 }, rng, 0);
+      expect(u).toBeGreaterThanOrEqual(-3);
+      expect(u).toBeLessThanOrEqual(3);
+    }
+  });
+
+  it("三角分布の最頻が範囲外でも NaN にならず範囲内に収まる", () => {
+    const rng = createRng(3);
+    for (let i = 0; i < 1000; i++) {
+      const above = sampleDistribution({ type: "triangular", min: -5, mode: 20, max: 10 }, rng, 0);
+      expect(above).toBeGreaterThanOrEqual(-5);
+      expect(above).toBeLessThanOrEqual(10);
+      const below = sampleDistribution({ type: "triangular", min: -5, mode: -20, max: 10 }, rng, 0);
+      expect(below).toBeGreaterThanOrEqual(-5);
+      expect(below).toBeLessThanOrEqual(10);
+    }
+  });
+
+  it("分布パラメータの不整合を検出する", () => {
+    expect(validateDistribution({ type: "triangular", min: -5, mode: 2, max: 10 })).toBeNull();
+    expect(validateDistribution({ type: "triangular", min: -5, mode: 20, max: 10 })).not.toBeNull();
+    expect(validateDistribution({ type: "triangular", min: 10, mode: 5, max: -5 })).not.toBeNull();
+    expect(validateDistribution({ type: "uniform", min: 3, max: -3 })).not.toBeNull();
+    expect(validateDistribution({ type: "normal", mean: 0, stdDev: -1 })).not.toBeNull();
+    expect(validateDistribution({ type: "fixed" })).toBeNull();
+  });
+
+  it("正規分布の標本平均・標準偏差がパラメータに近い", () => {
+    const rng = createRng(99);
+    const n = 20000;
+    const samples = Array.from({ length: n }, () =>
+      sampleDistribution({ type: "normal", mean: 3, stdDev: 2 }, rng, 0)
+    );
+    const mean = samples.reduce((a, b) => a + b, 0) / n;
+    const sd = Math.sqrt(samples.reduce((a, v) => a + (v - mean) ** 2, 0) / n);
+    expect(mean).toBeCloseTo(3, 1);
+    expect(sd).toBeCloseTo(2, 1);
+  });
+
+  it("fixed はシナリオの値を返す", () => {
+    expect(sampleDistribution({ type: "fixed" }, createRng(1), 7.5)).toBe(7.5);
+  });
+});
+
+// ═══════════════════════════════════════════════
+// percentile / buildHistogram
+// ═══════════════════════════════════════════════
+describe("percentile / buildHistogram", () => {
+  it("線形補間でパーセンタイルを求める", () => {
+    const sorted = [0, 10, 20, 30, 40];
+    expect(percentile(sorted, 0)).toBe(0);
+    expect(percentile(sorted, 50)).toBe(20);
+    expect(percentile(sorted, 90)).toBeCloseTo(36);
+    expect(percentile(sorted, 100)).toBe(40);
+    expect(percentile([], 50)).toBe(0);
+  });
+
+  it("ヒストグラムの度数合計はサンプル数に一致する", () => {
+    const sorted = Array.from({ length: 101 }, (_, i) => i);
+    const bins = buildHistogram(sorted, 10);
+    expect(bins).toHaveLength(10);
+    expect(bins.reduce((a, b) => a + b.count, 0)).toBe(101);
+    expect(bins[0].from).toBe(0);
+    expect(bins[9].to).toBe(100);
+  });
+
+  it("全値が同一なら1本のビン", () => {
+    const bins = buildHistogram([5, 5, 5]);
+    expect(bins).toEqual([{ from: 5, to: 5, count: 3 }]);
+  });
+});
+
+// ═══════════════════════════════════════════════
+// runMonteCarlo
+// ═══════════════════════════════════════════════
+describe("runMonteCarlo", () => {
+  const base = makePeriod();
+
+  it("全レバー固定なら分散ゼロでシナリオの経常利益に一致する", () => {
+    const scenario = makeScenario({ volumeChangeRate: 10 });
+    const expected = calculateScenario(base, scenario).ordinaryProfit;
+    const r = runMonteCarlo(base, scenario, makeFixedConfig());
+
+    expect(r.mean).toBeCloseTo(expected, 6);
+    expect(r.stdDev).toBeCloseTo(0, 6);
+    expect(r.p10).toBeCloseTo(expected, 6);
+    expect(r.p90).toBeCloseTo(expected, 6);
+    expect(r.lossProbability).toBe(0);
+  });
+
+  it("同じシードなら同じ結果を再現する", () => {
+    const scenario = makeScenario();
+    const config = createDefaultMonteCarloConfig(scenario);
+    const r1 = runMonteCarlo(base, scenario, config);
+    const r2 = runMonteCarlo(base, scenario, config);
+    expect(r1).toEqual(r2);
+
+    const r3 = runMonteCarlo(base, scenario, { ...config, seed: config.seed + 1 });
+    expect(r3.mean).not.toBe(r1.mean);
+  });
+
+  it("パーセンタイルは min ≤ P10 ≤ P50 ≤ P90 ≤ max", () => {
+    const scenario = makeScenario();
+    const r = runMonteCarlo(base, scenario, createDefaultMonteCarloConfig(scenario));
+    expect(r.min).toBeLessThanOrEqual(r.p10);
+    expect(r.p10).toBeLessThanOrEqual(r.p50);
+    expect(r.p50).toBeLessThanOrEqual(r.p90);
+    expect(r.p90).toBeLessThanOrEqual(r.max);
+    expect(r.histogram.reduce((a, b) => a + b.count, 0)).toBe(r.trials);
+  });
+
+  it("赤字確率: 販売数量変化率が損益分岐点を跨ぐ一様分布", () => {
+    // 経常利益 = 45,000 + 280,000 × s/100 → s < -16.07% で赤字
+    const config = makeFixedConfig({ trials: 20000 });
+    config.distributions.volumeChangeRate = { type: "uniform", min: -40, max: 0 };
+    const r = runMonteCarlo(base, makeScenario(), config);
+    // 理論値: (40 − 16.07) / 40 ≈ 59.8%
+    expect(r.lossProbability).toBeGreaterThan(57);
+    expect(r.lossProbability).toBeLessThan(63);
+  });
+
+  it("試行回数は下限に丸められる", () => {
+    const r = runMonteCarlo(base, makeScenario(), makeFixedConfig({ trials: 1 }));
+    expect(r.trials).toBe(MONTE_CARLO_MIN_TRIALS);
+  });
+});
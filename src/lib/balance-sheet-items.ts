@@ -0,0 +1,67 @@
+import { BalanceSheetData, BalanceSheetMetrics } from "./types";
+
+/**
+ * 貸借対照表の表示区分（入力・抽出確認・財務指標・Excelで共通）
+ * 合計欄は calculateBalanceSheetMetrics の値を表示する
+ */
+export const BALANCE_SHEET_SECTIONS: {
+  title: string;
+  items: { key: keyof BalanceSheetData; label: string }[];
+  total?: { key: keyof BalanceSheetMetrics; label: string };
+}[] = [
+  {
+    title: "流動資産",
+    items: [
+      { key: "cashAndDeposits", label: "現金預金" },
+      { key: "receivables", label: "売上債権" },
+      { key: "inventories", label: "棚卸資産" },
+      { key: "otherCurrentAssets", label: "その他流動資産" },
+    ],
+    total: { key: "totalCurrentAssets", label: "流動資産合計" },
+  },
+  {
+    title: "固定資産",
+    items: [
+      { key: "tangibleFixedAssets", label: "有形固定資産" },
+      { key: "intangibleFixedAssets", label: "無形固定資産" },
+      { key: "investmentsAndOtherAssets", label: "投資その他の資産" },
+    ],
+    total: { key: "totalFixedAssets", label: "固定資産合計" },
+  },
+  {
+    title: "流動負債",
+    items: [
+      { key: "payables", label: "仕入債務" },
+      { key: "shortTermBorrowings", label: "短期借入金" },
+      { key: "otherCurrentLiabilities", label: "その他流動負債" },
+    ],
+    total: { key: "totalCurrentLiabilities", label: "流動負債合計" },
+  },
+  {
+    title: "固定負債",
+    items: [
+      { key: "longTermBorrowings", label: "長期借入金" },
+      { key: "otherFixedLiabilities", label: "その他固定負債" },
+    ],
+    total: { key: "totalFixedLiabilities", label: "固定負債合計" },
+  },
+  {
+    title: "純資産",
+    items: [{ key: "netAssets", label: "純資産" }],
+  },
+];
+
+/** 財務指標の表示定義（guide: 中小製造業で一般的な目安） */
+export const BALANCE_SHEET_RATIOS: {
+  key: keyof BalanceSheetMetrics;
+  label: string;
+  unit: string;
+  decimals: number;
+  guide: string;
+}[] = [
+  { key: "equityRatio", label: "自己資本比率", unit: "%", decimals: 1, guide: "30%以上が目安" },
+  { key: "currentRatio", label: "流動比率", unit: "%", decimals: 1, guide: "150%以上が目安" },
+  { key: "roa", label: "ROA（総資本経常利益率）", unit: "%", decimals: 1, guide: "5%以上が目安" },
+  { key: "totalAssetTurnover", label: "総資本回転率", unit: "回", decimals: 2, guide: "高いほど資産を効率的に活用" },
+  { key: "debtToMonthlySales", label: "有利子負債月商倍率", unit: "ヶ月", decimals: 1, guide: "3ヶ月以内が目安" },
+];
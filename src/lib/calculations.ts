@@ -3,19 +3,57 @@ import {
   CalculatedMetrics,
   CompositionRatios,
   WaterfallFactors,
+  WaterfallMethod,
+  ProductivityBridge,
+  ProductivityBridges,
   Scenario,
   ScenarioResult,
+  BreakEvenAnalysis,
+  ScenarioLever,
+  ScenarioMetric,
+  GoalSeekResult,
+  SensitivityLever,
+  SensitivityRanges,
+  SensitivityAnalysis,
+  GridAxis,
+  GridSimulation,
+  PlanYear,
+  PlanYearResult,
+  VariableCostItem,
+  WageCapacityInput,
+  WageCapacityResult,
+  PassThroughInput,
+  PassThroughOutcome,
+  PassThroughTargetResult,
+  PassThroughAnalysis,
+  CapexAsset,
+  DepreciationScheduleRow,
+  CapexScheduleYear,
+  Loan,
+  LoanScheduleRow,
+  DebtRepaymentCapacity,
+  BalanceSheetData,
+  BalanceSheetMetrics,
+  InventoryAdjustment,
+  MonthlyData,
+  MonthlyTrendPoint,
+  Budget,
+  BudgetVarianceRow,
 } from "./types";
 
 /**
  * 期別実績データから自動計算項目を算出
+ * 変動費合計 = 材料費＋外注費＋商品仕入＋その他変動費＋棚卸増減調整額
+ * 税引前当期純利益 = 経常利益＋特別利益 − 特別損失、当期純利益 = 税引前当期純利益 − 法人税等
  */
 export function calculateMetrics(period: PeriodData): CalculatedMetrics {
+  const inventoryAdjustment = calculateInventoryAdjustment(period).total;
   const totalVariableCost =
     period.materialCost +
     period.outsourcingCost +
     period.merchandisePurchase +
-    period.otherVariableCost;
+    period.otherVariableCost +
+    inventoryAdjustment;
 
   const marginalProfit = period.sales - totalVariableCost;
   const marginalProfitRate =
@@ -27,6 +65,14 @@ export function calculateMetrics(period: PeriodData): CalculatedMetrics {
   const operatingProfit = marginalProfit - totalFixedCost;
   const ordinaryProfit = operatingProfit + period.nonOperatingIncome;
 
+  const extraordinaryItems =
+    (period.extraordinaryIncome ?? 0) - (period.extraordinaryLoss ?? 0);
+  const incomeBeforeTax = ordinaryProfit + extraordinaryItems;
+  const corporateTax = period.corporateTax ?? 0;
+  const netIncome = incomeBeforeTax - corporateTax;
+  const effectiveTaxRate =
+    incomeBeforeTax > 0 ? (corporateTax / incomeBeforeTax) * 100 : 0;
+
   const laborShareRate =
     marginalProfit !== 0 ? (period.laborCost / marginalProfit) * 100 : 0;
 
@@ -37,12 +83,18 @@ export function calculateMetrics(period: PeriodData): CalculatedMetrics {
   const ordinaryProfitPerEmployee = ordinaryProfit / emp;
 
   return {
+    inventoryAdjustment,
     totalVariableCost,
     marginalProfit,
     marginalProfitRate,
     totalFixedCost,
     operatingProfit,
     ordinaryProfit,
+    extraordinaryItems,
+    incomeBeforeTax,
+    corporateTax,
+    netIncome,
+    effectiveTaxRate,
     laborShareRate,
     salesPerEmployee,
     marginalProfitPerEmployee,
@@ -51,6 +103,45 @@ export function calculateMetrics(period: PeriodData): CalculatedMetrics {
   };
 }
 
+/**
+ * 棚卸増減調整額（期首棚卸高 − 期末棚卸高）
+ * 全部原価の売上原価は在庫の増減を含むため、直接原価の変動費に加算して経常利益を一致させる
+ * ※ 仕掛品・製品の増減に含まれる固定費配賦分も変動費側で調整する簡便法
+ */
+export function calculateInventoryAdjustment(period: PeriodData): InventoryAdjustment {
+  const inv = period.inventory;
+  if (!inv) {
+    return { materials: 0, workInProgress: 0, finishedGoods: 0, merchandise: 0, total: 0 };
+  }
+  const materials = inv.beginningMaterials - inv.endingMaterials;
+  const workInProgress = inv.beginningWorkInProgress - inv.endingWorkInProgress;
+  const finishedGoods = inv.beginningFinishedGoods - inv.endingFinishedGoods;
+  const merchandise = inv.beginningMerchandise - inv.endingMerchandise;
+  return {
+    materials,
+    workInProgress,
+    finishedGoods,
+    merchandise,
+    total: materials + workInProgress + finishedGoods + merchandise,
+  };
+}
+
+/**
+ * 棚卸増減調整を変動費の各項目に振り替えた期データ（棚卸高なし）
+ * 材料・仕掛品・製品の増減は材料費、商品の増減は商品仕入に含める
+ * シナリオ・価格転嫁の試算で、調整後の変動費率を基準にするために使う
+ */
+export function applyInventoryAdjustment(period: PeriodData): PeriodData {
+  if (!period.inventory) return period;
+  const adj = calculateInventoryAdjustment(period);
+  return {
+    ...period,
+    materialCost: period.materialCost + adj.materials + adj.workInProgress + adj.finishedGoods,
+    merchandisePurchase: period.merchandisePurchase + adj.merchandise,
+    inventory: undefined,
+  };
+}
+
 /**
  * 構成比（対売上高比率）を算出
  */
@@ -64,6 +155,7 @@ export function calculateCompositionRatios(
     outsourcingCostRate: (period.outsourcingCost / s) * 100,
     merchandisePurchaseRate: (period.merchandisePurchase / s) * 100,
     otherVariableCostRate: (period.otherVariableCost / s) * 100,
+    inventoryAdjustmentRate: (metrics.inventoryAdjustment / s) * 100,
     totalVariableCostRate: (metrics.totalVariableCost / s) * 100,
     marginalProfitRate: (metrics.marginalProfit / s) * 100,
     laborCostRate: (period.laborCost / s) * 100,
@@ -93,10 +185,20 @@ export function calculateYoYChange(
  * ②加工高比率貢献 = 当期売上高 ×（当期加工高比率 − 前期加工高比率）
  * ③固定費貢献 = −（当期固定費計 − 前期固定費計）
  * ④営業外損益貢献 = 当期営業外損益 − 前期営業外損益
+ *
+ * method = "shapley"（対称分解）の場合、①②を両順序の平均で評価する
+ * ①売上高貢献 =（当期売上高 − 前期売上高）×（前期加工高比率 ＋ 当期加工高比率）÷ 2
+ * ②加工高比率貢献 =（前期売上高 ＋ 当期売上高）÷ 2 ×（当期加工高比率 − 前期加工高比率）
+ *
+ * 内訳（detail）
+ * ②-n 変動費項目の率貢献 = −②の売上高 ×（当期項目率 − 前期項目率）… 合計は②に一致
+ * ③-n 固定費項目の貢献 = −（当期金額 − 前期金額）… 合計は③に一致
+ * ※ 売上高0の期を含む場合の端数と棚卸増減調整の変化は②-4 その他変動費率貢献に含める
  */
 export function calculateWaterfallFactors(
   current: PeriodData,
-  previous: PeriodData
+  previous: PeriodData,
+  method: WaterfallMethod = "sequential"
 ): WaterfallFactors {
   const currentMetrics = calculateMetrics(current);
   const previousMetrics = calculateMetrics(previous);
@@ -104,21 +206,107 @@ export function calculateWaterfallFactors(
   const prevMarginalRate = previousMetrics.marginalProfitRate / 100;
   const currMarginalRate = currentMetrics.marginalProfitRate / 100;
 
-  const salesContribution =
-    (current.sales - previous.sales) * prevMarginalRate;
+  // ①で売上高変化に掛ける加工高比率、②で加工高比率変化に掛ける売上高
+  const rateWeight =
+    method === "shapley"
+      ? (prevMarginalRate + currMarginalRate) / 2
+      : prevMarginalRate;
+  const salesWeight =
+    method === "shapley" ? (previous.sales + current.sales) / 2 : current.sales;
+
+  const salesContribution = (current.sales - previous.sales) * rateWeight;
   const marginalRateContribution =
-    current.sales * (currMarginalRate - prevMarginalRate);
+    salesWeight * (currMarginalRate - prevMarginalRate);
   const fixedCostContribution = -(
     currentMetrics.totalFixedCost - previousMetrics.totalFixedCost
   );
   const nonOperatingContribution =
     current.nonOperatingIncome - previous.nonOperatingIncome;
 
+  const rateContribution = (curr: number, prev: number) =>
+    -salesWeight *
+    ((current.sales !== 0 ? curr / current.sales : 0) -
+      (previous.sales !== 0 ? prev / previous.sales : 0));
+
+  const materialCostRateContribution = rateContribution(
+    current.materialCost,
+    previous.materialCost
+  );
+  const outsourcingCostRateContribution = rateContribution(
+    current.outsourcingCost,
+    previous.outsourcingCost
+  );
+  const merchandisePurchaseRateContribution = rateContribution(
+    current.merchandisePurchase,
+    previous.merchandisePurchase
+  );
+  const otherVariableCostRateContribution =
+    marginalRateContribution -
+    materialCostRateContribution -
+    outsourcingCostRateContribution -
+    merchandisePurchaseRateContribution;
+
   return {
     salesContribution,
     marginalRateContribution,
     fixedCostContribution,
     nonOperatingContribution,
+    detail: {
+      materialCostRateContribution,
+      outsourcingCostRateContribution,
+      merchandisePurchaseRateContribution,
+      otherVariableCostRateContribution,
+      laborCostContribution: -(current.laborCost - previous.laborCost),
+      depreciationContribution: -(current.depreciation - previous.depreciation),
+      otherExpensesContribution: -(current.otherExpenses - previous.otherExpenses),
+    },
+  };
+}
+
+/**
+ * 1人当たり生産性ブリッジ
+ * 総額 = 従業員数 × 1人当たり額 として前期→当期の変動を分解する
+ * ①人員効果 =（当期従業員数 − 前期従業員数）× 前期1人当たり額
+ * ②生産性効果 = 当期従業員数 ×（当期1人当たり額 − 前期1人当たり額）
+ * 限界利益（1人当たり加工高）と経常利益（1人当たり経常利益）の2系列を返す
+ */
+export function calculateProductivityBridge(
+  current: PeriodData,
+  previous: PeriodData
+): ProductivityBridges {
+  const currentMetrics = calculateMetrics(current);
+  const previousMetrics = calculateMetrics(previous);
+  // calculateMetrics と同じく従業員数0は1人として扱う
+  const currEmp = current.employeeCount || 1;
+  const prevEmp = previous.employeeCount || 1;
+
+  const bridge = (
+    previousValue: number,
+    currentValue: number,
+    previousPerEmployee: number,
+    currentPerEmployee: number
+  ): ProductivityBridge => ({
+    previousValue,
+    currentValue,
+    previousPerEmployee,
+    currentPerEmployee,
+    headcountEffect: (currEmp - prevEmp) * previousPerEmployee,
+    productivityEffect: currEmp * (currentPerEmployee - previousPerEmployee),
+  });
+
+  return {
+    marginalProfit: bridge(
+      previousMetrics.marginalProfit,
+      currentMetrics.marginalProfit,
+      previousMetrics.marginalProfitPerEmployee,
+      currentMetrics.marginalProfitPerEmployee
+    ),
+    ordinaryProfit: bridge(
+      previousMetrics.ordinaryProfit,
+      currentMetrics.ordinaryProfit,
+      previousMetrics.ordinaryProfitPerEmployee,
+      currentMetrics.ordinaryProfitPerEmployee
+    ),
   };
 }
 
@@ -148,8 +336,199 @@ export function validateOrdinaryProfit(period: PeriodData): {
   return { isValid: diff < 0.01, difference: diff };
 }
 
+/**
+ * 貸借対照表の集計と財務指標
+ * ① 自己資本比率 = 純資産 ÷ 総資本
+ * ② 流動比率 = 流動資産 ÷ 流動負債
+ * ③ ROA = 経常利益 ÷ 総資本、総資本回転率 = 売上高 ÷ 総資本
+ * ④ 有利子負債月商倍率 = 有利子負債 ÷（売上高 ÷ 12）
+ */
+export function calculateBalanceSheetMetrics(
+  period: PeriodData,
+  bs: BalanceSheetData
+): BalanceSheetMetrics {
+  const totalCurrentAssets =
+    bs.cashAndDeposits + bs.receivables + bs.inventories + bs.otherCurrentAssets;
+  const totalFixedAssets =
+    bs.tangibleFixedAssets + bs.intangibleFixedAssets + bs.investmentsAndOtherAssets;
+  const totalAssets = totalCurrentAssets + totalFixedAssets;
+  const totalCurrentLiabilities =
+    bs.payables + bs.shortTermBorrowings + bs.otherCurrentLiabilities;
+  const totalFixedLiabilities = bs.longTermBorrowings + bs.otherFixedLiabilities;
+  const totalLiabilitiesAndNetAssets =
+    totalCurrentLiabilities + totalFixedLiabilities + bs.netAssets;
+  const interestBearingDebt = bs.shortTermBorrowings + bs.longTermBorrowings;
+  const monthlySales = period.sales / 12;
+  const ordinaryProfit = calculateMetrics(period).ordinaryProfit;
+
+  return {
+    totalCurrentAssets,
+    totalFixedAssets,
+    totalAssets,
+    totalCurrentLiabilities,
+    totalFixedLiabilities,
+    totalLiabilitiesAndNetAssets,
+    balanceDifference: totalAssets - totalLiabilitiesAndNetAssets,
+    interestBearingDebt,
+    equityRatio: totalAssets > 0 ? (bs.netAssets / totalAssets) * 100 : 0,
+    currentRatio:
+      totalCurrentLiabilities > 0
+        ? (totalCurrentAssets / totalCurrentLiabilities) * 100
+        : 0,
+    roa: totalAssets > 0 ? (ordinaryProfit / totalAssets) * 100 : 0,
+    totalAssetTurnover: totalAssets > 0 ? period.sales / totalAssets : 0,
+    debtToMonthlySales: monthlySales > 0 ? interestBearingDebt / monthlySales : 0,
+  };
+}
+
+const MONTHLY_AMOUNT_KEYS = [
+  "sales",
+  "materialCost",
+  "outsourcingCost",
+  "merchandisePurchase",
+  "otherVariableCost",
+  "laborCost",
+  "depreciation",
+  "otherExpenses",
+  "nonOperatingIncome",
+] as const;
+
+/** 期首月と期首からの月数（1〜12）から暦月を求める */
+export function getCalendarMonth(startMonth: number, monthIndex: number): number {
+  return ((startMonth - 1 + monthIndex - 1) % 12) + 1;
+}
+
+/**
+ * 月次試算表の集計（金額は合計、従業員数は各月末人数の平均を四捨五入）
+ * 12ヶ月分を集計すると年次の期データと同じ費目構成になる
+ */
+export function aggregateMonthlyData(months: MonthlyData[]): MonthlyData {
+  const total = Object.fromEntries(
+    MONTHLY_AMOUNT_KEYS.map((key) => [key, months.reduce((sum, m) => sum + m[key], 0)])
+  ) as Omit<MonthlyData, "employeeCount">;
+  const employeeCount =
+    months.length > 0
+      ? Math.round(months.reduce((sum, m) => sum + m.employeeCount, 0) / months.length)
+      : 0;
+  return { ...total, employeeCount };
+}
+
+/** 月次の集計値を期データとして扱う（特別損益・法人税等・棚卸高・貸借対照表は持たない） */
+function monthlyToPeriod(
+  base: PeriodData,
+  months: MonthlyData[],
+  id: string,
+  label: string
+): PeriodData {
+  return { id, companyId: base.companyId, label, ...aggregateMonthlyData(months) };
+}
+
+/**
+ * 月次推移（期の並び順に月次試算表をつなげる）
+ * ① YTD = 期首からその月までの累計
+ * ② TTM = その月までの直近12ヶ月の合計（前期の月次が12ヶ月そろっている場合は期をまたいで集計）
+ * 月次が未入力の期や、12ヶ月に満たない期をはさむと TTM の連続は途切れる
+ */
+export function calculateMonthlyTrend(periods: PeriodData[]): MonthlyTrendPoint[] {
+  const points: MonthlyTrendPoint[] = [];
+  let run: MonthlyData[] = [];
+  for (const period of periods) {
+    const series = period.monthly;
+    if (!series) {
+      run = [];
+      continue;
+    }
+    series.months.forEach((m, i) => {
+      const monthIndex = i + 1;
+      const month = getCalendarMonth(series.startMonth, monthIndex);
+      const label = `${period.label} ${month}月`;
+      run = [...run.slice(-11), m];
+      points.push({
+        periodId: period.id,
+        monthIndex,
+        month,
+        label,
+        monthly: monthlyToPeriod(period, [m], `${period.id}-m${monthIndex}`, label),
+        ytd: monthlyToPeriod(
+          period,
+          series.months.slice(0, monthIndex),
+          `${period.id}-ytd${monthIndex}`,
+          `${label}累計`
+        ),
+        ttm:
+          run.length === 12
+            ? monthlyToPeriod(period, run, `${period.id}-ttm${monthIndex}`, `TTM（${label}）`)
+            : null,
+      });
+    });
+    if (series.months.length < 12) run = [];
+  }
+  return points;
+}
+
+/**
+ * 利益バランス図表・Growth Chart に追加する直近の TTM
+ * 最新月が期末月なら TTM は年次と同じになるため null
+ */
+export function getLatestTtmPeriod(periods: PeriodData[]): PeriodData | null {
+  const points = calculateMonthlyTrend(periods);
+  const latest = points[points.length - 1];
+  if (!latest || latest.monthIndex === 12) return null;
+  return latest.ttm;
+}
+
+/**
+ * 実績期の有利子負債残高
+ * 貸借対照表が入力済みの期はその期末残高、未入力の期は借入金一覧の現在残高を使う
+ */
+export function calculatePeriodInterestBearingDebt(
+  period: PeriodData,
+  loans: Loan[]
+): number {
+  return period.balanceSheet
+    ? calculateBalanceSheetMetrics(period, period.balanceSheet).interestBearingDebt
+    : calculateLoanBalance(loans);
+}
+
+/**
+ * シナリオの基準期を解決する
+ * periodId が指す期が存在すればその期、なければ既定の基準期を返す
+ */
+export function resolveScenarioBasePeriod(
+  periods: PeriodData[],
+  scenario: Scenario,
+  fallback: PeriodData
+): PeriodData {
+  return periods.find((p) => p.id === scenario.periodId) ?? fallback;
+}
+
+/**
+ * 変動費率変化を費目に按分する構成比（棚卸増減調整を振り替えた実績変動費ベース）
+ * 実績変動費が0のときは全額をその他変動費に計上する
+ */
+function getVariableCostShare(
+  basePeriod: PeriodData,
+  item: VariableCostItem
+): number {
+  const adjustedBase = applyInventoryAdjustment(basePeriod);
+  const baseTotal = calculateMetrics(basePeriod).totalVariableCost;
+  if (baseTotal === 0) return item === "otherVariableCost" ? 1 : 0;
+  return adjustedBase[item] / baseTotal;
+}
+
 /**
  * シナリオ計算
+ * ① 売上高 = 基準売上高 ×（1＋販売単価変化率）×（1＋販売数量変化率）
+ * ② 変動費（費目別）= 基準売上高 ×（1＋販売数量変化率）×（実績費目別変動費率＋費目別の変化）
+ *    費目別の変化は指定があればその値、なければ変動費率変化を実績構成比で按分した値
+ *    変動費は数量に連動し、販売単価の変化には連動しない
+ *    実績に棚卸増減調整がある場合は費目に振り替えた調整後の変動費率を使う（試算値は在庫増減なし）
+ * ③ 単価効果 = 基準売上高 ×（1＋数量変化率）× 単価変化率、数量効果 = 基準売上高 × 数量変化率
+ * ④ 減価償却費・その他経費は費目別の変化率があればそれを、なければその他固定費変化率を適用
+ *    設備投資計画と連動する場合、減価償却費 = 実績減価償却費＋設備投資による増減額
+ * ⑤ 営業外損益 = 実績営業外損益＋増減額 − 借入増減額 × 金利
+ * ⑥ 法人税等 = 税引前当期純利益（= 経常利益、特別損益は見込まない）× 実効税率（赤字なら0）
+ *    実効税率はシナリオの指定値、なければ基準期の実績税率（実績がなければ既定値）
  */
 export function calculateScenario(
   basePeriod: PeriodData,
@@ -157,45 +536,63 @@ export function calculateScenario(
 ): ScenarioResult {
   const baseMetrics = calculateMetrics(basePeriod);
 
-  // 試算売上高
-  const sales = basePeriod.sales * (1 + scenario.salesChangeRate / 100);
+  const priceFactor = 1 + scenario.priceChangeRate / 100;
+  const volumeFactor = 1 + scenario.volumeChangeRate / 100;
 
-  // 実績変動費率
-  const baseVariableCostRate =
-    basePeriod.sales !== 0
-      ? baseMetrics.totalVariableCost / basePeriod.sales
-      : 0;
+  // 基準単価での売上高（数量効果のみ）
+  const salesAtBasePrice = basePeriod.sales * volumeFactor;
+
+  // 試算売上高
+  const sales = salesAtBasePrice * priceFactor;
+  const volumeEffect = salesAtBasePrice - basePeriod.sales;
+  const priceEffect = sales - salesAtBasePrice;
 
-  // 試算変動費計
+  // 費目別の試算変動費（数量に連動）
+  const adjustedBase = applyInventoryAdjustment(basePeriod);
+  const overrides = scenario.variableCostRateOverrides ?? {};
+  const projectVariableCost = (item: VariableCostItem) => {
+    const baseRate =
+      basePeriod.sales !== 0 ? adjustedBase[item] / basePeriod.sales : 0;
+    const change =
+      overrides[item] ??
+      scenario.variableCostRateChange * getVariableCostShare(basePeriod, item);
+    return salesAtBasePrice * (baseRate + change / 100);
+  };
+  const materialCost = projectVariableCost("materialCost");
+  const outsourcingCost = projectVariableCost("outsourcingCost");
+  const merchandisePurchase = projectVariableCost("merchandisePurchase");
+  const otherVariableCost = projectVariableCost("otherVariableCost");
   const totalVariableCost =
-    sales * (baseVariableCostRate + scenario.variableCostRateChange / 100);
-
-  // 変動費各項目を構成比で按分
-  const baseTotal = baseMetrics.totalVariableCost || 1;
-  const materialCost =
-    totalVariableCost * (basePeriod.materialCost / baseTotal);
-  const outsourcingCost =
-    totalVariableCost * (basePeriod.outsourcingCost / baseTotal);
-  const merchandisePurchase =
-    totalVariableCost * (basePeriod.merchandisePurchase / baseTotal);
-  const otherVariableCost =
-    totalVariableCost * (basePeriod.otherVariableCost / baseTotal);
+    materialCost + outsourcingCost + merchandisePurchase + otherVariableCost;
 
   // 試算固定費
   const laborCost =
     basePeriod.laborCost * (1 + scenario.laborCostChangeRate / 100);
   const depreciation =
-    basePeriod.depreciation * (1 + scenario.fixedCostChangeRate / 100);
+    scenario.capexDepreciationChange !== undefined
+      ? basePeriod.depreciation + scenario.capexDepreciationChange
+      : basePeriod.depreciation *
+        (1 + (scenario.depreciationChangeRate ?? scenario.fixedCostChangeRate) / 100);
   const otherExpenses =
-    basePeriod.otherExpenses * (1 + scenario.fixedCostChangeRate / 100);
+    basePeriod.otherExpenses *
+    (1 + (scenario.otherExpensesChangeRate ?? scenario.fixedCostChangeRate) / 100);
 
   const totalFixedCost = laborCost + depreciation + otherExpenses;
   const marginalProfit = sales - totalVariableCost;
   const marginalProfitRate = sales !== 0 ? (marginalProfit / sales) * 100 : 0;
   const operatingProfit = marginalProfit - totalFixedCost;
-  const nonOperatingIncome = basePeriod.nonOperatingIncome; // 据え置き
+  const nonOperatingIncomeChange = scenario.nonOperatingIncomeChange ?? 0;
+  const interestExpenseChange =
+    ((scenario.borrowingChange ?? 0) * (scenario.borrowingInterestRate ?? 0)) / 100;
+  const nonOperatingIncome =
+    basePeriod.nonOperatingIncome + nonOperatingIncomeChange - interestExpenseChange;
   const ordinaryProfit = operatingProfit + nonOperatingIncome;
 
+  const incomeBeforeTax = ordinaryProfit;
+  const effectiveTaxRate = scenario.effectiveTaxRate ?? getBaseEffectiveTaxRate(baseMetrics);
+  const corporateTax = Math.max(0, incomeBeforeTax) * (effectiveTaxRate / 100);
+  const netIncome = incomeBeforeTax - corporateTax;
+
   const emp = scenario.employeeCount || 1;
   const laborShareRate =
     marginalProfit !== 0 ? (laborCost / marginalProfit) * 100 : 0;
@@ -204,7 +601,11 @@ export function calculateScenario(
 
   return {
     scenario,
+    basePeriodId: basePeriod.id,
+    basePeriodLabel: basePeriod.label,
     sales,
+    priceEffect,
+    volumeEffect,
     totalVariableCost,
     materialCost,
     outsourcingCost,
@@ -218,7 +619,13 @@ export function calculateScenario(
     totalFixedCost,
     operatingProfit,
     nonOperatingIncome,
+    nonOperatingIncomeChange,
+    interestExpenseChange,
     ordinaryProfit,
+    incomeBeforeTax,
+    effectiveTaxRate,
+    corporateTax,
+    netIncome,
     laborShareRate,
     salesPerEmployee: sales / emp,
     marginalProfitPerEmployee: marginalProfit / emp,
@@ -232,6 +639,963 @@ export function calculateScenario(
   };
 }
 
+/**
+ * シナリオ計算結果を期データに変換（実績と同じ分析関数に渡すため）
+ * 期ID・ラベルはシナリオのもの、従業員数はシナリオの従業員数
+ */
+export function scenarioResultToPeriod(
+  basePeriod: PeriodData,
+  result: ScenarioResult
+): PeriodData {
+  return {
+    ...basePeriod,
+    id: result.scenario.id,
+    label: result.scenario.label,
+    sales: result.sales,
+    materialCost: result.materialCost,
+    outsourcingCost: result.outsourcingCost,
+    merchandisePurchase: result.merchandisePurchase,
+    otherVariableCost: result.otherVariableCost,
+    laborCost: result.laborCost,
+    depreciation: result.depreciation,
+    otherExpenses: result.otherExpenses,
+    nonOperatingIncome: result.nonOperatingIncome,
+    employeeCount: result.scenario.employeeCount,
+    extraordinaryIncome: 0,
+    extraordinaryLoss: 0,
+    corporateTax: result.corporateTax,
+    inventory: undefined,
+  };
+}
+
+/**
+ * 基準期→シナリオの経常利益増減を要因分解
+ * 前期→当期と同じ分解（calculateWaterfallFactors）を、基準期を前期・シナリオを当期として適用する
+ */
+export function calculateScenarioWaterfallFactors(
+  basePeriod: PeriodData,
+  result: ScenarioResult,
+  method: WaterfallMethod = "sequential"
+): WaterfallFactors {
+  return calculateWaterfallFactors(
+    scenarioResultToPeriod(basePeriod, result),
+    basePeriod,
+    method
+  );
+}
+
+/**
+ * レバーを指定値に変更したシナリオ（逆算・感度分析・2次元シミュレーション・モンテカルロ用）
+ * 費目別の指定や設備投資連動がある費目は全体レバーを無視するため、全体レバーの変化分を上乗せする
+ * ① 変動費率変化: 指定済みの費目別変動費率変化に、変化分を実績構成比で按分して加算
+ * ② その他固定費変化率: 指定済みの減価償却費・その他経費変化率に変化分を加算し、
+ *    設備投資連動の減価償却費には実績減価償却費 × 変化分を加算
+ */
+export function withScenarioLever(
+  basePeriod: PeriodData,
+  scenario: Scenario,
+  lever: SensitivityLever,
+  value: number
+): Scenario {
+  const next: Scenario = { ...scenario, [lever]: value };
+  const delta = value - scenario[lever];
+
+  if (lever === "variableCostRateChange" && scenario.variableCostRateOverrides) {
+    const overrides = { ...scenario.variableCostRateOverrides };
+    for (const item of Object.keys(overrides) as VariableCostItem[]) {
+      overrides[item] =
+        (overrides[item] ?? 0) + delta * getVariableCostShare(basePeriod, item);
+    }
+    next.variableCostRateOverrides = overrides;
+  }
+
+  if (lever === "fixedCostChangeRate") {
+    if (scenario.depreciationChangeRate !== undefined) {
+      next.depreciationChangeRate = scenario.depreciationChangeRate + delta;
+    }
+    if (scenario.otherExpensesChangeRate !== undefined) {
+      next.otherExpensesChangeRate = scenario.otherExpensesChangeRate + delta;
+    }
+    if (scenario.capexDepreciationChange !== undefined) {
+      next.capexDepreciationChange =
+        scenario.capexDepreciationChange + (basePeriod.depreciation * delta) / 100;
+    }
+  }
+
+  return next;
+}
+
+/** 逆算時の各レバーの探索範囲 [下限, 上限] */
+export const GOAL_SEEK_RANGES: Record<ScenarioLever, [number, number]> = {
+  priceChangeRate: [-100, 1000],
+  volumeChangeRate: [-100, 1000],
+  variableCostRateChange: [-100, 100],
+  laborCostChangeRate: [-100, 1000],
+  fixedCostChangeRate: [-100, 1000],
+};
+
+function getScenarioMetricValue(
+  result: ScenarioResult,
+  metric: ScenarioMetric
+): number {
+  switch (metric) {
+    case "laborShareRate":
+      return result.laborShareRate;
+    case "ordinaryProfitPerEmployee":
+      return result.ordinaryProfitPerEmployee;
+    default:
+      return result.ordinaryProfit;
+  }
+}
+
+/**
+ * 逆算（ゴールシーク）
+ * 他のレバーを固定したまま、指定レバーを動かして目標指標に一致する値を二分法で探索する。
+ * 探索範囲内で目標を挟めない場合は achieved: false を返す。
+ */
+export function goalSeekScenario(
+  basePeriod: PeriodData,
+  scenario: Scenario,
+  lever: ScenarioLever,
+  metric: ScenarioMetric,
+  target: number
+): GoalSeekResult {
+  const evaluate = (x: number) =>
+    getScenarioMetricValue(
+      calculateScenario(basePeriod, withScenarioLever(basePeriod, scenario, lever, x)),
+      metric
+    ) - target;
+
+  const notAchieved: GoalSeekResult = {
+    lever,
+    metric,
+    target,
+    achieved: false,
+    value: null,
+    result: null,
+  };
+
+  let [lo, hi] = GOAL_SEEK_RANGES[lever];
+  let fLo = evaluate(lo);
+  const fHi = evaluate(hi);
+  if (Math.sign(fLo) === Math.sign(fHi) && fLo !== 0 && fHi !== 0) {
+    return notAchieved;
+  }
+
+  for (let i = 0; i < 100 && hi - lo > 1e-9; i++) {
+    const mid = (lo + hi) / 2;
+    const fMid = evaluate(mid);
+    if (fMid === 0) {
+      lo = hi = mid;
+      break;
+    }
+    if (Math.sign(fMid) === Math.sign(fLo)) {
+      lo = mid;
+      fLo = fMid;
+    } else {
+      hi = mid;
+    }
+  }
+
+  const value = (lo + hi) / 2;
+  const result = calculateScenario(
+    basePeriod,
+    withScenarioLever(basePeriod, scenario, lever, value)
+  );
+
+  // 労働分配率など不連続点（限界利益0）に収束した場合は未達扱い
+  const tolerance = Math.max(Math.abs(target) * 1e-6, 1e-3);
+  if (Math.abs(getScenarioMetricValue(result, metric) - target) > tolerance) {
+    return notAchieved;
+  }
+
+  return { lever, metric, target, achieved: true, value, result };
+}
+
+/** 感度分析のデフォルト摂動幅 */
+export const DEFAULT_SENSITIVITY_RANGES: SensitivityRanges = {
+  priceChangeRate: 5,
+  volumeChangeRate: 10,
+  variableCostRateChange: 2,
+  laborCostChangeRate: 10,
+  fixedCostChangeRate: 10,
+  employeeCount: 5,
+};
+
+/**
+ * 感度分析（トルネードチャート用）
+ * 現在のシナリオを中心に各レバーを ±range だけ動かし、指標の変化幅が大きい順に並べる。
+ * 従業員数は人件費に連動しないため、1人当たり経常利益のときだけ対象とし、下限を1人とする。
+ */
+export function calculateSensitivity(
+  basePeriod: PeriodData,
+  scenario: Scenario,
+  ranges: SensitivityRanges = DEFAULT_SENSITIVITY_RANGES,
+  metric: ScenarioMetric = "ordinaryProfit"
+): SensitivityAnalysis {
+  const evaluate = (lever: SensitivityLever, value: number) =>
+    getScenarioMetricValue(
+      calculateScenario(basePeriod, withScenarioLever(basePeriod, scenario, lever, value)),
+      metric
+    );
+
+  const levers = (Object.keys(ranges) as SensitivityLever[]).filter(
+    (lever) => lever !== "employeeCount" || metric === "ordinaryProfitPerEmployee"
+  );
+  const items = levers.map((lever) => {
+    const baseValue = scenario[lever];
+    const range = Math.abs(ranges[lever]);
+    const lowValue =
+      lever === "employeeCount"
+        ? Math.max(1, baseValue - range)
+        : baseValue - range;
+    const highValue = baseValue + range;
+    const lowResult = evaluate(lever, lowValue);
+    const highResult = evaluate(lever, highValue);
+    return {
+      lever,
+      baseValue,
+      lowValue,
+      highValue,
+      lowResult,
+      highResult,
+      impact: Math.abs(highResult - lowResult),
+    };
+  });
+
+  items.sort((a, b) => b.impact - a.impact);
+
+  return {
+    metric,
+    baseResult: getScenarioMetricValue(
+      calculateScenario(basePeriod, scenario),
+      metric
+    ),
+    items,
+  };
+}
+
+/** 2次元シミュレーションの1軸あたりの最大分割数 */
+export const GRID_MAX_STEPS = 41;
+
+/**
+ * 軸の値リストを生成（浮動小数の誤差を丸め、最大 GRID_MAX_STEPS 点）
+ */
+export function generateGridAxisValues(axis: GridAxis): number[] {
+  const lo = Math.min(axis.min, axis.max);
+  const hi = Math.max(axis.min, axis.max);
+  const step = axis.step > 0 ? axis.step : hi - lo || 1;
+  const values: number[] = [];
+  for (let i = 0; i < GRID_MAX_STEPS; i++) {
+    const v = Math.round((lo + step * i) * 1e6) / 1e6;
+    if (v > hi + 1e-9) break;
+    values.push(v);
+  }
+  return values;
+}
+
+/**
+ * 2次元シミュレーション（データテーブル）
+ * 2つのレバーを同時に掃引し、各セルの経常利益・労働分配率を算出する。
+ * その他のレバーは scenario の値のまま固定。
+ */
+export function calculateGridSimulation(
+  basePeriod: PeriodData,
+  scenario: Scenario,
+  xAxis: GridAxis,
+  yAxis: GridAxis
+): GridSimulation {
+  const xValues = generateGridAxisValues(xAxis);
+  const yValues = generateGridAxisValues(yAxis);
+
+  const cells = yValues.map((yValue) =>
+    xValues.map((xValue) => {
+      const r = calculateScenario(
+        basePeriod,
+        withScenarioLever(
+          basePeriod,
+          withScenarioLever(basePeriod, scenario, yAxis.lever, yValue),
+          xAxis.lever,
+          xValue
+        )
+      );
+      return {
+        xValue,
+        yValue,
+        ordinaryProfit: r.ordinaryProfit,
+        laborShareRate: r.laborShareRate,
+        isBreakEvenBoundary: false,
+      };
+    })
+  );
+
+  // 上下左右の隣接セルと経常利益の符号が異なるセルを損益分岐線として印を付ける
+  const isProfit = (y: number, x: number) => cells[y][x].ordinaryProfit >= 0;
+  for (let y = 0; y < cells.length; y++) {
+    for (let x = 0; x < cells[y].length; x++) {
+      const self = isProfit(y, x);
+      const neighbors = [
+        [y - 1, x],
+        [y + 1, x],
+        [y, x - 1],
+        [y, x + 1],
+      ].filter(
+        ([ny, nx]) => ny >= 0 && ny < cells.length && nx >= 0 && nx < cells[y].length
+      );
+      cells[y][x].isBreakEvenBoundary = neighbors.some(
+        ([ny, nx]) => isProfit(ny, nx) !== self
+      );
+    }
+  }
+
+  return { xAxis, yAxis, xValues, yValues, cells };
+}
+
+/**
+ * 損益分岐点分析（経常利益ベース）
+ * 損益分岐点売上高 =（固定費計 − 営業外損益）÷ 限界利益率
+ * 安全余裕率 = 100 − 損益分岐点比率
+ * 損益分岐点比率 = 損益分岐点売上高 ÷ 売上高 × 100
+ * 経営レバレッジ係数 = 限界利益 ÷ 経常利益
+ */
+function analyzeBreakEven(
+  sales: number,
+  marginalProfit: number,
+  totalFixedCost: number,
+  nonOperatingIncome: number,
+  ordinaryProfit: number
+): BreakEvenAnalysis {
+  const marginalRate = sales !== 0 ? marginalProfit / sales : 0;
+
+  // 売上0・限界利益率0以下では売上をいくら増やしても分岐点に届かない
+  if (sales <= 0 || marginalRate <= 0) {
+    return {
+      breakEvenSales: 0,
+      marginOfSafetyRate: 0,
+      breakEvenPointRate: 0,
+      operatingLeverage: 0,
+      isAttainable: false,
+    };
+  }
+
+  // 営業外損益が固定費を上回る場合は売上0で黒字のため下限0
+  const breakEvenSales = Math.max(
+    0,
+    (totalFixedCost - nonOperatingIncome) / marginalRate
+  );
+  const breakEvenPointRate = (breakEvenSales / sales) * 100;
+
+  return {
+    breakEvenSales,
+    marginOfSafetyRate: 100 - breakEvenPointRate,
+    breakEvenPointRate,
+    operatingLeverage:
+      ordinaryProfit !== 0 ? marginalProfit / ordinaryProfit : 0,
+    isAttainable: true,
+  };
+}
+
+/**
+ * 期別実績データの損益分岐点分析
+ */
+export function calculateBreakEven(period: PeriodData): BreakEvenAnalysis {
+  const metrics = calculateMetrics(period);
+  return analyzeBreakEven(
+    period.sales,
+    metrics.marginalProfit,
+    metrics.totalFixedCost,
+    period.nonOperatingIncome,
+    metrics.ordinaryProfit
+  );
+}
+
+/**
+ * シナリオ計算結果の損益分岐点分析
+ */
+export function calculateScenarioBreakEven(
+  result: ScenarioResult
+): BreakEvenAnalysis {
+  return analyzeBreakEven(
+    result.sales,
+    result.marginalProfit,
+    result.totalFixedCost,
+    result.nonOperatingIncome,
+    result.ordinaryProfit
+  );
+}
+
+/**
+ * 資産ごとの減価償却スケジュール（取得年度から耐用年数分）
+ * ① 定額法: 取得価額 ÷ 耐用年数
+ * ② 定率法: 期首帳簿価額 × 償却率（2 ÷ 耐用年数）。残存年数での均等償却額を下回る年度からは
+ *    均等償却に切り替え、耐用年数で償却を終える
+ */
+export function calculateDepreciationSchedule(
+  asset: CapexAsset
+): DepreciationScheduleRow[] {
+  const life = Math.max(1, Math.round(asset.usefulLife));
+  const rows: DepreciationScheduleRow[] = [];
+  let bookValue = asset.acquisitionCost;
+
+  for (let i = 0; i < life; i++) {
+    const amount =
+      asset.method === "decliningBalance"
+        ? Math.max(bookValue * (2 / life), bookValue / (life - i))
+        : asset.acquisitionCost / life;
+    const depreciation = Math.min(bookValue, amount);
+    bookValue -= depreciation;
+    rows.push({ year: asset.startYear + i, depreciation, bookValue });
+  }
+  return rows;
+}
+
+/**
+ * 登録資産の年度別減価償却費合計
+ */
+export function calculateCapexDepreciation(
+  assets: CapexAsset[],
+  year: number
+): number {
+  return assets.reduce(
+    (sum, asset) =>
+      sum +
+      (calculateDepreciationSchedule(asset).find((r) => r.year === year)
+        ?.depreciation ?? 0),
+    0
+  );
+}
+
+/**
+ * 設備投資による減価償却費の前年度比増減
+ * 実績の減価償却費に登録資産の増減だけを上乗せする（未登録の既存資産分は据え置き）
+ */
+export function calculateCapexDepreciationChange(
+  assets: CapexAsset[],
+  year: number
+): number {
+  return (
+    calculateCapexDepreciation(assets, year) -
+    calculateCapexDepreciation(assets, year - 1)
+  );
+}
+
+/**
+ * 設備投資計画の年度別集計（fromYear〜toYear）
+ */
+export function calculateCapexSchedule(
+  assets: CapexAsset[],
+  fromYear: number,
+  toYear: number
+): CapexScheduleYear[] {
+  const schedules = assets.map((asset) => ({
+    asset,
+    rows: calculateDepreciationSchedule(asset),
+  }));
+  const result: CapexScheduleYear[] = [];
+
+  for (let year = fromYear; year <= toYear; year++) {
+    let capex = 0;
+    let depreciation = 0;
+    let bookValue = 0;
+    for (const { asset, rows } of schedules) {
+      if (asset.startYear === year) capex += asset.acquisitionCost;
+      const row = rows.find((r) => r.year === year);
+      if (row) {
+        depreciation += row.depreciation;
+        bookValue += row.bookValue;
+      }
+    }
+    result.push({
+      year,
+      capex,
+      depreciation,
+      bookValue,
+      depreciationChange: calculateCapexDepreciationChange(assets, year),
+    });
+  }
+  return result;
+}
+
+/** 簡易キャッシュフローで想定する税率（%）の初期値 */
+export const DEFAULT_LOAN_TAX_RATE = 30;
+
+/** シナリオの実効税率（%）の既定値（基準期に法人税等の実績がない場合） */
+export const DEFAULT_EFFECTIVE_TAX_RATE = 30;
+
+/** シナリオで実効税率を指定しない場合の税率（基準期の実績税率、実績がなければ既定値） */
+export function getBaseEffectiveTaxRate(baseMetrics: CalculatedMetrics): number {
+  return baseMetrics.corporateTax > 0 && baseMetrics.incomeBeforeTax > 0
+    ? baseMetrics.effectiveTaxRate
+    : DEFAULT_EFFECTIVE_TAX_RATE;
+}
+
+/**
+ * 借入金ごとの返済スケジュール（最新実績期の翌期を1年目とし、残存返済年数分）
+ * ① 支払利息 = 期首残高 × 年利
+ * ② 元金均等: 元金返済額 = 当初残高 ÷ 残存年数
+ * ③ 元利均等: 返済額 = 残高 × r ÷（1 −（1＋r）^−n）、元金返済額 = 返済額 − 支払利息
+ * ④ 期日一括: 最終年度に残高を一括返済
+ */
+export function calculateLoanSchedule(loan: Loan): LoanScheduleRow[] {
+  if (loan.balance <= 0) return [];
+  const years = Math.max(1, Math.round(loan.remainingYears));
+  const rate = loan.interestRate / 100;
+  const payment =
+    rate > 0
+      ? (loan.balance * rate) / (1 - Math.pow(1 + rate, -years))
+      : loan.balance / years;
+  const rows: LoanScheduleRow[] = [];
+  let balance = loan.balance;
+
+  for (let i = 0; i < years; i++) {
+    const interest = balance * rate;
+    let principal: number;
+    if (i === years - 1) {
+      principal = balance;
+    } else if (loan.method === "equalPayment") {
+      principal = payment - interest;
+    } else if (loan.method === "bullet") {
+      principal = 0;
+    } else {
+      principal = loan.balance / years;
+    }
+    rows.push({
+      year: i + 1,
+      openingBalance: balance,
+      interest,
+      principal,
+      closingBalance: balance - principal,
+    });
+    balance -= principal;
+  }
+  return rows;
+}
+
+/**
+ * 借入金全体の年度別返済スケジュール（1〜years年目）
+ */
+export function calculateLoanPortfolioSchedule(
+  loans: Loan[],
+  years: number
+): LoanScheduleRow[] {
+  const schedules = loans.map(calculateLoanSchedule);
+  const result: LoanScheduleRow[] = [];
+  for (let year = 1; year <= years; year++) {
+    const row: LoanScheduleRow = {
+      year,
+      openingBalance: 0,
+      interest: 0,
+      principal: 0,
+      closingBalance: 0,
+    };
+    for (const rows of schedules) {
+      const r = rows.find((x) => x.year === year);
+      if (!r) continue;
+      row.openingBalance += r.openingBalance;
+      row.interest += r.interest;
+      row.principal += r.principal;
+      row.closingBalance += r.closingBalance;
+    }
+    result.push(row);
+  }
+  return result;
+}
+
+/**
+ * 借入金残高の合計（最新実績期末）
+ */
+export function calculateLoanBalance(loans: Loan[]): number {
+  return loans.reduce((sum, loan) => sum + Math.max(0, loan.balance), 0);
+}
+
+/**
+ * 債務償還能力
+ * ① 簡易キャッシュフロー = 経常利益 ×（1 − 税率）＋ 減価償却費（赤字時は税額0）
+ * ② 債務償還年数 = 有利子負債残高 ÷ 簡易キャッシュフロー
+ */
+export function calculateDebtRepaymentCapacity(
+  ordinaryProfit: number,
+  depreciation: number,
+  debt: number,
+  taxRate: number = DEFAULT_LOAN_TAX_RATE
+): DebtRepaymentCapacity {
+  const tax = ordinaryProfit > 0 ? (ordinaryProfit * taxRate) / 100 : 0;
+  const cashFlow = ordinaryProfit - tax + depreciation;
+  return {
+    ordinaryProfit,
+    tax,
+    depreciation,
+    cashFlow,
+    debt,
+    repaymentYears: cashFlow > 0 ? debt / cashFlow : null,
+  };
+}
+
+/**
+ * シナリオの債務償還能力（有利子負債 = 基準期の有利子負債＋シナリオの借入増減額）
+ * 基準期の有利子負債は実績期と同じく calculatePeriodInterestBearingDebt で求める
+ */
+export function calculateScenarioDebtRepaymentCapacity(
+  result: ScenarioResult,
+  basePeriod: PeriodData,
+  loans: Loan[],
+  taxRate: number = DEFAULT_LOAN_TAX_RATE
+): DebtRepaymentCapacity {
+  return calculateDebtRepaymentCapacity(
+    result.ordinaryProfit,
+    result.depreciation,
+    Math.max(
+      0,
+      calculatePeriodInterestBearingDebt(basePeriod, loans) +
+        (result.scenario.borrowingChange ?? 0)
+    ),
+    taxRate
+  );
+}
+
+/**
+ * 中期経営計画の試算
+ * 起点期（直近期）から各年度のパラメータを前年度の試算値に連鎖適用する
+ * ① 売上高 = 前年売上高 ×（1＋売上高成長率）
+ * ② 変動費率 = 前年変動費率＋変動費率変化（各項目は前年構成比で按分）
+ * ③ 人件費 = 前年人件費 ×（1＋賃上げ率）× 従業員数 ÷ 前年従業員数
+ * ④ 減価償却費・その他経費 = 前年 ×（1＋変化率）、営業外損益は据え置き
+ *    設備投資計画の資産があれば、減価償却費 = 前年＋設備投資による増減（計画1年目 = 年度1）
+ * ⑤ 法人税等 = 経常利益 × 前年度の実効税率（特別損益は見込まない）
+ */
+export function calculateManagementPlan(
+  basePeriod: PeriodData,
+  years: PlanYear[],
+  capexAssets: CapexAsset[] = []
+): PlanYearResult[] {
+  const results: PlanYearResult[] = [];
+  let prev = basePeriod;
+
+  for (const [index, plan] of years.entries()) {
+    const prevEmp = prev.employeeCount || 1;
+    const laborCostChangeRate =
+      ((1 + plan.wageIncreaseRate / 100) * (plan.employeeCount / prevEmp) - 1) *
+      100;
+
+    const r = calculateScenario(prev, {
+      id: plan.id,
+      periodId: prev.id,
+      label: plan.label,
+      priceChangeRate: 0,
+      volumeChangeRate: plan.salesGrowthRate,
+      variableCostRateChange: plan.variableCostRateChange,
+      laborCostChangeRate,
+      fixedCostChangeRate: plan.fixedCostChangeRate,
+      employeeCount: plan.employeeCount,
+      capexDepreciationChange:
+        capexAssets.length > 0
+          ? calculateCapexDepreciationChange(capexAssets, index + 1)
+          : undefined,
+    });
+
+    const period: PeriodData = {
+      id: plan.id,
+      companyId: basePeriod.companyId,
+      label: plan.label,
+      sales: r.sales,
+      materialCost: r.materialCost,
+      outsourcingCost: r.outsourcingCost,
+      merchandisePurchase: r.merchandisePurchase,
+      otherVariableCost: r.otherVariableCost,
+      laborCost: r.laborCost,
+      depreciation: r.depreciation,
+      otherExpenses: r.otherExpenses,
+      nonOperatingIncome: r.nonOperatingIncome,
+      employeeCount: plan.employeeCount,
+      corporateTax: r.corporateTax,
+    };
+
+    results.push({ plan, period, metrics: calculateMetrics(period) });
+    prev = period;
+  }
+
+  return results;
+}
+
+/**
+ * 期データ（シナリオ結果を期データにしたものを含む）から予算を作成する
+ * 棚卸高は変動費に振り替えた値を使い、貸借対照表・月次は引き継がない
+ */
+export function createBudgetFromPeriod(
+  source: PeriodData,
+  target: Pick<PeriodData, "id" | "label">,
+  id: string,
+  sourceScenarioLabel?: string
+): Budget {
+  const p = applyInventoryAdjustment(source);
+  return {
+    id,
+    companyId: p.companyId,
+    periodId: target.id,
+    label: `${target.label} 予算`,
+    sourceScenarioLabel,
+    sales: p.sales,
+    materialCost: p.materialCost,
+    outsourcingCost: p.outsourcingCost,
+    merchandisePurchase: p.merchandisePurchase,
+    otherVariableCost: p.otherVariableCost,
+    laborCost: p.laborCost,
+    depreciation: p.depreciation,
+    otherExpenses: p.otherExpenses,
+    nonOperatingIncome: p.nonOperatingIncome,
+    employeeCount: p.employeeCount,
+    extraordinaryIncome: p.extraordinaryIncome ?? 0,
+    extraordinaryLoss: p.extraordinaryLoss ?? 0,
+    corporateTax: p.corporateTax ?? 0,
+  };
+}
+
+/**
+ * 予実差異（実績 − 予算）を損益の行ごとに算出
+ * 差異率は予算の絶対値に対する比率（予算0の行・限界利益率の行は null）
+ * 棚卸増減調整・特別損益は予算・実績とも0なら行を省略する
+ */
+export function calculateBudgetVariance(budget: Budget, actual: PeriodData): BudgetVarianceRow[] {
+  const b = calculateMetrics(budget);
+  const a = calculateMetrics(actual);
+  const rows: BudgetVarianceRow[] = [];
+  const add = (
+    label: string,
+    budgetValue: number,
+    actualValue: number,
+    opts: { isCost?: boolean; isTotal?: boolean; unit?: BudgetVarianceRow["unit"] } = {}
+  ) => {
+    const unit = opts.unit ?? "千円";
+    const variance = actualValue - budgetValue;
+    rows.push({
+      label,
+      unit,
+      budget: budgetValue,
+      actual: actualValue,
+      variance,
+      varianceRate:
+        unit !== "%" && budgetValue !== 0 ? (variance / Math.abs(budgetValue)) * 100 : null,
+      isCost: opts.isCost ?? false,
+      isTotal: opts.isTotal ?? false,
+    });
+  };
+
+  add("売上高", budget.sales, actual.sales, { isTotal: true });
+  add("材料費", budget.materialCost, actual.materialCost, { isCost: true });
+  add("外注費", budget.outsourcingCost, actual.outsourcingCost, { isCost: true });
+  add("商品仕入", budget.merchandisePurchase, actual.merchandisePurchase, { isCost: true });
+  add("その他変動費", budget.otherVariableCost, actual.otherVariableCost, { isCost: true });
+  if (b.inventoryAdjustment !== 0 || a.inventoryAdjustment !== 0) {
+    add("棚卸増減調整", b.inventoryAdjustment, a.inventoryAdjustment, { isCost: true });
+  }
+  add("変動費合計", b.totalVariableCost, a.totalVariableCost, { isCost: true, isTotal: true });
+  add("限界利益", b.marginalProfit, a.marginalProfit, { isTotal: true });
+  add("限界利益率", b.marginalProfitRate, a.marginalProfitRate, { unit: "%" });
+  add("人件費", budget.laborCost, actual.laborCost, { isCost: true });
+  add("減価償却費", budget.depreciation, actual.depreciation, { isCost: true });
+  add("その他経費", budget.otherExpenses, actual.otherExpenses, { isCost: true });
+  add("固定費合計", b.totalFixedCost, a.totalFixedCost, { isCost: true, isTotal: true });
+  add("営業利益", b.operatingProfit, a.operatingProfit, { isTotal: true });
+  add("営業外損益", budget.nonOperatingIncome, actual.nonOperatingIncome);
+  add("経常利益", b.ordinaryProfit, a.ordinaryProfit, { isTotal: true });
+  if (b.extraordinaryItems !== 0 || a.extraordinaryItems !== 0) {
+    add("特別損益", b.extraordinaryItems, a.extraordinaryItems);
+  }
+  add("法人税等", b.corporateTax, a.corporateTax, { isCost: true });
+  add("当期純利益", b.netIncome, a.netIncome, { isTotal: true });
+  add("従業員数", budget.employeeCount, actual.employeeCount, { unit: "人" });
+  return rows;
+}
+
+/**
+ * 賃上げ原資・価格転嫁の試算をシナリオに反映するときに解除するレバー
+ * どちらも基準期の費目構成・固定費・営業外損益を前提に試算するため、
+ * 全体レバーより優先される費目別の指定・設備投資連動・借入増減を外して試算結果を再現する
+ */
+export const CALCULATOR_SCENARIO_RESET: Partial<Scenario> = {
+  variableCostRateOverrides: undefined,
+  depreciationChangeRate: undefined,
+  otherExpensesChangeRate: undefined,
+  nonOperatingIncomeChange: undefined,
+  borrowingChange: undefined,
+  borrowingInterestRate: undefined,
+  capexDepreciationChange: undefined,
+};
+
+/**
+ * 賃上げ原資の試算
+ * ① 労働分配率による上限 = 限界利益 × 目標労働分配率
+ * ② 経常利益による上限 = 限界利益 −（減価償却費＋その他経費）＋ 営業外損益 − 目標経常利益
+ * 人件費上限 = min(①, ②)、賃上げ原資 = 人件費上限 − 現在の人件費
+ * 希望賃上げに必要な限界利益 = max(希望人件費 ÷ 目標労働分配率, 希望人件費 ＋ その他固定費 − 営業外損益 ＋ 目標経常利益)
+ * 必要売上高成長率 = 必要限界利益 ÷ 現在の限界利益 − 1（限界利益率一定）
+ */
+export function calculateWageCapacity(
+  period: PeriodData,
+  input: WageCapacityInput
+): WageCapacityResult {
+  const metrics = calculateMetrics(period);
+  const emp = period.employeeCount || 1;
+  const otherFixedCost = period.depreciation + period.otherExpenses;
+  const targetShare = input.targetLaborShareRate / 100;
+
+  const maxLaborCostByShare = metrics.marginalProfit * targetShare;
+  const maxLaborCostByProfit =
+    metrics.marginalProfit -
+    otherFixedCost +
+    period.nonOperatingIncome -
+    input.targetOrdinaryProfit;
+  const bindingConstraint =
+    maxLaborCostByShare <= maxLaborCostByProfit ? "laborShare" : "ordinaryProfit";
+  const maxLaborCost = Math.min(maxLaborCostByShare, maxLaborCostByProfit);
+  const laborCostHeadroom = maxLaborCost - period.laborCost;
+
+  const requestedLaborCost =
+    period.laborCost * (1 + input.requestedRaiseRate / 100);
+  const requiredByShare =
+    targetShare > 0 ? requestedLaborCost / targetShare : Infinity;
+  const requiredByProfit =
+    requestedLaborCost +
+    otherFixedCost -
+    period.nonOperatingIncome +
+    input.targetOrdinaryProfit;
+  const requiredMarginalProfit = Math.max(requiredByShare, requiredByProfit);
+
+  const requiredSalesGrowthRate =
+    metrics.marginalProfit > 0 && Number.isFinite(requiredMarginalProfit)
+      ? (requiredMarginalProfit / metrics.marginalProfit - 1) * 100
+      : null;
+
+  return {
+    currentLaborCost: period.laborCost,
+    maxLaborCostByShare,
+    maxLaborCostByProfit,
+    maxLaborCost,
+    bindingConstraint,
+    laborCostHeadroom,
+    allowableRaisePerEmployee: laborCostHeadroom / emp,
+    allowableRaiseRate:
+      period.laborCost !== 0 ? (laborCostHeadroom / period.laborCost) * 100 : 0,
+    requestedLaborCost,
+    requiredMarginalProfit,
+    requiredSalesGrowthRate,
+  };
+}
+
+/**
+ * 価格転嫁シミュレーション
+ * 販売単価変化率 p、価格弾力性 ε のとき販売数量は（1＋εp）倍になる（数量据え置きは ε = 0）
+ * ① 売上高 = 基準売上高 ×（1＋p）×（1＋εp）
+ * ② 変動費 = Σ 各費目 ×（1＋単価上昇率）×（1＋εp）
+ * 限界利益額・経常利益の維持は ① − ② が目標額となる p を二次方程式で求める（0に近い解を採用）
+ * 限界利益率の維持は数量に依存せず p = 単価上昇後の変動費 ÷ 基準変動費 − 1
+ */
+export function analyzePassThrough(
+  period: PeriodData,
+  input: PassThroughInput
+): PassThroughAnalysis {
+  const baseMetrics = calculateMetrics(period);
+  const baseSales = period.sales;
+  const baseTotalVariableCost = baseMetrics.totalVariableCost;
+
+  // 棚卸増減調整は費目に振り替えて単価上昇率を掛ける
+  const adjusted = applyInventoryAdjustment(period);
+  const inflatedVariableCost =
+    adjusted.materialCost * (1 + input.materialInflationRate / 100) +
+    adjusted.outsourcingCost * (1 + input.outsourcingInflationRate / 100) +
+    adjusted.merchandisePurchase * (1 + input.merchandiseInflationRate / 100) +
+    adjusted.otherVariableCost * (1 + input.otherVariableInflationRate / 100);
+  const totalFixedCost =
+    period.laborCost * (1 + input.laborCostChangeRate / 100) +
+    (period.depreciation + period.otherExpenses) *
+      (1 + input.fixedCostChangeRate / 100);
+  const fixedCostIncrease = totalFixedCost - baseMetrics.totalFixedCost;
+
+  const evaluate = (priceChangeRate: number, elasticity: number): PassThroughOutcome => {
+    const p = priceChangeRate / 100;
+    const volume = Math.max(0, 1 + elasticity * p);
+    const unitSales = baseSales * (1 + p);
+    const sales = unitSales * volume;
+    const totalVariableCost = inflatedVariableCost * volume;
+    const marginalProfit = sales - totalVariableCost;
+    return {
+      priceChangeRate,
+      volumeChangeRate: (volume - 1) * 100,
+      sales,
+      totalVariableCost,
+      marginalProfit,
+      marginalProfitRate: sales !== 0 ? (marginalProfit / sales) * 100 : 0,
+      ordinaryProfit: marginalProfit - totalFixedCost + period.nonOperatingIncome,
+      scenarioVariableCostRateChange:
+        baseSales !== 0
+          ? ((inflatedVariableCost - baseTotalVariableCost) / baseSales) * 100
+          : 0,
+    };
+  };
+
+  // 限界利益が目標額になる販売単価変化率（%）
+  const solveForMarginalProfit = (target: number, elasticity: number): number | null => {
+    if (baseSales <= 0) return null;
+    const a = baseSales - inflatedVariableCost;
+    // εS·p² ＋（S＋εa）·p ＋（a − 目標）= 0
+    const qa = elasticity * baseSales;
+    const qb = baseSales + elasticity * a;
+    const qc = a - target;
+    let roots: number[];
+    if (qa === 0) {
+      roots = [-qc / qb];
+    } else {
+      const disc = qb * qb - 4 * qa * qc;
+      if (disc < 0) return null;
+      const sqrt = Math.sqrt(disc);
+      roots = [(-qb + sqrt) / (2 * qa), (-qb - sqrt) / (2 * qa)];
+    }
+    const valid = roots.filter((p) => p > -1 && 1 + elasticity * p > 0);
+    if (valid.length === 0) return null;
+    const p = valid.reduce((best, r) => (Math.abs(r) < Math.abs(best) ? r : best));
+    return p * 100;
+  };
+
+  const solveForMarginalProfitRate = (elasticity: number): number | null => {
+    if (baseSales <= 0 || baseTotalVariableCost <= 0) return null;
+    const p = inflatedVariableCost / baseTotalVariableCost - 1;
+    return 1 + elasticity * p > 0 ? p * 100 : null;
+  };
+
+  const solve = (
+    target: PassThroughTargetResult["target"],
+    elasticity: number
+  ): PassThroughOutcome | null => {
+    const rate =
+      target === "marginalProfitRate"
+        ? solveForMarginalProfitRate(elasticity)
+        : solveForMarginalProfit(
+            target === "marginalProfit"
+              ? baseMetrics.marginalProfit
+              : baseMetrics.marginalProfit + fixedCostIncrease,
+            elasticity
+          );
+    return rate !== null ? evaluate(rate, elasticity) : null;
+  };
+
+  const targets: PassThroughTargetResult[] = (
+    ["marginalProfit", "marginalProfitRate", "ordinaryProfit"] as const
+  ).map((target) => ({
+    target,
+    volumeNeutral: solve(target, 0),
+    volumeElastic: solve(target, input.priceElasticity),
+  }));
+
+  return {
+    baseTotalVariableCost,
+    inflatedVariableCost,
+    costIncrease: inflatedVariableCost - baseTotalVariableCost,
+    fixedCostIncrease,
+    noPassThrough: evaluate(0, 0),
+    targets,
+  };
+}
+
 /**
  * 数値フォーマット: 千円単位、カンマ区切り、小数第1位
  */
@@ -81,7 +81,8 @@ export function generateDemoData(): {
       id: uuidv4(),
       periodId: period3Id,
       label: "試算① 現状維持",
-      salesChangeRate: 3,
+      priceChangeRate: 0,
+      volumeChangeRate: 3,
       variableCostRateChange: 0,
       laborCostChangeRate: 2,
       fixedCostChangeRate: 1,
@@ -92,7 +93,8 @@ export function generateDemoData(): {
       id: uuidv4(),
       periodId: period3Id,
       label: "試算② 売上拡大",
-      salesChangeRate: 10,
+      priceChangeRate: 0,
+      volumeChangeRate: 10,
       variableCostRateChange: -1,
       laborCostChangeRate: 3,
       fixedCostChangeRate: 2,
@@ -103,7 +105,8 @@ export function generateDemoData(): {
       id: uuidv4(),
       periodId: period3Id,
       label: "試算③ コスト削減",
-      salesChangeRate: 0,
+      priceChangeRate: 0,
+      volumeChangeRate: 0,
       variableCostRateChange: -2,
       laborCostChangeRate: -1,
       fixedCostChangeRate: -3,
@@ -114,7 +117,8 @@ export function generateDemoData(): {
       id: uuidv4(),
       periodId: period3Id,
       label: "試算④ 積極投資",
-      salesChangeRate: 15,
+      priceChangeRate: 0,
+      volumeChangeRate: 15,
       variableCostRateChange: 0,
       laborCostChangeRate: 8,
       fixedCostChangeRate: 5,
@@ -125,7 +129,8 @@ export function generateDemoData(): {
       id: uuidv4(),
       periodId: period3Id,
       label: "試算⑤ 悲観",
-      salesChangeRate: -5,
+      priceChangeRate: 0,
+      volumeChangeRate: -5,
       variableCostRateChange: 2,
       laborCostChangeRate: 1,
       fixedCostChangeRate: 3,
@@ -1,15 +1,55 @@
 import ExcelJS from "exceljs";
 import { saveAs } from "file-saver";
-import { PeriodData, ScenarioResult, CalculatedMetrics } from "./types";
+import {
+  PeriodData,
+  ScenarioResult,
+  CalculatedMetrics,
+  BreakEvenAnalysis,
+  SensitivityLever,
+  ScenarioMetric,
+  SensitivityRanges,
+  GridAxis,
+  GridSimulation,
+  LeverDistribution,
+  MonteCarloConfig,
+  MonteCarloResult,
+  PlanYear,
+  WaterfallMethod,
+  CapexAsset,
+  Loan,
+  DebtRepaymentCapacity,
+  Budget,
+} from "./types";
 import {
   calculateMetrics,
+  calculateBalanceSheetMetrics,
+  calculateMonthlyTrend,
+  calculateBudgetVariance,
   calculateCompositionRatios,
   calculateYoYChange,
   calculateWaterfallFactors,
+  calculateProductivityBridge,
   calculateScenario,
+  calculateScenarioWaterfallFactors,
+  resolveScenarioBasePeriod,
+  calculateBreakEven,
+  calculateScenarioBreakEven,
+  calculateSensitivity,
+  calculateGridSimulation,
+  calculateManagementPlan,
+  calculateDepreciationSchedule,
+  calculateCapexSchedule,
+  calculateLoanSchedule,
+  calculateLoanPortfolioSchedule,
+  calculateLoanBalance,
+  calculatePeriodInterestBearingDebt,
+  calculateDebtRepaymentCapacity,
+  calculateScenarioDebtRepaymentCapacity,
   toOku,
 } from "./calculations";
 import { Scenario } from "./types";
+import { BALANCE_SHEET_SECTIONS, BALANCE_SHEET_RATIOS } from "./balance-sheet-items";
+import { sumInventory } from "./inventory-items";
 
 // ── PDF → Excel変換用の型定義 ──
 
@@ -78,10 +118,12 @@ function numFmt(cell: ExcelJS.Cell, format: string = "#,##0") {
 
 /**
  * 実績データExcelエクスポート
+ * budgets: 予算があれば予実差異シートを追加する
  */
 export async function exportActualDataExcel(
   periods: PeriodData[],
-  companyName: string
+  companyName: string,
+  budgets: Budget[] = []
 ) {
   const wb = new ExcelJS.Workbook();
   const ws = wb.addWorksheet("実績データ");
@@ -109,6 +151,9 @@ export async function exportActualDataExcel(
     { label: "外注費", fill: VARIABLE_FILL, getValue: (p) => p.outsourcingCost },
     { label: "商品仕入", fill: VARIABLE_FILL, getValue: (p) => p.merchandisePurchase },
     { label: "その他変動費", fill: VARIABLE_FILL, getValue: (p) => p.otherVariableCost },
+    { label: "期首棚卸高", fill: VARIABLE_FILL, getValue: (p) => sumInventory(p.inventory).beginning },
+    { label: "期末棚卸高", fill: VARIABLE_FILL, getValue: (p) => sumInventory(p.inventory).ending },
+    { label: "棚卸増減調整", fill: VARIABLE_FILL, getValue: (_p, m) => m.inventoryAdjustment },
     { label: "変動費合計", fill: VARIABLE_FILL, getValue: (_p, m) => m.totalVariableCost, bold: true },
     { label: "限界利益", fill: SALES_FILL, getValue: (_p, m) => m.marginalProfit, bold: true },
     { label: "限界利益率(%)", fill: SALES_FILL, getValue: (_p, m) => m.marginalProfitRate, pct: true },
@@ -119,6 +164,12 @@ export async function exportActualDataExcel(
     { label: "営業利益", fill: PROFIT_FILL, getValue: (_p, m) => m.operatingProfit, bold: true },
     { label: "営業外損益", getValue: (p) => p.nonOperatingIncome },
     { label: "経常利益", fill: PROFIT_FILL, getValue: (_p, m) => m.ordinaryProfit, bold: true },
+    { label: "特別利益", getValue: (p) => p.extraordinaryIncome ?? 0 },
+    { label: "特別損失", getValue: (p) => p.extraordinaryLoss ?? 0 },
+    { label: "税引前当期純利益", fill: PROFIT_FILL, getValue: (_p, m) => m.incomeBeforeTax },
+    { label: "法人税等", getValue: (_p, m) => m.corporateTax },
+    { label: "当期純利益", fill: PROFIT_FILL, getValue: (_p, m) => m.netIncome, bold: true },
+    { label: "実効税率(%)", getValue: (_p, m) => m.effectiveTaxRate, pct: true },
     { label: "従業員数", getValue: (p) => p.employeeCount },
     { label: "労働分配率(%)", getValue: (_p, m) => m.laborShareRate, pct: true },
   ];
@@ -149,6 +200,16 @@ export async function exportActualDataExcel(
   ws.getCell("A1").font = { bold: true, size: 14 };
   ws.insertRow(2, []);
 
+  if (periods.some((p) => p.balanceSheet)) {
+    addBalanceSheetSheet(wb, periods);
+  }
+  if (periods.some((p) => p.monthly)) {
+    addMonthlySheet(wb, periods);
+  }
+  if (budgets.length > 0) {
+    addBudgetVarianceSheet(wb, periods, budgets);
+  }
+
   const buf = await wb.xlsx.writeBuffer();
   const blob = new Blob([buf], {
     type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
@@ -156,14 +217,222 @@ export async function exportActualDataExcel(
   saveAs(blob, `実績データ_${companyName || "export"}.xlsx`);
 }
 
+/**
+ * 貸借対照表シート（区分別残高・合計・財務指標）
+ * 貸借対照表が未入力の期は空欄にする
+ */
+function addBalanceSheetSheet(wb: ExcelJS.Workbook, periods: PeriodData[]) {
+  const ws = wb.addWorksheet("貸借対照表");
+  const metrics = periods.map((p) =>
+    p.balanceSheet ? calculateBalanceSheetMetrics(p, p.balanceSheet) : null
+  );
+
+  const headerRow = ws.addRow(["項目（千円）", ...periods.map((p) => p.label)]);
+  headerRow.eachCell((cell) => {
+    cell.fill = HEADER_FILL;
+    cell.font = HEADER_FONT;
+    applyBorder(cell);
+  });
+
+  const addValueRow = (
+    label: string,
+    values: (number | null)[],
+    format: string,
+    fill?: ExcelJS.Fill,
+    bold?: boolean
+  ) => {
+    const row = ws.addRow([label, ...values.map((v) => v ?? "")]);
+    row.eachCell((cell, colNumber) => {
+      if (fill) cell.fill = fill;
+      if (bold) cell.font = { bold: true, size: 10 };
+      applyBorder(cell);
+      if (colNumber > 1) numFmt(cell, format);
+    });
+  };
+
+  for (const section of BALANCE_SHEET_SECTIONS) {
+    for (const item of section.items) {
+      addValueRow(
+        item.label,
+        periods.map((p) => p.balanceSheet?.[item.key] ?? null),
+        "#,##0"
+      );
+    }
+    if (section.total) {
+      const key = section.total.key;
+      addValueRow(section.total.label, metrics.map((m) => m?.[key] ?? null), "#,##0", FIXED_FILL, true);
+    }
+  }
+  addValueRow("資産合計", metrics.map((m) => m?.totalAssets ?? null), "#,##0", PROFIT_FILL, true);
+  addValueRow(
+    "負債・純資産合計",
+    metrics.map((m) => m?.totalLiabilitiesAndNetAssets ?? null),
+    "#,##0",
+    PROFIT_FILL,
+    true
+  );
+  addValueRow("有利子負債", metrics.map((m) => m?.interestBearingDebt ?? null), "#,##0");
+  ws.addRow([]);
+
+  for (const r of BALANCE_SHEET_RATIOS) {
+    addValueRow(
+      `${r.label}（${r.unit}）`,
+      metrics.map((m) => m?.[r.key] ?? null),
+      r.decimals === 2 ? "#,##0.00" : "#,##0.0",
+      SALES_FILL
+    );
+  }
+
+  ws.getColumn(1).width = 28;
+  for (let i = 2; i <= periods.length + 1; i++) {
+    ws.getColumn(i).width = 14;
+  }
+}
+
+/**
+ * 月次推移シート（単月・YTD・TTM）
+ * TTM は連続した12ヶ月の月次がない月を空欄にする
+ */
+function addMonthlySheet(wb: ExcelJS.Workbook, periods: PeriodData[]) {
+  const ws = wb.addWorksheet("月次推移");
+  const headerRow = ws.addRow([
+    "月",
+    "売上高",
+    "変動費合計",
+    "限界利益",
+    "限界利益率(%)",
+    "固定費合計",
+    "経常利益",
+    "従業員数",
+    "YTD売上高",
+    "YTD経常利益",
+    "TTM売上高",
+    "TTM限界利益率(%)",
+    "TTM経常利益",
+  ]);
+  headerRow.eachCell((cell) => {
+    cell.fill = HEADER_FILL;
+    cell.font = HEADER_FONT;
+    applyBorder(cell);
+  });
+
+  const rateColumns = [5, 12];
+  for (const pt of calculateMonthlyTrend(periods)) {
+    const m = calculateMetrics(pt.monthly);
+    const ytd = calculateMetrics(pt.ytd);
+    const ttm = pt.ttm ? calculateMetrics(pt.ttm) : null;
+    const row = ws.addRow([
+      pt.label,
+      pt.monthly.sales,
+      m.totalVariableCost,
+      m.marginalProfit,
+      m.marginalProfitRate,
+      m.totalFixedCost,
+      m.ordinaryProfit,
+      pt.monthly.employeeCount,
+      pt.ytd.sales,
+      ytd.ordinaryProfit,
+      pt.ttm?.sales ?? "",
+      ttm?.marginalProfitRate ?? "",
+      ttm?.ordinaryProfit ?? "",
+    ]);
+    row.eachCell((cell, colNumber) => {
+      applyBorder(cell);
+      if (colNumber > 1) numFmt(cell, rateColumns.includes(colNumber) ? "#,##0.0" : "#,##0");
+    });
+  }
+
+  ws.getColumn(1).width = 24;
+  for (let i = 2; i <= 13; i++) {
+    ws.getColumn(i).width = 14;
+  }
+}
+
+/**
+ * 予実差異シート（予算ごとに 予算・実績・差異・差異率 と経常利益の要因分解）
+ * 不利差異（収益・利益の未達、費用の超過）は赤字で表示する
+ */
+function addBudgetVarianceSheet(wb: ExcelJS.Workbook, periods: PeriodData[], budgets: Budget[]) {
+  const ws = wb.addWorksheet("予実差異");
+
+  for (const period of periods) {
+    const budget = budgets.find((b) => b.periodId === period.id);
+    if (!budget) continue;
+
+    const titleRow = ws.addRow([
+      `${period.label} 予実差異${
+        budget.sourceScenarioLabel ? `（予算: シナリオ「${budget.sourceScenarioLabel}」）` : ""
+      }`,
+    ]);
+    titleRow.getCell(1).font = { bold: true, size: 12 };
+
+    const headerRow = ws.addRow(["項目", "予算", "実績", "差異", "差異率(%)"]);
+    headerRow.eachCell((cell) => {
+      cell.fill = HEADER_FILL;
+      cell.font = HEADER_FONT;
+      applyBorder(cell);
+    });
+
+    for (const r of calculateBudgetVariance(budget, period)) {
+      const row = ws.addRow([
+        r.unit === "千円" ? r.label : `${r.label}（${r.unit}）`,
+        r.budget,
+        r.actual,
+        r.variance,
+        r.varianceRate ?? "",
+      ]);
+      const unfavorable = r.unit === "千円" && (r.isCost ? r.variance > 0 : r.variance < 0);
+      const format = r.unit === "千円" ? "#,##0" : "#,##0.0";
+      row.eachCell((cell, colNumber) => {
+        applyBorder(cell);
+        if (r.isTotal) {
+          cell.fill = PROFIT_FILL;
+          cell.font = { bold: true, size: 10 };
+        }
+        if (colNumber > 1) numFmt(cell, colNumber === 5 ? "#,##0.0" : format);
+        if (colNumber >= 4 && unfavorable) {
+          cell.font = { ...cell.font, color: { argb: "FFC00000" } };
+        }
+      });
+    }
+
+    // 予算→実績の経常利益の増減要因（予算を前期、実績を当期とみなす）
+    const factors = calculateWaterfallFactors(period, budget, "sequential");
+    ws.addRow([]);
+    const factorRows: [string, number][] = [
+      ["予算 経常利益", calculateMetrics(budget).ordinaryProfit],
+      ["① 売上高貢献", factors.salesContribution],
+      ["② 加工高比率貢献", factors.marginalRateContribution],
+      ["③ 固定費貢献", factors.fixedCostContribution],
+      ["④ 営業外損益貢献", factors.nonOperatingContribution],
+      ["実績 経常利益", calculateMetrics(period).ordinaryProfit],
+    ];
+    for (const [label, value] of factorRows) {
+      const row = ws.addRow([label, value]);
+      row.eachCell((cell, colNumber) => {
+        applyBorder(cell);
+        if (colNumber > 1) numFmt(cell);
+      });
+    }
+    ws.addRow([]);
+  }
+
+  ws.getColumn(1).width = 28;
+  for (let i = 2; i <= 5; i++) {
+    ws.getColumn(i).width = 14;
+  }
+}
+
 /**
  * 利益バランス図表Excelエクスポート
  * waterfallImages: 各比較ペアのウォーターフォールチャート画像(data URL)の配列（オプション）
+ * method: ①②の分解方法（画面で選択中のものに合わせる）
  */
 export async function exportBalanceChartExcel(
   periods: PeriodData[],
   companyName: string,
-  waterfallImages?: string[]
+  waterfallImages?: string[],
+  method: WaterfallMethod = "sequential"
 ) {
   const wb = new ExcelJS.Workbook();
 
@@ -177,7 +446,7 @@ export async function exportBalanceChartExcel(
     const currM = calculateMetrics(curr);
     const prevR = calculateCompositionRatios(prev, prevM);
     const currR = calculateCompositionRatios(curr, currM);
-    const factors = calculateWaterfallFactors(curr, prev);
+    const factors = calculateWaterfallFactors(curr, prev, method);
 
     const ws = wb.addWorksheet(`${prev.label}→${curr.label}`);
 
@@ -207,6 +476,10 @@ export async function exportBalanceChartExcel(
       { label: "営業利益", pV: prevM.operatingProfit, pR: prevR.operatingProfitRate, cV: currM.operatingProfit, cR: currR.operatingProfitRate, fill: PROFIT_FILL },
       { label: "営業外損益", pV: prev.nonOperatingIncome, pR: prevR.nonOperatingIncomeRate, cV: curr.nonOperatingIncome, cR: currR.nonOperatingIncomeRate },
       { label: "経常利益", pV: prevM.ordinaryProfit, pR: prevR.ordinaryProfitRate, cV: currM.ordinaryProfit, cR: currR.ordinaryProfitRate, fill: PROFIT_FILL },
+      { label: "特別損益", pV: prevM.extraordinaryItems, pR: (prevM.extraordinaryItems / prev.sales) * 100, cV: currM.extraordinaryItems, cR: (currM.extraordinaryItems / curr.sales) * 100 },
+      { label: "税引前当期純利益", pV: prevM.incomeBeforeTax, pR: (prevM.incomeBeforeTax / prev.sales) * 100, cV: currM.incomeBeforeTax, cR: (currM.incomeBeforeTax / curr.sales) * 100, fill: PROFIT_FILL },
+      { label: "法人税等", pV: prevM.corporateTax, pR: (prevM.corporateTax / prev.sales) * 100, cV: currM.corporateTax, cR: (currM.corporateTax / curr.sales) * 100 },
+      { label: "当期純利益", pV: prevM.netIncome, pR: (prevM.netIncome / prev.sales) * 100, cV: currM.netIncome, cR: (currM.netIncome / curr.sales) * 100, fill: PROFIT_FILL },
     ];
 
     for (const r of rows) {
@@ -220,18 +493,73 @@ export async function exportBalanceChartExcel(
     }
 
     ws.addRow([]);
-    const factorHeaderRow = ws.addRow(["ウォーターフォール要因分解"]);
+    const factorHeaderRow = ws.addRow([
+      `ウォーターフォール要因分解（${method === "shapley" ? "対称分解・シャープレイ値" : "順次法"}）`,
+    ]);
     factorHeaderRow.getCell(1).font = { bold: true, size: 10 };
+    const { detail } = factors;
     const factorRows = [
       ws.addRow(["①売上高貢献", factors.salesContribution]),
       ws.addRow(["②加工高比率貢献", factors.marginalRateContribution]),
+      ws.addRow(["　材料費率", detail.materialCostRateContribution]),
+      ws.addRow(["　外注費率", detail.outsourcingCostRateContribution]),
+      ws.addRow(["　商品仕入率", detail.merchandisePurchaseRateContribution]),
+      ws.addRow(["　その他変動費率", detail.otherVariableCostRateContribution]),
       ws.addRow(["③固定費貢献", factors.fixedCostContribution]),
+      ws.addRow(["　人件費", detail.laborCostContribution]),
+      ws.addRow(["　減価償却費", detail.depreciationContribution]),
+      ws.addRow(["　その他経費", detail.otherExpensesContribution]),
       ws.addRow(["④営業外損益貢献", factors.nonOperatingContribution]),
     ];
     for (const fRow of factorRows) {
       numFmt(fRow.getCell(2));
       applyBorder(fRow.getCell(1));
       applyBorder(fRow.getCell(2));
+      // 内訳行は小さめ・グレーで親要因と区別する
+      if (String(fRow.getCell(1).value).startsWith("　")) {
+        fRow.getCell(1).font = { size: 9, color: { argb: "FF666666" } };
+        fRow.getCell(2).font = { size: 9, color: { argb: "FF666666" } };
+      }
+    }
+
+    // 1人当たり生産性ブリッジ
+    ws.addRow([]);
+    const bridges = calculateProductivityBridge(curr, prev);
+    const bridgeTitleRow = ws.addRow([
+      `1人当たり生産性ブリッジ（従業員数 ${prev.employeeCount}人 → ${curr.employeeCount}人）`,
+    ]);
+    bridgeTitleRow.getCell(1).font = { bold: true, size: 10 };
+    const bridgeHeader = ws.addRow([
+      "項目",
+      `${prev.label}`,
+      "人員効果",
+      "生産性効果",
+      `${curr.label}`,
+      "前期1人当たり",
+      "当期1人当たり",
+    ]);
+    bridgeHeader.eachCell((cell) => {
+      cell.fill = HEADER_FILL;
+      cell.font = HEADER_FONT;
+      applyBorder(cell);
+    });
+    for (const [label, b] of [
+      ["限界利益", bridges.marginalProfit],
+      ["経常利益", bridges.ordinaryProfit],
+    ] as const) {
+      const row = ws.addRow([
+        label,
+        b.previousValue,
+        b.headcountEffect,
+        b.productivityEffect,
+        b.currentValue,
+        b.previousPerEmployee,
+        b.currentPerEmployee,
+      ]);
+      row.eachCell((cell, col) => {
+        applyBorder(cell);
+        if (col > 1) numFmt(cell);
+      });
     }
 
     // ウォーターフォールチャート画像を埋め込む
@@ -254,7 +582,7 @@ export async function exportBalanceChartExcel(
     }
 
     ws.getColumn(1).width = 18;
-    for (let c = 2; c <= 6; c++) ws.getColumn(c).width = 14;
+    for (let c = 2; c <= 7; c++) ws.getColumn(c).width = 14;
 
     pairIdx++;
   }
@@ -266,22 +594,56 @@ export async function exportBalanceChartExcel(
   saveAs(blob, `利益バランス図表_${companyName || "export"}.xlsx`);
 }
 
+const SENSITIVITY_LEVER_LABELS: Record<SensitivityLever, { label: string; unit: string }> = {
+  priceChangeRate: { label: "販売単価変化率", unit: "%" },
+  volumeChangeRate: { label: "販売数量変化率", unit: "%" },
+  variableCostRateChange: { label: "変動費率変化", unit: "%pt" },
+  laborCostChangeRate: { label: "人件費変化率", unit: "%" },
+  fixedCostChangeRate: { label: "その他固定費変化率", unit: "%" },
+  employeeCount: { label: "従業員数", unit: "人" },
+};
+
+export interface SimulationExportOptions {
+  /** 指定時は「感度分析」シートを追加する */
+  sensitivityRanges?: SensitivityRanges;
+  /** 感度分析の指標（未指定は経常利益） */
+  sensitivityMetric?: ScenarioMetric;
+  /** 指定時は「2次元シミュレーション」シートを追加する */
+  grid?: { scenario: Scenario; xAxis: GridAxis; yAxis: GridAxis };
+  /** 指定時は「モンテカルロ」シートを追加する（実行済みの結果をそのまま出力） */
+  monteCarlo?: {
+    scenarioLabel: string;
+    basePeriodLabel: string;
+    config: MonteCarloConfig;
+    result: MonteCarloResult;
+  };
+  /** 指定時は各シナリオの periodId から基準期を解決する（未指定・該当なしは basePeriod） */
+  periods?: PeriodData[];
+  /** シナリオ比較チャート画像(data URL)。指定時は「シナリオ比較」シートに埋め込む */
+  comparisonChartImage?: string;
+  /** 借入金の登録があれば「借入金・債務償還」シートを追加する */
+  loans?: { loans: Loan[]; taxRate: number };
+}
+
 /**
  * 損益シミュレーションExcelエクスポート
  */
 export async function exportSimulationExcel(
   basePeriod: PeriodData,
   scenarios: Scenario[],
-  companyName: string
+  companyName: string,
+  options: SimulationExportOptions = {}
 ) {
   const wb = new ExcelJS.Workbook();
   const ws = wb.addWorksheet("損益シミュレーション");
 
+  const baseOf = (s: Scenario) =>
+    resolveScenarioBasePeriod(options.periods ?? [], s, basePeriod);
   const baseMetrics = calculateMetrics(basePeriod);
-  const results = scenarios.map((s) => calculateScenario(basePeriod, s));
+  const results = scenarios.map((s) => calculateScenario(baseOf(s), s));
 
   ws.addRow([
-    `${companyName || ""} 損益シミュレーション（${basePeriod.label} ベース）`,
+    `${companyName || ""} 損益シミュレーション（実績列: ${basePeriod.label}）`,
   ]);
   ws.getCell("A1").font = { bold: true, size: 12 };
   ws.addRow([]);
@@ -296,6 +658,17 @@ export async function exportSimulationExcel(
     cell.font = HEADER_FONT;
     applyBorder(cell);
   });
+  const baseLabelRow = ws.addRow([
+    "基準期",
+    basePeriod.label,
+    ...results.map((r) => r.basePeriodLabel),
+  ]);
+  baseLabelRow.eachCell((cell) => {
+    cell.font = { size: 9, color: { argb: "FF595959" } };
+    cell.alignment = { horizontal: "right" };
+    applyBorder(cell);
+  });
+  baseLabelRow.getCell(1).alignment = { horizontal: "left" };
 
   const rowDefs: {
     label: string;
@@ -303,8 +676,18 @@ export async function exportSimulationExcel(
     baseVal: number;
     getVal: (r: ScenarioResult) => number;
     pct?: boolean;
+    scenarioOnly?: boolean;
   }[] = [
     { label: "売上高", fill: SALES_FILL, baseVal: basePeriod.sales, getVal: (r) => r.sales },
+    { label: "　うち単価効果", fill: SALES_FILL, baseVal: 0, getVal: (r) => r.priceEffect, scenarioOnly: true },
+    { label: "　うち数量効果", fill: SALES_FILL, baseVal: 0, getVal: (r) => r.volumeEffect, scenarioOnly: true },
+    { label: "　材料費", fill: VARIABLE_FILL, baseVal: basePeriod.materialCost, getVal: (r) => r.materialCost },
+    { label: "　外注費", fill: VARIABLE_FILL, baseVal: basePeriod.outsourcingCost, getVal: (r) => r.outsourcingCost },
+    { label: "　商品仕入", fill: VARIABLE_FILL, baseVal: basePeriod.merchandisePurchase, getVal: (r) => r.merchandisePurchase },
+    { label: "　その他変動費", fill: VARIABLE_FILL, baseVal: basePeriod.otherVariableCost, getVal: (r) => r.otherVariableCost },
+    ...(baseMetrics.inventoryAdjustment !== 0
+      ? [{ label: "　棚卸増減調整", fill: VARIABLE_FILL, baseVal: baseMetrics.inventoryAdjustment, getVal: () => 0 }]
+      : []),
     { label: "変動費合計", fill: VARIABLE_FILL, baseVal: baseMetrics.totalVariableCost, getVal: (r) => r.totalVariableCost },
     { label: "限界利益", fill: SALES_FILL, baseVal: baseMetrics.marginalProfit, getVal: (r) => r.marginalProfit },
     { label: "限界利益率(%)", fill: SALES_FILL, baseVal: baseMetrics.marginalProfitRate, getVal: (r) => r.marginalProfitRate, pct: true },
@@ -314,7 +697,14 @@ export async function exportSimulationExcel(
     { label: "固定費合計", fill: FIXED_FILL, baseVal: baseMetrics.totalFixedCost, getVal: (r) => r.totalFixedCost },
     { label: "営業利益", fill: PROFIT_FILL, baseVal: baseMetrics.operatingProfit, getVal: (r) => r.operatingProfit },
     { label: "営業外損益", baseVal: basePeriod.nonOperatingIncome, getVal: (r) => r.nonOperatingIncome },
+    { label: "　うち増減額", baseVal: 0, getVal: (r) => r.nonOperatingIncomeChange, scenarioOnly: true },
+    { label: "　うち借入利息の影響", baseVal: 0, getVal: (r) => -r.interestExpenseChange, scenarioOnly: true },
     { label: "経常利益", fill: PROFIT_FILL, baseVal: baseMetrics.ordinaryProfit, getVal: (r) => r.ordinaryProfit },
+    { label: "特別損益", baseVal: baseMetrics.extraordinaryItems, getVal: () => 0 },
+    { label: "税引前当期純利益", fill: PROFIT_FILL, baseVal: baseMetrics.incomeBeforeTax, getVal: (r) => r.incomeBeforeTax },
+    { label: "実効税率(%)", baseVal: baseMetrics.effectiveTaxRate, getVal: (r) => r.effectiveTaxRate, pct: true },
+    { label: "法人税等", baseVal: baseMetrics.corporateTax, getVal: (r) => r.corporateTax },
+    { label: "当期純利益", fill: PROFIT_FILL, baseVal: baseMetrics.netIncome, getVal: (r) => r.netIncome },
     { label: "労働分配率(%)", baseVal: baseMetrics.laborShareRate, getVal: (r) => r.laborShareRate, pct: true },
     { label: "1人当たり売上高", baseVal: baseMetrics.salesPerEmployee, getVal: (r) => r.salesPerEmployee },
     { label: "1人当たり加工高(年)", baseVal: baseMetrics.marginalProfitPerEmployee, getVal: (r) => r.marginalProfitPerEmployee },
@@ -324,7 +714,7 @@ export async function exportSimulationExcel(
   for (const def of rowDefs) {
     const row = ws.addRow([
       def.label,
-      def.baseVal,
+      def.scenarioOnly ? "-" : def.baseVal,
       ...results.map((r) => def.getVal(r)),
     ]);
     row.eachCell((cell, col) => {
@@ -337,6 +727,43 @@ export async function exportSimulationExcel(
   ws.getColumn(1).width = 22;
   for (let c = 2; c <= results.length + 2; c++) ws.getColumn(c).width = 14;
 
+  addScenarioComparisonSheet(wb, baseOf, results, options.comparisonChartImage);
+  if (options.sensitivityRanges) {
+    addSensitivitySheet(
+      wb,
+      baseOf,
+      scenarios,
+      options.sensitivityRanges,
+      options.sensitivityMetric ?? "ordinaryProfit"
+    );
+  }
+  if (options.grid) {
+    const gridBase = baseOf(options.grid.scenario);
+    addGridSheet(
+      wb,
+      gridBase,
+      calculateGridSimulation(
+        gridBase,
+        options.grid.scenario,
+        options.grid.xAxis,
+        options.grid.yAxis
+      ),
+      options.grid.scenario.label
+    );
+  }
+  if (options.monteCarlo) {
+    addMonteCarloSheet(wb, options.monteCarlo);
+  }
+  if (options.loans && options.loans.loans.length > 0) {
+    addLoanSheet(
+      wb,
+      options.loans.loans,
+      options.periods?.filter((p) => p.sales > 0) ?? [basePeriod],
+      results,
+      options.loans.taxRate
+    );
+  }
+
   const buf = await wb.xlsx.writeBuffer();
   const blob = new Blob([buf], {
     type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
@@ -347,137 +774,630 @@ export async function exportSimulationExcel(
   );
 }
 
+const SENSITIVITY_METRIC_LABELS: Record<ScenarioMetric, { label: string; unit: string }> = {
+  ordinaryProfit: { label: "経常利益", unit: "千円" },
+  laborShareRate: { label: "労働分配率", unit: "%" },
+  ordinaryProfitPerEmployee: { label: "1人当たり経常利益", unit: "千円" },
+};
+
 /**
- * PDF → Excel変換: AIが抽出した決算書テーブルデータをExcelファイルに変換しダウンロードする
+ * 感度分析シート: シナリオごとに各レバーを±摂動した指標値を影響幅の大きい順に出力
  */
-export async function exportPdfToExcel(
-  data: PdfExcelData,
-  fileName: string
-): Promise<void> {
-  const wb = new ExcelJS.Workbook();
-  wb.creator = "PL Analyzer";
-  wb.created = new Date();
+function addSensitivitySheet(
+  wb: ExcelJS.Workbook,
+  baseOf: (scenario: Scenario) => PeriodData,
+  scenarios: Scenario[],
+  ranges: SensitivityRanges,
+  metric: ScenarioMetric
+) {
+  const metricDef = SENSITIVITY_METRIC_LABELS[metric];
+  const resultFormat = metric === "laborShareRate" ? "#,##0.0" : "#,##0";
+  const ws = wb.addWorksheet("感度分析");
+  ws.addRow([`感度分析（${metricDef.label}）`]);
+  ws.getCell("A1").font = { bold: true, size: 12 };
+  ws.addRow([]);
 
-  for (const sheet of data.sheets) {
-    const ws = wb.addWorksheet(sheet.name);
+  for (const scenario of scenarios) {
+    const basePeriod = baseOf(scenario);
+    const sa = calculateSensitivity(basePeriod, scenario, ranges, metric);
 
-    // ── ヘッダー行 ──
-    const headerRow = ws.addRow(sheet.columns);
-    headerRow.eachCell((cell) => {
+    const titleRow = ws.addRow([
+      `${scenario.label}（${basePeriod.label} ベース / ${metricDef.label} ${sa.baseResult.toLocaleString("ja-JP", { maximumFractionDigits: metric === "laborShareRate" ? 1 : 0 })} ${metricDef.unit}）`,
+    ]);
+    titleRow.getCell(1).font = { bold: true, size: 10 };
+
+    const header = ws.addRow([
+      "順位",
+      "パラメータ",
+      "摂動幅(±)",
+      "下振れ値",
+      "上振れ値",
+      `下振れ時 ${metricDef.label}`,
+      `上振れ時 ${metricDef.label}`,
+      "影響幅",
+    ]);
+    header.eachCell((cell) => {
       cell.fill = HEADER_FILL;
       cell.font = HEADER_FONT;
-      cell.alignment = { horizontal: "center", vertical: "middle" };
       applyBorder(cell);
     });
 
-    // ── データ行 ──
-    for (const row of sheet.rows) {
-      const indent = "  ".repeat(row.level);
-      const cleanLabel = row.label.replace(/^\s+/, "");
-      const rowValues: (string | number | null)[] = [
-        indent + cleanLabel,
-        ...row.values,
-      ];
-      const excelRow = ws.addRow(rowValues);
-
-      // 勘定科目列のスタイル
-      const labelCell = excelRow.getCell(1);
-      labelCell.alignment = { horizontal: "left", vertical: "middle" };
-      if (row.isSummary) {
-        labelCell.font = { bold: true, size: 10 };
-      } else {
-        labelCell.font = { size: 10 };
-      }
-      if (row.level > 0) {
-        labelCell.alignment = { indent: row.level * 2, vertical: "middle" };
-      }
-      applyBorder(labelCell);
-
-      // 金額列のスタイル
-      for (let i = 1; i < rowValues.length; i++) {
-        const cell = excelRow.getCell(i + 1);
-        cell.alignment = { horizontal: "right", vertical: "middle" };
-        cell.numFmt = "#,##0";
-        if (row.isSummary) {
-          cell.font = { bold: true, size: 10 };
-        } else {
-          cell.font = { size: 10 };
-        }
+    sa.items.forEach((item, i) => {
+      const def = SENSITIVITY_LEVER_LABELS[item.lever];
+      const row = ws.addRow([
+        i + 1,
+        `${def.label}(${def.unit})`,
+        ranges[item.lever],
+        item.lowValue,
+        item.highValue,
+        item.lowResult,
+        item.highResult,
+        item.impact,
+      ]);
+      row.eachCell((cell, col) => {
         applyBorder(cell);
-      }
-
-      // 合計行の背景色
-      if (row.isSummary) {
-        excelRow.eachCell((cell) => {
-          cell.fill = {
-            type: "pattern",
-            pattern: "solid",
-            fgColor: { argb: "FFF0F4F8" },
-          };
-        });
-      }
-    }
-
-    // ── 列幅の調整 ──
-    ws.getColumn(1).width = 35;
-    for (let i = 2; i <= sheet.columns.length; i++) {
-      ws.getColumn(i).width = 18;
-    }
-
-    // ── 単位の注記 ──
+        if (col >= 3) numFmt(cell, col <= 5 ? "#,##0.0" : resultFormat);
+      });
+    });
     ws.addRow([]);
-    const noteRow = ws.addRow([`（単位: ${data.unit}）`]);
-    noteRow.getCell(1).font = { size: 9, italic: true, color: { argb: "FF666666" } };
   }
 
-  const buf = await wb.xlsx.writeBuffer();
-  const blob = new Blob([buf], {
-    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
-  });
-  saveAs(blob, `${fileName}.xlsx`);
+  ws.getColumn(1).width = 8;
+  ws.getColumn(2).width = 22;
+  for (let c = 3; c <= 8; c++) ws.getColumn(c).width = 16;
 }
 
 /**
- * Growth Chart Excelエクスポート
- * chartImage: チャート画像(data URL)（オプション）
+ * 2次元シミュレーションシート: 経常利益・労働分配率のマトリクスを色分けして出力
+ * 損益分岐線上のセルは太枠で強調する
  */
-export async function exportGrowthChartExcel(
-  periods: PeriodData[],
-  companyName: string,
-  chartImage?: string
+function addGridSheet(
+  wb: ExcelJS.Workbook,
+  basePeriod: PeriodData,
+  grid: GridSimulation,
+  scenarioLabel: string
 ) {
-  const wb = new ExcelJS.Workbook();
-  const ws = wb.addWorksheet("Growth Chart");
-
-  const validPeriods = periods.filter((p) => p.sales > 0);
+  const ws = wb.addWorksheet("2次元シミュレーション");
+  const xDef = SENSITIVITY_LEVER_LABELS[grid.xAxis.lever];
+  const yDef = SENSITIVITY_LEVER_LABELS[grid.yAxis.lever];
 
-  // タイトル
-  ws.addRow([companyName ? `${companyName} Growth Chart` : "Growth Chart"]);
-  ws.getCell("A1").font = { bold: true, size: 14 };
+  ws.addRow([
+    `2次元シミュレーション（${basePeriod.label} ベース / その他パラメータ: ${scenarioLabel}）`,
+  ]);
+  ws.getCell("A1").font = { bold: true, size: 12 };
   ws.addRow([]);
 
-  // ヘッダー
-  const header = ws.addRow(["期", "売上高（億円）", "限界利益率（%）", "限界利益（億円）"]);
-  header.eachCell((cell) => {
-    cell.fill = HEADER_FILL;
-    cell.font = HEADER_FONT;
-    applyBorder(cell);
-  });
+  const maxAbsProfit = Math.max(
+    0,
+    ...grid.cells.flat().map((c) => Math.abs(c.ordinaryProfit))
+  );
 
-  // データ行
-  for (const p of validPeriods) {
-    const m = calculateMetrics(p);
-    const row = ws.addRow([
-      p.label,
-      toOku(p.sales),
-      m.marginalProfitRate,
-      toOku(m.marginalProfit),
+  const addMatrix = (
+    title: string,
+    getValue: (c: GridSimulation["cells"][0][0]) => number,
+    getIntensity: (v: number) => { t: number; positive: boolean },
+    format: string
+  ) => {
+    const titleRow = ws.addRow([title]);
+    titleRow.getCell(1).font = { bold: true, size: 10 };
+
+    const header = ws.addRow([
+      `${yDef.label}＼${xDef.label}`,
+      ...grid.xValues.map((x) => `${x}${xDef.unit}`),
     ]);
-    row.getCell(1).font = { bold: true, size: 10 };
-    applyBorder(row.getCell(1));
-    for (let c = 2; c <= 4; c++) {
-      const cell = row.getCell(c);
-      numFmt(cell, c === 3 ? "#,##0.0" : "#,##0.00");
+    header.eachCell((cell) => {
+      cell.fill = HEADER_FILL;
+      cell.font = HEADER_FONT;
+      applyBorder(cell);
+    });
+
+    grid.cells.forEach((cells, yi) => {
+      const row = ws.addRow([
+        `${grid.yValues[yi]}${yDef.unit}`,
+        ...cells.map(getValue),
+      ]);
+      row.getCell(1).font = { bold: true, size: 10 };
+      applyBorder(row.getCell(1));
+      cells.forEach((c, xi) => {
+        const cell = row.getCell(xi + 2);
+        numFmt(cell, format);
+        const { t, positive } = getIntensity(getValue(c));
+        cell.fill = {
+          type: "pattern",
+          pattern: "solid",
+          fgColor: { argb: blendHeatColor(t, positive) },
+        };
+        if (c.isBreakEvenBoundary) {
+          cell.font = { bold: true, size: 10 };
+          cell.border = {
+            top: { style: "medium" },
+            bottom: { style: "medium" },
+            left: { style: "medium" },
+            right: { style: "medium" },
+          };
+        } else {
+          applyBorder(cell);
+        }
+      });
+    });
+    ws.addRow([]);
+  };
+
+  addMatrix(
+    "経常利益（千円）",
+    (c) => c.ordinaryProfit,
+    (v) => ({
+      t: maxAbsProfit > 0 ? Math.min(1, Math.abs(v) / maxAbsProfit) : 0,
+      positive: v >= 0,
+    }),
+    "#,##0"
+  );
+  addMatrix(
+    "労働分配率（%）",
+    (c) => c.laborShareRate,
+    (v) => ({ t: Math.min(1, Math.abs(v - 50) / 30), positive: v < 50 }),
+    "#,##0.0"
+  );
+
+  const noteRow = ws.addRow(["※ 太枠は損益分岐線（経常利益の黒字・赤字の境界）上のセル"]);
+  noteRow.getCell(1).font = { size: 9, italic: true, color: { argb: "FF666666" } };
+
+  ws.getColumn(1).width = 24;
+  for (let c = 2; c <= grid.xValues.length + 1; c++) ws.getColumn(c).width = 11;
+}
+
+function describeDistribution(dist: LeverDistribution, unit: string): string {
+  switch (dist.type) {
+    case "normal":
+      return `正規分布（平均 ${dist.mean}${unit}・標準偏差 ${dist.stdDev}${unit}）`;
+    case "triangular":
+      return `三角分布（最小 ${dist.min}${unit}・最頻 ${dist.mode}${unit}・最大 ${dist.max}${unit}）`;
+    case "uniform":
+      return `一様分布（${dist.min}${unit}〜${dist.max}${unit}）`;
+    default:
+      return "固定（シナリオの値）";
+  }
+}
+
+/**
+ * モンテカルロシート: 分布設定・経常利益の統計量・ヒストグラム（度数分布表）を出力
+ */
+function addMonteCarloSheet(
+  wb: ExcelJS.Workbook,
+  run: NonNullable<SimulationExportOptions["monteCarlo"]>
+) {
+  const { config, result } = run;
+  const ws = wb.addWorksheet("モンテカルロ");
+  ws.addRow([
+    `モンテカルロシミュレーション（${run.basePeriodLabel} ベース / ${run.scenarioLabel}）`,
+  ]);
+  ws.getCell("A1").font = { bold: true, size: 12 };
+  ws.addRow([]);
+
+  const addHeader = (labels: string[]) => {
+    const header = ws.addRow(labels);
+    header.eachCell((cell) => {
+      cell.fill = HEADER_FILL;
+      cell.font = HEADER_FONT;
+      applyBorder(cell);
+    });
+  };
+
+  addHeader(["パラメータ", "分布"]);
+  for (const [lever, dist] of Object.entries(config.distributions) as [
+    keyof MonteCarloConfig["distributions"],
+    LeverDistribution,
+  ][]) {
+    const def = SENSITIVITY_LEVER_LABELS[lever];
+    const row = ws.addRow([def.label, describeDistribution(dist, def.unit)]);
+    row.eachCell((cell) => applyBorder(cell));
+  }
+  ws.addRow([]);
+
+  addHeader(["統計量", "値"]);
+  const stats: { label: string; value: number; format: string }[] = [
+    { label: "試行回数", value: result.trials, format: "#,##0" },
+    { label: "乱数シード", value: result.seed, format: "0" },
+    { label: "平均（千円）", value: result.mean, format: "#,##0" },
+    { label: "標準偏差（千円）", value: result.stdDev, format: "#,##0" },
+    { label: "最小（千円）", value: result.min, format: "#,##0" },
+    { label: "P10（千円）", value: result.p10, format: "#,##0" },
+    { label: "P50（千円）", value: result.p50, format: "#,##0" },
+    { label: "P90（千円）", value: result.p90, format: "#,##0" },
+    { label: "最大（千円）", value: result.max, format: "#,##0" },
+    { label: "赤字確率(%)", value: result.lossProbability, format: "#,##0.0" },
+  ];
+  for (const stat of stats) {
+    const row = ws.addRow([stat.label, stat.value]);
+    row.eachCell((cell, col) => {
+      applyBorder(cell);
+      if (col > 1) numFmt(cell, stat.format);
+    });
+    if (stat.label.startsWith("赤字確率")) row.getCell(2).fill = PROFIT_FILL;
+  }
+  ws.addRow([]);
+
+  addHeader(["経常利益 下限", "経常利益 上限", "度数", "構成比(%)"]);
+  for (const bin of result.histogram) {
+    const row = ws.addRow([
+      bin.from,
+      bin.to,
+      bin.count,
+      (bin.count / result.trials) * 100,
+    ]);
+    const isLoss = (bin.from + bin.to) / 2 < 0;
+    row.eachCell((cell, col) => {
+      applyBorder(cell);
+      numFmt(cell, col === 4 ? "#,##0.0" : "#,##0");
+      if (isLoss) cell.font = { color: { argb: "FFC00000" }, size: 10 };
+    });
+  }
+
+  const noteRow = ws.addRow(["※ 赤字は経常利益がマイナスの階級"]);
+  noteRow.getCell(1).font = { size: 9, italic: true, color: { argb: "FF666666" } };
+
+  ws.getColumn(1).width = 22;
+  ws.getColumn(2).width = 48;
+  ws.getColumn(3).width = 12;
+  ws.getColumn(4).width = 12;
+}
+
+/** PNG(base64)のIHDRから画像サイズを読む（読めなければ0） */
+function pngSize(base64: string): { width: number; height: number } {
+  try {
+    const bytes = atob(base64.slice(0, 44));
+    const read = (offset: number) =>
+      ((bytes.charCodeAt(offset) << 24) |
+        (bytes.charCodeAt(offset + 1) << 16) |
+        (bytes.charCodeAt(offset + 2) << 8) |
+        bytes.charCodeAt(offset + 3)) >>>
+      0;
+    return { width: read(16), height: read(20) };
+  } catch {
+    return { width: 0, height: 0 };
+  }
+}
+
+/**
+ * シナリオ比較シート: 経常利益の順位と、基準期→シナリオの経常利益増減の要因分解
+ * chartImage: シナリオ比較チャート画像(data URL)（オプション）
+ */
+function addScenarioComparisonSheet(
+  wb: ExcelJS.Workbook,
+  baseOf: (scenario: Scenario) => PeriodData,
+  results: ScenarioResult[],
+  chartImage?: string
+) {
+  const ws = wb.addWorksheet("シナリオ比較");
+  ws.addRow(["シナリオ比較（単位：千円）"]);
+  ws.getCell("A1").font = { bold: true, size: 12 };
+  ws.addRow([]);
+
+  const addHeader = (labels: string[]) => {
+    const header = ws.addRow(labels);
+    header.eachCell((cell) => {
+      cell.fill = HEADER_FILL;
+      cell.font = HEADER_FONT;
+      applyBorder(cell);
+    });
+  };
+
+  addHeader(["順位", "シナリオ", "基準期", "経常利益", "基準期比(%)", "労働分配率(%)", "当期純利益"]);
+  const ranking = [...results].sort((a, b) => b.ordinaryProfit - a.ordinaryProfit);
+  ranking.forEach((r, i) => {
+    const row = ws.addRow([
+      i + 1,
+      r.scenario.label,
+      r.basePeriodLabel,
+      r.ordinaryProfit,
+      r.ordinaryProfitChangeFromActual,
+      r.laborShareRate,
+      r.netIncome,
+    ]);
+    row.eachCell((cell, col) => {
+      applyBorder(cell);
+      if (col >= 4) numFmt(cell, col === 4 || col === 7 ? "#,##0" : "#,##0.0");
+    });
+    row.getCell(4).fill = PROFIT_FILL;
+    row.getCell(7).fill = PROFIT_FILL;
+  });
+  ws.addRow([]);
+
+  // 要因分解（前期→当期のウォーターフォールと同じ分解）
+  addHeader([
+    "項目",
+    ...results.map((r) => `${r.scenario.label}（${r.basePeriodLabel} ベース）`),
+  ]);
+  const factorsList = results.map((r) => ({
+    baseOrdinaryProfit: calculateMetrics(baseOf(r.scenario)).ordinaryProfit,
+    factors: calculateScenarioWaterfallFactors(baseOf(r.scenario), r),
+    ordinaryProfit: r.ordinaryProfit,
+  }));
+  const factorRows: {
+    label: string;
+    fill?: ExcelJS.Fill;
+    getVal: (f: (typeof factorsList)[number]) => number;
+  }[] = [
+    { label: "基準期 経常利益", fill: PROFIT_FILL, getVal: (f) => f.baseOrdinaryProfit },
+    { label: "①売上高貢献", getVal: (f) => f.factors.salesContribution },
+    { label: "②加工高比率貢献", getVal: (f) => f.factors.marginalRateContribution },
+    { label: "③固定費貢献", getVal: (f) => f.factors.fixedCostContribution },
+    { label: "④営業外損益貢献", getVal: (f) => f.factors.nonOperatingContribution },
+    { label: "シナリオ 経常利益", fill: PROFIT_FILL, getVal: (f) => f.ordinaryProfit },
+  ];
+  for (const def of factorRows) {
+    const row = ws.addRow([def.label, ...factorsList.map(def.getVal)]);
+    row.eachCell((cell, col) => {
+      if (def.fill) cell.fill = def.fill;
+      applyBorder(cell);
+      if (col > 1) numFmt(cell, "#,##0");
+    });
+  }
+
+  if (chartImage && chartImage.startsWith("data:image/png")) {
+    const base64 = chartImage.split(",")[1];
+    const imageId = wb.addImage({ base64, extension: "png" });
+    const startRow = ws.rowCount + 2;
+    ws.addRow([]);
+    // キャプチャの縦横比を保って幅800pxに収める
+    const { width, height } = pngSize(base64);
+    ws.addImage(imageId, {
+      tl: { col: 0, row: startRow },
+      ext: { width: 800, height: width > 0 ? (800 * height) / width : 900 },
+    });
+  }
+
+  ws.getColumn(1).width = 20;
+  ws.getColumn(2).width = 22;
+  for (let c = 3; c <= Math.max(6, results.length + 1); c++) ws.getColumn(c).width = 18;
+}
+
+/** 白から青（正）/赤（負）へ t (0〜1) で補間したARGB */
+function blendHeatColor(t: number, positive: boolean): string {
+  const [r, g, b] = positive ? [46, 117, 182] : [192, 0, 0];
+  const mix = (c: number) =>
+    Math.round(255 - (255 - c) * (0.15 + t * 0.65))
+      .toString(16)
+      .padStart(2, "0")
+      .toUpperCase();
+  return `FF${mix(r)}${mix(g)}${mix(b)}`;
+}
+
+/**
+ * 損益分岐点分析Excelエクスポート
+ * 各期の実績と、basePeriod を基準とした各シナリオの分岐点指標を1シートに出力する
+ */
+export async function exportBreakEvenExcel(
+  periods: PeriodData[],
+  basePeriod: PeriodData | undefined,
+  scenarios: Scenario[],
+  companyName: string
+) {
+  const wb = new ExcelJS.Workbook();
+  const ws = wb.addWorksheet("損益分岐点分析");
+
+  ws.addRow([
+    companyName ? `${companyName} 損益分岐点分析` : "損益分岐点分析",
+  ]);
+  ws.getCell("A1").font = { bold: true, size: 14 };
+  ws.addRow([]);
+
+  const addSection = (
+    title: string,
+    columns: { label: string; sales: number; be: BreakEvenAnalysis }[]
+  ) => {
+    const titleRow = ws.addRow([title]);
+    titleRow.getCell(1).font = { bold: true, size: 10 };
+
+    const header = ws.addRow(["項目", ...columns.map((c) => c.label)]);
+    header.eachCell((cell) => {
+      cell.fill = HEADER_FILL;
+      cell.font = HEADER_FONT;
+      applyBorder(cell);
+    });
+
+    const rowDefs: {
+      label: string;
+      fill?: ExcelJS.Fill;
+      getValue: (c: { sales: number; be: BreakEvenAnalysis }) => number | string;
+      pct?: boolean;
+      format?: string; // 指定時は pct より優先
+    }[] = [
+      { label: "売上高", fill: SALES_FILL, getValue: (c) => c.sales },
+      { label: "損益分岐点売上高", fill: PROFIT_FILL, getValue: (c) => (c.be.isAttainable ? c.be.breakEvenSales : "-") },
+      { label: "損益分岐点比率(%)", getValue: (c) => (c.be.isAttainable ? c.be.breakEvenPointRate : "-"), pct: true },
+      { label: "安全余裕率(%)", getValue: (c) => (c.be.isAttainable ? c.be.marginOfSafetyRate : "-"), pct: true },
+      { label: "経営レバレッジ係数", getValue: (c) => (c.be.isAttainable ? c.be.operatingLeverage : "-"), format: "0.00" },
+    ];
+
+    for (const def of rowDefs) {
+      const row = ws.addRow([def.label, ...columns.map((c) => def.getValue(c))]);
+      row.eachCell((cell, col) => {
+        if (def.fill) cell.fill = def.fill;
+        applyBorder(cell);
+        if (col > 1) numFmt(cell, def.format ?? (def.pct ? "#,##0.0" : "#,##0"));
+      });
+    }
+    ws.addRow([]);
+  };
+
+  const validPeriods = periods.filter((p) => p.sales > 0);
+  addSection(
+    "実績",
+    validPeriods.map((p) => ({
+      label: p.label,
+      sales: p.sales,
+      be: calculateBreakEven(p),
+    }))
+  );
+
+  if (basePeriod && scenarios.length > 0) {
+    const results = scenarios.map((s) =>
+      calculateScenario(resolveScenarioBasePeriod(periods, s, basePeriod), s)
+    );
+    addSection("シナリオ", [
+      {
+        label: `実績(${basePeriod.label})`,
+        sales: basePeriod.sales,
+        be: calculateBreakEven(basePeriod),
+      },
+      ...results.map((r) => ({
+        label: `${r.scenario.label}（${r.basePeriodLabel} ベース）`,
+        sales: r.sales,
+        be: calculateScenarioBreakEven(r),
+      })),
+    ]);
+  }
+
+  const noteRow = ws.addRow([
+    "※ 経常利益ベース: 損益分岐点売上高 =（固定費合計 − 営業外損益）÷ 限界利益率",
+  ]);
+  noteRow.getCell(1).font = { size: 9, italic: true, color: { argb: "FF666666" } };
+
+  ws.getColumn(1).width = 20;
+  const maxCols = Math.max(validPeriods.length, scenarios.length + 1);
+  for (let c = 2; c <= maxCols + 1; c++) ws.getColumn(c).width = 16;
+
+  const buf = await wb.xlsx.writeBuffer();
+  const blob = new Blob([buf], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+  saveAs(blob, `損益分岐点分析_${companyName || "export"}.xlsx`);
+}
+
+/**
+ * PDF → Excel変換: AIが抽出した決算書テーブルデータをExcelファイルに変換しダウンロードする
+ */
+export async function exportPdfToExcel(
+  data: PdfExcelData,
+  fileName: string
+): Promise<void> {
+  const wb = new ExcelJS.Workbook();
+  wb.creator = "PL Analyzer";
+  wb.created = new Date();
+
+  for (const sheet of data.sheets) {
+    const ws = wb.addWorksheet(sheet.name);
+
+    // ── ヘッダー行 ──
+    const headerRow = ws.addRow(sheet.columns);
+    headerRow.eachCell((cell) => {
+      cell.fill = HEADER_FILL;
+      cell.font = HEADER_FONT;
+      cell.alignment = { horizontal: "center", vertical: "middle" };
+      applyBorder(cell);
+    });
+
+    // ── データ行 ──
+    for (const row of sheet.rows) {
+      const indent = "  ".repeat(row.level);
+      const cleanLabel = row.label.replace(/^\s+/, "");
+      const rowValues: (string | number | null)[] = [
+        indent + cleanLabel,
+        ...row.values,
+      ];
+      const excelRow = ws.addRow(rowValues);
+
+      // 勘定科目列のスタイル
+      const labelCell = excelRow.getCell(1);
+      labelCell.alignment = { horizontal: "left", vertical: "middle" };
+      if (row.isSummary) {
+        labelCell.font = { bold: true, size: 10 };
+      } else {
+        labelCell.font = { size: 10 };
+      }
+      if (row.level > 0) {
+        labelCell.alignment = { indent: row.level * 2, vertical: "middle" };
+      }
+      applyBorder(labelCell);
+
+      // 金額列のスタイル
+      for (let i = 1; i < rowValues.length; i++) {
+        const cell = excelRow.getCell(i + 1);
+        cell.alignment = { horizontal: "right", vertical: "middle" };
+        cell.numFmt = "#,##0";
+        if (row.isSummary) {
+          cell.font = { bold: true, size: 10 };
+        } else {
+          cell.font = { size: 10 };
+        }
+        applyBorder(cell);
+      }
+
+      // 合計行の背景色
+      if (row.isSummary) {
+        excelRow.eachCell((cell) => {
+          cell.fill = {
+            type: "pattern",
+            pattern: "solid",
+            fgColor: { argb: "FFF0F4F8" },
+          };
+        });
+      }
+    }
+
+    // ── 列幅の調整 ──
+    ws.getColumn(1).width = 35;
+    for (let i = 2; i <= sheet.columns.length; i++) {
+      ws.getColumn(i).width = 18;
+    }
+
+    // ── 単位の注記 ──
+    ws.addRow([]);
+    const noteRow = ws.addRow([`（単位: ${data.unit}）`]);
+    noteRow.getCell(1).font = { size: 9, italic: true, color: { argb: "FF666666" } };
+  }
+
+  const buf = await wb.xlsx.writeBuffer();
+  const blob = new Blob([buf], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+  saveAs(blob, `${fileName}.xlsx`);
+}
+
+/**
+ * Growth Chart Excelエクスポート
+ * chartImage: チャート画像(data URL)（オプション）
+ * scenarioResults: チャートに重ねたシナリオの計算結果（オプション）
+ */
+export async function exportGrowthChartExcel(
+  periods: PeriodData[],
+  companyName: string,
+  chartImage?: string,
+  scenarioResults: ScenarioResult[] = []
+) {
+  const wb = new ExcelJS.Workbook();
+  const ws = wb.addWorksheet("Growth Chart");
+
+  const validPeriods = periods.filter((p) => p.sales > 0);
+
+  // タイトル
+  ws.addRow([companyName ? `${companyName} Growth Chart` : "Growth Chart"]);
+  ws.getCell("A1").font = { bold: true, size: 14 };
+  ws.addRow([]);
+
+  // ヘッダー
+  const header = ws.addRow(["期", "売上高（億円）", "限界利益率（%）", "限界利益（億円）"]);
+  header.eachCell((cell) => {
+    cell.fill = HEADER_FILL;
+    cell.font = HEADER_FONT;
+    applyBorder(cell);
+  });
+
+  // データ行
+  for (const p of validPeriods) {
+    const m = calculateMetrics(p);
+    const row = ws.addRow([
+      p.label,
+      toOku(p.sales),
+      m.marginalProfitRate,
+      toOku(m.marginalProfit),
+    ]);
+    row.getCell(1).font = { bold: true, size: 10 };
+    applyBorder(row.getCell(1));
+    for (let c = 2; c <= 4; c++) {
+      const cell = row.getCell(c);
+      numFmt(cell, c === 3 ? "#,##0.0" : "#,##0.00");
       applyBorder(cell);
     }
   }
@@ -512,6 +1432,55 @@ export async function exportGrowthChartExcel(
     }
   }
 
+  // シナリオ（基準期→シナリオの変化）
+  if (scenarioResults.length > 0) {
+    ws.addRow([]);
+    const scenarioHeader = ws.addRow([
+      "シナリオ（基準期）",
+      "売上高（億円）",
+      "限界利益率（%）",
+      "限界利益（億円）",
+      "売上高変化（億円）",
+      "限界利益率変化（pt）",
+      "限界利益変化（億円）",
+    ]);
+    scenarioHeader.eachCell((cell) => {
+      cell.fill = HEADER_FILL;
+      cell.font = HEADER_FONT;
+      applyBorder(cell);
+    });
+    for (const r of scenarioResults) {
+      const base = validPeriods.find((p) => p.id === r.basePeriodId);
+      if (!base) continue;
+      const baseM = calculateMetrics(base);
+      const row = ws.addRow([
+        `${r.scenario.label}（${r.basePeriodLabel}）`,
+        toOku(r.sales),
+        r.marginalProfitRate,
+        toOku(r.marginalProfit),
+        toOku(r.sales) - toOku(base.sales),
+        r.marginalProfitRate - baseM.marginalProfitRate,
+        toOku(r.marginalProfit) - toOku(baseM.marginalProfit),
+      ]);
+      row.getCell(1).font = { size: 10 };
+      applyBorder(row.getCell(1));
+      for (let c = 2; c <= 7; c++) {
+        const cell = row.getCell(c);
+        numFmt(
+          cell,
+          c === 3
+            ? "#,##0.0"
+            : c === 6
+              ? "+#,##0.0;-#,##0.0;0.0"
+              : c >= 5
+                ? "+#,##0.00;-#,##0.00;0.00"
+                : "#,##0.00"
+        );
+        applyBorder(cell);
+      }
+    }
+  }
+
   // チャート画像を埋め込む
   if (chartImage && chartImage.startsWith("data:image/png")) {
     const base64 = chartImage.split(",")[1];
@@ -529,6 +1498,10 @@ export async function exportGrowthChartExcel(
   ws.getColumn(2).width = 16;
   ws.getColumn(3).width = 16;
   ws.getColumn(4).width = 16;
+  if (scenarioResults.length > 0) {
+    ws.getColumn(1).width = 28;
+    for (let c = 5; c <= 7; c++) ws.getColumn(c).width = 18;
+  }
 
   const buf = await wb.xlsx.writeBuffer();
   const blob = new Blob([buf], {
@@ -536,3 +1509,396 @@ export async function exportGrowthChartExcel(
   });
   saveAs(blob, `GrowthChart_${companyName || "export"}.xlsx`);
 }
+
+/**
+ * 中期経営計画Excelエクスポート（計画前提・年度別損益・Growth Chart画像）
+ * capexAssets: 設備投資計画の資産。登録があれば減価償却費に反映し「設備投資計画」シートを追加
+ */
+export async function exportManagementPlanExcel(
+  basePeriod: PeriodData,
+  planYears: PlanYear[],
+  companyName: string,
+  chartImage?: string,
+  capexAssets: CapexAsset[] = []
+) {
+  const wb = new ExcelJS.Workbook();
+  const ws = wb.addWorksheet("中期経営計画");
+
+  const baseMetrics = calculateMetrics(basePeriod);
+  const results = calculateManagementPlan(basePeriod, planYears, capexAssets);
+
+  ws.addRow([
+    `${companyName || ""} 中期経営計画（${basePeriod.label} 実績ベース）`,
+  ]);
+  ws.getCell("A1").font = { bold: true, size: 12 };
+  ws.addRow([]);
+
+  // ── 計画前提 ──
+  const assumptionTitle = ws.addRow(["計画前提（前年度比）"]);
+  assumptionTitle.getCell(1).font = { bold: true, size: 10 };
+
+  const assumptionHeader = ws.addRow(["項目", ...planYears.map((y) => y.label)]);
+  assumptionHeader.eachCell((cell) => {
+    cell.fill = HEADER_FILL;
+    cell.font = HEADER_FONT;
+    applyBorder(cell);
+  });
+
+  const assumptionDefs: { label: string; getVal: (y: PlanYear) => number; format: string }[] = [
+    { label: "売上高成長率(%)", getVal: (y) => y.salesGrowthRate, format: "#,##0.0" },
+    { label: "変動費率変化(%pt)", getVal: (y) => y.variableCostRateChange, format: "#,##0.0" },
+    { label: "賃上げ率(%)", getVal: (y) => y.wageIncreaseRate, format: "#,##0.0" },
+    { label: "従業員数(人)", getVal: (y) => y.employeeCount, format: "#,##0" },
+    { label: "減価償却費・その他経費変化率(%)", getVal: (y) => y.fixedCostChangeRate, format: "#,##0.0" },
+  ];
+  for (const def of assumptionDefs) {
+    const row = ws.addRow([def.label, ...planYears.map(def.getVal)]);
+    row.eachCell((cell, col) => {
+      applyBorder(cell);
+      if (col > 1) numFmt(cell, def.format);
+    });
+  }
+  ws.addRow([]);
+
+  // ── 年度別損益計画 ──
+  const planTitle = ws.addRow(["年度別損益計画（千円）"]);
+  planTitle.getCell(1).font = { bold: true, size: 10 };
+
+  const header = ws.addRow([
+    "項目",
+    `実績(${basePeriod.label})`,
+    ...results.map((r) => r.plan.label),
+  ]);
+  header.eachCell((cell) => {
+    cell.fill = HEADER_FILL;
+    cell.font = HEADER_FONT;
+    applyBorder(cell);
+  });
+
+  const rowDefs: {
+    label: string;
+    fill?: ExcelJS.Fill;
+    getVal: (p: PeriodData, m: CalculatedMetrics) => number;
+    pct?: boolean;
+  }[] = [
+    { label: "売上高", fill: SALES_FILL, getVal: (p) => p.sales },
+    { label: "変動費合計", fill: VARIABLE_FILL, getVal: (_, m) => m.totalVariableCost },
+    { label: "限界利益", fill: SALES_FILL, getVal: (_, m) => m.marginalProfit },
+    { label: "限界利益率(%)", fill: SALES_FILL, getVal: (_, m) => m.marginalProfitRate, pct: true },
+    { label: "人件費", fill: FIXED_FILL, getVal: (p) => p.laborCost },
+    { label: "減価償却費", fill: FIXED_FILL, getVal: (p) => p.depreciation },
+    { label: "その他経費", fill: FIXED_FILL, getVal: (p) => p.otherExpenses },
+    { label: "固定費合計", fill: FIXED_FILL, getVal: (_, m) => m.totalFixedCost },
+    { label: "営業利益", fill: PROFIT_FILL, getVal: (_, m) => m.operatingProfit },
+    { label: "営業外損益", getVal: (p) => p.nonOperatingIncome },
+    { label: "経常利益", fill: PROFIT_FILL, getVal: (_, m) => m.ordinaryProfit },
+    { label: "特別損益", getVal: (_, m) => m.extraordinaryItems },
+    { label: "法人税等", getVal: (_, m) => m.corporateTax },
+    { label: "当期純利益", fill: PROFIT_FILL, getVal: (_, m) => m.netIncome },
+    { label: "労働分配率(%)", getVal: (_, m) => m.laborShareRate, pct: true },
+    { label: "従業員数", getVal: (p) => p.employeeCount },
+    { label: "1人当たり人件費", getVal: (p) => (p.employeeCount > 0 ? p.laborCost / p.employeeCount : 0) },
+    { label: "1人当たり加工高(年)", getVal: (_, m) => m.marginalProfitPerEmployee },
+    { label: "1人当たり経常利益", getVal: (_, m) => m.ordinaryProfitPerEmployee },
+  ];
+
+  for (const def of rowDefs) {
+    const row = ws.addRow([
+      def.label,
+      def.getVal(basePeriod, baseMetrics),
+      ...results.map((r) => def.getVal(r.period, r.metrics)),
+    ]);
+    row.eachCell((cell, col) => {
+      if (def.fill) cell.fill = def.fill;
+      applyBorder(cell);
+      if (col > 1) numFmt(cell, def.pct ? "#,##0.0" : "#,##0");
+    });
+    // 計画値は斜体で実績と区別する
+    for (let c = 3; c <= results.length + 2; c++) {
+      row.getCell(c).font = { italic: true, size: 10 };
+    }
+  }
+
+  ws.getColumn(1).width = 32;
+  for (let c = 2; c <= Math.max(results.length, planYears.length) + 2; c++) {
+    ws.getColumn(c).width = 14;
+  }
+
+  // ── Growth Chart（実績＋計画） ──
+  if (chartImage && chartImage.startsWith("data:image/png")) {
+    const chartWs = wb.addWorksheet("Growth Chart");
+    const base64 = chartImage.split(",")[1];
+    const imageId = wb.addImage({ base64, extension: "png" });
+    chartWs.addImage(imageId, {
+      tl: { col: 0, row: 0 },
+      ext: { width: 750, height: 500 },
+    });
+  }
+
+  if (capexAssets.length > 0) {
+    addCapexSheet(wb, capexAssets, basePeriod, planYears.length);
+  }
+
+  const buf = await wb.xlsx.writeBuffer();
+  const blob = new Blob([buf], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+  saveAs(blob, `中期経営計画_${companyName || "export"}.xlsx`);
+}
+
+const DEPRECIATION_METHOD_LABELS: Record<CapexAsset["method"], string> = {
+  straightLine: "定額法",
+  decliningBalance: "定率法",
+};
+
+/**
+ * 設備投資計画シート: 資産一覧と年度別の減価償却スケジュール
+ * years: 出力する計画年度数（basePeriod の翌期を1年目とする）
+ */
+function addCapexSheet(
+  wb: ExcelJS.Workbook,
+  assets: CapexAsset[],
+  basePeriod: PeriodData,
+  years: number
+) {
+  const ws = wb.addWorksheet("設備投資計画");
+  ws.addRow([`設備投資計画（${basePeriod.label} の翌期を1年目とする / 単位：千円）`]);
+  ws.getCell("A1").font = { bold: true, size: 12 };
+  ws.addRow([]);
+
+  const addHeader = (labels: string[]) => {
+    const header = ws.addRow(labels);
+    header.eachCell((cell) => {
+      cell.fill = HEADER_FILL;
+      cell.font = HEADER_FONT;
+      applyBorder(cell);
+    });
+  };
+
+  // ── 資産一覧 ──
+  addHeader(["資産名", "取得価額", "耐用年数(年)", "償却方法", "取得年度"]);
+  for (const asset of assets) {
+    const row = ws.addRow([
+      asset.name,
+      asset.acquisitionCost,
+      asset.usefulLife,
+      DEPRECIATION_METHOD_LABELS[asset.method],
+      asset.startYear <= 0 ? `既存（${asset.startYear}年目）` : `${asset.startYear}年目`,
+    ]);
+    row.eachCell((cell) => applyBorder(cell));
+    numFmt(row.getCell(2), "#,##0");
+  }
+  ws.addRow([]);
+
+  // ── 年度別減価償却スケジュール（0 = 実績期） ──
+  const schedule = calculateCapexSchedule(assets, 0, years);
+  addHeader([
+    "項目",
+    `実績(${basePeriod.label})`,
+    ...schedule.slice(1).map((y) => `${y.year}年目`),
+  ]);
+
+  const assetRows = assets.map((asset) => {
+    const rows = calculateDepreciationSchedule(asset);
+    return {
+      label: `　${asset.name}`,
+      values: schedule.map(
+        (y) => rows.find((r) => r.year === y.year)?.depreciation ?? 0
+      ),
+    };
+  });
+  let projected = basePeriod.depreciation;
+  const projectedValues = schedule.map((y) => {
+    if (y.year > 0) projected += y.depreciationChange;
+    return projected;
+  });
+
+  const rowDefs: { label: string; values: number[]; fill?: ExcelJS.Fill }[] = [
+    { label: "設備投資額", values: schedule.map((y) => y.capex) },
+    ...assetRows,
+    { label: "減価償却費（登録資産計）", values: schedule.map((y) => y.depreciation), fill: FIXED_FILL },
+    { label: "前年度比増減", values: schedule.map((y) => y.depreciationChange) },
+    { label: "期末帳簿価額（登録資産計）", values: schedule.map((y) => y.bookValue) },
+    { label: "見込み減価償却費（実績＋増減）", values: projectedValues, fill: FIXED_FILL },
+  ];
+  for (const def of rowDefs) {
+    const row = ws.addRow([def.label, ...def.values]);
+    row.eachCell((cell, col) => {
+      if (def.fill) cell.fill = def.fill;
+      applyBorder(cell);
+      if (col > 1) numFmt(cell, "#,##0");
+    });
+  }
+
+  const noteRow = ws.addRow([
+    "※ 見込み減価償却費は実績の減価償却費に登録資産の増減のみを加算（未登録の既存資産分は据え置き）",
+  ]);
+  noteRow.getCell(1).font = { size: 9, italic: true, color: { argb: "FF666666" } };
+
+  ws.getColumn(1).width = 32;
+  for (let c = 2; c <= years + 2; c++) ws.getColumn(c).width = 14;
+}
+
+/**
+ * 設備投資計画Excelエクスポート
+ */
+export async function exportCapexExcel(
+  assets: CapexAsset[],
+  basePeriod: PeriodData,
+  companyName: string,
+  years: number
+) {
+  const wb = new ExcelJS.Workbook();
+  addCapexSheet(wb, assets, basePeriod, years);
+
+  const buf = await wb.xlsx.writeBuffer();
+  const blob = new Blob([buf], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+  saveAs(blob, `設備投資計画_${companyName || "export"}.xlsx`);
+}
+
+const REPAYMENT_METHOD_LABELS: Record<Loan["method"], string> = {
+  equalPrincipal: "元金均等",
+  equalPayment: "元利均等",
+  bullet: "期日一括",
+};
+
+/**
+ * 借入金・債務償還シート: 借入金一覧、年度別返済スケジュール、実績期・シナリオの債務償還年数
+ * 実績期の有利子負債は貸借対照表の期末残高（未入力の期は借入金一覧の現在残高）、
+ * シナリオは基準期の有利子負債に借入増減額を加える
+ */
+function addLoanSheet(
+  wb: ExcelJS.Workbook,
+  loans: Loan[],
+  periods: PeriodData[],
+  results: ScenarioResult[],
+  taxRate: number
+) {
+  const ws = wb.addWorksheet("借入金・債務償還");
+  ws.addRow([`借入金・債務償還（単位：千円 / 想定税率 ${taxRate}%）`]);
+  ws.getCell("A1").font = { bold: true, size: 12 };
+  ws.addRow([]);
+
+  const addHeader = (labels: string[]) => {
+    const header = ws.addRow(labels);
+    header.eachCell((cell) => {
+      cell.fill = HEADER_FILL;
+      cell.font = HEADER_FONT;
+      applyBorder(cell);
+    });
+  };
+  const addValueRow = (label: string, values: (number | string)[], fmt = "#,##0", fill?: ExcelJS.Fill) => {
+    const row = ws.addRow([label, ...values]);
+    row.eachCell((cell, col) => {
+      if (fill) cell.fill = fill;
+      applyBorder(cell);
+      if (col > 1) numFmt(cell, fmt);
+    });
+    return row;
+  };
+
+  // ── 借入金一覧 ──
+  addHeader(["借入金", "期末残高", "年利(%)", "残存年数", "返済方法"]);
+  for (const loan of loans) {
+    const row = ws.addRow([
+      loan.name,
+      loan.balance,
+      loan.interestRate,
+      loan.remainingYears,
+      REPAYMENT_METHOD_LABELS[loan.method],
+    ]);
+    row.eachCell((cell) => applyBorder(cell));
+    numFmt(row.getCell(2), "#,##0");
+    numFmt(row.getCell(3), "0.00");
+  }
+  addValueRow("合計", [calculateLoanBalance(loans)]).font = { bold: true };
+  ws.addRow([]);
+
+  // ── 年度別返済スケジュール ──
+  const years = Math.max(1, ...loans.map((l) => Math.round(l.remainingYears)));
+  const schedule = calculateLoanPortfolioSchedule(loans, years);
+  addHeader(["返済スケジュール", ...schedule.map((y) => `${y.year}年目`)]);
+  addValueRow("期首残高", schedule.map((y) => y.openingBalance));
+  addValueRow("支払利息", schedule.map((y) => y.interest));
+  addValueRow("元金返済額", schedule.map((y) => y.principal));
+  for (const loan of loans) {
+    const rows = calculateLoanSchedule(loan);
+    addValueRow(
+      `　${loan.name} 元利返済額`,
+      schedule.map((y) => {
+        const r = rows.find((x) => x.year === y.year);
+        return r ? r.principal + r.interest : 0;
+      })
+    );
+  }
+  addValueRow("期末残高", schedule.map((y) => y.closingBalance), "#,##0", FIXED_FILL);
+  ws.addRow([]);
+
+  // ── 債務償還能力 ──
+  const columns: { label: string; capacity: DebtRepaymentCapacity }[] = [
+    ...periods.map((p) => {
+      const m = calculateMetrics(p);
+      return {
+        label: p.label,
+        capacity: calculateDebtRepaymentCapacity(
+          m.ordinaryProfit,
+          p.depreciation,
+          calculatePeriodInterestBearingDebt(p, loans),
+          taxRate
+        ),
+      };
+    }),
+    ...results.map((r) => ({
+      label: r.scenario.label,
+      capacity: calculateScenarioDebtRepaymentCapacity(
+        r,
+        periods.find((p) => p.id === r.basePeriodId) ?? periods[periods.length - 1],
+        loans,
+        taxRate
+      ),
+    })),
+  ];
+  addHeader(["債務償還能力", ...columns.map((c) => c.label)]);
+  addValueRow("経常利益", columns.map((c) => c.capacity.ordinaryProfit), "#,##0", PROFIT_FILL);
+  addValueRow("想定税額", columns.map((c) => c.capacity.tax));
+  addValueRow("減価償却費", columns.map((c) => c.capacity.depreciation), "#,##0", FIXED_FILL);
+  addValueRow("簡易キャッシュフロー", columns.map((c) => c.capacity.cashFlow), "#,##0", SALES_FILL);
+  addValueRow("有利子負債残高", columns.map((c) => c.capacity.debt));
+  addValueRow(
+    "債務償還年数（年）",
+    columns.map((c) => c.capacity.repaymentYears ?? "返済原資なし"),
+    "#,##0.0"
+  );
+
+  const noteRow = ws.addRow([
+    "※ 簡易キャッシュフロー = 経常利益 ×（1 − 想定税率）＋ 減価償却費。実績期の有利子負債は貸借対照表の期末残高（未入力の期は借入金一覧の現在残高）、シナリオは基準期の有利子負債に借入増減額を加算",
+  ]);
+  noteRow.getCell(1).font = { size: 9, italic: true, color: { argb: "FF666666" } };
+
+  ws.getColumn(1).width = 28;
+  for (let c = 2; c <= Math.max(years, columns.length, 4) + 1; c++) {
+    ws.getColumn(c).width = 14;
+  }
+}
+
+/**
+ * 借入金・債務償還Excelエクスポート
+ */
+export async function exportLoanExcel(
+  loans: Loan[],
+  periods: PeriodData[],
+  scenarioResults: ScenarioResult[],
+  taxRate: number,
+  companyName: string
+) {
+  const wb = new ExcelJS.Workbook();
+  addLoanSheet(wb, loans, periods, scenarioResults, taxRate);
+
+  const buf = await wb.xlsx.writeBuffer();
+  const blob = new Blob([buf], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+  saveAs(blob, `借入金・債務償還_${companyName || "export"}.xlsx`);
+}
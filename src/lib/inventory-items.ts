@@ -0,0 +1,70 @@
+import { ExtractedPeriodData, InventoryAdjustment, InventoryData } from "./types";
+
+/**
+ * 棚卸高の表示区分（入力・抽出確認・照合表・Excelで共通）
+ * adjustmentKey は calculateInventoryAdjustment の結果の項目
+ */
+export const INVENTORY_ITEMS: {
+  label: string;
+  beginningKey: keyof InventoryData;
+  endingKey: keyof InventoryData;
+  adjustmentKey: Exclude<keyof InventoryAdjustment, "total">;
+}[] = [
+  {
+    label: "材料",
+    beginningKey: "beginningMaterials",
+    endingKey: "endingMaterials",
+    adjustmentKey: "materials",
+  },
+  {
+    label: "仕掛品",
+    beginningKey: "beginningWorkInProgress",
+    endingKey: "endingWorkInProgress",
+    adjustmentKey: "workInProgress",
+  },
+  {
+    label: "製品",
+    beginningKey: "beginningFinishedGoods",
+    endingKey: "endingFinishedGoods",
+    adjustmentKey: "finishedGoods",
+  },
+  {
+    label: "商品",
+    beginningKey: "beginningMerchandise",
+    endingKey: "endingMerchandise",
+    adjustmentKey: "merchandise",
+  },
+];
+
+const INVENTORY_KEYS = INVENTORY_ITEMS.flatMap((item) => [item.beginningKey, item.endingKey]);
+
+/** 期首・期末の棚卸高の合計 */
+export function sumInventory(inv: InventoryData | undefined): {
+  beginning: number;
+  ending: number;
+} {
+  if (!inv) return { beginning: 0, ending: 0 };
+  return {
+    beginning: INVENTORY_ITEMS.reduce((sum, item) => sum + inv[item.beginningKey], 0),
+    ending: INVENTORY_ITEMS.reduce((sum, item) => sum + inv[item.endingKey], 0),
+  };
+}
+
+/** 抽出結果 → 保存用の棚卸高（すべて null なら棚卸高なし） */
+export function toInventoryData(data: ExtractedPeriodData): InventoryData | undefined {
+  if (INVENTORY_KEYS.every((key) => data[key] === null || data[key] === undefined)) {
+    return undefined;
+  }
+  return Object.fromEntries(
+    INVENTORY_KEYS.map((key) => [key, data[key] ?? 0])
+  ) as unknown as InventoryData;
+}
+
+/** 保存済みの棚卸高 → 抽出結果の項目（確認・編集用、未入力は null） */
+export function fromInventoryData(
+  inv: InventoryData | undefined
+): Pick<ExtractedPeriodData, keyof InventoryData> {
+  return Object.fromEntries(
+    INVENTORY_KEYS.map((key) => [key, inv ? inv[key] : null])
+  ) as Pick<ExtractedPeriodData, keyof InventoryData>;
+}
@@ -0,0 +1,246 @@
+import {
+  PeriodData,
+  Scenario,
+  ScenarioLever,
+  LeverDistribution,
+  MonteCarloConfig,
+  MonteCarloResult,
+  HistogramBin,
+} from "./types";
+import { calculateScenario, withScenarioLever } from "./calculations";
+
+export const MONTE_CARLO_MIN_TRIALS = 100;
+export const MONTE_CARLO_MAX_TRIALS = 100000;
+const HISTOGRAM_BINS = 30;
+
+/**
+ * シード付き乱数生成器（mulberry32）
+ * 同じシードからは常に同じ [0, 1) の乱数列を返す
+ */
+export function createRng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * 分布パラメータの整合性チェック。不整合があればメッセージ、なければ null
+ */
+export function validateDistribution(dist: LeverDistribution): string | null {
+  switch (dist.type) {
+    case "normal":
+      return dist.stdDev < 0 ? "標準偏差は0以上を指定してください" : null;
+    case "triangular":
+      if (dist.min > dist.max) return "最小が最大を上回っています";
+      return dist.mode < dist.min || dist.mode > dist.max
+        ? "最頻は最小〜最大の範囲で指定してください"
+        : null;
+    case "uniform":
+      return dist.min > dist.max ? "最小が最大を上回っています" : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * 分布から1サンプルを抽出。fixed の場合は fixedValue を返す
+ */
+export function sampleDistribution(
+  dist: LeverDistribution,
+  rng: () => number,
+  fixedValue: number
+): number {
+  switch (dist.type) {
+    case "normal": {
+      // Box-Muller法（u1=0でlog(0)にならないよう 1−rng() を使う）
+      const u1 = 1 - rng();
+      const u2 = rng();
+      const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+      return dist.mean + z * dist.stdDev;
+    }
+    case "triangular": {
+      const { min, max } = dist;
+      if (max <= min) return min;
+      // 最頻が範囲外だと平方根の中が負（NaN）になるため [最小, 最大] に収める
+      const mode = Math.min(max, Math.max(min, dist.mode));
+      const u = rng();
+      const c = (mode - min) / (max - min);
+      return u < c
+        ? min + Math.sqrt(u * (max - min) * (mode - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+    }
+    case "uniform":
+      return dist.min + rng() * (dist.max - dist.min);
+    default:
+      return fixedValue;
+  }
+}
+
+/**
+ * 昇順ソート済み配列のパーセンタイル（線形補間、p は 0〜100）
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const pos = ((sorted.length - 1) * p) / 100;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+}
+
+/**
+ * 昇順ソート済み配列から等幅ヒストグラムを作成
+ */
+export function buildHistogram(
+  sorted: number[],
+  bins: number = HISTOGRAM_BINS
+): HistogramBin[] {
+  if (sorted.length === 0) return [];
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  if (max === min) return [{ from: min, to: max, count: sorted.length }];
+
+  const width = (max - min) / bins;
+  const result: HistogramBin[] = Array.from({ length: bins }, (_, i) => ({
+    from: min + width * i,
+    to: min + width * (i + 1),
+    count: 0,
+  }));
+  for (const v of sorted) {
+    const idx = Math.min(bins - 1, Math.floor((v - min) / width));
+    result[idx].count++;
+  }
+  return result;
+}
+
+/**
+ * 既定の分布設定: 販売数量変化率・変動費率変化をシナリオ値中心の正規分布、他は固定
+ */
+export function createDefaultMonteCarloConfig(
+  scenario: Scenario
+): MonteCarloConfig {
+  return {
+    distributions: {
+      priceChangeRate: { type: "fixed" },
+      volumeChangeRate: {
+        type: "normal",
+        mean: scenario.volumeChangeRate,
+        stdDev: 5,
+      },
+      variableCostRateChange: {
+        type: "normal",
+        mean: scenario.variableCostRateChange,
+        stdDev: 1,
+      },
+      laborCostChangeRate: { type: "fixed" },
+      fixedCostChangeRate: { type: "fixed" },
+    },
+    trials: 5000,
+    seed: 1,
+  };
+}
+
+/**
+ * モンテカルロシミュレーション
+ * 各レバーを分布からサンプリングして calculateScenario を trials 回実行し、経常利益の分布を集計する
+ * 全体レバーのサンプル値は費目別の指定にも上乗せする（withScenarioLever）
+ */
+export function runMonteCarlo(
+  basePeriod: PeriodData,
+  scenario: Scenario,
+  config: MonteCarloConfig
+): MonteCarloResult {
+  const trials = Math.round(
+    Math.min(
+      MONTE_CARLO_MAX_TRIALS,
+      Math.max(MONTE_CARLO_MIN_TRIALS, config.trials)
+    )
+  );
+  const rng = createRng(config.seed);
+  const levers = Object.keys(config.distributions) as ScenarioLever[];
+
+  const profits = new Array<number>(trials);
+  let sum = 0;
+  let losses = 0;
+  for (let i = 0; i < trials; i++) {
+    let sampled: Scenario = scenario;
+    for (const lever of levers) {
+      sampled = withScenarioLever(
+        basePeriod,
+        sampled,
+        lever,
+        sampleDistribution(config.distributions[lever], rng, scenario[lever])
+      );
+    }
+    const op = calculateScenario(basePeriod, sampled).ordinaryProfit;
+    profits[i] = op;
+    sum += op;
+    if (op < 0) losses++;
+  }
+
+  const mean = sum / trials;
+  const variance =
+    profits.reduce((acc, v) => acc + (v - mean) ** 2, 0) / trials;
+  profits.sort((a, b) => a - b);
+
+  return {
+    trials,
+    seed: config.seed,
+    mean,
+    stdDev: Math.sqrt(variance),
+    min: profits[0],
+    max: profits[trials - 1],
+    p10: percentile(profits, 10),
+    p50: percentile(profits, 50),
+    p90: percentile(profits, 90),
+    lossProbability: (losses / trials) * 100,
+    histogram: buildHistogram(profits),
+  };
+}
+
+// ── Web Worker 連携 ──
+
+export interface MonteCarloWorkerRequest {
+  basePeriod: PeriodData;
+  scenario: Scenario;
+  config: MonteCarloConfig;
+}
+
+export type MonteCarloWorkerResponse =
+  | { ok: true; result: MonteCarloResult }
+  | { ok: false; error: string };
+
+/**
+ * Web Worker上でモンテカルロを実行（メインスレッドをブロックしない）
+ * Worker非対応環境ではメインスレッドで実行する
+ */
+export function runMonteCarloInWorker(
+  basePeriod: PeriodData,
+  scenario: Scenario,
+  config: MonteCarloConfig
+): Promise<MonteCarloResult> {
+  if (typeof Worker === "undefined") {
+    return Promise.resolve(runMonteCarlo(basePeriod, scenario, config));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(
+      new URL("./monte-carlo.worker.ts", import.meta.url)
+    );
+    worker.onmessage = (e: MessageEvent<MonteCarloWorkerResponse>) => {
+      worker.terminate();
+      if (e.data.ok) resolve(e.data.result);
+      else reject(new Error(e.data.error));
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || "モンテカルロの実行に失敗しました"));
+    };
+    const request: MonteCarloWorkerRequest = { basePeriod, scenario, config };
+    worker.postMessage(request);
+  });
+}
@@ -0,0 +1,19 @@
+import {
+  runMonteCarlo,
+  MonteCarloWorkerRequest,
+  MonteCarloWorkerResponse,
+} from "./monte-carlo";
+
+self.onmessage = (e: MessageEvent<MonteCarloWorkerRequest>) => {
+  const { basePeriod, scenario, config } = e.data;
+  let response: MonteCarloWorkerResponse;
+  try {
+    response = { ok: true, result: runMonteCarlo(basePeriod, scenario, config) };
+  } catch (err) {
+    response = {
+      ok: false,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+  self.postMessage(response);
+};
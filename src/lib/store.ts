@@ -1,11 +1,34 @@
 import { create } from "zustand";
 import { v4 as uuidv4 } from "uuid";
 import { toast } from "sonner";
-import { Company, PeriodData, Scenario } from "./types";
+import {
+  BalanceSheetData,
+  Budget,
+  CapexAsset,
+  Company,
+  InventoryData,
+  Loan,
+  MonthlyData,
+  MonthlySeries,
+  PeriodData,
+  PlanYear,
+  Scenario,
+  ScenarioResult,
+  ScenarioTemplate,
+  ScenarioTemplateParams,
+  VariableCostItem,
+} from "./types";
+import {
+  calculateCapexDepreciationChange,
+  createBudgetFromPeriod,
+  scenarioResultToPeriod,
+  DEFAULT_LOAN_TAX_RATE,
+} from "./calculations";
 
 const STORAGE_KEY = "plAnalyzerData";
 const SLOTS_INDEX_KEY = "plAnalyzerSlots";
 const ACTIVE_SLOT_KEY = "plAnalyzerActiveSlot";
+const TEMPLATES_KEY = "plAnalyzerScenarioTemplates";
 
 // ── スロット管理（複数企業データの保存・読込） ──
 
@@ -16,6 +39,18 @@ export interface SavedSlot {
   savedAt: string;
 }
 
+/** スロット・JSONに保存する企業データ */
+export interface SlotData {
+  company: Company;
+  periods: PeriodData[];
+  scenarios: Scenario[];
+  planYears?: PlanYear[]; // 中期経営計画（旧形式では未定義）
+  capexAssets?: CapexAsset[]; // 設備投資計画（旧形式では未定義）
+  loans?: Loan[]; // 借入金（旧形式では未定義）
+  loanTaxRate?: number; // 簡易キャッシュフローの想定税率（%）
+  budgets?: Budget[]; // 予算（旧形式では未定義）
+}
+
 /** 保存済みスロット一覧を取得 */
 export function getSavedSlots(): SavedSlot[] {
   try {
@@ -32,7 +67,7 @@ export function getSavedSlots(): SavedSlot[] {
 /** 現在のデータを名前付きスロットに保存。スロットidを返す */
 export function saveSlot(
   name: string,
-  data: { company: Company; periods: PeriodData[]; scenarios: Scenario[] }
+  data: SlotData
 ): string {
   const slots = getSavedSlots();
   const existing = slots.find((s) => s.id === name || s.name === name);
@@ -56,7 +91,7 @@ export function saveSlot(
 /** スロットIDで保存（上書き専用） */
 export function saveSlotById(
   id: string,
-  data: { company: Company; periods: PeriodData[]; scenarios: Scenario[] }
+  data: SlotData
 ): void {
   const slots = getSavedSlots();
   const existing = slots.find((s) => s.id === id);
@@ -69,7 +104,7 @@ export function saveSlotById(
 }
 
 /** スロットからデータを読み込む */
-export function loadSlot(id: string): { company: Company; periods: PeriodData[]; scenarios: Scenario[] } | null {
+export function loadSlot(id: string): SlotData | null {
   try {
     const raw = localStorage.getItem(`plAnalyzerData_${id}`);
     if (!raw) return null;
@@ -96,6 +131,227 @@ export function renameSlot(id: string, newName: string): void {
   }
 }
 
+// ── シナリオテンプレート（企業スロットとは別に保存） ──
+
+const EMPTY_TEMPLATE_PARAMS: ScenarioTemplateParams = {
+  priceChangeRate: 0,
+  volumeChangeRate: 0,
+  variableCostRateChange: 0,
+  laborCostChangeRate: 0,
+  fixedCostChangeRate: 0,
+  employeeCountChangeRate: 0,
+};
+
+/** 初回利用時のテンプレート（よく使うシナリオ） */
+const DEFAULT_SCENARIO_TEMPLATES: ScenarioTemplate[] = [
+  {
+    id: "builtin-wage-increase-3",
+    name: "賃上げ3%",
+    description: "従業員数は据え置きで人件費を3%引き上げる",
+    params: { ...EMPTY_TEMPLATE_PARAMS, laborCostChangeRate: 3 },
+    createdAt: "2024-01-01T00:00:00.000Z",
+  },
+  {
+    id: "builtin-price-pass-through-5",
+    name: "価格転嫁5%",
+    description: "販売数量は据え置きで販売単価を5%引き上げる",
+    params: { ...EMPTY_TEMPLATE_PARAMS, priceChangeRate: 5 },
+    createdAt: "2024-01-01T00:00:00.000Z",
+  },
+  {
+    id: "builtin-insourcing",
+    name: "外注内製化",
+    description: "外注費率を半分に下げ、内製化に伴い人件費を5%・従業員数を5%増やす",
+    params: {
+      ...EMPTY_TEMPLATE_PARAMS,
+      variableCostRateOverrides: { outsourcingCost: -5 },
+      laborCostChangeRate: 5,
+      employeeCountChangeRate: 5,
+    },
+    createdAt: "2024-01-01T00:00:00.000Z",
+  },
+  {
+    id: "builtin-recession-sales-minus-20",
+    name: "不況時売上−20%",
+    description: "販売数量が20%減少し、固定費は据え置き",
+    params: { ...EMPTY_TEMPLATE_PARAMS, volumeChangeRate: -20 },
+    createdAt: "2024-01-01T00:00:00.000Z",
+  },
+];
+
+// テンプレートに保存するレバー（未指定なら0）
+const TEMPLATE_LEVER_KEYS = [
+  "priceChangeRate",
+  "volumeChangeRate",
+  "variableCostRateChange",
+  "laborCostChangeRate",
+  "fixedCostChangeRate",
+  "employeeCountChangeRate",
+] as const;
+
+// テンプレートに保存する任意のレバー（未指定なら全体レバー・基準期の値に連動）
+const TEMPLATE_OPTIONAL_LEVER_KEYS = [
+  "depreciationChangeRate",
+  "otherExpensesChangeRate",
+  "nonOperatingIncomeChange",
+  "borrowingChange",
+  "borrowingInterestRate",
+  "effectiveTaxRate",
+] as const;
+
+const VARIABLE_COST_ITEMS: VariableCostItem[] = [
+  "materialCost",
+  "outsourcingCost",
+  "merchandisePurchase",
+  "otherVariableCost",
+];
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+/**
+ * 読込んだテンプレートのパラメータを検証する
+ * 既知のレバーのみ取り込み、数値でない値（文字列・null など）を含む場合は null
+ */
+function parseTemplateParams(raw: unknown): ScenarioTemplateParams | null {
+  if (!isRecord(raw)) return null;
+  const params: ScenarioTemplateParams = { ...EMPTY_TEMPLATE_PARAMS };
+
+  for (const key of TEMPLATE_LEVER_KEYS) {
+    const v = raw[key];
+    if (v === undefined) continue;
+    if (typeof v !== "number" || !Number.isFinite(v)) return null;
+    params[key] = v;
+  }
+  for (const key of TEMPLATE_OPTIONAL_LEVER_KEYS) {
+    const v = raw[key];
+    if (v === undefined) continue;
+    if (typeof v !== "number" || !Number.isFinite(v)) return null;
+    params[key] = v;
+  }
+
+  if (raw.variableCostRateOverrides !== undefined) {
+    if (!isRecord(raw.variableCostRateOverrides)) return null;
+    const overrides: Partial<Record<VariableCostItem, number>> = {};
+    for (const item of VARIABLE_COST_ITEMS) {
+      const v = raw.variableCostRateOverrides[item];
+      if (v === undefined) continue;
+      if (typeof v !== "number" || !Number.isFinite(v)) return null;
+      overrides[item] = v;
+    }
+    if (Object.keys(overrides).length > 0) params.variableCostRateOverrides = overrides;
+  }
+
+  return params;
+}
+
+/** 保存・読込時にテンプレートを現行形式に揃える（パラメータが不正なら null） */
+function normalizeTemplate(raw: unknown): ScenarioTemplate | null {
+  if (!isRecord(raw)) return null;
+  const params = parseTemplateParams(raw.params);
+  if (!params) return null;
+  const text = (v: unknown) => (typeof v === "string" ? v : "");
+  return {
+    id: text(raw.id) || uuidv4(),
+    name: text(raw.name) || "無題のテンプレート",
+    description: text(raw.description),
+    params,
+    createdAt: text(raw.createdAt) || new Date().toISOString(),
+  };
+}
+
+/** 不正なテンプレートを除いて現行形式に揃える */
+function normalizeTemplates(raw: unknown[]): ScenarioTemplate[] {
+  return raw
+    .map(normalizeTemplate)
+    .filter((t): t is ScenarioTemplate => t !== null);
+}
+
+function writeScenarioTemplates(templates: ScenarioTemplate[]): void {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+}
+
+/** テンプレート一覧を取得（未保存なら初期テンプレート） */
+export function getScenarioTemplates(): ScenarioTemplate[] {
+  try {
+    const raw = localStorage.getItem(TEMPLATES_KEY);
+    if (!raw) return DEFAULT_SCENARIO_TEMPLATES;
+    const data = JSON.parse(raw);
+    return Array.isArray(data) ? normalizeTemplates(data) : DEFAULT_SCENARIO_TEMPLATES;
+  } catch {
+    return DEFAULT_SCENARIO_TEMPLATES;
+  }
+}
+
+/**
+ * シナリオをテンプレートとして保存
+ * 従業員数は基準期に対する増減率に換算して保存する
+ */
+export function saveScenarioTemplate(
+  scenario: Scenario,
+  basePeriod: PeriodData,
+  name: string,
+  description: string
+): ScenarioTemplate {
+  const baseEmployees = basePeriod.employeeCount || 1;
+  const template: ScenarioTemplate = {
+    id: uuidv4(),
+    name: name || scenario.label,
+    description,
+    params: {
+      priceChangeRate: scenario.priceChangeRate,
+      volumeChangeRate: scenario.volumeChangeRate,
+      variableCostRateChange: scenario.variableCostRateChange,
+      laborCostChangeRate: scenario.laborCostChangeRate,
+      fixedCostChangeRate: scenario.fixedCostChangeRate,
+      employeeCountChangeRate: (scenario.employeeCount / baseEmployees - 1) * 100,
+      variableCostRateOverrides: scenario.variableCostRateOverrides,
+      depreciationChangeRate: scenario.depreciationChangeRate,
+      otherExpensesChangeRate: scenario.otherExpensesChangeRate,
+      nonOperatingIncomeChange: scenario.nonOperatingIncomeChange,
+      borrowingChange: scenario.borrowingChange,
+      borrowingInterestRate: scenario.borrowingInterestRate,
+      effectiveTaxRate: scenario.effectiveTaxRate,
+    },
+    createdAt: new Date().toISOString(),
+  };
+  writeScenarioTemplates([...getScenarioTemplates(), template]);
+  return template;
+}
+
+/** テンプレートを削除 */
+export function deleteScenarioTemplate(id: string): void {
+  writeScenarioTemplates(getScenarioTemplates().filter((t) => t.id !== id));
+}
+
+/** テンプレート一覧をJSON文字列で書き出す */
+export function exportScenarioTemplatesJSON(): string {
+  return JSON.stringify({ templates: getScenarioTemplates() }, null, 2);
+}
+
+/**
+ * JSONからテンプレートを取り込む（同じIDは上書き、それ以外は追加）
+ * パラメータが不正なテンプレートは読み飛ばし、取り込んだ件数を返す。
+ * 形式が不正、または取り込めるテンプレートがない場合は null
+ */
+export function importScenarioTemplatesJSON(json: string): number | null {
+  try {
+    const data = JSON.parse(json);
+    const imported = Array.isArray(data) ? data : data?.templates;
+    if (!Array.isArray(imported)) return null;
+    const incoming = normalizeTemplates(imported);
+    if (imported.length > 0 && incoming.length === 0) return null;
+    const ids = new Set(incoming.map((t) => t.id));
+    writeScenarioTemplates([
+      ...getScenarioTemplates().filter((t) => !ids.has(t.id)),
+      ...incoming,
+    ]);
+    return incoming.length;
+  } catch {
+    return null;
+  }
+}
+
 function createEmptyPeriod(companyId: string, label: string): PeriodData {
   return {
     id: uuidv4(),
@@ -114,12 +370,71 @@ function createEmptyPeriod(companyId: string, label: string): PeriodData {
   };
 }
 
+/** 空の貸借対照表（未入力の期に入力を始めるとき用） */
+export function createEmptyBalanceSheet(): BalanceSheetData {
+  return {
+    cashAndDeposits: 0,
+    receivables: 0,
+    inventories: 0,
+    otherCurrentAssets: 0,
+    tangibleFixedAssets: 0,
+    intangibleFixedAssets: 0,
+    investmentsAndOtherAssets: 0,
+    payables: 0,
+    shortTermBorrowings: 0,
+    otherCurrentLiabilities: 0,
+    longTermBorrowings: 0,
+    otherFixedLiabilities: 0,
+    netAssets: 0,
+  };
+}
+
+/** 空の棚卸高（未入力の期に入力を始めるとき用） */
+export function createEmptyInventory(): InventoryData {
+  return {
+    beginningMaterials: 0,
+    endingMaterials: 0,
+    beginningWorkInProgress: 0,
+    endingWorkInProgress: 0,
+    beginningFinishedGoods: 0,
+    endingFinishedGoods: 0,
+    beginningMerchandise: 0,
+    endingMerchandise: 0,
+  };
+}
+
+/** 空の月次試算表（従業員数は前月または期データから引き継ぐ） */
+export function createEmptyMonthlyData(employeeCount: number): MonthlyData {
+  return {
+    sales: 0,
+    materialCost: 0,
+    outsourcingCost: 0,
+    merchandisePurchase: 0,
+    otherVariableCost: 0,
+    laborCost: 0,
+    depreciation: 0,
+    otherExpenses: 0,
+    nonOperatingIncome: 0,
+    employeeCount,
+  };
+}
+
+/** 月次試算表の期首月の初期値（前期の月次があればそれに合わせる） */
+export function createDefaultMonthlySeries(periods: PeriodData[], index: number): MonthlySeries {
+  const prev = periods
+    .slice(0, index)
+    .reverse()
+    .find((p) => p.monthly);
+  return { startMonth: prev?.monthly?.startMonth ?? 4, months: [] };
+}
+
 function createDefaultScenario(periodId: string, index: number): Scenario {
   return {
     id: uuidv4(),
     periodId,
     label: `試算${["①", "②", "③", "④", "⑤"][index]}`,
-    salesChangeRate: 0,
+    priceChangeRate: 0,
+    volumeChangeRate: 0,
     variableCostRateChange: 0,
     laborCostChangeRate: 0,
     fixedCostChangeRate: 0,
@@ -127,10 +442,103 @@ function createDefaultScenario(periodId: string, index: number): Scenario {
   };
 }
 
+// 旧形式のシナリオ（販売単価・数量に分割する前の売上高変化率のみ）
+type LegacyScenario = Omit<Scenario, "priceChangeRate" | "volumeChangeRate"> & {
+  priceChangeRate?: number;
+  volumeChangeRate?: number;
+  salesChangeRate?: number;
+};
+
+/**
+ * 保存データのシナリオを現行形式に変換する
+ * 旧形式の売上高変化率は変動費が売上高に比例する前提だったため、販売数量変化率として引き継ぐ
+ */
+function migrateScenarios(scenarios: LegacyScenario[] | undefined): Scenario[] {
+  if (!scenarios) return [createDefaultScenario("", 0)];
+  return scenarios.map(({ salesChangeRate, ...rest }) => ({
+    ...rest,
+    priceChangeRate: rest.priceChangeRate ?? 0,
+    volumeChangeRate: rest.volumeChangeRate ?? salesChangeRate ?? 0,
+  }));
+}
+
+function createPlanYear(index: number, employeeCount: number): PlanYear {
+  return {
+    id: uuidv4(),
+    label: `計画${index + 1}年目`,
+    salesGrowthRate: 0,
+    variableCostRateChange: 0,
+    wageIncreaseRate: 0,
+    employeeCount,
+    fixedCostChangeRate: 0,
+  };
+}
+
+function createCapexAsset(index: number): CapexAsset {
+  return {
+    id: uuidv4(),
+    name: `設備${index + 1}`,
+    acquisitionCost: 0,
+    usefulLife: 10,
+    method: "straightLine",
+    startYear: 1,
+  };
+}
+
+function createLoan(index: number): Loan {
+  return {
+    id: uuidv4(),
+    name: `借入${index + 1}`,
+    balance: 0,
+    interestRate: 1.5,
+    remainingYears: 5,
+    method: "equalPrincipal",
+  };
+}
+
+/**
+ * シナリオが相当する設備投資計画の年度（最新の実績期の翌期 = 1年目）
+ * 基準期が最新の実績期より前なら、基準期の翌期に当たる年度（0以下）になる
+ */
+function getCapexScenarioYear(periods: PeriodData[], scenario: Scenario): number {
+  let latestIndex = -1;
+  periods.forEach((p, i) => {
+    if (p.sales > 0) latestIndex = i;
+  });
+  const baseIndex = periods.findIndex((p) => p.id === scenario.periodId);
+  // 基準期が見つからない場合は各画面と同じく最新の実績期を基準とする
+  if (latestIndex < 0 || baseIndex < 0 || baseIndex > latestIndex) return 1;
+  return 1 - (latestIndex - baseIndex);
+}
+
+/** 設備投資計画に連動するシナリオの減価償却費増減を、各シナリオの基準期の翌期で再計算 */
+function syncCapexScenarios(
+  scenarios: Scenario[],
+  assets: CapexAsset[],
+  periods: PeriodData[]
+): Scenario[] {
+  return scenarios.map((s) =>
+    s.capexDepreciationChange !== undefined
+      ? {
+          ...s,
+          capexDepreciationChange: calculateCapexDepreciationChange(
+            assets,
+            getCapexScenarioYear(periods, s)
+          ),
+        }
+      : s
+  );
+}
+
 interface AppStore {
   company: Company;
   periods: PeriodData[];
   scenarios: Scenario[];
+  planYears: PlanYear[];
+  capexAssets: CapexAsset[];
+  loans: Loan[];
+  loanTaxRate: number;
+  budgets: Budget[];
   currentStep: number;
   selectedPeriodIndex: number;
   activeSlotId: string | null;
@@ -142,12 +550,42 @@ interface AppStore {
   addPeriod: (label: string) => void;
   removePeriod: (index: number) => void;
   updatePeriod: (index: number, data: Partial<PeriodData>) => void;
+  updateBalanceSheet: (index: number, data: Partial<BalanceSheetData>) => void; // 未入力の期は空の貸借対照表から作成
+  updateInventory: (index: number, data: Partial<InventoryData>) => void; // 未入力の期は空の棚卸高から作成
+  setMonthlyStartMonth: (index: number, startMonth: number) => void;
+  addMonthlyData: (index: number) => void; // 翌月を追加（12ヶ月まで）
+  removeMonthlyData: (index: number) => void; // 最終月を削除（0ヶ月になれば月次なし）
+  updateMonthlyData: (index: number, monthIndex: number, data: Partial<MonthlyData>) => void;
   setSelectedPeriodIndex: (index: number) => void;
 
   // シナリオ
-  addScenario: () => void;
+  addScenario: (periodId?: string) => void; // 省略時は最新期を基準期にする
   removeScenario: (index: number) => void;
   updateScenario: (index: number, data: Partial<Scenario>) => void;
+  applyScenarioTemplate: (template: ScenarioTemplate, periodId: string) => boolean; // 上限（5件）なら false
+
+  // 中期経営計画
+  createPlan: (employeeCount: number) => void;
+  addPlanYear: () => void;
+  removePlanYear: (index: number) => void;
+  updatePlanYear: (index: number, data: Partial<PlanYear>) => void;
+
+  // 設備投資計画
+  addCapexAsset: () => void;
+  removeCapexAsset: (index: number) => void;
+  updateCapexAsset: (index: number, data: Partial<CapexAsset>) => void;
+  setScenarioCapexLink: (index: number, linked: boolean) => void; // シナリオの減価償却費を設備投資計画に連動
+
+  // 借入金
+  addLoan: () => void;
+  removeLoan: (index: number) => void;
+  updateLoan: (index: number, data: Partial<Loan>) => void;
+  setLoanTaxRate: (rate: number) => void;
+
+  // 予算（1期につき1件、作成時は既存の予算を置き換える）
+  createBudget: (periodId: string, scenarioResult?: ScenarioResult) => void; // シナリオ結果を省略すると0から直接入力
+  updateBudget: (periodId: string, data: Partial<Budget>) => void;
+  removeBudget: (periodId: string) => void;
 
   // ナビゲーション
   setCurrentStep: (step: number) => void;
@@ -180,6 +618,11 @@ export const useAppStore = create<AppStore>((set, get) => ({
     createEmptyPeriod(defaultCompany.id, "第3期"),
   ],
   scenarios: [createDefaultScenario("", 0)],
+  planYears: [],
+  capexAssets: [],
+  loans: [],
+  loanTaxRate: DEFAULT_LOAN_TAX_RATE,
+  budgets: [],
   currentStep: 1,
   selectedPeriodIndex: 0,
   activeSlotId: null,
@@ -208,22 +651,120 @@ export const useAppStore = create<AppStore>((set, get) => ({
         state.selectedPeriodIndex,
         newPeriods.length - 1
       );
-      return { periods: newPeriods, selectedPeriodIndex: newSelectedIndex };
+      return {
+        periods: newPeriods,
+        selectedPeriodIndex: newSelectedIndex,
+        budgets: state.budgets.filter((b) => b.periodId !== state.periods[index].id),
+        scenarios: syncCapexScenarios(state.scenarios, state.capexAssets, newPeriods),
+      };
     }),
 
   updatePeriod: (index, data) =>
     set((state) => {
       const newPeriods = [...state.periods];
       newPeriods[index] = { ...newPeriods[index], ...data };
+      // 売上高の入力で最新の実績期が変わると、連動シナリオの年度もずれる
+      if (data.sales === undefined) return { periods: newPeriods };
+      return {
+        periods: newPeriods,
+        scenarios: syncCapexScenarios(state.scenarios, state.capexAssets, newPeriods),
+      };
+    }),
+
+  updateBalanceSheet: (index, data) =>
+    set((state) => {
+      const newPeriods = [...state.periods];
+      const period = newPeriods[index];
+      newPeriods[index] = {
+        ...period,
+        balanceSheet: {
+          ...(period.balanceSheet ?? createEmptyBalanceSheet()),
+          ...data,
+        },
+      };
+      return { periods: newPeriods };
+    }),
+
+  updateInventory: (index, data) =>
+    set((state) => {
+      const newPeriods = [...state.periods];
+      const period = newPeriods[index];
+      newPeriods[index] = {
+        ...period,
+        inventory: {
+          ...(period.inventory ?? createEmptyInventory()),
+          ...data,
+        },
+      };
+      return { periods: newPeriods };
+    }),
+
+  setMonthlyStartMonth: (index, startMonth) =>
+    set((state) => {
+      const newPeriods = [...state.periods];
+      const period = newPeriods[index];
+      newPeriods[index] = {
+        ...period,
+        monthly: {
+          ...(period.monthly ?? createDefaultMonthlySeries(state.periods, index)),
+          startMonth,
+        },
+      };
+      return { periods: newPeriods };
+    }),
+
+  addMonthlyData: (index) =>
+    set((state) => {
+      const newPeriods = [...state.periods];
+      const period = newPeriods[index];
+      const series = period.monthly ?? createDefaultMonthlySeries(state.periods, index);
+      if (series.months.length >= 12) return state;
+      const last = series.months[series.months.length - 1];
+      newPeriods[index] = {
+        ...period,
+        monthly: {
+          ...series,
+          months: [
+            ...series.months,
+            createEmptyMonthlyData(last?.employeeCount ?? period.employeeCount),
+          ],
+        },
+      };
+      return { periods: newPeriods };
+    }),
+
+  removeMonthlyData: (index) =>
+    set((state) => {
+      const newPeriods = [...state.periods];
+      const period = newPeriods[index];
+      if (!period.monthly) return state;
+      const months = period.monthly.months.slice(0, -1);
+      newPeriods[index] = {
+        ...period,
+        monthly: months.length > 0 ? { ...period.monthly, months } : undefined,
+      };
+      return { periods: newPeriods };
+    }),
+
+  updateMonthlyData: (index, monthIndex, data) =>
+    set((state) => {
+      const newPeriods = [...state.periods];
+      const period = newPeriods[index];
+      if (!period.monthly?.months[monthIndex]) return state;
+      const months = [...period.monthly.months];
+      months[monthIndex] = { ...months[monthIndex], ...data };
+      newPeriods[index] = { ...period, monthly: { ...period.monthly, months } };
       return { periods: newPeriods };
     }),
 
   setSelectedPeriodIndex: (index) => set({ selectedPeriodIndex: index }),
 
-  addScenario: () =>
+  addScenario: (periodId) =>
     set((state) => {
       if (state.scenarios.length >= 5) return state;
-      const basePeriod = state.periods[state.periods.length - 1];
+      const basePeriod =
+        state.periods.find((p) => p.id === periodId) ??
+        state.periods[state.periods.length - 1];
       const newScenario = createDefaultScenario(
         basePeriod?.id || "",
         state.scenarios.length
@@ -242,9 +783,163 @@ export const useAppStore = create<AppStore>((set, get) => ({
     set((state) => {
       const newScenarios = [...state.scenarios];
       newScenarios[index] = { ...newScenarios[index], ...data };
+      if (data.periodId === undefined) return { scenarios: newScenarios };
+      // 基準期を変えたら設備投資連動の年度も合わせる
+      return {
+        scenarios: syncCapexScenarios(newScenarios, state.capexAssets, state.periods),
+      };
+    }),
+
+  applyScenarioTemplate: (template, periodId) => {
+    const state = get();
+    if (state.scenarios.length >= 5) return false;
+    const basePeriod =
+      state.periods.find((p) => p.id === periodId) ??
+      state.periods[state.periods.length - 1];
+    const { employeeCountChangeRate, ...levers } = template.params;
+    const scenario: Scenario = {
+      ...levers,
+      id: uuidv4(),
+      periodId: basePeriod?.id || "",
+      label: template.name,
+      employeeCount: Math.max(
+        1,
+        Math.round(
+          (basePeriod?.employeeCount || 1) * (1 + employeeCountChangeRate / 100)
+        )
+      ),
+    };
+    set({ scenarios: [...state.scenarios, scenario] });
+    return true;
+  },
+
+  createPlan: (employeeCount) =>
+    set({
+      planYears: [0, 1, 2].map((i) => createPlanYear(i, employeeCount)),
+    }),
+
+  addPlanYear: () =>
+    set((state) => {
+      if (state.planYears.length >= 5) return state;
+      const last = state.planYears[state.planYears.length - 1];
+      return {
+        planYears: [
+          ...state.planYears,
+          createPlanYear(state.planYears.length, last?.employeeCount || 1),
+        ],
+      };
+    }),
+
+  removePlanYear: (index) =>
+    set((state) => {
+      if (state.planYears.length <= 3) return state;
+      return { planYears: state.planYears.filter((_, i) => i !== index) };
+    }),
+
+  updatePlanYear: (index, data) =>
+    set((state) => {
+      const newPlanYears = [...state.planYears];
+      newPlanYears[index] = { ...newPlanYears[index], ...data };
+      return { planYears: newPlanYears };
+    }),
+
+  addCapexAsset: () =>
+    set((state) => {
+      const capexAssets = [
+        ...state.capexAssets,
+        createCapexAsset(state.capexAssets.length),
+      ];
+      return {
+        capexAssets,
+        scenarios: syncCapexScenarios(state.scenarios, capexAssets, state.periods),
+      };
+    }),
+
+  removeCapexAsset: (index) =>
+    set((state) => {
+      const capexAssets = state.capexAssets.filter((_, i) => i !== index);
+      return {
+        capexAssets,
+        scenarios: syncCapexScenarios(state.scenarios, capexAssets, state.periods),
+      };
+    }),
+
+  updateCapexAsset: (index, data) =>
+    set((state) => {
+      const capexAssets = [...state.capexAssets];
+      capexAssets[index] = { ...capexAssets[index], ...data };
+      return {
+        capexAssets,
+        scenarios: syncCapexScenarios(state.scenarios, capexAssets, state.periods),
+      };
+    }),
+
+  setScenarioCapexLink: (index, linked) =>
+    set((state) => {
+      const newScenarios = [...state.scenarios];
+      newScenarios[index] = {
+        ...newScenarios[index],
+        capexDepreciationChange: linked
+          ? calculateCapexDepreciationChange(
+              state.capexAssets,
+              getCapexScenarioYear(state.periods, newScenarios[index])
+            )
+          : undefined,
+      };
       return { scenarios: newScenarios };
     }),
 
+  addLoan: () =>
+    set((state) => ({
+      loans: [...state.loans, createLoan(state.loans.length)],
+    })),
+
+  removeLoan: (index) =>
+    set((state) => ({
+      loans: state.loans.filter((_, i) => i !== index),
+    })),
+
+  updateLoan: (index, data) =>
+    set((state) => {
+      const newLoans = [...state.loans];
+      newLoans[index] = { ...newLoans[index], ...data };
+      return { loans: newLoans };
+    }),
+
+  setLoanTaxRate: (rate) => set({ loanTaxRate: rate }),
+
+  createBudget: (periodId, scenarioResult) =>
+    set((state) => {
+      const target = state.periods.find((p) => p.id === periodId);
+      if (!target) return state;
+      const base = scenarioResult
+        ? state.periods.find((p) => p.id === scenarioResult.basePeriodId)
+        : undefined;
+      const source =
+        scenarioResult && base
+          ? scenarioResultToPeriod(base, scenarioResult)
+          : { ...createEmptyPeriod(state.company.id, ""), employeeCount: target.employeeCount };
+      const budget = createBudgetFromPeriod(
+        source,
+        target,
+        uuidv4(),
+        scenarioResult && base ? scenarioResult.scenario.label : undefined
+      );
+      return {
+        budgets: [...state.budgets.filter((b) => b.periodId !== periodId), budget],
+      };
+    }),
+
+  updateBudget: (periodId, data) =>
+    set((state) => ({
+      budgets: state.budgets.map((b) => (b.periodId === periodId ? { ...b, ...data } : b)),
+    })),
+
+  removeBudget: (periodId) =>
+    set((state) => ({
+      budgets: state.budgets.filter((b) => b.periodId !== periodId),
+    })),
+
   setCurrentStep: (step) => set({ currentStep: step }),
 
   saveToLocalStorage: () => {
@@ -253,6 +948,11 @@ export const useAppStore = create<AppStore>((set, get) => ({
       company: state.company,
       periods: state.periods,
       scenarios: state.scenarios,
+      planYears: state.planYears,
+      capexAssets: state.capexAssets,
+      loans: state.loans,
+      loanTaxRate: state.loanTaxRate,
+      budgets: state.budgets,
     };
     try {
       localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
@@ -282,7 +982,12 @@ export const useAppStore = create<AppStore>((set, get) => ({
         set({
           company: data.company,
           periods: data.periods,
-          scenarios: data.scenarios || [createDefaultScenario("", 0)],
+          scenarios: migrateScenarios(data.scenarios),
+          planYears: data.planYears || [],
+          capexAssets: data.capexAssets || [],
+          loans: data.loans || [],
+          loanTaxRate: data.loanTaxRate ?? DEFAULT_LOAN_TAX_RATE,
+          budgets: data.budgets || [],
           activeSlotId: newSlotId,
         });
         localStorage.setItem(ACTIVE_SLOT_KEY, newSlotId);
@@ -292,7 +997,12 @@ export const useAppStore = create<AppStore>((set, get) => ({
       set({
         company: data.company,
         periods: data.periods,
-        scenarios: data.scenarios || [createDefaultScenario("", 0)],
+        scenarios: migrateScenarios(data.scenarios),
+        planYears: data.planYears || [],
+        capexAssets: data.capexAssets || [],
+        loans: data.loans || [],
+        loanTaxRate: data.loanTaxRate ?? DEFAULT_LOAN_TAX_RATE,
+        budgets: data.budgets || [],
         activeSlotId,
       });
       return true;
@@ -309,6 +1019,11 @@ export const useAppStore = create<AppStore>((set, get) => ({
         company: state.company,
         periods: state.periods,
         scenarios: state.scenarios,
+        planYears: state.planYears,
+        capexAssets: state.capexAssets,
+        loans: state.loans,
+        loanTaxRate: state.loanTaxRate,
+        budgets: state.budgets,
       },
       null,
       2
@@ -322,7 +1037,12 @@ export const useAppStore = create<AppStore>((set, get) => ({
       set({
         company: data.company,
         periods: data.periods,
-        scenarios: data.scenarios || [createDefaultScenario("", 0)],
+        scenarios: migrateScenarios(data.scenarios),
+        planYears: data.planYears || [],
+        capexAssets: data.capexAssets || [],
+        loans: data.loans || [],
+        loanTaxRate: data.loanTaxRate ?? DEFAULT_LOAN_TAX_RATE,
+        budgets: data.budgets || [],
       });
       return true;
     } catch {
@@ -345,6 +1065,11 @@ export const useAppStore = create<AppStore>((set, get) => ({
         createEmptyPeriod(newCompany.id, "第3期"),
       ],
       scenarios: [createDefaultScenario("", 0)],
+      planYears: [],
+      capexAssets: [],
+      loans: [],
+      loanTaxRate: DEFAULT_LOAN_TAX_RATE,
+      budgets: [],
       currentStep: 1,
       selectedPeriodIndex: 0,
       activeSlotId: null,
@@ -362,6 +1087,11 @@ export const useAppStore = create<AppStore>((set, get) => ({
         company: state.company,
         periods: state.periods,
         scenarios: state.scenarios,
+        planYears: state.planYears,
+        capexAssets: state.capexAssets,
+        loans: state.loans,
+        loanTaxRate: state.loanTaxRate,
+        budgets: state.budgets,
       });
     }
 
@@ -375,7 +1105,12 @@ export const useAppStore = create<AppStore>((set, get) => ({
     set({
       company: data.company,
       periods: data.periods,
-      scenarios: data.scenarios || [createDefaultScenario("", 0)],
+      scenarios: migrateScenarios(data.scenarios),
+      planYears: data.planYears || [],
+      capexAssets: data.capexAssets || [],
+      loans: data.loans || [],
+      loanTaxRate: data.loanTaxRate ?? DEFAULT_LOAN_TAX_RATE,
+      budgets: data.budgets || [],
       activeSlotId: slotId,
       currentStep: 1,
       selectedPeriodIndex: 0,
@@ -397,6 +1132,11 @@ export const useAppStore = create<AppStore>((set, get) => ({
       company: state.company,
       periods: state.periods,
       scenarios: state.scenarios,
+      planYears: state.planYears,
+      capexAssets: state.capexAssets,
+      loans: state.loans,
+      loanTaxRate: state.loanTaxRate,
+      budgets: state.budgets,
     };
 
     // 既存スロットがあればIDで上書き、なければ新規作成
@@ -428,6 +1168,11 @@ export const useAppStore = create<AppStore>((set, get) => ({
         company: state.company,
         periods: state.periods,
         scenarios: state.scenarios,
+        planYears: state.planYears,
+        capexAssets: state.capexAssets,
+        loans: state.loans,
+        loanTaxRate: state.loanTaxRate,
+        budgets: state.budgets,
       });
     } else if (state.company.name) {
       // スロット未割当だが企業名がある場合、新規スロット作成
@@ -435,6 +1180,11 @@ export const useAppStore = create<AppStore>((set, get) => ({
         company: state.company,
         periods: state.periods,
         scenarios: state.scenarios,
+        planYears: state.planYears,
+        capexAssets: state.capexAssets,
+        loans: state.loans,
+        loanTaxRate: state.loanTaxRate,
+        budgets: state.budgets,
       });
       // 保存はしたが、これからリセットするので activeSlotId には設定しない
       void newId;
@@ -455,6 +1205,11 @@ export const useAppStore = create<AppStore>((set, get) => ({
         createEmptyPeriod(newCompany.id, "第3期"),
       ],
       scenarios: [createDefaultScenario("", 0)],
+      planYears: [],
+      capexAssets: [],
+      loans: [],
+      loanTaxRate: DEFAULT_LOAN_TAX_RATE,
+      budgets: [],
       currentStep: 1,
       selectedPeriodIndex: 0,
       activeSlotId: null,
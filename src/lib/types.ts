@@ -19,16 +19,117 @@ export interface PeriodData {
   otherExpenses: number; // その他経費（残差計算）
   nonOperatingIncome: number; // 営業外損益（収益−費用）
   employeeCount: number; // 従業員数
+  extraordinaryIncome?: number; // 特別利益（未入力は0）
+  extraordinaryLoss?: number; // 特別損失（未入力は0）
+  corporateTax?: number; // 法人税、住民税及び事業税（法人税等調整額を含む、未入力は0）
+  balanceSheet?: BalanceSheetData; // 期末の貸借対照表（未入力なら undefined）
+  inventory?: InventoryData; // 期首・期末の棚卸高（未入力なら棚卸増減調整なし）
+  monthly?: MonthlySeries; // 月次試算表（未入力なら undefined）
+}
+
+// 月次試算表の1ヶ月分（千円、PeriodData と同じ費目構成。従業員数は月末人数）
+export type MonthlyData = Pick<
+  PeriodData,
+  | "sales"
+  | "materialCost"
+  | "outsourcingCost"
+  | "merchandisePurchase"
+  | "otherVariableCost"
+  | "laborCost"
+  | "depreciation"
+  | "otherExpenses"
+  | "nonOperatingIncome"
+  | "employeeCount"
+>;
+
+// 1決算期分の月次試算表。months は期首月から順に入力済みの月（最大12ヶ月）
+export interface MonthlySeries {
+  startMonth: number; // 期首月（暦月 1〜12）
+  months: MonthlyData[];
+}
+
+// 月次推移の1点。単月・期首からの累計（YTD）・直近12ヶ月（TTM）を期データとして持ち、
+// calculateMetrics でそのまま評価できるようにする
+export interface MonthlyTrendPoint {
+  periodId: string;
+  monthIndex: number; // 期首からの月数（1〜12）
+  month: number; // 暦月（1〜12）
+  label: string; // 表示ラベル（例：R6年4月期 5月）
+  monthly: PeriodData;
+  ytd: PeriodData;
+  ttm: PeriodData | null; // 連続した12ヶ月の月次がなければ null
+}
+
+// 棚卸高（期首・期末、千円）。変動費の各項目は当期の仕入・発生額として扱い、
+// 期首−期末の増減を変動費に加算して全部原価の損益計算書と経常利益を一致させる
+export interface InventoryData {
+  beginningMaterials: number; // 期首材料棚卸高
+  endingMaterials: number; // 期末材料棚卸高
+  beginningWorkInProgress: number; // 期首仕掛品棚卸高
+  endingWorkInProgress: number; // 期末仕掛品棚卸高
+  beginningFinishedGoods: number; // 期首製品棚卸高
+  endingFinishedGoods: number; // 期末製品棚卸高
+  beginningMerchandise: number; // 期首商品棚卸高
+  endingMerchandise: number; // 期末商品棚卸高
+}
+
+// 棚卸増減調整額（期首−期末、プラスは在庫の減少による費用増）
+export interface InventoryAdjustment {
+  materials: number; // 材料
+  workInProgress: number; // 仕掛品
+  finishedGoods: number; // 製品
+  merchandise: number; // 商品
+  total: number; // 合計（変動費に加算する額）
+}
+
+// 貸借対照表（期末残高、千円）。合計欄は BalanceSheetMetrics で算出する
+export interface BalanceSheetData {
+  cashAndDeposits: number; // 現金預金
+  receivables: number; // 売上債権（受取手形・売掛金・電子記録債権）
+  inventories: number; // 棚卸資産
+  otherCurrentAssets: number; // その他流動資産
+  tangibleFixedAssets: number; // 有形固定資産
+  intangibleFixedAssets: number; // 無形固定資産
+  investmentsAndOtherAssets: number; // 投資その他の資産（繰延資産を含む）
+  payables: number; // 仕入債務（支払手形・買掛金・電子記録債務）
+  shortTermBorrowings: number; // 短期借入金（1年内返済予定の長期借入金を含む）
+  otherCurrentLiabilities: number; // その他流動負債
+  longTermBorrowings: number; // 長期借入金（社債を含む）
+  otherFixedLiabilities: number; // その他固定負債
+  netAssets: number; // 純資産（債務超過はマイナス）
+}
+
+// 貸借対照表の集計と財務指標
+export interface BalanceSheetMetrics {
+  totalCurrentAssets: number; // 流動資産合計
+  totalFixedAssets: number; // 固定資産合計
+  totalAssets: number; // 資産合計（総資本）
+  totalCurrentLiabilities: number; // 流動負債合計
+  totalFixedLiabilities: number; // 固定負債合計
+  totalLiabilitiesAndNetAssets: number; // 負債・純資産合計
+  balanceDifference: number; // 資産合計 − 負債・純資産合計（0 で貸借一致）
+  interestBearingDebt: number; // 有利子負債（短期借入金＋長期借入金）
+  equityRatio: number; // 自己資本比率（%）
+  currentRatio: number; // 流動比率（%）
+  roa: number; // ROA（総資本経常利益率、%）
+  totalAssetTurnover: number; // 総資本回転率（回）
+  debtToMonthlySales: number; // 有利子負債月商倍率（月）
 }
 
 // 自動計算項目
 export interface CalculatedMetrics {
-  totalVariableCost: number; // 変動費合計
+  inventoryAdjustment: number; // 棚卸増減調整額（変動費合計に含む）
+  totalVariableCost: number; // 変動費合計（棚卸増減調整後）
   marginalProfit: number; // 限界利益
   marginalProfitRate: number; // 限界利益率（%）
   totalFixedCost: number; // 固定費合計
   operatingProfit: number; // 営業利益
   ordinaryProfit: number; // 経常利益
+  extraordinaryItems: number; // 特別損益（特別利益 − 特別損失）
+  incomeBeforeTax: number; // 税引前当期純利益
+  corporateTax: number; // 法人税等
+  netIncome: number; // 当期純利益
+  effectiveTaxRate: number; // 実効税率（%、法人税等 ÷ 税引前当期純利益。税引前が0以下なら0）
   laborShareRate: number; // 労働分配率（%）
   salesPerEmployee: number; // 1人当たり売上高
   marginalProfitPerEmployee: number; // 1人当たり加工高（年間）
@@ -42,6 +143,7 @@ export interface CompositionRatios {
   outsourcingCostRate: number;
   merchandisePurchaseRate: number;
   otherVariableCostRate: number;
+  inventoryAdjustmentRate: number;
   totalVariableCostRate: number;
   marginalProfitRate: number;
   laborCostRate: number;
@@ -59,24 +161,102 @@ export interface WaterfallFactors {
   marginalRateContribution: number; // ②加工高比率貢献
   fixedCostContribution: number; // ③固定費貢献
   nonOperatingContribution: number; // ④営業外損益貢献
+  detail: WaterfallDetail; // ②③の内訳（詳細表示用）
 }
 
+// ウォーターフォール①②の分解方法
+// sequential: ①を前期加工高比率・②を当期売上高で評価（従来方式、順序に依存）
+// shapley: ①②とも前期・当期の平均で評価（両順序の平均＝シャープレイ値、順序に依存しない）
+export type WaterfallMethod = "sequential" | "shapley";
+
+// ウォーターフォール要因の内訳
+export interface WaterfallDetail {
+  materialCostRateContribution: number; // ②-1 材料費率貢献
+  outsourcingCostRateContribution: number; // ②-2 外注費率貢献
+  merchandisePurchaseRateContribution: number; // ②-3 商品仕入率貢献
+  otherVariableCostRateContribution: number; // ②-4 その他変動費率貢献
+  laborCostContribution: number; // ③-1 人件費貢献
+  depreciationContribution: number; // ③-2 減価償却費貢献
+  otherExpensesContribution: number; // ③-3 その他経費貢献
+}
+
+// 1人当たり生産性ブリッジ（総額の変動を人員効果と生産性効果に分解）
+export interface ProductivityBridge {
+  previousValue: number; // 前期の総額
+  currentValue: number; // 当期の総額
+  previousPerEmployee: number; // 前期の1人当たり額
+  currentPerEmployee: number; // 当期の1人当たり額
+  headcountEffect: number; // 人員効果 = Δ従業員数 × 前期1人当たり額
+  productivityEffect: number; // 生産性効果 = 当期従業員数 × Δ1人当たり額
+}
+
+export interface ProductivityBridges {
+  marginalProfit: ProductivityBridge; // 限界利益（1人当たり加工高）
+  ordinaryProfit: ProductivityBridge; // 経常利益（1人当たり経常利益）
+}
+
+// 損益分岐点分析（経常利益ベース）
+export interface BreakEvenAnalysis {
+  breakEvenSales: number; // 損益分岐点売上高
+  marginOfSafetyRate: number; // 安全余裕率（%）
+  breakEvenPointRate: number; // 損益分岐点比率（%）
+  operatingLeverage: number; // 経営レバレッジ係数
+  isAttainable: boolean; // 限界利益率が正で分岐点が存在するか
+}
+
+// 変動費の費目
+export type VariableCostItem =
+  | "materialCost"
+  | "outsourcingCost"
+  | "merchandisePurchase"
+  | "otherVariableCost";
+
 // シナリオデータ
 export interface Scenario {
   id: string;
   periodId: string;
   label: string; // シナリオ名
-  salesChangeRate: number; // 売上高変化率（%）
-  variableCostRateChange: number; // 変動費率変化（%pt）
+  priceChangeRate: number; // 販売単価変化率（%）
+  volumeChangeRate: number; // 販売数量変化率（%）
+  variableCostRateChange: number; // 変動費率変化（%pt、基準単価に対する変動費単価の増減）
   laborCostChangeRate: number; // 人件費変化率（%）
   fixedCostChangeRate: number; // その他固定費変化率（%）
   employeeCount: number; // 従業員数
+  variableCostRateOverrides?: Partial<Record<VariableCostItem, number>>; // 費目別の変動費率変化（%pt）。指定した費目は変動費率変化の按分より優先
+  depreciationChangeRate?: number; // 減価償却費変化率（%）。未指定ならその他固定費変化率
+  otherExpensesChangeRate?: number; // その他経費変化率（%）。未指定ならその他固定費変化率
+  nonOperatingIncomeChange?: number; // 営業外損益の増減額（千円）
+  borrowingChange?: number; // 有利子負債の増減額（千円、返済はマイナス）
+  borrowingInterestRate?: number; // 増減する借入の金利（%）
+  capexDepreciationChange?: number; // 設備投資計画から連動した減価償却費の増減額（千円）。設定時は減価償却費の変化率より優先
+  effectiveTaxRate?: number; // 実効税率（%）。未指定なら基準期の実績税率（法人税等が未入力なら既定値）
+}
+
+// シナリオテンプレートに保存するパラメータ（企業・期に依存しない値）
+export type ScenarioTemplateParams = Omit<
+  Scenario,
+  "id" | "periodId" | "label" | "employeeCount" | "capexDepreciationChange"
+> & {
+  employeeCountChangeRate: number; // 基準期の従業員数に対する増減率（%）
+};
+
+// シナリオテンプレート（企業スロットをまたいで再利用する）
+export interface ScenarioTemplate {
+  id: string;
+  name: string; // テンプレート名（適用時のシナリオ名）
+  description: string; // 説明
+  params: ScenarioTemplateParams;
+  createdAt: string;
 }
 
 // シナリオ計算結果
 export interface ScenarioResult {
   scenario: Scenario;
+  basePeriodId: string; // 計算に使った基準期
+  basePeriodLabel: string;
   sales: number;
+  priceEffect: number; // 売上高増減のうち単価効果（試算数量 × 単価増減）
+  volumeEffect: number; // 売上高増減のうち数量効果（基準単価 × 数量増減）
   totalVariableCost: number;
   materialCost: number;
   outsourcingCost: number;
@@ -90,7 +270,13 @@ export interface ScenarioResult {
   totalFixedCost: number;
   operatingProfit: number;
   nonOperatingIncome: number;
+  nonOperatingIncomeChange: number; // 営業外損益の増減額（直接指定分）
+  interestExpenseChange: number; // 借入増減による支払利息の増減（増加がプラス）
   ordinaryProfit: number;
+  incomeBeforeTax: number; // 税引前当期純利益（シナリオでは特別損益を見込まないため経常利益と同額）
+  effectiveTaxRate: number; // 適用した実効税率（%）
+  corporateTax: number; // 法人税等（税引前が0以下なら0）
+  netIncome: number; // 当期純利益
   laborShareRate: number;
   salesPerEmployee: number;
   marginalProfitPerEmployee: number;
@@ -101,6 +287,284 @@ export interface ScenarioResult {
   ordinaryProfitChangeFromActual: number;
 }
 
+// 逆算（ゴールシーク）で解くシナリオのレバー
+export type ScenarioLever =
+  | "priceChangeRate"
+  | "volumeChangeRate"
+  | "variableCostRateChange"
+  | "laborCostChangeRate"
+  | "fixedCostChangeRate";
+
+// 逆算・感度分析の対象指標
+export type ScenarioMetric =
+  | "ordinaryProfit" // 経常利益
+  | "laborShareRate" // 労働分配率（%）
+  | "ordinaryProfitPerEmployee"; // 1人当たり経常利益
+
+// 逆算結果
+export interface GoalSeekResult {
+  lever: ScenarioLever;
+  metric: ScenarioMetric;
+  target: number;
+  achieved: boolean; // 探索範囲内で目標を達成できたか
+  value: number | null; // 目標を達成するレバーの値
+  result: ScenarioResult | null; // そのレバー値でのシナリオ計算結果
+}
+
+// 感度分析で動かすレバー（従業員数を含む）
+export type SensitivityLever = ScenarioLever | "employeeCount";
+
+// 各レバーの摂動幅（±）。率系は%または%pt、従業員数は人
+export type SensitivityRanges = Record<SensitivityLever, number>;
+
+// 感度分析: 1レバー分の結果
+export interface SensitivityItem {
+  lever: SensitivityLever;
+  baseValue: number; // 現在のレバー値
+  lowValue: number; // 下振れ時のレバー値
+  highValue: number; // 上振れ時のレバー値
+  lowResult: number; // 下振れ時の指標値
+  highResult: number; // 上振れ時の指標値
+  impact: number; // 影響幅 |上振れ − 下振れ|
+}
+
+// 感度分析結果（影響幅の大きい順）
+export interface SensitivityAnalysis {
+  metric: ScenarioMetric;
+  baseResult: number; // 現在のシナリオでの指標値
+  items: SensitivityItem[];
+}
+
+// 2次元シミュレーションの軸（レバーの掃引範囲）
+export interface GridAxis {
+  lever: ScenarioLever;
+  min: number;
+  max: number;
+  step: number;
+}
+
+// 2次元シミュレーションの1セル
+export interface GridCell {
+  xValue: number;
+  yValue: number;
+  ordinaryProfit: number;
+  laborShareRate: number;
+  isBreakEvenBoundary: boolean; // 隣接セルと経常利益の符号が異なる（損益分岐線上）
+}
+
+// 2次元シミュレーション結果（cells[y][x]）
+export interface GridSimulation {
+  xAxis: GridAxis;
+  yAxis: GridAxis;
+  xValues: number[];
+  yValues: number[];
+  cells: GridCell[][];
+}
+
+// モンテカルロ: レバーの確率分布（値はレバーそのもの。例: 販売数量変化率 %）
+export type LeverDistribution =
+  | { type: "fixed" } // シナリオの値で固定
+  | { type: "normal"; mean: number; stdDev: number }
+  | { type: "triangular"; min: number; mode: number; max: number }
+  | { type: "uniform"; min: number; max: number };
+
+// モンテカルロ設定
+export interface MonteCarloConfig {
+  distributions: Record<ScenarioLever, LeverDistribution>;
+  trials: number; // 試行回数
+  seed: number; // 乱数シード（同じシードなら同じ結果）
+}
+
+// ヒストグラムの1区間
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+// モンテカルロ結果（経常利益の分布）
+export interface MonteCarloResult {
+  trials: number;
+  seed: number;
+  mean: number;
+  stdDev: number;
+  min: number;
+  max: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  lossProbability: number; // 経常利益が0未満となる確率（%）
+  histogram: HistogramBin[];
+}
+
+// 中期経営計画の各年度パラメータ（いずれも前年度比）
+export interface PlanYear {
+  id: string;
+  label: string; // 年度ラベル（例：R8年4月期（計画））
+  salesGrowthRate: number; // 売上高成長率（%）
+  variableCostRateChange: number; // 変動費率変化（%pt）
+  wageIncreaseRate: number; // 賃上げ率（1人当たり人件費の上昇率 %）
+  employeeCount: number; // 従業員数
+  fixedCostChangeRate: number; // 減価償却費・その他経費の変化率（%）
+}
+
+// 減価償却方法
+// straightLine: 定額法 / decliningBalance: 定率法（200%定率法、均等償却額を下回ったら切替）
+export type DepreciationMethod = "straightLine" | "decliningBalance";
+
+// 設備投資計画の資産（年度は最新実績期の翌期を1とする。0以下は取得済みの既存資産）
+export interface CapexAsset {
+  id: string;
+  name: string; // 資産名
+  acquisitionCost: number; // 取得価額（千円）
+  usefulLife: number; // 耐用年数（年）
+  method: DepreciationMethod;
+  startYear: number; // 取得（償却開始）年度
+}
+
+// 資産ごとの減価償却スケジュールの1年度
+export interface DepreciationScheduleRow {
+  year: number; // 年度（最新実績期の翌期=1）
+  depreciation: number; // 減価償却費
+  bookValue: number; // 期末帳簿価額
+}
+
+// 設備投資計画の年度別集計
+export interface CapexScheduleYear {
+  year: number;
+  capex: number; // 当年度の取得額
+  depreciation: number; // 登録資産の減価償却費合計
+  bookValue: number; // 登録資産の期末帳簿価額合計
+  depreciationChange: number; // 前年度からの減価償却費の増減
+}
+
+// 借入金の返済方法
+// equalPrincipal: 元金均等 / equalPayment: 元利均等 / bullet: 期日一括
+export type RepaymentMethod = "equalPrincipal" | "equalPayment" | "bullet";
+
+// 借入金（残高は最新実績期末時点、年度は最新実績期の翌期を1とする）
+export interface Loan {
+  id: string;
+  name: string; // 借入先・名称
+  balance: number; // 期末残高（千円）
+  interestRate: number; // 年利（%）
+  remainingYears: number; // 残存返済年数
+  method: RepaymentMethod;
+}
+
+// 借入金の返済スケジュールの1年度（利息は期首残高に対して年1回計算）
+export interface LoanScheduleRow {
+  year: number;
+  openingBalance: number; // 期首残高
+  interest: number; // 支払利息
+  principal: number; // 元金返済額
+  closingBalance: number; // 期末残高
+}
+
+// 債務償還能力（簡易キャッシュフロー = 税引後経常利益＋減価償却費）
+export interface DebtRepaymentCapacity {
+  ordinaryProfit: number;
+  tax: number; // 想定税額（経常利益が赤字なら0）
+  depreciation: number;
+  cashFlow: number; // 簡易キャッシュフロー
+  debt: number; // 有利子負債残高
+  repaymentYears: number | null; // 債務償還年数（キャッシュフローが0以下なら null）
+}
+
+// 予算（1決算期分、千円）。PeriodData と同じ費目構成で、実績の期と periodId で対応づける
+// 棚卸高・貸借対照表・月次は持たず、calculateMetrics でそのまま評価できる
+export interface Budget extends Omit<PeriodData, "balanceSheet" | "inventory" | "monthly"> {
+  periodId: string; // 対象の決算期（1期につき1件）
+  sourceScenarioLabel?: string; // シナリオから作成した場合のシナリオ名（直接入力なら undefined）
+}
+
+// 予実差異の1行（差異 = 実績 − 予算、差異率 = 差異 ÷ |予算|。予算が0または率の行は null）
+export interface BudgetVarianceRow {
+  label: string;
+  unit: "千円" | "%" | "人";
+  budget: number;
+  actual: number;
+  variance: number;
+  varianceRate: number | null;
+  isCost: boolean; // 費用の行（実績が予算を下回ると有利差異）
+  isTotal: boolean; // 合計・利益の行
+}
+
+// 中期経営計画の年度別試算結果
+export interface PlanYearResult {
+  plan: PlanYear;
+  period: PeriodData; // 試算した損益（次年度の起点になる）
+  metrics: CalculatedMetrics;
+}
+
+// 賃上げ原資の試算条件
+export interface WageCapacityInput {
+  targetLaborShareRate: number; // 目標労働分配率（%）
+  targetOrdinaryProfit: number; // 目標経常利益（千円）
+  requestedRaiseRate: number; // 希望する賃上げ率（1人当たり人件費 %）
+}
+
+// 賃上げ原資の試算結果（従業員数・変動費率・その他固定費は基準期のまま）
+export interface WageCapacityResult {
+  currentLaborCost: number; // 現在の人件費
+  maxLaborCostByShare: number; // 目標労働分配率から見た人件費上限
+  maxLaborCostByProfit: number; // 目標経常利益を確保できる人件費上限
+  maxLaborCost: number; // 持続可能な人件費上限（両者の小さい方）
+  bindingConstraint: "laborShare" | "ordinaryProfit"; // 上限を決めている制約
+  laborCostHeadroom: number; // 賃上げ原資（上限 − 現在、マイナスは超過）
+  allowableRaisePerEmployee: number; // 1人当たり許容賃上げ額（年額）
+  allowableRaiseRate: number; // 許容賃上げ率（%）
+  requestedLaborCost: number; // 希望賃上げ後の人件費
+  requiredMarginalProfit: number; // 希望賃上げを両目標内で賄うのに必要な限界利益
+  requiredSalesGrowthRate: number | null; // 必要な売上高成長率（%、限界利益率一定）。算出不能時は null
+}
+
+// 価格転嫁シミュレーションの条件（変動費は費目別のインフレ率、固定費は変化率で指定）
+export interface PassThroughInput {
+  materialInflationRate: number; // 材料費の単価上昇率（%）
+  outsourcingInflationRate: number; // 外注費の単価上昇率（%）
+  merchandiseInflationRate: number; // 商品仕入の単価上昇率（%）
+  otherVariableInflationRate: number; // その他変動費の単価上昇率（%）
+  laborCostChangeRate: number; // 人件費変化率（%）
+  fixedCostChangeRate: number; // その他固定費変化率（%）
+  priceElasticity: number; // 価格弾力性（販売数量変化率 ÷ 販売単価変化率、通常は負）
+}
+
+// 価格転嫁の目標
+export type PassThroughTarget =
+  | "marginalProfit" // 限界利益額を維持
+  | "marginalProfitRate" // 限界利益率を維持
+  | "ordinaryProfit"; // 経常利益を維持
+
+// 価格改定後の試算値
+export interface PassThroughOutcome {
+  priceChangeRate: number; // 販売単価変化率（%）
+  volumeChangeRate: number; // 販売数量変化率（%）
+  sales: number;
+  totalVariableCost: number;
+  marginalProfit: number;
+  marginalProfitRate: number;
+  ordinaryProfit: number;
+  scenarioVariableCostRateChange: number; // シナリオ換算: 変動費率変化（%pt、基準単価に対する変動費単価の増加分）
+}
+
+// 目標別の価格転嫁結果（数量据え置き／価格弾力性あり）
+export interface PassThroughTargetResult {
+  target: PassThroughTarget;
+  volumeNeutral: PassThroughOutcome | null; // 到達不能時は null
+  volumeElastic: PassThroughOutcome | null;
+}
+
+// 価格転嫁シミュレーション結果
+export interface PassThroughAnalysis {
+  baseTotalVariableCost: number; // 基準期の変動費計
+  inflatedVariableCost: number; // 単価上昇後の変動費計（数量据え置き）
+  costIncrease: number; // 変動費の増加額
+  fixedCostIncrease: number; // 固定費の増加額
+  noPassThrough: PassThroughOutcome; // 価格据え置き（全額自社負担）の場合
+  targets: PassThroughTargetResult[];
+}
+
 // PDF解析結果
 export interface ExtractedPeriodData {
   label: string;
@@ -114,12 +578,45 @@ export interface ExtractedPeriodData {
   otherExpenses: number | null;
   nonOperatingIncome: number | null;
   employeeCount: number | null;
+  extraordinaryIncome: number | null;
+  extraordinaryLoss: number | null;
+  corporateTax: number | null;
+  beginningMaterials: number | null; // 以下、棚卸高（InventoryData と同じ項目）
+  endingMaterials: number | null;
+  beginningWorkInProgress: number | null;
+  endingWorkInProgress: number | null;
+  beginningFinishedGoods: number | null;
+  endingFinishedGoods: number | null;
+  beginningMerchandise: number | null;
+  endingMerchandise: number | null;
   ordinaryProfitFromPdf: number | null; // 決算書記載の経常利益（整合性チェック用）
   confidence: Record<string, "high" | "medium" | "low">;
   breakdown: Record<string, string>; // 各項目の計算根拠（例: "製造労務費 25,000 + 役員報酬 10,000 = 35,000"）
   notes: string[];
 }
 
+// PDF抽出結果（貸借対照表）
+export interface ExtractedBalanceSheetData {
+  label: string;
+  cashAndDeposits: number | null;
+  receivables: number | null;
+  inventories: number | null;
+  otherCurrentAssets: number | null;
+  tangibleFixedAssets: number | null;
+  intangibleFixedAssets: number | null;
+  investmentsAndOtherAssets: number | null;
+  payables: number | null;
+  shortTermBorrowings: number | null;
+  otherCurrentLiabilities: number | null;
+  longTermBorrowings: number | null;
+  otherFixedLiabilities: number | null;
+  netAssets: number | null;
+  totalAssetsFromPdf: number | null; // 決算書記載の資産合計（整合性チェック用）
+  confidence: Record<string, "high" | "medium" | "low">;
+  breakdown: Record<string, string>;
+  notes: string[];
+}
+
 // アプリ全体の状態
 export interface AppState {
   company: Company;